@@ -0,0 +1,75 @@
+/**
+ * Tests for GeminiEmbeddingAdapter
+ */
+
+import { GeminiEmbeddingAdapter } from './GeminiEmbeddingAdapter';
+
+jest.mock('@google/genai');
+import { GoogleGenAI } from '@google/genai';
+
+describe('GeminiEmbeddingAdapter', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  let mockEmbedContent: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEmbedContent = jest.fn();
+    (GoogleGenAI as jest.MockedClass<typeof GoogleGenAI>).mockImplementation(
+      () => ({ models: { embedContent: mockEmbedContent } }) as any
+    );
+  });
+
+  it('should embed all inputs in one call with outputDimensionality', async () => {
+    mockEmbedContent.mockResolvedValue({
+      embeddings: [{ values: [1, 2] }, { values: [3, 4] }],
+    });
+
+    const result = await new GeminiEmbeddingAdapter({ logger }).embed({
+      modelId: 'gemini-embedding-001',
+      input: ['a', 'b'],
+      dimensions: 2,
+      apiKey: 'AIza-test',
+    });
+
+    const params = mockEmbedContent.mock.calls[0][0];
+    expect(params.model).toBe('gemini-embedding-001');
+    expect(params.contents).toEqual(['a', 'b']);
+    expect(params.config.outputDimensionality).toBe(2);
+    expect(params.config.abortSignal).toBeInstanceOf(AbortSignal);
+    expect(result).toEqual({ embeddings: [[1, 2], [3, 4]] });
+  });
+
+  it('should fail when the response is missing vectors', async () => {
+    mockEmbedContent.mockResolvedValue({ embeddings: [{ values: [1] }] });
+
+    await expect(
+      new GeminiEmbeddingAdapter({ logger }).embed({
+        modelId: 'gemini-embedding-001',
+        input: ['a', 'b'],
+        apiKey: 'AIza-test',
+      })
+    ).rejects.toThrow('1 embeddings for 2 inputs');
+  });
+
+  it('should classify its own timeout as REQUEST_TIMEOUT', async () => {
+    mockEmbedContent.mockImplementation(
+      ({ config }) =>
+        new Promise((_, reject) => {
+          config.abortSignal.addEventListener('abort', () => {
+            const error = new Error('This operation was aborted');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        })
+    );
+
+    await expect(
+      new GeminiEmbeddingAdapter({ logger }).embed({
+        modelId: 'gemini-embedding-001',
+        input: ['a'],
+        apiKey: 'AIza-test',
+        timeoutMs: 5,
+      })
+    ).rejects.toMatchObject({ code: 'REQUEST_TIMEOUT', type: 'timeout_error' });
+  });
+});
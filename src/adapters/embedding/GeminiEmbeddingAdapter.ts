@@ -0,0 +1,94 @@
+/**
+ * Gemini Embeddings Adapter
+ *
+ * Adapter for the Gemini API embedContent method via @google/genai. A single
+ * call embeds every entry of the batch; `outputDimensionality` truncates the
+ * vectors (Gemini does not re-normalize truncated vectors, so callers usually
+ * want `normalize: true` alongside `dimensions`).
+ *
+ * Based on: https://ai.google.dev/gemini-api/docs/embeddings
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type {
+  EmbeddingProviderAdapter,
+  EmbeddingProviderAdapterConfig,
+  EmbeddingUsage,
+} from '../../types/embedding';
+import type { Logger } from '../../logging/types';
+import { createDefaultLogger } from '../../logging/defaultLogger';
+import { createEmbeddingAdapterError } from './embeddingErrorUtils';
+
+/**
+ * Adapter for Gemini's embedding API
+ */
+export class GeminiEmbeddingAdapter implements EmbeddingProviderAdapter {
+  readonly id = 'gemini';
+
+  private timeout: number;
+  private logger: Logger;
+
+  constructor(config?: EmbeddingProviderAdapterConfig) {
+    this.timeout = config?.timeout || 60000;
+    this.logger = config?.logger ?? createDefaultLogger();
+  }
+
+  /**
+   * Embeds a batch of inputs using the Gemini API
+   */
+  async embed(config: {
+    modelId: string;
+    input: string[];
+    dimensions?: number;
+    apiKey: string | null;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+  }): Promise<{ embeddings: number[][]; usage?: EmbeddingUsage }> {
+    const { modelId, input, dimensions, apiKey, signal } = config;
+
+    if (!apiKey) {
+      throw new Error('Gemini API key is required but was not provided');
+    }
+
+    // The SDK surfaces its own timeout and a caller abort as the same
+    // AbortError, so the adapter owns the timeout and classifies it itself
+    const timeoutSignal = AbortSignal.timeout(config.timeoutMs ?? this.timeout);
+    const abortSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+    try {
+      const genAI = new GoogleGenAI({ apiKey });
+
+      this.logger.debug(`Gemini embedContent call for model: ${modelId}`, {
+        inputs: input.length,
+        dimensions,
+      });
+
+      const response = await genAI.models.embedContent({
+        model: modelId,
+        contents: input,
+        config: {
+          abortSignal,
+          ...(dimensions !== undefined && { outputDimensionality: dimensions }),
+        },
+      });
+
+      const embeddings = (response.embeddings ?? []).map((item) => item.values ?? []);
+      if (embeddings.length !== input.length) {
+        throw new Error(
+          `Gemini API returned ${embeddings.length} embeddings for ${input.length} inputs`
+        );
+      }
+
+      // The Gemini Developer API does not report token usage for embeddings
+      return { embeddings };
+    } catch (error) {
+      this.logger.error('Gemini embedContent error:', error);
+      let cause: any = error;
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        cause = new Error('Gemini embedding request timed out');
+        cause.name = 'TimeoutError';
+      }
+      throw createEmbeddingAdapterError(cause, { providerId: this.id, modelId });
+    }
+  }
+}
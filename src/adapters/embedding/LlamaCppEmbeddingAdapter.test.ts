@@ -0,0 +1,62 @@
+/**
+ * Tests for LlamaCppEmbeddingAdapter
+ */
+
+import { LlamaCppEmbeddingAdapter } from './LlamaCppEmbeddingAdapter';
+
+jest.mock('openai');
+import OpenAI from 'openai';
+
+describe('LlamaCppEmbeddingAdapter', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  let mockCreate: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreate = jest.fn();
+    (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(
+      () => ({ embeddings: { create: mockCreate } }) as any
+    );
+  });
+
+  it('should call the server /v1/embeddings endpoint without an API key', async () => {
+    mockCreate.mockResolvedValue({
+      data: [{ index: 0, embedding: [0.1, 0.2, 0.3] }],
+      usage: { prompt_tokens: 3, total_tokens: 3 },
+    });
+
+    const result = await new LlamaCppEmbeddingAdapter({
+      baseURL: 'http://localhost:9000/',
+      logger,
+    }).embed({ modelId: 'llamacpp', input: ['hello'], apiKey: null });
+
+    expect(OpenAI).toHaveBeenCalledWith(
+      expect.objectContaining({
+        apiKey: 'not-needed',
+        baseURL: 'http://localhost:9000/v1',
+        maxRetries: 0,
+      })
+    );
+    expect(mockCreate.mock.calls[0][0]).toEqual({
+      model: 'llamacpp',
+      input: ['hello'],
+      encoding_format: 'float',
+    });
+    expect(result).toEqual({ embeddings: [[0.1, 0.2, 0.3]], usage: { inputTokens: 3 } });
+  });
+
+  it('should add the server URL to connection errors', async () => {
+    mockCreate.mockRejectedValue(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+
+    await expect(
+      new LlamaCppEmbeddingAdapter({ logger }).embed({
+        modelId: 'llamacpp',
+        input: ['hello'],
+        apiKey: null,
+      })
+    ).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      message: expect.stringContaining('http://127.0.0.1:8080'),
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * llama.cpp Embeddings Adapter
+ *
+ * Adapter for llama-server's OpenAI-compatible /v1/embeddings endpoint. The
+ * server must be started with `--embeddings` (and typically `--pooling` set
+ * for the loaded model); the vector length is whatever that model produces.
+ *
+ * For the native single-input /embedding endpoint, use
+ * LlamaCppServerClient.createEmbedding instead.
+ */
+
+import OpenAI from 'openai';
+import type {
+  EmbeddingProviderAdapter,
+  EmbeddingProviderAdapterConfig,
+  EmbeddingUsage,
+} from '../../types/embedding';
+import type { Logger } from '../../logging/types';
+import { createDefaultLogger } from '../../logging/defaultLogger';
+import { createEmbeddingAdapterError } from './embeddingErrorUtils';
+
+/**
+ * Adapter for llama.cpp's OpenAI-compatible embeddings endpoint
+ */
+export class LlamaCppEmbeddingAdapter implements EmbeddingProviderAdapter {
+  readonly id = 'llamacpp';
+
+  private baseURL: string;
+  private timeout: number;
+  private logger: Logger;
+
+  constructor(config?: EmbeddingProviderAdapterConfig) {
+    this.baseURL = (config?.baseURL || 'http://127.0.0.1:8080').replace(/\/$/, '');
+    this.timeout = config?.timeout || 120000;
+    this.logger = config?.logger ?? createDefaultLogger();
+  }
+
+  /**
+   * Embeds a batch of inputs using the llama.cpp server
+   */
+  async embed(config: {
+    modelId: string;
+    input: string[];
+    dimensions?: number;
+    apiKey: string | null;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+  }): Promise<{ embeddings: number[][]; usage?: EmbeddingUsage }> {
+    const { modelId, input, apiKey, signal, timeoutMs } = config;
+
+    try {
+      const client = new OpenAI({
+        apiKey: apiKey || 'not-needed',
+        baseURL: `${this.baseURL}/v1`,
+        timeout: this.timeout,
+        maxRetries: 0, // retries are owned by the EmbeddingService retry layer
+      });
+
+      this.logger.debug(`llama.cpp embeddings call for model: ${modelId}`, {
+        inputs: input.length,
+      });
+
+      const requestOptions = {
+        ...(signal && { signal }),
+        ...(timeoutMs !== undefined && { timeout: timeoutMs }),
+      };
+      const response = await client.embeddings.create(
+        { model: modelId, input, encoding_format: 'float' },
+        Object.keys(requestOptions).length > 0 ? requestOptions : undefined
+      );
+
+      if (!response.data || response.data.length !== input.length) {
+        throw new Error(
+          `llama.cpp returned ${response.data?.length ?? 0} embeddings for ${input.length} inputs`
+        );
+      }
+
+      const embeddings: number[][] = new Array(input.length);
+      for (const item of response.data) {
+        embeddings[item.index] = item.embedding;
+      }
+
+      return {
+        embeddings,
+        ...(response.usage && { usage: { inputTokens: response.usage.prompt_tokens } }),
+      };
+    } catch (error) {
+      this.logger.error('llama.cpp embeddings error:', error);
+      throw createEmbeddingAdapterError(error, {
+        providerId: this.id,
+        modelId,
+        baseURL: this.baseURL,
+      });
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for MistralEmbeddingAdapter
+ */
+
+const mockCreate = jest.fn();
+
+jest.mock('@mistralai/mistralai', () => {
+  return {
+    Mistral: jest.fn().mockImplementation(() => ({
+      embeddings: {
+        create: (...args: any[]) => mockCreate(...args),
+      },
+    })),
+  };
+});
+
+import { MistralEmbeddingAdapter } from './MistralEmbeddingAdapter';
+
+describe('MistralEmbeddingAdapter', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send inputs with outputDimension and report prompt tokens', async () => {
+    mockCreate.mockResolvedValue({
+      data: [
+        { index: 0, embedding: [0.5] },
+        { index: 1, embedding: [0.25] },
+      ],
+      usage: { promptTokens: 4, totalTokens: 4 },
+    });
+
+    const result = await new MistralEmbeddingAdapter({ logger }).embed({
+      modelId: 'codestral-embed',
+      input: ['a', 'b'],
+      dimensions: 1,
+      apiKey: 'mistral-key',
+      timeoutMs: 2000,
+    });
+
+    expect(mockCreate).toHaveBeenCalledWith(
+      { model: 'codestral-embed', inputs: ['a', 'b'], outputDimension: 1 },
+      { timeoutMs: 2000 }
+    );
+    expect(result).toEqual({ embeddings: [[0.5], [0.25]], usage: { inputTokens: 4 } });
+  });
+
+  it('should compose a caller signal with the timeout', async () => {
+    mockCreate.mockResolvedValue({ data: [{ index: 0, embedding: [1] }] });
+    const controller = new AbortController();
+
+    await new MistralEmbeddingAdapter({ logger }).embed({
+      modelId: 'mistral-embed',
+      input: ['a'],
+      apiKey: 'mistral-key',
+      signal: controller.signal,
+    });
+
+    const transport = mockCreate.mock.calls[0][1];
+    expect(transport.signal).toBeInstanceOf(AbortSignal);
+    expect(transport.timeoutMs).toBeUndefined();
+  });
+
+  it('should map SDK status codes onto the thrown error', async () => {
+    mockCreate.mockRejectedValue(
+      Object.assign(new Error('Service unavailable'), { statusCode: 503 })
+    );
+
+    await expect(
+      new MistralEmbeddingAdapter({ logger }).embed({
+        modelId: 'mistral-embed',
+        input: ['a'],
+        apiKey: 'mistral-key',
+      })
+    ).rejects.toMatchObject({ code: 'PROVIDER_ERROR', status: 503 });
+  });
+});
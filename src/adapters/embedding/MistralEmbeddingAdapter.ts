@@ -0,0 +1,106 @@
+/**
+ * Mistral Embeddings Adapter
+ *
+ * Adapter for Mistral's /v1/embeddings endpoint via @mistralai/mistralai.
+ * codestral-embed accepts a reduced `outputDimension`; mistral-embed is fixed
+ * at 1024 dimensions.
+ *
+ * Based on: https://docs.mistral.ai/api/#tag/embeddings
+ */
+
+import { Mistral } from '@mistralai/mistralai';
+import type {
+  EmbeddingProviderAdapter,
+  EmbeddingProviderAdapterConfig,
+  EmbeddingUsage,
+} from '../../types/embedding';
+import type { Logger } from '../../logging/types';
+import { createDefaultLogger } from '../../logging/defaultLogger';
+import { createEmbeddingAdapterError } from './embeddingErrorUtils';
+
+/**
+ * Adapter for Mistral's embeddings API
+ */
+export class MistralEmbeddingAdapter implements EmbeddingProviderAdapter {
+  readonly id = 'mistral';
+
+  private baseURL?: string;
+  private timeout: number;
+  private logger: Logger;
+
+  constructor(config?: EmbeddingProviderAdapterConfig) {
+    this.baseURL = config?.baseURL;
+    this.timeout = config?.timeout || 60000;
+    this.logger = config?.logger ?? createDefaultLogger();
+  }
+
+  /**
+   * Embeds a batch of inputs using Mistral's API
+   */
+  async embed(config: {
+    modelId: string;
+    input: string[];
+    dimensions?: number;
+    apiKey: string | null;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+  }): Promise<{ embeddings: number[][]; usage?: EmbeddingUsage }> {
+    const { modelId, input, dimensions, apiKey, signal } = config;
+
+    if (!apiKey) {
+      throw new Error('Mistral API key is required but was not provided');
+    }
+
+    try {
+      const mistral = new Mistral({
+        apiKey,
+        ...(this.baseURL && { serverURL: this.baseURL }),
+      });
+
+      this.logger.debug(`Mistral Embeddings API call for model: ${modelId}`, {
+        inputs: input.length,
+        dimensions,
+      });
+
+      // The SDK ignores timeoutMs whenever a signal is supplied, so a caller
+      // signal is composed with the timeout. AbortSignal.timeout carries a
+      // TimeoutError reason, which the SDK maps to RequestTimeoutError.
+      const timeoutMs = config.timeoutMs ?? this.timeout;
+      const response = await mistral.embeddings.create(
+        {
+          model: modelId,
+          inputs: input,
+          ...(dimensions !== undefined && { outputDimension: dimensions }),
+        },
+        signal
+          ? { signal: AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]) }
+          : { timeoutMs }
+      );
+
+      if (!response.data || response.data.length !== input.length) {
+        throw new Error(
+          `Mistral API returned ${response.data?.length ?? 0} embeddings for ${input.length} inputs`
+        );
+      }
+
+      const embeddings: number[][] = new Array(input.length);
+      response.data.forEach((item, position) => {
+        embeddings[item.index ?? position] = item.embedding ?? [];
+      });
+
+      return {
+        embeddings,
+        ...(response.usage?.promptTokens !== undefined && {
+          usage: { inputTokens: response.usage.promptTokens },
+        }),
+      };
+    } catch (error) {
+      this.logger.error('Mistral Embeddings API error:', error);
+      throw createEmbeddingAdapterError(error, {
+        providerId: this.id,
+        modelId,
+        baseURL: this.baseURL || 'https://api.mistral.ai',
+      });
+    }
+  }
+}
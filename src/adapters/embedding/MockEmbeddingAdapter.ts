@@ -0,0 +1,59 @@
+/**
+ * Mock Embedding Adapter for testing and fallback
+ *
+ * Produces deterministic vectors derived from the input text, so equal inputs
+ * always embed identically without any network access.
+ */
+
+import type { EmbeddingProviderAdapter, EmbeddingUsage } from '../../types/embedding';
+import { ADAPTER_ERROR_CODES } from '../../llm/clients/types';
+
+const DEFAULT_MOCK_DIMENSIONS = 8;
+
+/**
+ * Mock adapter for testing embeddings
+ */
+export class MockEmbeddingAdapter implements EmbeddingProviderAdapter {
+  readonly id = 'mock-embedding-provider';
+
+  /**
+   * Generates mock embeddings
+   */
+  async embed(config: {
+    modelId: string;
+    input: string[];
+    dimensions?: number;
+    apiKey: string | null;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+  }): Promise<{ embeddings: number[][]; usage?: EmbeddingUsage }> {
+    const { input, dimensions, signal } = config;
+
+    if (signal?.aborted) {
+      const error: any = new Error('Embedding request was aborted');
+      error.code = ADAPTER_ERROR_CODES.REQUEST_ABORTED;
+      error.type = 'abort_error';
+      throw error;
+    }
+
+    const size = dimensions ?? DEFAULT_MOCK_DIMENSIONS;
+    const embeddings = input.map((text) => {
+      // Seed a small LCG from the text so vectors are stable per input
+      let seed = 0;
+      for (let i = 0; i < text.length; i++) {
+        seed = (seed * 31 + text.charCodeAt(i)) >>> 0;
+      }
+      return Array.from({ length: size }, () => {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        return seed / 0xffffffff - 0.5;
+      });
+    });
+
+    return {
+      embeddings,
+      usage: {
+        inputTokens: input.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0),
+      },
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for OpenAIEmbeddingAdapter
+ */
+
+import { OpenAIEmbeddingAdapter } from './OpenAIEmbeddingAdapter';
+
+// Mock the OpenAI SDK
+jest.mock('openai');
+import OpenAI from 'openai';
+
+describe('OpenAIEmbeddingAdapter', () => {
+  let adapter: OpenAIEmbeddingAdapter;
+  let mockCreate: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adapter = new OpenAIEmbeddingAdapter({ logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } });
+    mockCreate = jest.fn();
+    (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(
+      () => ({ embeddings: { create: mockCreate } }) as any
+    );
+  });
+
+  it('should validate OpenAI API key format', () => {
+    expect(adapter.validateApiKey('sk-1234567890abcdefghij')).toBe(true);
+    expect(adapter.validateApiKey('invalid-key')).toBe(false);
+  });
+
+  it('should send the batch with dimensions and order results by index', async () => {
+    mockCreate.mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0.3, 0.4] },
+        { index: 0, embedding: [0.1, 0.2] },
+      ],
+      usage: { prompt_tokens: 7, total_tokens: 7 },
+    });
+
+    const result = await adapter.embed({
+      modelId: 'text-embedding-3-small',
+      input: ['a', 'b'],
+      dimensions: 2,
+      apiKey: 'sk-test',
+      timeoutMs: 1000,
+    });
+
+    expect(mockCreate).toHaveBeenCalledWith(
+      {
+        model: 'text-embedding-3-small',
+        input: ['a', 'b'],
+        encoding_format: 'float',
+        dimensions: 2,
+      },
+      { timeout: 1000 }
+    );
+    expect(OpenAI).toHaveBeenCalledWith(expect.objectContaining({ maxRetries: 0 }));
+    expect(result).toEqual({
+      embeddings: [
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ],
+      usage: { inputTokens: 7 },
+    });
+  });
+
+  it('should require an API key', async () => {
+    await expect(
+      adapter.embed({ modelId: 'text-embedding-3-small', input: ['a'], apiKey: null })
+    ).rejects.toThrow('API key is required');
+  });
+
+  it('should throw errors stamped with mapped code, type and status', async () => {
+    mockCreate.mockRejectedValue(Object.assign(new Error('Rate limited'), { status: 429 }));
+
+    await expect(
+      adapter.embed({ modelId: 'text-embedding-3-small', input: ['a'], apiKey: 'sk-test' })
+    ).rejects.toMatchObject({
+      message: 'Rate limited',
+      code: 'RATE_LIMIT_EXCEEDED',
+      type: 'rate_limit_error',
+      status: 429,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * OpenAI Embeddings API Adapter
+ *
+ * Adapter for OpenAI's /v1/embeddings endpoint (text-embedding-3 and ada-002).
+ * text-embedding-3 models accept a reduced `dimensions` parameter.
+ *
+ * Based on: https://platform.openai.com/docs/api-reference/embeddings/create
+ */
+
+import OpenAI from 'openai';
+import type {
+  EmbeddingProviderAdapter,
+  EmbeddingProviderAdapterConfig,
+  EmbeddingUsage,
+} from '../../types/embedding';
+import type { Logger } from '../../logging/types';
+import { createDefaultLogger } from '../../logging/defaultLogger';
+import { createEmbeddingAdapterError } from './embeddingErrorUtils';
+
+/**
+ * Adapter for OpenAI's embeddings API
+ */
+export class OpenAIEmbeddingAdapter implements EmbeddingProviderAdapter {
+  readonly id = 'openai';
+
+  private baseURL?: string;
+  private timeout: number;
+  private logger: Logger;
+
+  constructor(config?: EmbeddingProviderAdapterConfig) {
+    this.baseURL = config?.baseURL;
+    this.timeout = config?.timeout || 60000;
+    this.logger = config?.logger ?? createDefaultLogger();
+  }
+
+  /**
+   * Validates OpenAI API key format
+   */
+  validateApiKey(apiKey: string): boolean {
+    // OpenAI API keys typically start with 'sk-' and are at least 20 characters
+    return apiKey.startsWith('sk-') && apiKey.length >= 20;
+  }
+
+  /**
+   * Embeds a batch of inputs using OpenAI's API
+   */
+  async embed(config: {
+    modelId: string;
+    input: string[];
+    dimensions?: number;
+    apiKey: string | null;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+  }): Promise<{ embeddings: number[][]; usage?: EmbeddingUsage }> {
+    const { modelId, input, dimensions, apiKey, signal, timeoutMs } = config;
+
+    if (!apiKey) {
+      throw new Error('OpenAI API key is required but was not provided');
+    }
+
+    try {
+      const client = new OpenAI({
+        apiKey,
+        ...(this.baseURL && { baseURL: this.baseURL }),
+        timeout: this.timeout,
+        maxRetries: 0, // retries are owned by the EmbeddingService retry layer
+      });
+
+      this.logger.debug(`OpenAI Embeddings API call for model: ${modelId}`, {
+        inputs: input.length,
+        dimensions,
+      });
+
+      const requestOptions = {
+        ...(signal && { signal }),
+        ...(timeoutMs !== undefined && { timeout: timeoutMs }),
+      };
+      const response = await client.embeddings.create(
+        {
+          model: modelId,
+          input,
+          encoding_format: 'float',
+          ...(dimensions !== undefined && { dimensions }),
+        },
+        Object.keys(requestOptions).length > 0 ? requestOptions : undefined
+      );
+
+      if (!response.data || response.data.length !== input.length) {
+        throw new Error(
+          `OpenAI API returned ${response.data?.length ?? 0} embeddings for ${input.length} inputs`
+        );
+      }
+
+      // Entries carry their input index; don't rely on array order
+      const embeddings: number[][] = new Array(input.length);
+      for (const item of response.data) {
+        embeddings[item.index] = item.embedding;
+      }
+
+      return {
+        embeddings,
+        ...(response.usage && { usage: { inputTokens: response.usage.prompt_tokens } }),
+      };
+    } catch (error) {
+      this.logger.error('OpenAI Embeddings API error:', error);
+      throw createEmbeddingAdapterError(error, {
+        providerId: this.id,
+        modelId,
+        baseURL: this.baseURL || 'https://api.openai.com/v1',
+      });
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { getCommonMappedErrorDetails } from '../../shared/adapters/errorUtils';
+
+/**
+ * Converts a provider/network error into the stamped error shape the
+ * EmbeddingService expects adapters to throw (code/type/status/retryAfterMs).
+ *
+ * @param error - The error raised by the SDK or fetch call
+ * @param context - Provider, model and base URL for error context
+ * @returns Error carrying the mapped classification
+ */
+export function createEmbeddingAdapterError(
+  error: any,
+  context: { providerId: string; modelId: string; baseURL?: string }
+): Error {
+  const mapped = getCommonMappedErrorDetails(error);
+
+  let errorMessage = mapped.errorMessage;
+
+  // Add baseURL context for network errors
+  if (mapped.errorCode === 'NETWORK_ERROR' && context.baseURL) {
+    errorMessage = `${errorMessage} (connecting to ${context.baseURL})`;
+  }
+
+  const enhancedError = new Error(errorMessage);
+  (enhancedError as any).code = mapped.errorCode;
+  (enhancedError as any).type = mapped.errorType;
+  (enhancedError as any).status = mapped.status;
+  if (mapped.retryAfterMs !== undefined) {
+    (enhancedError as any).retryAfterMs = mapped.retryAfterMs;
+  }
+  (enhancedError as any).providerId = context.providerId;
+  (enhancedError as any).modelId = context.modelId;
+
+  return enhancedError;
+}
@@ -0,0 +1,331 @@
+/**
+ * Unit tests for EmbeddingService
+ *
+ * Focus: request resolution and validation, batch splitting, normalization,
+ * usage aggregation, retries and failure-envelope propagation.
+ */
+
+import { EmbeddingService } from './EmbeddingService';
+import type {
+  EmbeddingProviderAdapter,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  EmbeddingFailureResponse,
+} from '../types/embedding';
+
+type EmbedMock = jest.Mock<
+  ReturnType<EmbeddingProviderAdapter['embed']>,
+  Parameters<EmbeddingProviderAdapter['embed']>
+>;
+
+const openaiRequest: EmbeddingRequest = {
+  providerId: 'openai',
+  modelId: 'text-embedding-3-small',
+  input: ['first', 'second'],
+};
+
+function embedMock(impl: EmbeddingProviderAdapter['embed']): EmbedMock {
+  return jest.fn(impl);
+}
+
+/**
+ * Embed mock that returns one [index, length] vector per input
+ */
+function makeEmbed(): EmbedMock {
+  return embedMock(async ({ input }) => ({
+    embeddings: input.map((text, i) => [i, text.length]),
+    usage: { inputTokens: input.length * 2 },
+  }));
+}
+
+function makeService(
+  embed: EmbedMock,
+  providerId: string = 'openai',
+  retry?: Record<string, unknown>
+): EmbeddingService {
+  return new EmbeddingService(async () => 'sk-test-key-1234567890abcdef', {
+    adapters: { [providerId]: { id: providerId, embed } },
+    logLevel: 'silent',
+    // Tiny delays keep the tests fast with real timers
+    retry: { initialDelayMs: 1, maxDelayMs: 20, ...retry },
+  });
+}
+
+function transientError(code: string, extra?: Record<string, unknown>): any {
+  return Object.assign(new Error(`transient ${code}`), {
+    code,
+    type: 'server_error',
+    ...extra,
+  });
+}
+
+describe('EmbeddingService', () => {
+  describe('embed', () => {
+    it('returns one indexed vector per input with token usage', async () => {
+      const embed = makeEmbed();
+      const result = (await makeService(embed).embed(openaiRequest)) as EmbeddingResponse;
+
+      expect(result.object).toBe('embedding.result');
+      expect(result.providerId).toBe('openai');
+      expect(result.modelId).toBe('text-embedding-3-small');
+      expect(result.data).toEqual([
+        { index: 0, embedding: [0, 5] },
+        { index: 1, embedding: [1, 6] },
+      ]);
+      expect(result.usage).toEqual({ inputTokens: 4 });
+      expect(embed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelId: 'text-embedding-3-small',
+          input: ['first', 'second'],
+          apiKey: 'sk-test-key-1234567890abcdef',
+        })
+      );
+    });
+
+    it('wraps a single string input in a one-entry batch', async () => {
+      const embed = makeEmbed();
+      const result = (await makeService(embed).embed({
+        ...openaiRequest,
+        input: 'only',
+      })) as EmbeddingResponse;
+
+      expect(embed.mock.calls[0][0].input).toEqual(['only']);
+      expect(result.data).toHaveLength(1);
+    });
+
+    it('splits inputs larger than the model batch size and sums usage', async () => {
+      const embed = makeEmbed();
+      const input = Array.from({ length: 250 }, (_, i) => `text ${i}`);
+
+      const result = (await makeService(embed, 'gemini').embed({
+        providerId: 'gemini',
+        modelId: 'gemini-embedding-001',
+        input,
+      })) as EmbeddingResponse;
+
+      expect(embed.mock.calls.map(([call]) => call.input.length)).toEqual([100, 100, 50]);
+      expect(result.data).toHaveLength(250);
+      expect(result.data[249]).toEqual({ index: 249, embedding: [49, 'text 249'.length] });
+      expect(result.usage).toEqual({ inputTokens: 500 });
+    });
+
+    it('omits usage when the provider reports none', async () => {
+      const embed = embedMock(async ({ input }) => ({
+        embeddings: input.map(() => [1]),
+      }));
+      const result = (await makeService(embed).embed(openaiRequest)) as EmbeddingResponse;
+
+      expect(result.usage).toBeUndefined();
+    });
+
+    it('normalizes vectors to unit length when requested', async () => {
+      const embed = embedMock(async () => ({
+        embeddings: [[3, 4], [0, 0]],
+      }));
+      const result = (await makeService(embed).embed({
+        ...openaiRequest,
+        settings: { normalize: true },
+      })) as EmbeddingResponse;
+
+      expect(result.data[0].embedding).toEqual([0.6, 0.8]);
+      expect(result.data[1].embedding).toEqual([0, 0]);
+    });
+
+    it('passes dimensions only to models that support them', async () => {
+      const embed = makeEmbed();
+      const service = makeService(embed);
+
+      await service.embed({ ...openaiRequest, settings: { dimensions: 256 } });
+      await service.embed({
+        ...openaiRequest,
+        modelId: 'text-embedding-ada-002',
+        settings: { dimensions: 1536 },
+      });
+
+      expect(embed.mock.calls[0][0].dimensions).toBe(256);
+      expect(embed.mock.calls[1][0].dimensions).toBeUndefined();
+    });
+
+    it('resolves provider, model and settings from a preset', async () => {
+      const embed = makeEmbed();
+      await makeService(embed, 'gemini').embed({
+        presetId: 'gemini-embedding-001-768',
+        input: 'hello',
+      });
+
+      expect(embed.mock.calls[0][0]).toMatchObject({
+        modelId: 'gemini-embedding-001',
+        dimensions: 768,
+      });
+    });
+
+    it('accepts any model ID for llama.cpp', async () => {
+      const embed = makeEmbed();
+      const result = await makeService(embed, 'llamacpp').embed({
+        providerId: 'llamacpp',
+        modelId: 'nomic-embed-text-v1.5.gguf',
+        input: 'hello',
+      });
+
+      expect(result.object).toBe('embedding.result');
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects unknown models', async () => {
+      const result = (await makeService(makeEmbed()).embed({
+        ...openaiRequest,
+        modelId: 'nope',
+      })) as EmbeddingFailureResponse;
+
+      expect(result.error.code).toBe('MODEL_NOT_FOUND');
+    });
+
+    it('rejects empty input before calling the adapter', async () => {
+      const embed = makeEmbed();
+      const result = (await makeService(embed).embed({
+        ...openaiRequest,
+        input: ['ok', '  '],
+      })) as EmbeddingFailureResponse;
+
+      expect(result.error).toMatchObject({ code: 'EMPTY_INPUT', param: 'input[1]' });
+      expect(embed).not.toHaveBeenCalled();
+    });
+
+    it('rejects dimensions the model cannot produce', async () => {
+      const service = makeService(makeEmbed());
+
+      const tooLarge = (await service.embed({
+        ...openaiRequest,
+        settings: { dimensions: 4096 },
+      })) as EmbeddingFailureResponse;
+      const fixed = (await service.embed({
+        ...openaiRequest,
+        modelId: 'text-embedding-ada-002',
+        settings: { dimensions: 512 },
+      })) as EmbeddingFailureResponse;
+
+      expect(tooLarge.error.code).toBe('INVALID_DIMENSIONS');
+      expect(fixed.error.code).toBe('DIMENSIONS_NOT_SUPPORTED');
+    });
+
+    it('rejects API keys the adapter considers malformed', async () => {
+      const service = new EmbeddingService(async () => 'bad-key', { logLevel: 'silent' });
+      const result = (await service.embed(openaiRequest)) as EmbeddingFailureResponse;
+
+      expect(result.error.code).toBe('INVALID_API_KEY');
+    });
+  });
+
+  describe('failure envelope and retries', () => {
+    it('propagates adapter-mapped code/type/status to the failure envelope', async () => {
+      const embed = embedMock(async () => {
+        throw Object.assign(new Error('Bad key'), {
+          code: 'INVALID_API_KEY',
+          type: 'authentication_error',
+          status: 401,
+        });
+      });
+      const result = (await makeService(embed).embed(openaiRequest)) as EmbeddingFailureResponse;
+
+      expect(result.error).toMatchObject({
+        message: 'Bad key',
+        code: 'INVALID_API_KEY',
+        type: 'authentication_error',
+        status: 401,
+      });
+      expect(embed).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries transient failures and returns the eventual success', async () => {
+      const embed = makeEmbed();
+      embed.mockRejectedValueOnce(transientError('RATE_LIMIT_EXCEEDED'));
+
+      const result = await makeService(embed).embed(openaiRequest);
+
+      expect(result.object).toBe('embedding.result');
+      expect(embed).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries only the failing batch', async () => {
+      const embed = makeEmbed();
+      embed
+        .mockImplementationOnce(async ({ input }) => ({ embeddings: input.map(() => [0]) }))
+        .mockRejectedValueOnce(transientError('PROVIDER_ERROR', { status: 503 }));
+
+      const result = await makeService(embed, 'gemini').embed({
+        providerId: 'gemini',
+        modelId: 'gemini-embedding-001',
+        input: Array.from({ length: 150 }, (_, i) => `t${i}`),
+      });
+
+      expect(result.object).toBe('embedding.result');
+      expect(embed.mock.calls.map(([call]) => call.input[0])).toEqual(['t0', 't100', 't100']);
+    });
+
+    it('honors a per-call maxRetries: 0 override', async () => {
+      const embed = makeEmbed();
+      embed.mockRejectedValue(transientError('NETWORK_ERROR'));
+
+      const result = await makeService(embed).embed(openaiRequest, { maxRetries: 0 });
+
+      expect(result.object).toBe('error');
+      expect(embed).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails when the adapter returns the wrong number of vectors', async () => {
+      const embed = embedMock(async () => ({ embeddings: [[1]] }));
+      const result = (await makeService(embed).embed(openaiRequest)) as EmbeddingFailureResponse;
+
+      expect(result.error.code).toBe('PROVIDER_ERROR');
+      expect(result.error.message).toContain('1 embeddings for 2 inputs');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('short-circuits with REQUEST_ABORTED when the signal is already aborted', async () => {
+      const embed = makeEmbed();
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = (await makeService(embed).embed(openaiRequest, {
+        signal: controller.signal,
+      })) as EmbeddingFailureResponse;
+
+      expect(result.error).toMatchObject({ code: 'REQUEST_ABORTED', type: 'abort_error' });
+      expect(embed).not.toHaveBeenCalled();
+    });
+
+    it('threads signal and timeoutMs into the adapter call', async () => {
+      const embed = makeEmbed();
+      const controller = new AbortController();
+
+      await makeService(embed).embed(openaiRequest, {
+        signal: controller.signal,
+        timeoutMs: 5000,
+      });
+
+      expect(embed.mock.calls[0][0]).toMatchObject({
+        signal: controller.signal,
+        timeoutMs: 5000,
+      });
+    });
+  });
+
+  describe('metadata', () => {
+    it('lists providers and models with dimensions and input limits', async () => {
+      const service = new EmbeddingService(async () => null, { logLevel: 'silent' });
+
+      const providers = await service.getProviders();
+      const models = await service.getModels('openai');
+
+      expect(providers.map((p) => p.id)).toEqual(['openai', 'gemini', 'mistral', 'llamacpp']);
+      expect(models.find((m) => m.id === 'text-embedding-3-large')).toMatchObject({
+        dimensions: 3072,
+        maxInputTokens: 8191,
+        supportsDimensions: true,
+      });
+      expect(service.getPresets().length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * Main service for embedding operations
+ *
+ * This service orchestrates embedding requests through provider adapters,
+ * manages presets, validates requests, splits oversized batches and applies
+ * client-side normalization.
+ */
+
+import type { ApiKeyProvider } from '../types';
+import type { Logger } from '../logging/types';
+import { createDefaultLogger } from '../logging/defaultLogger';
+import type {
+  EmbeddingRequest,
+  EmbeddingRequestWithPreset,
+  EmbeddingResponse,
+  EmbeddingFailureResponse,
+  EmbeddingProviderInfo,
+  EmbeddingModelInfo,
+  EmbeddingProviderId,
+  EmbeddingPreset,
+  EmbeddingServiceOptions,
+  EmbeddingProviderAdapter,
+  EmbeddingSettings,
+  EmbeddingUsage,
+  EmbedOptions,
+} from '../types/embedding';
+import { ADAPTER_ERROR_CODES } from '../llm/clients/types';
+import { withRetry } from '../shared/services/withRetry';
+import {
+  SUPPORTED_EMBEDDING_PROVIDERS,
+  getEmbeddingModelsByProvider,
+  EMBEDDING_ADAPTER_CONFIGS,
+} from './config';
+import rawDefaultEmbeddingPresets from '../config/embedding-presets.json';
+import { PresetManager } from '../shared/services/PresetManager';
+import { AdapterRegistry } from '../shared/services/AdapterRegistry';
+import { MockEmbeddingAdapter } from '../adapters/embedding/MockEmbeddingAdapter';
+import { OpenAIEmbeddingAdapter } from '../adapters/embedding/OpenAIEmbeddingAdapter';
+import { GeminiEmbeddingAdapter } from '../adapters/embedding/GeminiEmbeddingAdapter';
+import { MistralEmbeddingAdapter } from '../adapters/embedding/MistralEmbeddingAdapter';
+import { LlamaCppEmbeddingAdapter } from '../adapters/embedding/LlamaCppEmbeddingAdapter';
+import { EmbeddingRequestValidator } from './services/EmbeddingRequestValidator';
+import { EmbeddingModelResolver } from './services/EmbeddingModelResolver';
+
+// Type assertion for the imported JSON
+const defaultEmbeddingPresets = rawDefaultEmbeddingPresets as EmbeddingPreset[];
+
+// Error codes adapters stamp on the errors they throw; used to decide whether a
+// caught error's classification is safe to surface on the failure envelope
+const ADAPTER_ERROR_CODE_VALUES = new Set<string>(Object.values(ADAPTER_ERROR_CODES));
+
+/**
+ * Vectors for one provider call (one slice of the request input)
+ */
+interface EmbeddingBatchResult {
+  object: 'embedding.batch';
+  embeddings: number[][];
+  usage?: EmbeddingUsage;
+}
+
+/**
+ * Main service for embedding operations
+ */
+export class EmbeddingService {
+  private getApiKey: ApiKeyProvider;
+  private logger: Logger;
+  private presetManager: PresetManager<EmbeddingPreset>;
+  private adapterRegistry: AdapterRegistry<EmbeddingProviderAdapter, EmbeddingProviderId>;
+  private requestValidator: EmbeddingRequestValidator;
+  private modelResolver: EmbeddingModelResolver;
+  private retryOptions: EmbeddingServiceOptions['retry'];
+
+  constructor(getApiKey: ApiKeyProvider, options: EmbeddingServiceOptions = {}) {
+    this.getApiKey = getApiKey;
+    this.retryOptions = options.retry;
+
+    // Initialize logger - custom logger takes precedence over logLevel
+    this.logger = options.logger ?? createDefaultLogger(options.logLevel);
+
+    // Initialize helper services
+    this.presetManager = new PresetManager<EmbeddingPreset>(
+      defaultEmbeddingPresets,
+      options.presets,
+      options.presetMode
+    );
+
+    // Initialize adapter registry with fallback
+    this.adapterRegistry = new AdapterRegistry<EmbeddingProviderAdapter, EmbeddingProviderId>({
+      supportedProviders: SUPPORTED_EMBEDDING_PROVIDERS,
+      fallbackAdapter: new MockEmbeddingAdapter(),
+    }, this.logger);
+
+    // Register built-in adapters
+    const adapterClasses = {
+      openai: OpenAIEmbeddingAdapter,
+      gemini: GeminiEmbeddingAdapter,
+      mistral: MistralEmbeddingAdapter,
+      llamacpp: LlamaCppEmbeddingAdapter,
+    };
+    for (const [providerId, AdapterClass] of Object.entries(adapterClasses)) {
+      const config = EMBEDDING_ADAPTER_CONFIGS[providerId];
+      this.adapterRegistry.registerAdapter(
+        providerId,
+        new AdapterClass({
+          baseURL: options.baseUrls?.[providerId] || config.baseURL,
+          timeout: config.timeout,
+          logger: this.logger,
+        })
+      );
+    }
+
+    // Register custom adapters if provided
+    if (options.adapters) {
+      for (const [providerId, adapter] of Object.entries(options.adapters)) {
+        this.adapterRegistry.registerAdapter(providerId, adapter);
+      }
+    }
+
+    this.requestValidator = new EmbeddingRequestValidator();
+    this.modelResolver = new EmbeddingModelResolver(this.presetManager);
+
+    this.logger.debug('EmbeddingService: Initialized with OpenAI, Gemini, Mistral and llama.cpp adapters');
+  }
+
+  /**
+   * Embeds one or more input strings
+   *
+   * @param request - Embedding request
+   * @param options - Per-call options (e.g. an AbortSignal for cancellation)
+   * @returns Promise resolving to response or error
+   */
+  async embed(
+    request: EmbeddingRequest | EmbeddingRequestWithPreset,
+    options?: EmbedOptions
+  ): Promise<EmbeddingResponse | EmbeddingFailureResponse> {
+    this.logger.info('EmbeddingService.embed called');
+
+    try {
+      // Resolve model information
+      const resolved = this.modelResolver.resolve(request);
+      if (resolved.error) {
+        return resolved.error;
+      }
+
+      const { providerId, modelId, modelInfo, settings: presetSettings } = resolved;
+
+      // Create full request with resolved IDs
+      const fullRequest: EmbeddingRequest = {
+        ...(request as any),
+        providerId: providerId!,
+        modelId: modelId!,
+      };
+
+      // Validate request structure
+      const validationError = this.requestValidator.validateRequestStructure(fullRequest);
+      if (validationError) {
+        return validationError;
+      }
+
+      // Resolve settings (preset < request) and check them against the model
+      const settings: EmbeddingSettings = { ...presetSettings, ...fullRequest.settings };
+      const settingsError = this.requestValidator.validateSettings(
+        fullRequest,
+        modelInfo!,
+        settings
+      );
+      if (settingsError) {
+        return settingsError;
+      }
+
+      const inputs = Array.isArray(fullRequest.input) ? fullRequest.input : [fullRequest.input];
+      const dimensions = modelInfo!.supportsDimensions ? settings.dimensions : undefined;
+
+      // Get adapter for provider
+      const adapter = this.adapterRegistry.getAdapter(providerId!);
+
+      try {
+        // Short-circuit if the caller already aborted — don't touch the adapter
+        if (options?.signal?.aborted) {
+          return {
+            object: 'error',
+            providerId: providerId!,
+            modelId: modelId!,
+            error: {
+              message: 'Embedding request was aborted',
+              code: ADAPTER_ERROR_CODES.REQUEST_ABORTED,
+              type: 'abort_error',
+            },
+          };
+        }
+
+        const apiKey = await this.getApiKey(providerId!);
+
+        // Validate API key if adapter supports it
+        if (apiKey && adapter.validateApiKey && !adapter.validateApiKey(apiKey)) {
+          return {
+            object: 'error',
+            providerId: providerId!,
+            modelId: modelId!,
+            error: {
+              message: `Invalid API key format for provider '${providerId}'`,
+              code: 'INVALID_API_KEY',
+              type: 'authentication_error',
+            },
+          };
+        }
+
+        // Split into provider-sized batches; each batch is retried on its own so
+        // a transient failure late in a large request doesn't redo earlier work
+        const batchSize = modelInfo!.maxBatchSize ?? inputs.length;
+        const embeddings: number[][] = [];
+        let inputTokens: number | undefined;
+
+        for (let start = 0; start < inputs.length; start += batchSize) {
+          const batch = inputs.slice(start, start + batchSize);
+          this.logger.info(
+            `EmbeddingService: Calling adapter for provider: ${providerId} (${batch.length} inputs)`
+          );
+          const result = await this.embedBatchWithRetry(
+            adapter,
+            { modelId: modelId!, input: batch, dimensions, apiKey },
+            providerId!,
+            options
+          );
+          if (result.object === 'error') {
+            return result;
+          }
+          embeddings.push(...result.embeddings);
+          if (result.usage?.inputTokens !== undefined) {
+            inputTokens = (inputTokens ?? 0) + result.usage.inputTokens;
+          }
+        }
+
+        this.logger.info('EmbeddingService: Embedding completed successfully');
+
+        return {
+          object: 'embedding.result',
+          created: Math.floor(Date.now() / 1000),
+          providerId: providerId!,
+          modelId: modelId!,
+          data: embeddings.map((embedding, index) => ({
+            index,
+            embedding: settings.normalize ? normalizeVector(embedding) : embedding,
+          })),
+          ...(inputTokens !== undefined && { usage: { inputTokens } }),
+        };
+      } catch (error) {
+        // Errors thrown outside the adapter call (e.g. a failing ApiKeyProvider)
+        this.logger.error('EmbeddingService: Error during embedding:', error);
+        return this.buildFailureEnvelope(error, providerId!, modelId!);
+      }
+    } catch (error) {
+      this.logger.error('EmbeddingService: Unexpected error:', error);
+      const req = request as any;
+      return {
+        object: 'error',
+        providerId: req.providerId || req.presetId || 'unknown',
+        modelId: req.modelId,
+        error: {
+          message:
+            error instanceof Error ? error.message : 'An unexpected error occurred',
+          code: 'UNEXPECTED_ERROR',
+          type: 'server_error',
+          providerError: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Runs one adapter call under the retry policy. Embedding calls have no side
+   * effects, so every provider is retried on transient failures.
+   */
+  private async embedBatchWithRetry(
+    adapter: EmbeddingProviderAdapter,
+    call: { modelId: string; input: string[]; dimensions?: number; apiKey: string | null },
+    providerId: EmbeddingProviderId,
+    options?: EmbedOptions
+  ): Promise<EmbeddingBatchResult | EmbeddingFailureResponse> {
+    const retryOnTimeout = this.retryOptions?.retryOnTimeout ?? true;
+    const retryableCodes = new Set<string>([
+      ADAPTER_ERROR_CODES.RATE_LIMIT_EXCEEDED,
+      ADAPTER_ERROR_CODES.NETWORK_ERROR,
+      ...(retryOnTimeout ? [ADAPTER_ERROR_CODES.REQUEST_TIMEOUT] : []),
+    ]);
+
+    return withRetry<EmbeddingBatchResult | EmbeddingFailureResponse>(
+      async () => {
+        try {
+          const result = await adapter.embed({
+            ...call,
+            signal: options?.signal,
+            timeoutMs: options?.timeoutMs,
+          });
+          if (result.embeddings.length !== call.input.length) {
+            throw new Error(
+              `Adapter returned ${result.embeddings.length} embeddings for ${call.input.length} inputs`
+            );
+          }
+          return { object: 'embedding.batch', ...result };
+        } catch (error) {
+          this.logger.error('EmbeddingService: Error during embedding:', error);
+          return this.buildFailureEnvelope(error, providerId, call.modelId);
+        }
+      },
+      (result) => {
+        if (result.object !== 'error') {
+          return { retry: false };
+        }
+        const code = String(result.error.code);
+        const status = result.error.status;
+        const retry =
+          retryableCodes.has(code) ||
+          (code === ADAPTER_ERROR_CODES.PROVIDER_ERROR &&
+            typeof status === 'number' &&
+            (status === 408 || status === 409 || status >= 500));
+        return { retry, retryAfterMs: result.error.retryAfterMs };
+      },
+      {
+        ...this.retryOptions,
+        ...(options?.maxRetries !== undefined && { maxRetries: options.maxRetries }),
+        signal: options?.signal,
+        logger: this.logger,
+        label: `${providerId}/${call.modelId}`,
+      }
+    );
+  }
+
+  /**
+   * Builds a failure envelope from a thrown error.
+   *
+   * Adapters throw errors stamped with an ADAPTER_ERROR_CODES code plus
+   * type/status/retryAfterMs — that classification is propagated. Anything else
+   * keeps the generic fallback so unrelated codes don't leak into the API
+   * surface.
+   */
+  private buildFailureEnvelope(
+    error: unknown,
+    providerId: EmbeddingProviderId,
+    modelId: string | undefined
+  ): EmbeddingFailureResponse {
+    const thrown = error as any;
+    const isAdapterError =
+      typeof thrown?.code === 'string' && ADAPTER_ERROR_CODE_VALUES.has(thrown.code);
+    return {
+      object: 'error',
+      providerId,
+      modelId,
+      error: {
+        message:
+          error instanceof Error
+            ? error.message
+            : 'An unknown error occurred during embedding',
+        code: isAdapterError ? thrown.code : 'PROVIDER_ERROR',
+        type:
+          isAdapterError && typeof thrown.type === 'string'
+            ? thrown.type
+            : 'server_error',
+        ...(isAdapterError &&
+          typeof thrown.status === 'number' && { status: thrown.status }),
+        ...(isAdapterError &&
+          typeof thrown.retryAfterMs === 'number' && { retryAfterMs: thrown.retryAfterMs }),
+        providerError: error,
+      },
+    };
+  }
+
+  /**
+   * Gets list of supported embedding providers
+   *
+   * @returns Promise resolving to array of provider information
+   */
+  async getProviders(): Promise<EmbeddingProviderInfo[]> {
+    this.logger.debug('EmbeddingService.getProviders called');
+    return [...SUPPORTED_EMBEDDING_PROVIDERS];
+  }
+
+  /**
+   * Gets list of supported models for a specific provider
+   *
+   * @param providerId - The provider ID to get models for
+   * @returns Promise resolving to array of model information
+   */
+  async getModels(providerId: EmbeddingProviderId): Promise<EmbeddingModelInfo[]> {
+    this.logger.debug(`EmbeddingService.getModels called for provider: ${providerId}`);
+    const models = getEmbeddingModelsByProvider(providerId);
+    this.logger.debug(`EmbeddingService: Found ${models.length} models for provider: ${providerId}`);
+    return [...models];
+  }
+
+  /**
+   * Gets all configured embedding presets
+   *
+   * @returns Array of embedding presets
+   */
+  getPresets(): EmbeddingPreset[] {
+    return this.presetManager.getPresets();
+  }
+
+  /**
+   * Registers a custom embedding adapter
+   *
+   * @param providerId - The provider ID
+   * @param adapter - The adapter instance
+   */
+  registerAdapter(providerId: EmbeddingProviderId, adapter: EmbeddingProviderAdapter): void {
+    this.adapterRegistry.registerAdapter(providerId, adapter);
+  }
+}
+
+/**
+ * Scales a vector to unit L2 length (zero vectors are returned unchanged)
+ */
+function normalizeVector(vector: number[]): number[] {
+  let sumOfSquares = 0;
+  for (const value of vector) {
+    sumOfSquares += value * value;
+  }
+  if (sumOfSquares === 0) {
+    return vector;
+  }
+  const norm = Math.sqrt(sumOfSquares);
+  return vector.map((value) => value / norm);
+}
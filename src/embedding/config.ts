@@ -0,0 +1,204 @@
+/**
+ * Configuration for embedding providers and models
+ *
+ * This file defines:
+ * - Supported embedding providers
+ * - Model metadata (dimensions, input limits, batch sizes)
+ * - Adapter configurations (base URLs, timeouts)
+ */
+
+import type {
+  EmbeddingProviderId,
+  EmbeddingProviderInfo,
+  EmbeddingModelInfo,
+  EmbeddingProviderAdapterConfig,
+} from '../types/embedding';
+
+/**
+ * Supported embedding providers
+ */
+export const SUPPORTED_EMBEDDING_PROVIDERS: EmbeddingProviderInfo[] = [
+  {
+    id: 'openai',
+    displayName: 'OpenAI',
+    description: 'text-embedding-3 models from OpenAI',
+    models: [
+      {
+        id: 'text-embedding-3-small',
+        providerId: 'openai',
+        displayName: 'Text Embedding 3 Small',
+        description: 'Efficient general-purpose embeddings',
+        dimensions: 1536,
+        maxInputTokens: 8191,
+        maxBatchSize: 2048,
+        supportsDimensions: true,
+      },
+      {
+        id: 'text-embedding-3-large',
+        providerId: 'openai',
+        displayName: 'Text Embedding 3 Large',
+        description: 'Highest-quality OpenAI embeddings',
+        dimensions: 3072,
+        maxInputTokens: 8191,
+        maxBatchSize: 2048,
+        supportsDimensions: true,
+      },
+      {
+        id: 'text-embedding-ada-002',
+        providerId: 'openai',
+        displayName: 'Text Embedding Ada 002',
+        description: 'Legacy embedding model (fixed dimensions)',
+        dimensions: 1536,
+        maxInputTokens: 8191,
+        maxBatchSize: 2048,
+        supportsDimensions: false,
+      },
+    ],
+  },
+  {
+    id: 'gemini',
+    displayName: 'Google Gemini',
+    description: 'Gemini embedding models',
+    models: [
+      {
+        id: 'gemini-embedding-001',
+        providerId: 'gemini',
+        displayName: 'Gemini Embedding 001',
+        description: 'Multilingual embeddings with Matryoshka dimension reduction',
+        dimensions: 3072,
+        maxInputTokens: 2048,
+        maxBatchSize: 100,
+        supportsDimensions: true,
+      },
+      {
+        id: 'text-embedding-004',
+        providerId: 'gemini',
+        displayName: 'Text Embedding 004',
+        description: 'Previous-generation English embeddings',
+        dimensions: 768,
+        maxInputTokens: 2048,
+        maxBatchSize: 100,
+        supportsDimensions: true,
+      },
+    ],
+  },
+  {
+    id: 'mistral',
+    displayName: 'Mistral AI',
+    description: 'Mistral text and code embedding models',
+    models: [
+      {
+        id: 'mistral-embed',
+        providerId: 'mistral',
+        displayName: 'Mistral Embed',
+        description: 'General-purpose text embeddings',
+        dimensions: 1024,
+        maxInputTokens: 8192,
+        maxBatchSize: 512,
+        supportsDimensions: false,
+      },
+      {
+        id: 'codestral-embed',
+        providerId: 'mistral',
+        displayName: 'Codestral Embed',
+        description: 'Code retrieval embeddings with configurable dimensions',
+        dimensions: 1536,
+        maxInputTokens: 8192,
+        maxBatchSize: 512,
+        supportsDimensions: true,
+      },
+    ],
+  },
+  {
+    id: 'llamacpp',
+    displayName: 'llama.cpp',
+    description: 'Local embeddings from a llama-server started with --embeddings',
+    // The server embeds with whatever GGUF it has loaded; any model ID is accepted
+    allowUnknownModels: true,
+    models: [
+      {
+        id: 'llamacpp',
+        providerId: 'llamacpp',
+        displayName: 'llama.cpp (loaded model)',
+        description: 'Uses the embedding model currently loaded by the server',
+        supportsDimensions: false,
+      },
+    ],
+  },
+];
+
+/**
+ * Adapter configurations for each provider
+ * These define base URLs and other adapter-specific settings
+ */
+export const EMBEDDING_ADAPTER_CONFIGS: Record<EmbeddingProviderId, EmbeddingProviderAdapterConfig> = {
+  openai: {
+    baseURL: process.env.OPENAI_API_BASE_URL || undefined,
+    timeout: 60000,
+  },
+  gemini: {
+    timeout: 60000,
+  },
+  mistral: {
+    baseURL: process.env.MISTRAL_API_BASE_URL || undefined,
+    timeout: 60000,
+  },
+  llamacpp: {
+    // 127.0.0.1 (not localhost) avoids a ~2s/request IPv6-fallback stall on Windows
+    baseURL: process.env.LLAMACPP_API_BASE_URL || 'http://127.0.0.1:8080',
+    timeout: 120000, // Local CPU embedding of large batches can be slow
+  },
+};
+
+/**
+ * Gets provider information by ID
+ *
+ * @param providerId - The provider ID to look up
+ * @returns Provider information or null if not found
+ */
+export function getEmbeddingProviderById(
+  providerId: EmbeddingProviderId
+): EmbeddingProviderInfo | null {
+  return SUPPORTED_EMBEDDING_PROVIDERS.find(p => p.id === providerId) || null;
+}
+
+/**
+ * Gets all models for a specific provider
+ *
+ * @param providerId - The provider ID
+ * @returns Array of model information
+ */
+export function getEmbeddingModelsByProvider(
+  providerId: EmbeddingProviderId
+): EmbeddingModelInfo[] {
+  const provider = getEmbeddingProviderById(providerId);
+  return provider?.models || [];
+}
+
+/**
+ * Gets model information by provider and model ID. Providers that allow
+ * unknown models (llama.cpp) return metadata without fixed limits for any ID.
+ *
+ * @param providerId - The provider ID
+ * @param modelId - The model ID
+ * @returns Model information or null if not found
+ */
+export function getEmbeddingModelInfo(
+  providerId: EmbeddingProviderId,
+  modelId: string
+): EmbeddingModelInfo | null {
+  const provider = getEmbeddingProviderById(providerId);
+  const model = provider?.models?.find(m => m.id === modelId);
+  if (model) {
+    return model;
+  }
+  if (provider?.allowUnknownModels) {
+    return {
+      id: modelId,
+      providerId,
+      displayName: modelId,
+      supportsDimensions: false,
+    };
+  }
+  return null;
+}
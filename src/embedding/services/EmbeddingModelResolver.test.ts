@@ -0,0 +1,84 @@
+import { EmbeddingModelResolver } from './EmbeddingModelResolver';
+import { PresetManager } from '../../shared/services/PresetManager';
+import type { EmbeddingRequest, EmbeddingPreset } from '../../types/embedding';
+
+describe('EmbeddingModelResolver', () => {
+  let resolver: EmbeddingModelResolver;
+
+  beforeEach(() => {
+    const customPresets: EmbeddingPreset[] = [
+      {
+        id: 'test-preset',
+        displayName: 'Test Preset',
+        providerId: 'openai',
+        modelId: 'text-embedding-3-large',
+        settings: {
+          dimensions: 1024,
+        },
+      },
+    ];
+    resolver = new EmbeddingModelResolver(
+      new PresetManager<EmbeddingPreset>([], customPresets, 'replace')
+    );
+  });
+
+  it('should resolve using preset ID', () => {
+    const result = resolver.resolve({ presetId: 'test-preset', input: 'hello' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.providerId).toBe('openai');
+    expect(result.modelId).toBe('text-embedding-3-large');
+    expect(result.modelInfo?.dimensions).toBe(3072);
+    expect(result.settings?.dimensions).toBe(1024);
+  });
+
+  it('should resolve using direct provider and model IDs', () => {
+    const request: EmbeddingRequest = {
+      providerId: 'mistral',
+      modelId: 'mistral-embed',
+      input: 'hello',
+    };
+
+    const result = resolver.resolve(request);
+
+    expect(result.error).toBeUndefined();
+    expect(result.modelInfo).toMatchObject({ dimensions: 1024, maxInputTokens: 8192 });
+  });
+
+  it('should accept arbitrary llama.cpp model IDs', () => {
+    const result = resolver.resolve({
+      providerId: 'llamacpp',
+      modelId: 'bge-m3.gguf',
+      input: 'hello',
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.modelInfo).toMatchObject({
+      id: 'bge-m3.gguf',
+      supportsDimensions: false,
+    });
+    expect(result.modelInfo?.dimensions).toBeUndefined();
+  });
+
+  it('should return error for non-existent preset', () => {
+    const result = resolver.resolve({ presetId: 'non-existent', input: 'hello' });
+
+    expect(result.error?.error.code).toBe('PRESET_NOT_FOUND');
+  });
+
+  it('should return error for unknown models', () => {
+    const result = resolver.resolve({
+      providerId: 'openai',
+      modelId: 'text-embedding-9',
+      input: 'hello',
+    });
+
+    expect(result.error?.error.code).toBe('MODEL_NOT_FOUND');
+  });
+
+  it('should return error for missing model info', () => {
+    const result = resolver.resolve({ input: 'hello' } as any);
+
+    expect(result.error?.error.code).toBe('MISSING_MODEL_INFO');
+  });
+});
@@ -0,0 +1,82 @@
+import { EmbeddingRequestValidator } from './EmbeddingRequestValidator';
+import { getEmbeddingModelInfo } from '../config';
+import type { EmbeddingRequest } from '../../types/embedding';
+
+describe('EmbeddingRequestValidator', () => {
+  const validator = new EmbeddingRequestValidator();
+  const request = (input: any): EmbeddingRequest => ({
+    providerId: 'openai',
+    modelId: 'text-embedding-3-small',
+    input,
+  });
+
+  describe('validateRequestStructure', () => {
+    it('should accept a string or an array of strings', () => {
+      expect(validator.validateRequestStructure(request('hello'))).toBeNull();
+      expect(validator.validateRequestStructure(request(['a', 'b']))).toBeNull();
+    });
+
+    it('should reject an empty array', () => {
+      expect(validator.validateRequestStructure(request([]))?.error).toMatchObject({
+        code: 'MISSING_INPUT',
+        param: 'input',
+      });
+    });
+
+    it('should reject non-string entries', () => {
+      expect(validator.validateRequestStructure(request(['a', 42]))?.error).toMatchObject({
+        code: 'MISSING_INPUT',
+        param: 'input[1]',
+      });
+      expect(validator.validateRequestStructure(request(undefined))?.error.code).toBe(
+        'MISSING_INPUT'
+      );
+    });
+
+    it('should reject whitespace-only entries', () => {
+      const result = validator.validateRequestStructure(request(' '));
+      expect(result?.error).toMatchObject({
+        code: 'EMPTY_INPUT',
+        type: 'validation_error',
+        param: 'input',
+      });
+    });
+  });
+
+  describe('validateSettings', () => {
+    const small = getEmbeddingModelInfo('openai', 'text-embedding-3-small')!;
+    const ada = getEmbeddingModelInfo('openai', 'text-embedding-ada-002')!;
+    const llama = getEmbeddingModelInfo('llamacpp', 'llamacpp')!;
+
+    it('should accept supported dimensions and normalization', () => {
+      expect(
+        validator.validateSettings(request('x'), small, { dimensions: 512, normalize: true })
+      ).toBeNull();
+      expect(validator.validateSettings(request('x'), ada, { dimensions: 1536 })).toBeNull();
+    });
+
+    it('should reject non-integer or oversized dimensions', () => {
+      expect(
+        validator.validateSettings(request('x'), small, { dimensions: 0 })?.error.code
+      ).toBe('INVALID_DIMENSIONS');
+      expect(
+        validator.validateSettings(request('x'), small, { dimensions: 2048 })?.error.code
+      ).toBe('INVALID_DIMENSIONS');
+    });
+
+    it('should reject reduced dimensions for fixed-size models', () => {
+      expect(
+        validator.validateSettings(request('x'), ada, { dimensions: 256 })?.error.code
+      ).toBe('DIMENSIONS_NOT_SUPPORTED');
+      expect(
+        validator.validateSettings(request('x'), llama, { dimensions: 256 })?.error.code
+      ).toBe('DIMENSIONS_NOT_SUPPORTED');
+    });
+
+    it('should reject a non-boolean normalize flag', () => {
+      expect(
+        validator.validateSettings(request('x'), small, { normalize: 'yes' as any })?.error
+      ).toMatchObject({ code: 'INVALID_SETTINGS', param: 'settings.normalize' });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import type {
+  EmbeddingRequest,
+  EmbeddingFailureResponse,
+  EmbeddingModelInfo,
+  EmbeddingSettings,
+} from '../../types/embedding';
+
+/**
+ * Validates embedding requests
+ */
+export class EmbeddingRequestValidator {
+  /**
+   * Validates the basic structure of an embedding request
+   *
+   * @param request - The request to validate
+   * @returns null if valid, EmbeddingFailureResponse if invalid
+   */
+  validateRequestStructure(request: EmbeddingRequest): EmbeddingFailureResponse | null {
+    const input = request.input;
+    const entries = Array.isArray(input) ? input : [input];
+
+    if (Array.isArray(input) && input.length === 0) {
+      return this.createValidationError(
+        request,
+        'Input array must contain at least one entry',
+        'MISSING_INPUT',
+        'input'
+      );
+    }
+
+    for (let i = 0; i < entries.length; i++) {
+      const param = Array.isArray(input) ? `input[${i}]` : 'input';
+      if (typeof entries[i] !== 'string') {
+        return this.createValidationError(
+          request,
+          `${param} must be a string`,
+          'MISSING_INPUT',
+          param
+        );
+      }
+      // Providers reject empty strings inconsistently; fail fast for all of them
+      if (entries[i].trim().length === 0) {
+        return this.createValidationError(
+          request,
+          `${param} cannot be empty or whitespace-only`,
+          'EMPTY_INPUT',
+          param
+        );
+      }
+    }
+
+    return null; // Valid
+  }
+
+  /**
+   * Validates resolved settings against the model's capabilities
+   *
+   * @param request - The request being validated
+   * @param modelInfo - Metadata of the resolved model
+   * @param settings - Settings after merging preset and request values
+   * @returns null if valid, EmbeddingFailureResponse if invalid
+   */
+  validateSettings(
+    request: EmbeddingRequest,
+    modelInfo: EmbeddingModelInfo,
+    settings: EmbeddingSettings
+  ): EmbeddingFailureResponse | null {
+    if (settings.normalize !== undefined && typeof settings.normalize !== 'boolean') {
+      return this.createValidationError(
+        request,
+        'settings.normalize must be a boolean',
+        'INVALID_SETTINGS',
+        'settings.normalize'
+      );
+    }
+
+    const dimensions = settings.dimensions;
+    if (dimensions === undefined) {
+      return null;
+    }
+
+    if (!Number.isInteger(dimensions) || dimensions < 1) {
+      return this.createValidationError(
+        request,
+        'settings.dimensions must be a positive integer',
+        'INVALID_DIMENSIONS',
+        'settings.dimensions'
+      );
+    }
+
+    if (modelInfo.dimensions !== undefined && dimensions > modelInfo.dimensions) {
+      return this.createValidationError(
+        request,
+        `settings.dimensions (${dimensions}) exceeds the ${modelInfo.dimensions} dimensions of model '${modelInfo.id}'`,
+        'INVALID_DIMENSIONS',
+        'settings.dimensions'
+      );
+    }
+
+    // Asking for the native size is harmless even when the model can't reduce it
+    if (!modelInfo.supportsDimensions && dimensions !== modelInfo.dimensions) {
+      return this.createValidationError(
+        request,
+        `Model '${modelInfo.id}' does not support custom output dimensions`,
+        'DIMENSIONS_NOT_SUPPORTED',
+        'settings.dimensions'
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Creates a validation error response
+   */
+  private createValidationError(
+    request: EmbeddingRequest,
+    message: string,
+    code: string,
+    param: string
+  ): EmbeddingFailureResponse {
+    return {
+      object: 'error',
+      providerId: request.providerId,
+      modelId: request.modelId,
+      error: {
+        message,
+        code,
+        type: 'validation_error',
+        param,
+      },
+    };
+  }
+}
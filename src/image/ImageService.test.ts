@@ -7,6 +7,8 @@
 
 import { ImageService } from './ImageService';
 import { MockImageAdapter } from '../adapters/image/MockImageAdapter';
+import { RateLimiter } from '../shared/services/RateLimiter';
+import type { Tracer } from '../shared/services/tracing';
 import type {
   ImageProviderAdapter,
   ImageGenerationRequest,
@@ -328,6 +330,114 @@ describe('ImageService', () => {
 
       expect(result.error.retryAfterMs).toBe(3000);
     });
+
+    it('waits for a shared rate limiter slot before each attempt', async () => {
+      const rateLimiter = new RateLimiter({ limits: { 'openai-images': { maxConcurrency: 1 } } });
+      const generateMock = jest
+        .fn<Promise<ImageGenerationResponse>, any[]>()
+        .mockResolvedValue(openaiSuccess);
+      const service = new ImageService(async () => null, {
+        adapters: { 'openai-images': makeOpenAIAdapter(generateMock) },
+        logLevel: 'silent',
+        rateLimiter,
+      });
+
+      const held = await rateLimiter.acquire('openai-images');
+      const pending = service.generateImage(openaiRequest);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(generateMock).not.toHaveBeenCalled();
+
+      if ('permit' in held) {
+        held.permit.release();
+      }
+      expect(await pending).toBe(openaiSuccess);
+
+      const controller = new AbortController();
+      const held2 = await rateLimiter.acquire('openai-images');
+      const aborted = service.generateImage(openaiRequest, { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+
+      const result = (await aborted) as ImageFailureResponse;
+      expect(result.error).toMatchObject({ code: 'REQUEST_ABORTED', type: 'abort_error' });
+      expect(generateMock).toHaveBeenCalledTimes(1);
+      expect(held2).toHaveProperty('permit');
+    });
+  });
+
+  describe('tracing', () => {
+    it('emits a call span with an attempt span and opt-in prompt capture', async () => {
+      const spans: Array<{ name: string; attributes: Record<string, unknown>; ended: boolean }> = [];
+      const tracer: Tracer = {
+        startSpan(name, options) {
+          const span = { name, attributes: { ...options?.attributes }, ended: false };
+          spans.push(span);
+          return {
+            setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+            setStatus: () => undefined,
+            end: () => (span.ended = true),
+          };
+        },
+      };
+      const service = new ImageService(async () => null, {
+        adapters: { 'genai-electron-images': makeAdapter(async () => successResponse) },
+        logLevel: 'silent',
+        tracing: { tracer, captureContent: true },
+      });
+
+      await service.generateImage(defaultRequest);
+
+      expect(spans.map((span) => [span.name, span.ended])).toEqual([
+        ['generate_content stable-diffusion', true],
+        ['generate_content stable-diffusion attempt', true],
+      ]);
+      expect(spans[0].attributes).toMatchObject({
+        'gen_ai.provider.name': 'genai-electron-images',
+        'gen_ai.response.model': 'stable-diffusion',
+        'genai_lite.image.count': 1,
+        'genai_lite.retry_count': 0,
+      });
+      expect(JSON.parse(spans[0].attributes['gen_ai.input.messages'] as string)).toEqual([
+        { role: 'user', parts: [{ type: 'text', content: 'A serene mountain lake' }] },
+      ]);
+    });
+
+    it('ends the call span with an error status when generation throws', async () => {
+      const spans: Array<{ name: string; status?: number; ended: boolean }> = [];
+      const tracer: Tracer = {
+        startSpan(name) {
+          const span: { name: string; status?: number; ended: boolean } = { name, ended: false };
+          spans.push(span);
+          return {
+            setAttributes: () => undefined,
+            setStatus: (status) => (span.status = status.code),
+            end: () => (span.ended = true),
+          };
+        },
+      };
+      const logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(() => {
+          throw new Error('logger failed');
+        }),
+      };
+      const service = new ImageService(
+        async () => {
+          throw new Error('key store unavailable');
+        },
+        {
+          adapters: { 'genai-electron-images': makeAdapter(async () => successResponse) },
+          logger,
+          tracing: { tracer },
+        }
+      );
+
+      await expect(service.generateImage(defaultRequest)).rejects.toThrow('logger failed');
+
+      expect(spans).toEqual([{ name: 'generate_content stable-diffusion', status: 2, ended: true }]);
+    });
   });
 
   describe('per-call timeoutMs', () => {
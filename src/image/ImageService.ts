@@ -23,6 +23,13 @@ import type {
 } from '../types/image';
 import { ADAPTER_ERROR_CODES } from '../llm/clients/types';
 import { withRetry } from '../shared/services/withRetry';
+import type { RateLimiter } from '../shared/services/RateLimiter';
+import {
+  CallTrace,
+  traceAttempt,
+  type SpanOutcome,
+  type TracingOptions,
+} from '../shared/services/tracing';
 import {
   SUPPORTED_IMAGE_PROVIDERS,
   getImageModelsByProvider,
@@ -58,10 +65,14 @@ export class ImageService {
   private settingsResolver: ImageSettingsResolver;
   private modelResolver: ImageModelResolver;
   private retryOptions: ImageServiceOptions['retry'];
+  private rateLimiter?: RateLimiter;
+  private tracing?: TracingOptions;
 
   constructor(getApiKey: ApiKeyProvider, options: ImageServiceOptions = {}) {
     this.getApiKey = getApiKey;
     this.retryOptions = options.retry;
+    this.rateLimiter = options.rateLimiter;
+    this.tracing = options.tracing;
 
     // Initialize logger - custom logger takes precedence over logLevel
     this.logger = options.logger ?? createDefaultLogger(options.logLevel);
@@ -130,6 +141,35 @@ export class ImageService {
   ): Promise<ImageGenerationResponse | ImageFailureResponse> {
     this.logger.info('ImageService.generateImage called');
 
+    const presetId = (request as ImageGenerationRequestWithPreset).presetId;
+    const preset = presetId ? this.presetManager.resolvePreset(presetId) : null;
+    const trace = CallTrace.start(
+      this.tracing,
+      'generate_content',
+      preset?.modelId ?? request.modelId,
+      { 'gen_ai.provider.name': preset?.providerId ?? request.providerId }
+    );
+    let outcome: SpanOutcome | undefined;
+    try {
+      const result = await this.generate(request, options, trace);
+      outcome = this.getTraceOutcome(result);
+      return result;
+    } catch (error) {
+      outcome = {
+        attributes: {},
+        error: { message: error instanceof Error ? error.message : String(error) },
+      };
+      throw error;
+    } finally {
+      trace?.end(outcome);
+    }
+  }
+
+  private async generate(
+    request: ImageGenerationRequest | ImageGenerationRequestWithPreset,
+    options: GenerateImageOptions | undefined,
+    trace: CallTrace | undefined
+  ): Promise<ImageGenerationResponse | ImageFailureResponse> {
     try {
       // Resolve model information
       const resolved = this.modelResolver.resolve(request);
@@ -166,6 +206,16 @@ export class ImageService {
       const resolvedPrompt = preset?.promptPrefix
         ? `${preset.promptPrefix} ${fullRequest.prompt}`
         : fullRequest.prompt;
+      trace?.setAttributes({
+        'gen_ai.provider.name': providerId,
+        'gen_ai.request.model': modelId,
+        'gen_ai.request.choice.count': fullRequest.count ?? resolvedSettings.n,
+        ...(trace.captureContent && {
+          'gen_ai.input.messages': JSON.stringify([
+            { role: 'user', parts: [{ type: 'text', content: resolvedPrompt }] },
+          ]),
+        }),
+      });
 
       // Get adapter for provider
       const adapter = this.adapterRegistry.getAdapter(providerId!);
@@ -216,7 +266,23 @@ export class ImageService {
         ]);
 
         return await withRetry<ImageGenerationResponse | ImageFailureResponse>(
-          async () => {
+          (attempt) => traceAttempt(trace, attempt, async () => {
+            const limited = await this.rateLimiter?.acquire(providerId!, modelId, {
+              signal: options?.signal,
+            });
+            if (limited && 'aborted' in limited) {
+              return {
+                object: 'error',
+                providerId: providerId!,
+                modelId: modelId!,
+                error: {
+                  message: 'Image generation request was aborted while waiting for a rate limit slot',
+                  code: ADAPTER_ERROR_CODES.REQUEST_ABORTED,
+                  type: 'abort_error',
+                },
+              };
+            }
+            const permit = limited?.permit;
             try {
               const response = await adapter.generate({
                 request: fullRequest,
@@ -227,12 +293,19 @@ export class ImageService {
                 timeoutMs: options?.timeoutMs,
               });
               this.logger.info('ImageService: Image generation completed successfully');
+              const { inputTokens, outputTokens } = response.usage ?? {};
+              permit?.release(
+                inputTokens !== undefined || outputTokens !== undefined
+                  ? (inputTokens ?? 0) + (outputTokens ?? 0)
+                  : undefined
+              );
               return response;
             } catch (error) {
+              permit?.release();
               this.logger.error('ImageService: Error during image generation:', error);
               return this.buildFailureEnvelope(error, providerId!, modelId!);
             }
-          },
+          }, (result) => this.getTraceOutcome(result)),
           (result) => {
             if (result.object !== 'error' || !providerRetryable) {
               return { retry: false };
@@ -277,6 +350,23 @@ export class ImageService {
     }
   }
 
+  /** GenAI semantic-convention attributes of a result, plus its error for failures. */
+  private getTraceOutcome(
+    result: ImageGenerationResponse | ImageFailureResponse
+  ): SpanOutcome {
+    if (result.object === 'error') {
+      return { attributes: {}, error: result.error };
+    }
+    return {
+      attributes: {
+        'gen_ai.response.model': result.modelId,
+        'gen_ai.usage.input_tokens': result.usage?.inputTokens,
+        'gen_ai.usage.output_tokens': result.usage?.outputTokens,
+        'genai_lite.image.count': result.data.length,
+      },
+    };
+  }
+
   /**
    * Builds a failure envelope from a thrown error.
    *
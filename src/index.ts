@@ -6,14 +6,112 @@ export { LLMService } from "./llm/LLMService";
 export type {
   LLMServiceOptions,
   SendMessageOptions,
+  SendBatchOptions,
   StreamMessageOptions,
   PrepareMessageOptions,
   CreateMessagesResult,
+  ContextCacheOptions,
+  BatchJobOptions,
 } from "./llm/LLMService";
+export { Conversation } from "./llm/Conversation";
+export type {
+  ConversationOptions,
+  ConversationTurn,
+  ConversationSnapshot,
+} from "./llm/Conversation";
+export type {
+  ContextFitTarget,
+  ContextFitStrategy,
+  ContextFitOptions,
+  ContextFitSummary,
+  ContextFitResult,
+} from "./llm/contextFitting";
+export { validateJsonSchema } from "./llm/structuredOutput";
+export type {
+  LLMMiddleware,
+  LLMMiddlewareContext,
+  LLMMiddlewareRequest,
+  LLMAttemptContext,
+} from "./llm/middleware";
+export type {
+  LLMServiceEvents,
+  LLMEventError,
+  LLMRequestEventBase,
+  LLMAttemptEventBase,
+  LLMRequestStartEvent,
+  LLMAttemptRetryEvent,
+  LLMAttemptEndEvent,
+  LLMStreamFirstTokenEvent,
+  LLMRequestEndEvent,
+  LLMPreparedStaleEvent,
+} from "./llm/events";
+
+// --- Usage Ledger and Budgets ---
+export {
+  UsageLedger,
+  InMemoryUsageLedgerStore,
+  matchesUsageScope,
+} from "./llm/services/UsageLedger";
+export type {
+  UsageScope,
+  UsageLedgerEntry,
+  UsageBudget,
+  UsageBudgetStatus,
+  UsageLedgerQuery,
+  UsageLedgerStore,
+  UsageLedgerOptions,
+  UsageReservation,
+  UsageReservationResult,
+} from "./llm/services/UsageLedger";
+
+// --- Response Cache ---
+export {
+  ResponseCache,
+  InMemoryResponseCacheStore,
+  FileResponseCacheStore,
+  computeResponseCacheKey,
+} from "./llm/services/ResponseCache";
+export type {
+  ResponseCacheEntry,
+  ResponseCacheStore,
+  ResponseCacheKeyInput,
+  ResponseCacheOptions,
+} from "./llm/services/ResponseCache";
+
+// --- Rate Limiting ---
+export { RateLimiter } from "./shared/services/RateLimiter";
+export type {
+  RateLimit,
+  RateLimiterOptions,
+  RateLimitAcquireOptions,
+  RateLimitAcquireResult,
+  RateLimitPermit,
+} from "./shared/services/RateLimiter";
+
+// --- Circuit Breaker ---
+export { CircuitBreaker } from "./shared/services/CircuitBreaker";
+export type {
+  CircuitState,
+  CircuitStatus,
+  CircuitStateChange,
+  CircuitOutcome,
+  CircuitPermit,
+  CircuitAcquireResult,
+  CircuitBreakerOptions,
+} from "./shared/services/CircuitBreaker";
+
+// --- Tracing ---
+export type {
+  Tracer,
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  TracingOptions,
+} from "./shared/services/tracing";
 
 // --- Retry Utilities ---
 export { withRetry, DEFAULT_RETRY_POLICY } from "./shared/services/withRetry";
-export type { RetryPolicy, RetryVerdict, WithRetryOptions } from "./shared/services/withRetry";
+export type { RetryPolicy, RetryVerdict, RetryInfo, WithRetryOptions } from "./shared/services/withRetry";
 
 // --- Model Presets ---
 export type { ModelPreset } from "./types/presets";
@@ -93,6 +191,30 @@ export type {
   CreatePromptResult,
 } from "./types/image";
 
+// --- Embeddings ---
+// Export Embedding Service
+export { EmbeddingService } from "./embedding/EmbeddingService";
+
+// Export all embedding types
+export type {
+  EmbeddingProviderId,
+  EmbeddingSettings,
+  EmbeddingRequestBase,
+  EmbeddingRequest,
+  EmbeddingRequestWithPreset,
+  EmbeddingVector,
+  EmbeddingUsage,
+  EmbeddingResponse,
+  EmbeddingFailureResponse,
+  EmbeddingModelInfo,
+  EmbeddingProviderInfo,
+  EmbeddingPreset,
+  EmbeddingProviderAdapterConfig,
+  EmbeddingProviderAdapter,
+  EmbeddingServiceOptions,
+  EmbedOptions,
+} from "./types/embedding";
+
 // --- Utilities ---
 export { renderTemplate } from "./prompting/template";
 export { countTokens, getSmartPreview, extractRandomVariables } from "./prompting/content";
@@ -148,9 +270,10 @@ export type {
   SuffixWalkTermination,
 } from "./llm/constrainedLabels";
 export { mapOpenAIChatLogprobs } from "./shared/adapters/logprobsUtils";
-export { parseStructuredContent, parseRoleTags, extractInitialTaggedContent, extractMarkerDelimitedContent, parseTemplateWithMetadata } from "./prompting/parser";
+export { parseStructuredContent, parseRoleTags, extractInitialTaggedContent, extractMarkerDelimitedContent, parseTemplateWithMetadata, parsePartialJson, PartialJsonParser } from "./prompting/parser";
 export type { TemplateMetadata } from "./prompting/parser";
-export { createFallbackModelInfo, detectGgufCapabilities, KNOWN_GGUF_MODELS } from "./llm/config";
+export { createFallbackModelInfo, detectGgufCapabilities, KNOWN_GGUF_MODELS, MODEL_PRICING_REVISION } from "./llm/config";
+export { computeUsageCost } from "./shared/adapters/usageUtils";
 export type { GgufModelPattern } from "./llm/config";
 
 // --- Logging ---
@@ -0,0 +1,265 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { Conversation } from './Conversation';
+import { LLMService } from './LLMService';
+import type { LLMChatRequestWithPreset, LLMFailureResponse, LLMResponse } from './types';
+
+function reply(content: string, extra: Partial<LLMResponse['choices'][0]> = {}): LLMResponse {
+  return {
+    id: `resp-${content}`,
+    provider: 'mock',
+    model: 'mock-model',
+    created: 1,
+    object: 'chat.completion',
+    choices: [
+      { index: 0, message: { role: 'assistant', content }, finish_reason: 'stop', ...extra },
+    ],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    cost: {
+      input: 0.001,
+      output: 0.002,
+      reasoning: 0,
+      cache: 0,
+      total: 0.003,
+      currency: 'USD',
+      pricing: { revision: 'test', inputPrice: 1, outputPrice: 1, reasoningOutputPrice: 1 },
+    },
+  };
+}
+
+jest.mock('@anthropic-ai/sdk');
+
+const failure: LLMFailureResponse = {
+  provider: 'mock',
+  model: 'mock-model',
+  object: 'error',
+  error: { message: 'Overloaded', code: 'PROVIDER_ERROR', type: 'server_error', status: 529 },
+};
+
+describe('Conversation', () => {
+  let service: LLMService;
+  let sendSpy: jest.SpyInstance;
+
+  const sentRequest = (call: number) => sendSpy.mock.calls[call][0] as LLMChatRequestWithPreset;
+
+  beforeEach(() => {
+    service = new LLMService(async () => 'key', { logLevel: 'silent' });
+    sendSpy = jest.spyOn(service, 'sendMessage');
+  });
+
+  it('sends the whole history each turn and appends replies', async () => {
+    sendSpy.mockResolvedValueOnce(reply('Paris')).mockResolvedValueOnce(reply('About 2 million'));
+    const chat = new Conversation(service, {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      systemMessage: 'Be brief.',
+      settings: { temperature: 0 },
+    });
+
+    await chat.send('Capital of France?');
+    await chat.send('Population?', { userTag: 'alice' });
+
+    expect(sentRequest(1)).toEqual({
+      providerId: 'mock',
+      modelId: 'mock-model',
+      systemMessage: 'Be brief.',
+      settings: { temperature: 0 },
+      messages: [
+        { role: 'user', content: 'Capital of France?' },
+        { role: 'assistant', content: 'Paris' },
+        { role: 'user', content: 'Population?' },
+      ],
+    });
+    expect(sendSpy.mock.calls[1][1]).toEqual({ userTag: 'alice' });
+    expect(chat.turns).toHaveLength(2);
+    expect(chat.turns[1]).toMatchObject({
+      input: [{ role: 'user', content: 'Population?' }],
+      reply: { role: 'assistant', content: 'About 2 million' },
+      responseId: 'resp-About 2 million',
+      provider: 'mock',
+      model: 'mock-model',
+      finishReason: 'stop',
+    });
+    expect(chat.usage).toEqual({ prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 });
+    expect(chat.costUsd).toBeCloseTo(0.006);
+  });
+
+  it('leaves the history unchanged when a call fails', async () => {
+    sendSpy.mockResolvedValueOnce(reply('Hi')).mockResolvedValueOnce(failure);
+    const chat = new Conversation(service, { presetId: 'openai-gpt-4.1-default' });
+    await chat.send('Hello');
+
+    const result = await chat.send('Still there?');
+
+    expect(result).toBe(failure);
+    expect(sentRequest(1).presetId).toBe('openai-gpt-4.1-default');
+    expect(chat.messages).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi' },
+    ]);
+  });
+
+  it('keeps tool calls and reasoning details for the next turn', async () => {
+    const toolCall = { id: 'call_1', name: 'lookup', arguments: '{"q":"x"}' };
+    const details = [{ type: 'reasoning.encrypted', data: 'opaque' }];
+    sendSpy
+      .mockResolvedValueOnce(
+        reply('', { toolCalls: [toolCall], reasoning: 'Need a lookup', reasoning_details: details })
+      )
+      .mockResolvedValueOnce(reply('Found it'));
+    const chat = new Conversation(service, { providerId: 'mock', modelId: 'mock-model' });
+
+    await chat.send('Look up x');
+    chat.addToolResult('call_1', '{"value":1}', 'lookup');
+    await chat.send();
+
+    expect(chat.turns[0]).toMatchObject({
+      reply: { role: 'assistant', content: '', toolCalls: [toolCall], reasoning_details: details },
+      reasoning: 'Need a lookup',
+    });
+    expect(sentRequest(1).messages.slice(1)).toEqual([
+      { role: 'assistant', content: '', toolCalls: [toolCall], reasoning_details: details },
+      { role: 'tool', toolCallId: 'call_1', content: '{"value":1}', name: 'lookup' },
+    ]);
+    expect(chat.turns[1].input).toEqual([
+      { role: 'tool', toolCallId: 'call_1', content: '{"value":1}', name: 'lookup' },
+    ]);
+  });
+
+  it('sends signed Anthropic thinking blocks back with tool results', async () => {
+    const create = jest.fn();
+    (Anthropic as jest.MockedClass<typeof Anthropic>).prototype.messages = { create } as any;
+    const thinking = { type: 'thinking', thinking: 'Check the weather first', signature: 'sig-abc' };
+    const toolUse = { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } };
+    create
+      .mockResolvedValueOnce({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5-20250929',
+        content: [thinking, toolUse],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 30 },
+      })
+      .mockResolvedValueOnce({
+        id: 'msg_2',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5-20250929',
+        content: [{ type: 'text', text: 'Sunny in Paris' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 60, output_tokens: 5 },
+      });
+    const anthropicService = new LLMService(async () => 'sk-ant-REDACTED', {
+      logLevel: 'silent',
+    });
+    const chat = new Conversation(anthropicService, {
+      providerId: 'anthropic',
+      modelId: 'claude-sonnet-4-5-20250929',
+      settings: {
+        reasoning: { enabled: true, maxTokens: 1024 },
+        tools: [{ name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } }],
+      },
+    });
+
+    const first = await chat.send('Weather in Paris?');
+    expect(first.object).toBe('chat.completion');
+    chat.addToolResult('toolu_1', '{"sky":"clear"}', 'get_weather');
+    const second = await chat.send();
+
+    expect((second as LLMResponse).choices[0].message.content).toBe('Sunny in Paris');
+    expect(chat.turns[0].reply.reasoning_details).toEqual([thinking]);
+    const { messages } = create.mock.calls[1][0];
+    expect(messages.slice(1)).toEqual([
+      { role: 'assistant', content: [thinking, toolUse] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"sky":"clear"}' }] },
+    ]);
+  });
+
+  it('edits an earlier turn and drops the turns after it', async () => {
+    sendSpy
+      .mockResolvedValueOnce(reply('A1'))
+      .mockResolvedValueOnce(reply('A2'))
+      .mockResolvedValueOnce(failure)
+      .mockResolvedValueOnce(reply('B1'));
+    const chat = new Conversation(service, { providerId: 'mock', modelId: 'mock-model' });
+    await chat.send('Q1');
+    await chat.send('Q2');
+
+    // A failed edit keeps the original history
+    expect(await chat.editTurn(0, 'Q1 edited')).toBe(failure);
+    expect(chat.turns.map((turn) => turn.reply.content)).toEqual(['A1', 'A2']);
+
+    await chat.editTurn(0, 'Q1 edited');
+
+    expect(sentRequest(3).messages).toEqual([{ role: 'user', content: 'Q1 edited' }]);
+    expect(chat.messages).toEqual([
+      { role: 'user', content: 'Q1 edited' },
+      { role: 'assistant', content: 'B1' },
+    ]);
+    await expect(chat.editTurn(5, 'x')).rejects.toThrow('Conversation has no turn 5.');
+  });
+
+  it('forks an independent branch from an earlier turn', async () => {
+    sendSpy
+      .mockResolvedValueOnce(reply('A1'))
+      .mockResolvedValueOnce(reply('A2'))
+      .mockResolvedValueOnce(reply('Alt'));
+    const chat = new Conversation(service, { providerId: 'mock', modelId: 'mock-model' });
+    await chat.send('Q1');
+    await chat.send('Q2');
+
+    const branch = chat.fork(1);
+    await branch.send('Other question');
+
+    expect(branch.messages.map((message) => message.content)).toEqual(['Q1', 'A1', 'Other question', 'Alt']);
+    expect(chat.messages.map((message) => message.content)).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+  });
+
+  it('round-trips through JSON, storing binary content as base64', async () => {
+    sendSpy.mockResolvedValueOnce(reply('A cat'));
+    const chat = new Conversation(service, {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      systemMessage: 'Describe images.',
+    });
+    await chat.send([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', data: new Uint8Array([1, 2, 3]), mimeType: 'image/png' },
+    ]);
+    chat.addMessage({ role: 'user', content: 'Queued' });
+
+    const restored = Conversation.fromJSON(service, JSON.parse(JSON.stringify(chat)));
+
+    expect(restored.systemMessage).toBe('Describe images.');
+    expect(restored.turns[0].input[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', data: 'AQID', mimeType: 'image/png' },
+    ]);
+    expect(restored.turns[0].createdAt).toBe(chat.turns[0].createdAt);
+    expect(restored.messages[restored.messages.length - 1]).toEqual({ role: 'user', content: 'Queued' });
+    expect(restored.costUsd).toBeCloseTo(0.003);
+    expect(() => Conversation.fromJSON(service, { version: 2 } as any)).toThrow(
+      'Unsupported conversation snapshot version: 2'
+    );
+  });
+
+  it('rejects overlapping calls and invalid targets', async () => {
+    let resolveSend!: (value: LLMResponse) => void;
+    sendSpy.mockReturnValueOnce(new Promise((resolve) => (resolveSend = resolve)));
+    const chat = new Conversation(service, { providerId: 'mock', modelId: 'mock-model' });
+
+    const first = chat.send('One');
+    await expect(chat.send('Two')).rejects.toThrow('Conversation is waiting for a reply');
+    resolveSend(reply('Done'));
+    await first;
+
+    expect(chat.turns).toHaveLength(1);
+    await expect(chat.send()).rejects.toThrow('needs content or pending messages');
+    expect(() => new Conversation(service, { providerId: 'mock' })).toThrow(
+      'Conversation requires a presetId, or a providerId and modelId.'
+    );
+    expect(() => chat.addMessage({ role: 'assistant', content: 'x' })).toThrow(
+      "takes user or tool messages, not 'assistant'"
+    );
+  });
+});
@@ -0,0 +1,324 @@
+// AI Summary: Stateful multi-turn chat session bound to an LLMService and a preset
+// or provider/model. Tracks history, per-turn metadata and usage totals, supports
+// editing and forking earlier turns, and serializes to JSON for save/restore.
+
+import type { LLMService, SendMessageOptions } from "./LLMService";
+import type {
+  ApiProviderId,
+  LLMChatRequestWithPreset,
+  LLMContentPart,
+  LLMCost,
+  LLMFailureResponse,
+  LLMMessage,
+  LLMResponse,
+  LLMSettings,
+  LLMUsage,
+} from "./types";
+import { addUsageTotals } from "../shared/adapters/usageUtils";
+
+/**
+ * Model and defaults for a conversation. Set `presetId`, or `providerId`
+ * and `modelId`.
+ */
+export interface ConversationOptions {
+  presetId?: string;
+  providerId?: ApiProviderId;
+  modelId?: string;
+  /** Sent as the request's systemMessage on every turn. */
+  systemMessage?: string;
+  /** Settings sent on every turn; merged over preset settings as usual. */
+  settings?: LLMSettings;
+}
+
+/** One completed exchange: the messages sent and the reply that answered them. */
+export interface ConversationTurn {
+  /** Messages added since the previous reply: a user message and/or tool results. */
+  input: LLMMessage[];
+  /** The assistant message appended to history, including tool calls and reasoning_details. */
+  reply: LLMMessage;
+  /** Reasoning text returned with the reply, when the provider exposed it. */
+  reasoning?: string;
+  responseId: string;
+  provider: ApiProviderId;
+  model: string;
+  finishReason: string | null;
+  usage?: LLMUsage;
+  cost?: LLMCost;
+  /** RFC 3339 timestamp of when the reply arrived. */
+  createdAt: string;
+}
+
+/** JSON form of a conversation, produced by toJSON() and read by fromJSON(). */
+export interface ConversationSnapshot extends ConversationOptions {
+  version: 1;
+  turns: ConversationTurn[];
+  /** Messages added with addMessage() but not yet sent. */
+  pending: LLMMessage[];
+}
+
+/**
+ * A chat session that keeps its own history.
+ *
+ * Each send() adds the user message, calls LLMService.sendMessage() with the
+ * whole history, and appends the reply. A failed call leaves the history as
+ * it was, so the same message can be sent again.
+ *
+ * Branch by forking: `conversation.fork(2)` copies the first two turns into
+ * an independent conversation.
+ *
+ * @example
+ * const chat = new Conversation(llmService, { presetId: "openai-gpt-4.1-default" });
+ * await chat.send("What is the capital of France?");
+ * await chat.send("And its population?");
+ * localStorage.setItem("chat", JSON.stringify(chat));
+ */
+export class Conversation {
+  systemMessage?: string;
+  settings?: LLMSettings;
+  private readonly service: LLMService;
+  private readonly target: Pick<ConversationOptions, "presetId" | "providerId" | "modelId">;
+  private history: ConversationTurn[] = [];
+  private pending: LLMMessage[] = [];
+  private sending = false;
+
+  constructor(service: LLMService, options: ConversationOptions) {
+    if (!options.presetId && !(options.providerId && options.modelId)) {
+      throw new TypeError("Conversation requires a presetId, or a providerId and modelId.");
+    }
+    this.service = service;
+    this.target = {
+      ...(options.presetId !== undefined && { presetId: options.presetId }),
+      ...(options.providerId !== undefined && { providerId: options.providerId }),
+      ...(options.modelId !== undefined && { modelId: options.modelId }),
+    };
+    this.systemMessage = options.systemMessage;
+    this.settings = options.settings;
+  }
+
+  /** Restores a conversation saved with toJSON(). */
+  static fromJSON(service: LLMService, snapshot: ConversationSnapshot): Conversation {
+    if (snapshot?.version !== 1) {
+      throw new TypeError(
+        `Unsupported conversation snapshot version: ${String(snapshot?.version)}`
+      );
+    }
+    const conversation = new Conversation(service, snapshot);
+    conversation.history = structuredClone(snapshot.turns);
+    conversation.pending = structuredClone(snapshot.pending);
+    return conversation;
+  }
+
+  /** Completed turns, oldest first. */
+  get turns(): readonly ConversationTurn[] {
+    return this.history;
+  }
+
+  /** The history as sent to the model: every turn's input and reply, then pending messages. */
+  get messages(): LLMMessage[] {
+    return [
+      ...this.history.flatMap((turn) => [...turn.input, turn.reply]),
+      ...this.pending,
+    ];
+  }
+
+  /** Usage summed over the turns in the history. */
+  get usage(): LLMUsage {
+    const total: LLMUsage = {};
+    for (const turn of this.history) {
+      addUsageTotals(total, turn.usage);
+    }
+    return total;
+  }
+
+  /** Cost in USD summed over the turns in the history. */
+  get costUsd(): number {
+    return this.history.reduce((sum, turn) => sum + (turn.cost?.total ?? 0), 0);
+  }
+
+  /**
+   * Queues a user or tool message for the next send(), e.g. several tool
+   * results answering the last reply's tool calls.
+   */
+  addMessage(message: LLMMessage): void {
+    if (message.role !== "user" && message.role !== "tool") {
+      throw new TypeError(
+        `Conversation.addMessage() takes user or tool messages, not '${message.role}'.`
+      );
+    }
+    this.assertIdle();
+    this.pending = [...this.pending, message];
+  }
+
+  /** Queues the result of a tool call from the last reply. */
+  addToolResult(toolCallId: string, content: string, name?: string): void {
+    this.addMessage({
+      role: "tool",
+      toolCallId,
+      content,
+      ...(name !== undefined && { name }),
+    });
+  }
+
+  /**
+   * Sends the pending messages, plus `content` as a new user message when
+   * given, and appends the reply as a new turn.
+   */
+  async send(
+    content?: string | LLMContentPart[],
+    options?: SendMessageOptions
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    this.assertIdle();
+    const saved = { history: this.history, pending: this.pending };
+    if (content !== undefined) {
+      this.pending = [...this.pending, { role: "user", content }];
+    }
+    return this.dispatch(options, saved);
+  }
+
+  /**
+   * Replaces the user message of turn `index` with `content`, drops that
+   * turn and every later one, and sends again. On failure the history is
+   * left unchanged. Fork first to keep the original branch.
+   */
+  async editTurn(
+    index: number,
+    content: string | LLMContentPart[],
+    options?: SendMessageOptions
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const turn = this.history[index];
+    if (!Number.isInteger(index) || !turn) {
+      throw new RangeError(`Conversation has no turn ${index}.`);
+    }
+    const userIndex = turn.input.map((message) => message.role).lastIndexOf("user");
+    if (userIndex === -1) {
+      throw new TypeError(`Turn ${index} has no user message to edit.`);
+    }
+    this.assertIdle();
+
+    const saved = { history: this.history, pending: this.pending };
+    this.history = this.history.slice(0, index);
+    this.pending = turn.input.map((message, i) =>
+      i === userIndex ? { ...message, content } : message
+    );
+    return this.dispatch(options, saved);
+  }
+
+  /** Keeps the first `turnCount` turns and discards later turns and pending messages. */
+  truncate(turnCount: number): void {
+    this.assertIdle();
+    this.history = this.history.slice(0, Math.max(0, turnCount));
+    this.pending = [];
+  }
+
+  /**
+   * Copies the first `turnCount` turns (default all, plus pending messages)
+   * into an independent conversation with the same model and settings.
+   */
+  fork(turnCount?: number): Conversation {
+    const copy = new Conversation(this.service, {
+      ...this.target,
+      systemMessage: this.systemMessage,
+      settings: structuredClone(this.settings),
+    });
+    copy.history = structuredClone(
+      turnCount === undefined ? this.history : this.history.slice(0, Math.max(0, turnCount))
+    );
+    copy.pending = turnCount === undefined ? structuredClone(this.pending) : [];
+    return copy;
+  }
+
+  /**
+   * Returns a JSON-safe snapshot. Binary image and document data is stored
+   * as base64, which content parts accept on restore.
+   */
+  toJSON(): ConversationSnapshot {
+    return {
+      version: 1,
+      ...this.target,
+      ...(this.systemMessage !== undefined && { systemMessage: this.systemMessage }),
+      ...(this.settings !== undefined && { settings: structuredClone(this.settings) }),
+      turns: this.history.map((turn) => ({
+        ...structuredClone(turn),
+        input: turn.input.map(toSerializableMessage),
+      })),
+      pending: this.pending.map(toSerializableMessage),
+    };
+  }
+
+  /**
+   * Sends the history and appends the reply. Restores `saved` unless a
+   * reply was appended.
+   */
+  private async dispatch(
+    options: SendMessageOptions | undefined,
+    saved: { history: ConversationTurn[]; pending: LLMMessage[] }
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    if (this.pending.length === 0) {
+      this.pending = saved.pending;
+      throw new TypeError("Conversation.send() needs content or pending messages.");
+    }
+    this.sending = true;
+    let appended = false;
+    try {
+      const request: LLMChatRequestWithPreset = {
+        ...this.target,
+        messages: this.messages,
+        ...(this.systemMessage !== undefined && { systemMessage: this.systemMessage }),
+        ...(this.settings !== undefined && { settings: this.settings }),
+      };
+      const result = await this.service.sendMessage(request, options);
+      if (result.object === "error") {
+        return result;
+      }
+
+      const choice = result.choices[0];
+      const toolCalls = choice.toolCalls ?? choice.message.toolCalls;
+      this.history.push({
+        input: this.pending,
+        reply: {
+          role: "assistant",
+          content: choice.message.content,
+          ...(toolCalls && toolCalls.length > 0 && { toolCalls }),
+          ...(choice.reasoning_details !== undefined && {
+            reasoning_details: choice.reasoning_details,
+          }),
+        },
+        ...(choice.reasoning !== undefined && { reasoning: choice.reasoning }),
+        responseId: result.id,
+        provider: result.provider,
+        model: result.model,
+        finishReason: choice.finish_reason,
+        ...(result.usage && { usage: result.usage }),
+        ...(result.cost && { cost: result.cost }),
+        createdAt: new Date().toISOString(),
+      });
+      this.pending = [];
+      appended = true;
+      return result;
+    } finally {
+      this.sending = false;
+      if (!appended) {
+        this.history = saved.history;
+        this.pending = saved.pending;
+      }
+    }
+  }
+
+  private assertIdle(): void {
+    if (this.sending) {
+      throw new Error("Conversation is waiting for a reply; await the previous call first.");
+    }
+  }
+}
+
+function toSerializableMessage(message: LLMMessage): LLMMessage {
+  const copy = structuredClone(message);
+  if (Array.isArray(copy.content)) {
+    copy.content = copy.content.map((part) =>
+      part.type !== "text" && part.data instanceof Uint8Array
+        ? { ...part, data: Buffer.from(part.data).toString("base64") }
+        : part
+    );
+  }
+  return copy;
+}
@@ -17,6 +17,7 @@ import type {
   InternalLLMChatRequest,
 } from "./clients/types";
 import { freezeProviderRequest } from "./clients/preparedAdapterUtils";
+import { getMessageText } from "../shared/adapters/contentPartUtils";
 import { createFallbackModelInfo } from "./config";
 
 function success(
@@ -70,7 +71,7 @@ class PreparedFakeAdapter implements ILLMClientAdapter {
         mode: context.mode,
         messages: request.messages.map((message) => ({
           role: message.role,
-          content: message.content,
+          content: getMessageText(message.content),
         })),
         settings: {
           model: request.modelId,
@@ -584,6 +585,49 @@ describe("LLMService prepared calls", () => {
     expect(native.request.settings.response_format).toBeDefined();
   });
 
+  it("down-converts native schemas for the provider and reports dropped keywords", async () => {
+    const service = new LLMService(async () => "unused", { logLevel: "silent" });
+    const schema: StructuredOutputSchema = {
+      type: "object",
+      properties: {
+        nickname: { type: ["string", "null"] },
+        kind: { const: "person" },
+        home: { $ref: "#/$defs/address" },
+        score: { type: "number", exclusiveMinimum: 0 },
+      },
+      required: ["kind", "home"],
+      additionalProperties: false,
+      $defs: { address: { type: "object", properties: { city: { type: "string" } } } },
+    };
+    const handle = await service.prepareMessage(
+      {
+        providerId: "gemini",
+        modelId: "gemini-2.5-flash",
+        messages: [{ role: "user", content: "Answer" }],
+        settings: { structuredOutput: { name: "result", schema } },
+      },
+      { mode: "complete" }
+    );
+    const inspection = (await service.inspectPrepared(
+      handle as PreparedCompleteCall
+    )) as any;
+
+    expect(inspection.request.structuredOutput.schema).toEqual({
+      type: "object",
+      properties: {
+        nickname: { type: "string", nullable: true },
+        kind: { enum: ["person"] },
+        home: { type: "object", properties: { city: { type: "string" } } },
+        score: { type: "number" },
+      },
+      required: ["kind", "home"],
+    });
+    expect(inspection.request.structuredOutput.droppedKeywords).toEqual([
+      { path: "/properties/score", keyword: "exclusiveMinimum" },
+      { path: "", keyword: "additionalProperties" },
+    ]);
+  });
+
   it("gives every event one attempt ID, suppresses late terminals, and changes IDs on redispatch", async () => {
     const service = new LLMService(async () => "not-needed", {
       logLevel: "silent",
@@ -1016,6 +1060,146 @@ describe("LLMService prepared calls", () => {
     });
   });
 
+  it("accumulates streamed tool calls and keeps only completed calls in a partial failure", async () => {
+    const service = new LLMService(async () => "not-needed", {
+      logLevel: "silent",
+    });
+    const fake = new PreparedFakeAdapter();
+    registerFake(service, fake);
+    fake.streamFactory = (internal) => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: "start",
+          provider: internal.providerId,
+          model: internal.modelId,
+        } as const;
+        yield {
+          type: "tool_call_start",
+          index: 0,
+          toolCallIndex: 0,
+          id: "call_a",
+          name: "lookup",
+        } as const;
+        yield {
+          type: "tool_call_arguments_delta",
+          index: 0,
+          toolCallIndex: 0,
+          delta: '{"q":',
+        } as const;
+        yield {
+          type: "tool_call_arguments_delta",
+          index: 0,
+          toolCallIndex: 0,
+          delta: '"x"}',
+        } as const;
+        yield { type: "tool_call_end", index: 0, toolCallIndex: 0 } as const;
+        yield {
+          type: "tool_call_start",
+          index: 0,
+          toolCallIndex: 1,
+          id: "call_b",
+          name: "lookup",
+        } as const;
+        yield {
+          type: "tool_call_arguments_delta",
+          index: 0,
+          toolCallIndex: 1,
+          delta: '{"q":"y',
+        } as const;
+        yield {
+          type: "error",
+          error: {
+            provider: internal.providerId,
+            model: internal.modelId,
+            error: {
+              message: "provider failed",
+              code: "PROVIDER_ERROR",
+              type: "server_error",
+            },
+            object: "error",
+          },
+        } as const;
+      },
+    });
+    const handle = await service.prepareMessage(request, { mode: "stream" });
+    const events = await collect(
+      service.streamPrepared(handle as PreparedStreamCall)
+    );
+
+    expect(events.find((event) => event.type === "tool_call_end")).toEqual({
+      attemptId: events[0].attemptId,
+      type: "tool_call_end",
+      index: 0,
+      toolCallIndex: 0,
+      toolCall: { id: "call_a", name: "lookup", arguments: '{"q":"x"}' },
+    });
+    const terminal = events[events.length - 1];
+    expect(terminal.type).toBe("error");
+    if (terminal.type === "error") {
+      expect(terminal.error.partialResponse?.choices[0].toolCalls).toEqual([
+        { id: "call_a", name: "lookup", arguments: '{"q":"x"}' },
+      ]);
+    }
+  });
+
+  it("keeps observed tool calls when an adapter partial omits them", async () => {
+    const service = new LLMService(async () => "not-needed", {
+      logLevel: "silent",
+    });
+    const fake = new PreparedFakeAdapter();
+    registerFake(service, fake);
+    fake.streamFactory = (internal) => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: "tool_call_end",
+          index: 0,
+          toolCallIndex: 0,
+          toolCall: { id: "call_a", name: "lookup", arguments: "{}" },
+        } as const;
+        yield {
+          type: "error",
+          error: {
+            provider: internal.providerId,
+            model: internal.modelId,
+            error: {
+              message: "provider failed",
+              code: "PROVIDER_ERROR",
+              type: "server_error",
+            },
+            object: "error",
+            partialResponse: {
+              id: "partial",
+              provider: internal.providerId,
+              model: internal.modelId,
+              created: 1,
+              choices: [{
+                index: 0,
+                message: { role: "assistant", content: "adapter partial" },
+                finish_reason: null,
+              }],
+            },
+          },
+        } as const;
+      },
+    });
+    const handle = await service.prepareMessage(request, { mode: "stream" });
+    const events = await collect(
+      service.streamPrepared(handle as PreparedStreamCall)
+    );
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: "error",
+      error: {
+        partialResponse: {
+          choices: [{
+            message: { content: "adapter partial" },
+            toolCalls: [{ id: "call_a", name: "lookup", arguments: "{}" }],
+          }],
+        },
+      },
+    });
+  });
+
   it("assigns attempt IDs to validation and credential failures before provider iteration", async () => {
     const validationService = new LLMService(async () => "not-needed", {
       logLevel: "silent",
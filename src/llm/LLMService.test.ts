@@ -2,9 +2,19 @@ import { LLMService } from './LLMService';
 import { MockClientAdapter } from './clients/MockClientAdapter';
 import { AnthropicClientAdapter } from './clients/AnthropicClientAdapter';
 import { OpenAIClientAdapter } from './clients/OpenAIClientAdapter';
+import { GeminiClientAdapter } from './clients/GeminiClientAdapter';
 import type { ApiKeyProvider } from '../types';
-import type { LLMChatRequest, LLMResponse, LLMFailureResponse } from './types';
+import type { LLMChatRequest, LLMContextCacheList, LLMMessage, LLMResponse, LLMFailureResponse, PreparedCompleteCall, PreparedRequestInspection, StandardSchemaV1, StructuredOutputSettings } from './types';
 import type { Logger } from '../logging/types';
+import { MODEL_PRICING_REVISION } from './config';
+import { UsageLedger } from './services/UsageLedger';
+import { ResponseCache } from './services/ResponseCache';
+import { RateLimiter } from '../shared/services/RateLimiter';
+import { CircuitBreaker } from '../shared/services/CircuitBreaker';
+import { silentLogger } from '../logging/defaultLogger';
+import type { LLMMiddleware } from './middleware';
+import type { LLMServiceEvents } from './events';
+import type { Span, Tracer } from '../shared/services/tracing';
 
 describe('LLMService', () => {
   let service: LLMService;
@@ -82,6 +92,185 @@ describe('LLMService', () => {
     });
   });
 
+  describe('cost', () => {
+    const gptRequest: LLMChatRequest = {
+      providerId: 'openai',
+      modelId: 'gpt-4.1',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+
+    const pricedResponse = (): LLMResponse => ({
+      id: 'cost-test',
+      provider: 'openai',
+      model: 'gpt-4.1',
+      created: 1,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: 'OK' },
+        rawContent: 'OK',
+        finish_reason: 'stop'
+      }],
+      usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+      usageEvidence: {
+        prompt_tokens: { source: 'provider', providerField: 'prompt_tokens' },
+        completion_tokens: { source: 'provider', providerField: 'completion_tokens' },
+      },
+      object: 'chat.completion'
+    });
+
+    beforeEach(() => {
+      mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+    });
+
+    it('attaches cost computed from the model price table', async () => {
+      const sendSpy = jest.spyOn(OpenAIClientAdapter.prototype, 'sendPrepared')
+        .mockResolvedValue(pricedResponse());
+
+      try {
+        const response = await service.sendMessage(gptRequest) as LLMResponse;
+
+        // gpt-4.1: $2 input / $8 output per 1M tokens
+        expect(response.cost).toMatchObject({
+          input: 0.002,
+          output: 0.004,
+          reasoning: 0,
+          cache: 0,
+          total: 0.006,
+          currency: 'USD',
+          pricing: { revision: MODEL_PRICING_REVISION, inputPrice: 2, outputPrice: 8 },
+        });
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('includes cost on the streaming complete event', async () => {
+      const streamSpy = jest.spyOn(OpenAIClientAdapter.prototype, 'streamPrepared')
+        .mockImplementation(async function* () {
+          yield { type: 'start', provider: 'openai', model: 'gpt-4.1' };
+          yield { type: 'content_delta', delta: 'OK', index: 0 };
+          yield { type: 'complete', response: pricedResponse() };
+        });
+
+      try {
+        const events = [];
+        for await (const event of service.streamMessage(gptRequest)) {
+          events.push(event);
+        }
+        const complete = events[events.length - 1];
+
+        expect(complete.type).toBe('complete');
+        expect(complete.type === 'complete' && complete.response.cost?.total).toBe(0.006);
+      } finally {
+        streamSpy.mockRestore();
+      }
+    });
+
+    it('reports zero cost for free models', async () => {
+      const response = await service.sendMessage({
+        providerId: 'mock',
+        modelId: 'mock-model',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }) as LLMResponse;
+
+      expect(response.usage).toBeDefined();
+      expect(response.cost).toMatchObject({ total: 0, currency: 'USD' });
+    });
+
+    describe('usage ledger', () => {
+      it('records every physical attempt, including retries', async () => {
+        const usageLedger = new UsageLedger({ logger: silentLogger });
+        const retryingService = new LLMService(mockApiKeyProvider, {
+          retry: { maxRetries: 1, initialDelayMs: 1, maxDelayMs: 2 },
+          logLevel: 'silent',
+          usageLedger,
+        });
+
+        await retryingService.sendMessage({
+          providerId: 'mock',
+          modelId: 'mock-model',
+          messages: [{ role: 'user', content: 'error_rate_limit' }],
+        }, { userTag: 'alice' });
+
+        const entries = await usageLedger.getEntries();
+        expect(entries).toHaveLength(2);
+        expect(entries[0]).toMatchObject({
+          providerId: 'mock',
+          modelId: 'mock-model',
+          userTag: 'alice',
+          outcome: 'error',
+          errorCode: 'RATE_LIMIT_EXCEEDED',
+          costUsd: 0,
+        });
+        expect(entries[0].attemptId).not.toBe(entries[1].attemptId);
+      });
+
+      it('fails with BUDGET_EXCEEDED before dispatch when the worst case crosses a hard budget', async () => {
+        const usageLedger = new UsageLedger({
+          budgets: [{ id: 'alice-cap', scope: { userTag: 'alice' }, limitUsd: 0.01, kind: 'hard' }],
+          logger: silentLogger,
+        });
+        const budgetService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', usageLedger });
+        const sendSpy = jest.spyOn(OpenAIClientAdapter.prototype, 'sendPrepared')
+          .mockResolvedValue(pricedResponse());
+
+        try {
+          // maxTokens 2000 at $8/1M reserves $0.016 for output alone
+          const response = await budgetService.sendMessage(
+            { ...gptRequest, settings: { maxTokens: 2000 } },
+            { userTag: 'alice' }
+          );
+          const untagged = await budgetService.sendMessage(
+            { ...gptRequest, settings: { maxTokens: 2000 } }
+          );
+
+          expect(response.object).toBe('error');
+          expect((response as LLMFailureResponse).error).toMatchObject({
+            code: 'BUDGET_EXCEEDED',
+            type: 'budget_error',
+            param: 'alice-cap',
+          });
+          expect(untagged.object).toBe('chat.completion');
+          expect(sendSpy).toHaveBeenCalledTimes(1);
+          expect(await usageLedger.getSpend()).toBeCloseTo(0.006);
+        } finally {
+          sendSpy.mockRestore();
+        }
+      });
+
+      it('records streamed attempts with their preset and cost', async () => {
+        const usageLedger = new UsageLedger({ logger: silentLogger });
+        const ledgerService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', usageLedger });
+        const streamSpy = jest.spyOn(OpenAIClientAdapter.prototype, 'streamPrepared')
+          .mockImplementation(async function* () {
+            yield { type: 'start', provider: 'openai', model: 'gpt-4.1' };
+            yield { type: 'complete', response: pricedResponse() };
+          });
+
+        try {
+          const events = [];
+          for await (const event of ledgerService.streamMessage({
+            presetId: 'openai-gpt-4.1-default',
+            messages: [{ role: 'user', content: 'Hello' }],
+          })) {
+            events.push(event);
+          }
+
+          const [recorded] = await usageLedger.getEntries();
+          expect(recorded).toMatchObject({
+            presetId: 'openai-gpt-4.1-default',
+            attemptId: events[0].attemptId,
+            outcome: 'success',
+            costUsd: 0.006,
+          });
+          expect(await usageLedger.getBudgetStatus()).toEqual([]);
+        } finally {
+          streamSpy.mockRestore();
+        }
+      });
+    });
+  });
+
   describe('retry layer', () => {
     const mockRequest = (content: string): LLMChatRequest => ({
       providerId: 'mock',
@@ -210,6 +399,94 @@ describe('LLMService', () => {
       expect(events[events.length - 1].type).toBe('complete');
     });
 
+    describe('parsed_delta', () => {
+      const structuredRequest = (
+        structuredOutput: Partial<StructuredOutputSettings> = {}
+      ): LLMChatRequest => ({
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [{ role: 'user', content: 'Title?' }],
+        settings: {
+          structuredOutput: {
+            name: 'article',
+            schema: {
+              type: 'object',
+              properties: { title: { type: 'string' }, n: { type: 'integer' } },
+              required: ['title', 'n'],
+            },
+            ...structuredOutput,
+          },
+        },
+      });
+
+      const streamChunks = (chunks: string[]) =>
+        jest.spyOn(OpenAIClientAdapter.prototype, 'streamPrepared').mockImplementation(async function* () {
+          yield { type: 'start', provider: 'openai', model: 'gpt-4.1' };
+          for (const delta of chunks) {
+            yield { type: 'content_delta', delta, index: 0 };
+          }
+          const content = chunks.join('');
+          yield {
+            type: 'complete',
+            response: {
+              id: 'structured',
+              provider: 'openai',
+              model: 'gpt-4.1',
+              created: 1,
+              object: 'chat.completion',
+              choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+            },
+          };
+        });
+
+      const parsedValues = (events: Awaited<ReturnType<typeof collectEvents>>) =>
+        events.flatMap((event) => (event.type === 'parsed_delta' ? [event.parsed] : []));
+
+      beforeEach(() => {
+        mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('emits the partial object after each content delta that changes it', async () => {
+        streamChunks(['{"title": "Hel', 'lo", "n', '": 1', '2}']);
+
+        const events = await collectEvents(structuredRequest());
+
+        expect(parsedValues(events)).toEqual([
+          { title: 'Hel' },
+          { title: 'Hello' },
+          { title: 'Hello', n: 12 },
+        ]);
+        const firstParsed = events.findIndex((event) => event.type === 'parsed_delta');
+        expect(events[firstParsed - 1]).toMatchObject({ type: 'content_delta', delta: '{"title": "Hel' });
+        expect(events[firstParsed].attemptId).toBe(events[0].attemptId);
+        const complete = events[events.length - 1];
+        expect(complete.type === 'complete' && complete.response.choices[0].parsedContent).toEqual({
+          title: 'Hello',
+          n: 12,
+        });
+      });
+
+      it('works with prompt delivery and skips text before the JSON', async () => {
+        streamChunks(['```json\n{"title"', ': "Hi"', ', "n": 3}\n```']);
+
+        const events = await collectEvents(structuredRequest({ delivery: 'prompt' }));
+
+        expect(parsedValues(events)).toEqual([{}, { title: 'Hi' }, { title: 'Hi', n: 3 }]);
+      });
+
+      it('is not emitted when autoParse is false', async () => {
+        streamChunks(['{"title": "Hi", "n": 1}']);
+
+        const events = await collectEvents(structuredRequest({ autoParse: false }));
+
+        expect(parsedValues(events)).toEqual([]);
+      });
+    });
+
     it('should yield validation errors as error events', async () => {
       const events = await collectEvents({
         providerId: 'unsupported-provider',
@@ -433,6 +710,72 @@ describe('LLMService', () => {
         expect(errorResponse.error.message).toContain('Invalid message role');
       });
 
+      it('should reject image parts for models without image support', async () => {
+        const request: LLMChatRequest = {
+          providerId: 'mock',
+          modelId: 'mock-model',
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', data: Buffer.from('png'), mimeType: 'image/png' }
+            ]
+          }]
+        };
+
+        const response = await service.sendMessage(request);
+
+        expect(response.object).toBe('error');
+        const errorResponse = response as LLMFailureResponse;
+        expect(errorResponse.error.code).toBe('image_input_not_supported');
+        expect(errorResponse.error.param).toBe('messages[0].content');
+      });
+
+      it('should reject PDF documents for providers without native PDF input', async () => {
+        const response = await service.sendMessage({
+          providerId: 'mock',
+          modelId: 'mock-model',
+          messages: [{
+            role: 'user',
+            content: [{ type: 'document', data: Buffer.from('%PDF-1.7') }]
+          }]
+        });
+
+        expect(response.object).toBe('error');
+        const errorResponse = response as LLMFailureResponse;
+        expect(errorResponse.error.code).toBe('document_input_not_supported');
+        expect(errorResponse.error.param).toBe('messages[0].content');
+      });
+
+      it('should send extracted PDF text to providers without native PDF input', async () => {
+        const documentTextExtractor = jest.fn().mockResolvedValue('Quarterly revenue grew.');
+        const extractingService = new LLMService(mockApiKeyProvider, { documentTextExtractor });
+
+        const prepared = await extractingService.prepareMessage({
+          providerId: 'mock',
+          modelId: 'mock-model',
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Summarize:' },
+              { type: 'document', data: Buffer.from('%PDF-1.7'), title: 'Q3' }
+            ]
+          }]
+        }, { mode: 'complete' });
+        expect('mode' in prepared).toBe(true);
+        const inspection = await extractingService.inspectPrepared(prepared as any);
+
+        expect(documentTextExtractor).toHaveBeenCalledWith({
+          data: Buffer.from('%PDF-1.7'),
+          mimeType: 'application/pdf',
+          title: 'Q3'
+        });
+        expect('request' in inspection && inspection.request.messages[0].content).toEqual([
+          { type: 'text', text: 'Summarize:' },
+          { type: 'text', text: '<document title="Q3">\nQuarterly revenue grew.\n</document>' }
+        ]);
+      });
+
       it('should accept empty-string message content', async () => {
         const request: LLMChatRequest = {
           providerId: 'mock',
@@ -1237,6 +1580,265 @@ describe('LLMService', () => {
       expect(successResponse.choices[0].parseError).toBeUndefined();
     });
 
+    it('reports where the parsed content does not match the schema', async () => {
+      const response = await service.sendMessage({
+        providerId: 'mock',
+        modelId: 'mistral-small-latest',
+        messages: [{ role: 'user', content: 'json:{"name":"John","age":"30"}' }],
+        settings: {
+          structuredOutput: {
+            name: 'person_info',
+            schema: {
+              type: 'object',
+              properties: { name: { type: 'string' }, age: { type: 'integer' } },
+              required: ['name', 'age'],
+            },
+          },
+        },
+      }) as LLMResponse;
+
+      expect(response.choices[0].parsedContent).toEqual({ name: 'John', age: '30' });
+      expect(response.choices[0].validationErrors).toEqual([
+        { path: '/age', keyword: 'type', message: 'must be integer' },
+      ]);
+      expect(response.structuredOutputAttempts).toBeUndefined();
+    });
+
+    describe('repair', () => {
+      const reply = (id: string, content: string): LLMResponse => ({
+        id,
+        provider: 'mock',
+        model: 'mistral-small-latest',
+        created: 1,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        object: 'chat.completion',
+      });
+      const repairRequest = (repair: StructuredOutputSettings['repair']): LLMChatRequest => ({
+        providerId: 'mock',
+        modelId: 'mistral-small-latest',
+        messages: [{ role: 'user', content: 'Who is John?' }],
+        settings: {
+          structuredOutput: {
+            name: 'person_info',
+            schema: {
+              type: 'object',
+              properties: { name: { type: 'string' }, age: { type: 'integer' } },
+              required: ['name', 'age'],
+            },
+            repair,
+          },
+        },
+      });
+      let sendSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        service = new LLMService(mockApiKeyProvider, { logLevel: 'silent', retry: { maxRetries: 0 } });
+        sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared');
+      });
+
+      afterEach(() => {
+        sendSpy.mockRestore();
+      });
+
+      it('parses leniently and re-prompts with the validation errors', async () => {
+        sendSpy
+          .mockResolvedValueOnce(reply('first', 'Sure:\n```json\n{"name":"John"}\n```'))
+          .mockResolvedValueOnce(reply('second', '{"name":"John","age":30}'));
+
+        const response = await service.sendMessage(repairRequest(true)) as LLMResponse;
+
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(sendSpy.mock.calls[1][0].requestView.messages.slice(-2)).toEqual([
+          { role: 'assistant', content: 'Sure:\n```json\n{"name":"John"}\n```' },
+          {
+            role: 'user',
+            content:
+              'Your previous response does not match the required JSON schema:\n' +
+              "- (root): must have required property 'age'\n" +
+              'Reply with only the corrected JSON, without markdown fences or commentary.',
+          },
+        ]);
+        expect(response.id).toBe('second');
+        expect(response.choices[0].parsedContent).toEqual({ name: 'John', age: 30 });
+        expect(response.choices[0].validationErrors).toBeUndefined();
+        expect(response.structuredOutputAttempts).toEqual([
+          expect.objectContaining({
+            responseId: 'first',
+            parsedContent: { name: 'John' },
+            validationErrors: [{ path: '', keyword: 'required', message: "must have required property 'age'" }],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+          }),
+          expect.objectContaining({ responseId: 'second', parsedContent: { name: 'John', age: 30 } }),
+        ]);
+      });
+
+      it('stops after maxRetries and returns the last invalid response', async () => {
+        sendSpy
+          .mockResolvedValueOnce(reply('first', 'not json'))
+          .mockResolvedValueOnce(reply('second', '{"name":"John"}'));
+
+        const response = await service.sendMessage(repairRequest({ maxRetries: 1 })) as LLMResponse;
+
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(response.id).toBe('second');
+        expect(response.choices[0].validationErrors).toHaveLength(1);
+        expect(response.structuredOutputAttempts?.map((attempt) => attempt.responseId)).toEqual(['first', 'second']);
+        expect(response.structuredOutputAttempts?.[0].parseError).toContain('JSON parse failed');
+      });
+
+      it('records a failed repair call and keeps the previous response', async () => {
+        sendSpy.mockResolvedValueOnce(reply('first', '{"name":"John"}')).mockResolvedValueOnce({
+          provider: 'mock',
+          model: 'mistral-small-latest',
+          error: { message: 'Overloaded', code: 'PROVIDER_ERROR', type: 'server_error' },
+          object: 'error',
+        });
+
+        const response = await service.sendMessage(repairRequest(true)) as LLMResponse;
+
+        expect(response.id).toBe('first');
+        expect(response.structuredOutputAttempts).toEqual([
+          expect.objectContaining({ responseId: 'first' }),
+          { error: { message: 'Overloaded', code: 'PROVIDER_ERROR', type: 'server_error' } },
+        ]);
+      });
+
+      it('rejects an invalid repair setting', async () => {
+        const response = await service.sendMessage(repairRequest({ maxRetries: -1 }));
+
+        expect(response.object).toBe('error');
+        expect((response as LLMFailureResponse).error).toMatchObject({
+          code: 'structured_output_invalid_repair',
+          param: 'settings.structuredOutput.repair',
+        });
+        expect(sendSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Standard Schema', () => {
+      type Person = { name: string; age: number; source?: string };
+      const personJsonSchema = {
+        type: 'object',
+        properties: { name: { type: 'string' }, age: { type: 'number' } },
+        required: ['name', 'age'],
+      };
+      // Minimal Standard Schema validator standing in for Zod/Valibot/ArkType
+      const personValidator = (withJsonSchema = true): StandardSchemaV1<unknown, Person> => ({
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: async (value) => {
+            const person = value as Person;
+            return typeof person.age === 'number'
+              ? { value: { ...person, source: 'validator' } }
+              : { issues: [{ message: 'Expected number', path: [{ key: 'age' }] }] };
+          },
+          ...(withJsonSchema && {
+            jsonSchema: {
+              input: () => personJsonSchema,
+              output: () => ({ $schema: 'https://json-schema.org/draft/2020-12/schema', ...personJsonSchema }),
+            },
+          }),
+        },
+      });
+      const personRequest = (content: string, schema = personValidator()) => ({
+        providerId: 'mock',
+        modelId: 'mistral-small-latest',
+        messages: [{ role: 'user' as const, content }],
+        settings: { structuredOutput: { name: 'person_info', schema } },
+      });
+
+      it('sends the converted JSON schema to the provider', async () => {
+        mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+        const prepared = await service.prepareMessage(
+          { ...personRequest('Who?'), providerId: 'openai', modelId: 'gpt-4.1' },
+          { mode: 'complete' }
+        );
+        const inspection = await service.inspectPrepared(prepared as any);
+
+        expect(JSON.stringify(inspection)).toContain('"properties":{"name":{"type":"string"},"age":{"type":"number"}}');
+        expect(JSON.stringify(inspection)).not.toContain('$schema');
+      });
+
+      it('types parsedContent and sets it to the validator output', async () => {
+        const response = await service.sendMessage(personRequest('json:{"name":"Ann","age":30}'));
+
+        expect(response.object).toBe('chat.completion');
+        const person: Person | undefined = (response as LLMResponse<Person>).choices[0].parsedContent;
+        expect(person).toEqual({ name: 'Ann', age: 30, source: 'validator' });
+      });
+
+      it('reports validator issues as validationErrors', async () => {
+        const response = await service.sendMessage(personRequest('json:{"name":"Ann","age":"30"}')) as LLMResponse;
+
+        expect(response.choices[0].parsedContent).toEqual({ name: 'Ann', age: '30' });
+        expect(response.choices[0].validationErrors).toEqual([
+          { path: '/age', keyword: 'test', message: 'Expected number' },
+        ]);
+      });
+
+      it('sends an explicit jsonSchema in place of the conversion', async () => {
+        mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+        const request = personRequest('Who?', personValidator(false));
+        const prepared = await service.prepareMessage(
+          {
+            ...request,
+            providerId: 'openai',
+            modelId: 'gpt-4.1',
+            settings: {
+              structuredOutput: {
+                ...request.settings.structuredOutput,
+                jsonSchema: { type: 'object', properties: { nickname: { type: 'string' } } },
+              },
+            },
+          },
+          { mode: 'complete' }
+        );
+        const inspection = await service.inspectPrepared(prepared as any) as PreparedRequestInspection;
+
+        expect(inspection.request.structuredOutput).toMatchObject({ delivery: 'native', enforcement: 'provider' });
+        expect(JSON.stringify(inspection)).toContain('"nickname"');
+      });
+
+      it('falls back to prompt delivery when the schema cannot be converted', async () => {
+        mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+        const prepared = await service.prepareMessage(
+          { ...personRequest('Who?', personValidator(false)), providerId: 'openai', modelId: 'gpt-4.1' },
+          { mode: 'complete' }
+        );
+        const inspection = await service.inspectPrepared(prepared as any) as PreparedRequestInspection;
+
+        expect(inspection.request.structuredOutput).toEqual({
+          delivery: 'prompt',
+          enforcement: 'instruction_only',
+          name: 'person_info',
+          schema: {},
+          promptRevision: expect.any(String),
+        });
+        expect(JSON.stringify(inspection.request.messages)).toContain('Return only valid JSON.');
+      });
+
+      it('validates the reply when the schema cannot be converted', async () => {
+        const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared').mockResolvedValue({
+          id: 'reply',
+          provider: 'mock',
+          model: 'mistral-small-latest',
+          created: 1,
+          choices: [{ index: 0, message: { role: 'assistant', content: '{"name":"Ann","age":"30"}' }, finish_reason: 'stop' }],
+          object: 'chat.completion',
+        });
+
+        const response = await service.sendMessage(personRequest('Who?', personValidator(false))) as LLMResponse;
+
+        expect(response.object).toBe('chat.completion');
+        expect(response.choices[0].validationErrors).toEqual([
+          { path: '/age', keyword: 'test', message: 'Expected number' },
+        ]);
+        sendSpy.mockRestore();
+      });
+    });
+
     describe('Anthropic capability preflight', () => {
       const anthropicRequest = (modelId: string): LLMChatRequest => ({
         providerId: 'anthropic',
@@ -1343,4 +1945,1574 @@ describe('LLMService', () => {
       expect(successResponse.choices[0].parsedContent).toBeUndefined();
     });
   });
+
+  describe('tool calling', () => {
+    const tools = [{
+      name: 'get_weather',
+      parameters: { type: 'object' as const, properties: { city: { type: 'string' as const } } },
+    }];
+
+    it('should return tool calls on the choice', async () => {
+      const response = await service.sendMessage({
+        providerId: 'mock',
+        modelId: 'mock-model-1',
+        messages: [{ role: 'user', content: 'tool_call:{"city":"Paris"}' }],
+        settings: { tools },
+      });
+
+      expect(response.object).toBe('chat.completion');
+      const choice = (response as LLMResponse).choices[0];
+      expect(choice.toolCalls).toEqual([
+        { id: 'mock-call-0', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      ]);
+      expect(choice.termination?.kind).toBe('tool_call');
+    });
+
+    it('should accept a replayed tool round trip', async () => {
+      const response = await service.sendMessage({
+        providerId: 'mock',
+        modelId: 'mock-model-1',
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'mock-call-0', name: 'get_weather', arguments: '{"city":"Paris"}' }],
+          },
+          { role: 'tool', toolCallId: 'mock-call-0', content: 'sunny' },
+        ],
+        settings: { tools },
+      });
+
+      expect(response.object).toBe('chat.completion');
+      expect((response as LLMResponse).choices[0].toolCalls).toBeUndefined();
+    });
+
+    it('should reject toolChoice naming an unknown tool', async () => {
+      const response = await service.sendMessage({
+        providerId: 'mock',
+        modelId: 'mock-model-1',
+        messages: [{ role: 'user', content: 'Hello' }],
+        settings: { tools, toolChoice: { name: 'missing' } },
+      });
+
+      expect(response.object).toBe('error');
+      expect((response as LLMFailureResponse).error.code).toBe('INVALID_SETTINGS');
+    });
+  });
+
+  describe('context caches', () => {
+    const geminiKey = 'AIzaSyTestKey1234567890123456789012345';
+    const cache = {
+      object: 'context_cache' as const,
+      provider: 'gemini' as const,
+      model: 'gemini-2.5-flash',
+      name: 'cachedContents/abc123',
+    };
+
+    it('creates a cache through the provider adapter with merged settings', async () => {
+      mockApiKeyProvider.mockResolvedValueOnce(geminiKey);
+      const createSpy = jest
+        .spyOn(GeminiClientAdapter.prototype, 'createContextCache')
+        .mockResolvedValue(cache);
+      const tools = [{ name: 'lookup', parameters: { type: 'object' as const } }];
+
+      try {
+        const result = await service.createContextCache({
+          providerId: 'gemini',
+          modelId: 'gemini-2.5-flash',
+          messages: [
+            { role: 'system', content: 'Answer from the manual.' },
+            { role: 'user', content: 'Manual text' },
+          ],
+          tools,
+          displayName: 'manual',
+          ttlSeconds: 600,
+        });
+
+        expect(result).toEqual(cache);
+        const [internalRequest, cacheOptions, apiKey] = createSpy.mock.calls[0];
+        expect(internalRequest.messages).toHaveLength(2);
+        expect(internalRequest.settings.tools).toEqual(tools);
+        expect(cacheOptions).toEqual({ displayName: 'manual', ttlSeconds: 600 });
+        expect(apiKey).toBe(geminiKey);
+      } finally {
+        createSpy.mockRestore();
+      }
+    });
+
+    it('rejects a non-positive ttlSeconds before calling the adapter', async () => {
+      const createSpy = jest.spyOn(GeminiClientAdapter.prototype, 'createContextCache');
+
+      try {
+        const result = (await service.createContextCache({
+          providerId: 'gemini',
+          modelId: 'gemini-2.5-flash',
+          messages: [{ role: 'user', content: 'Manual text' }],
+          ttlSeconds: 0,
+        })) as LLMFailureResponse;
+
+        expect(result.error).toMatchObject({ code: 'INVALID_REQUEST', param: 'ttlSeconds' });
+        expect(createSpy).not.toHaveBeenCalled();
+      } finally {
+        createSpy.mockRestore();
+      }
+    });
+
+    it('reports providers without cache management as unsupported', async () => {
+      const result = (await service.listContextCaches('openai')) as LLMFailureResponse;
+
+      expect(result.error).toMatchObject({
+        code: 'CONTEXT_CACHE_UNSUPPORTED',
+        type: 'unsupported_feature',
+      });
+      expect(mockApiKeyProvider).not.toHaveBeenCalled();
+    });
+
+    it('requires exactly one expiry field when updating', async () => {
+      const result = (await service.updateContextCache(
+        'gemini',
+        cache.name,
+        { ttlSeconds: 60, expireTime: '2026-10-19T00:00:00Z' }
+      )) as LLMFailureResponse;
+
+      expect(result.error.code).toBe('INVALID_REQUEST');
+    });
+
+    it('lists, extends and deletes caches with the provider key', async () => {
+      mockApiKeyProvider.mockResolvedValue(geminiKey);
+      const listSpy = jest
+        .spyOn(GeminiClientAdapter.prototype, 'listContextCaches')
+        .mockResolvedValue({ object: 'context_cache.list', provider: 'gemini', caches: [cache] });
+      const updateSpy = jest
+        .spyOn(GeminiClientAdapter.prototype, 'updateContextCache')
+        .mockResolvedValue(cache);
+      const deleteSpy = jest
+        .spyOn(GeminiClientAdapter.prototype, 'deleteContextCache')
+        .mockResolvedValue({ object: 'context_cache.deleted', provider: 'gemini', name: cache.name });
+
+      try {
+        const list = (await service.listContextCaches('gemini')) as LLMContextCacheList;
+        await service.updateContextCache('gemini', cache.name, { ttlSeconds: 3600 }, { timeoutMs: 5000 });
+        const deleted = await service.deleteContextCache('gemini', cache.name);
+
+        expect(list.caches).toEqual([cache]);
+        expect(updateSpy).toHaveBeenCalledWith(
+          cache.name,
+          { ttlSeconds: 3600 },
+          geminiKey,
+          { timeoutMs: 5000 }
+        );
+        expect(deleted.object).toBe('context_cache.deleted');
+      } finally {
+        listSpy.mockRestore();
+        updateSpy.mockRestore();
+        deleteSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('batch jobs', () => {
+    const job = {
+      object: 'batch_job' as const,
+      provider: 'openai' as const,
+      id: 'batch_1',
+      status: 'validating' as const,
+      providerStatus: 'validating',
+      requestCounts: { total: 2, succeeded: 0, failed: 0, pending: 2 },
+    };
+
+    async function prepareOpenAI(content: string) {
+      return (await service.prepareMessage(
+        {
+          providerId: 'openai',
+          modelId: 'gpt-4.1',
+          messages: [{ role: 'user', content }],
+        },
+        { mode: 'complete' }
+      )) as any;
+    }
+
+    it('submits prepared calls keyed by custom ID and post-processes results', async () => {
+      const calls = { a: await prepareOpenAI('One'), b: await prepareOpenAI('Two') };
+      mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+      const createSpy = jest
+        .spyOn(OpenAIClientAdapter.prototype, 'createBatchJob')
+        .mockResolvedValue(job);
+      const resultsSpy = jest
+        .spyOn(OpenAIClientAdapter.prototype, 'getBatchJobResults')
+        .mockImplementation(async (_id, items) => [
+          {
+            customId: items[0].customId,
+            result: {
+              id: 'chatcmpl-1',
+              provider: 'openai',
+              model: 'gpt-4.1',
+              created: 1,
+              choices: [
+                { index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' },
+              ],
+              usage: { prompt_tokens: 1000, completion_tokens: 100, total_tokens: 1100 },
+              object: 'chat.completion',
+            },
+          },
+        ]);
+
+      try {
+        expect(await service.createBatchJob(calls)).toEqual(job);
+        const [items, apiKey] = createSpy.mock.calls[0];
+        expect(items.map((item) => item.customId)).toEqual(['a', 'b']);
+        expect(apiKey).toBe('sk-test-key-12345678901234567890');
+
+        const results = await service.getBatchJobResults('openai', 'batch_1', calls);
+
+        expect(results).toMatchObject({
+          object: 'batch_job.results',
+          provider: 'openai',
+          id: 'batch_1',
+        });
+        const response = (results as any).results.a as LLMResponse;
+        expect(response.choices[0].rawContent).toBe('Hi');
+        // Batch jobs are billed at half of gpt-4.1's $2/$8 per million tokens
+        expect(response.cost?.input).toBeCloseTo(0.001);
+        expect(response.cost?.output).toBeCloseTo(0.0004);
+        expect(response.cost?.total).toBeCloseTo(0.0014);
+        expect(response.cost?.pricing).toMatchObject({ inputPrice: 2, outputPrice: 8, priceMultiplier: 0.5 });
+        expect((results as any).results.b).toBeUndefined();
+      } finally {
+        createSpy.mockRestore();
+        resultsSpy.mockRestore();
+      }
+    });
+
+    it('rejects empty and mixed-provider batches before calling the adapter', async () => {
+      const createSpy = jest.spyOn(OpenAIClientAdapter.prototype, 'createBatchJob');
+      const mockCall = await service.prepareMessage(
+        { providerId: 'mock', modelId: 'mock-model', messages: [{ role: 'user', content: 'x' }] },
+        { mode: 'complete' }
+      );
+
+      try {
+        const empty = (await service.createBatchJob({})) as LLMFailureResponse;
+        expect(empty.error.code).toBe('INVALID_REQUEST');
+
+        const mixed = (await service.createBatchJob({
+          a: await prepareOpenAI('One'),
+          b: mockCall as any,
+        })) as LLMFailureResponse;
+        expect(mixed.error).toMatchObject({ code: 'INVALID_REQUEST', param: 'b' });
+        expect(createSpy).not.toHaveBeenCalled();
+      } finally {
+        createSpy.mockRestore();
+      }
+    });
+
+    it('reports providers without batch jobs as unsupported', async () => {
+      const result = (await service.getBatchJob('gemini', 'batches/1')) as LLMFailureResponse;
+
+      expect(result.error).toMatchObject({
+        code: 'BATCH_JOB_UNSUPPORTED',
+        type: 'unsupported_feature',
+      });
+      expect(mockApiKeyProvider).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('response cache', () => {
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Cache me' }],
+      settings: { temperature: 0 },
+    };
+
+    it('serves identical prepared requests from the cache', async () => {
+      const cachingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        responseCache: new ResponseCache({ logger: silentLogger }),
+      });
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared');
+
+      try {
+        const first = (await cachingService.sendMessage(request)) as LLMResponse;
+        const second = (await cachingService.sendMessage(request)) as LLMResponse;
+        const different = (await cachingService.sendMessage({
+          ...request,
+          settings: { temperature: 0.5 },
+        })) as LLMResponse;
+
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(first.cacheHit).toBeUndefined();
+        expect(second.cacheHit).toBe(true);
+        expect(second.choices).toEqual(first.choices);
+        expect(different.cacheHit).toBeUndefined();
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('misses the cache for different documents of the same size and title', async () => {
+      mockApiKeyProvider.mockResolvedValue('sk-ant-REDACTED');
+      const cachingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        responseCache: new ResponseCache({ logger: silentLogger }),
+      });
+      const sendSpy = jest
+        .spyOn(AnthropicClientAdapter.prototype, 'sendPrepared')
+        .mockResolvedValue({
+          id: 'msg_doc',
+          provider: 'anthropic',
+          model: 'claude-sonnet-4-5-20250929',
+          created: 0,
+          object: 'chat.completion',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'Summary' }, finish_reason: 'stop' }],
+        });
+      const documentRequest = (text: string): LLMChatRequest => ({
+        providerId: 'anthropic',
+        modelId: 'claude-sonnet-4-5-20250929',
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'document', text, title: 'notes.txt' },
+            { type: 'text', text: 'Summarize.' },
+          ],
+        }],
+      });
+
+      try {
+        const first = (await cachingService.sendMessage(documentRequest('Revenue rose'))) as LLMResponse;
+        const second = (await cachingService.sendMessage(documentRequest('Revenue fell'))) as LLMResponse;
+        const repeat = (await cachingService.sendMessage(documentRequest('Revenue fell'))) as LLMResponse;
+
+        expect(first.cacheHit).toBeUndefined();
+        expect(second.cacheHit).toBeUndefined();
+        expect(repeat.cacheHit).toBe(true);
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('validates a cache hit with the validator of the call that hit it', async () => {
+      const cachingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        responseCache: new ResponseCache({ logger: silentLogger }),
+      });
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared').mockResolvedValue({
+        id: 'reply',
+        provider: 'mock',
+        model: 'mock-model',
+        created: 0,
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: '{"n":1}' }, finish_reason: 'stop' }],
+      });
+      // Neither converts to JSON Schema, so both produce the same request view
+      const tagging: StandardSchemaV1 = {
+        '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value: { ...(value as object), by: 'tagging' } }) },
+      };
+      const rejecting: StandardSchemaV1 = {
+        '~standard': { version: 1, vendor: 'test', validate: () => ({ issues: [{ message: 'Rejected' }] }) },
+      };
+      const withValidator = (schema: StandardSchemaV1) => ({
+        ...request,
+        settings: { ...request.settings, structuredOutput: { name: 'result', schema } },
+      });
+
+      try {
+        const first = (await cachingService.sendMessage(withValidator(tagging))) as LLMResponse;
+        const second = (await cachingService.sendMessage(withValidator(rejecting))) as LLMResponse;
+        const third = (await cachingService.sendMessage(withValidator(tagging))) as LLMResponse;
+
+        expect(sendSpy).toHaveBeenCalledTimes(1);
+        expect(first.choices[0]).toMatchObject({ parsedContent: { n: 1, by: 'tagging' } });
+        expect(second.cacheHit).toBe(true);
+        expect(second.choices[0].parsedContent).toEqual({ n: 1 });
+        expect(second.choices[0].validationErrors).toEqual([{ path: '', keyword: 'test', message: 'Rejected' }]);
+        expect(third.cacheHit).toBe(true);
+        expect(third.choices[0].parsedContent).toEqual({ n: 1, by: 'tagging' });
+        expect(third.choices[0]).not.toHaveProperty('validationErrors');
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('honors refresh and bypass cache modes', async () => {
+      const responseCache = new ResponseCache({ logger: silentLogger });
+      const cachingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        responseCache,
+      });
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared');
+
+      try {
+        await cachingService.sendMessage(request, { cacheMode: 'bypass' });
+        await cachingService.sendMessage(request, { cacheMode: 'refresh' });
+        const cached = (await cachingService.sendMessage(request)) as LLMResponse;
+
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(cached.cacheHit).toBe(true);
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('does not cache failures', async () => {
+      const cachingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        retry: { maxRetries: 0 },
+        responseCache: new ResponseCache({ logger: silentLogger }),
+      });
+      const failing = { ...request, messages: [{ role: 'user' as const, content: 'error_rate_limit' }] };
+
+      await cachingService.sendMessage(failing);
+      const second = await cachingService.sendMessage(failing);
+
+      expect(second.object).toBe('error');
+    });
+  });
+
+  describe('fallback presets', () => {
+    const backupPreset = {
+      id: 'gpt-backup',
+      displayName: 'GPT backup',
+      providerId: 'openai' as const,
+      modelId: 'gpt-4.1',
+      settings: { temperature: 0.2 },
+    };
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+    const failure = (code: string): LLMFailureResponse => ({
+      provider: 'mock',
+      model: 'mock-model',
+      error: { message: `mock ${code}`, code, type: 'server_error', providerError: { raw: true } },
+      object: 'error',
+    });
+    const backupResponse: LLMResponse = {
+      id: 'backup',
+      provider: 'openai',
+      model: 'gpt-4.1',
+      created: 1,
+      choices: [{ index: 0, message: { role: 'assistant', content: 'OK' }, finish_reason: 'stop' }],
+      object: 'chat.completion',
+    };
+
+    let fallbackService: LLMService;
+    let backupSend: jest.SpyInstance;
+    let primarySend: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockApiKeyProvider.mockResolvedValue('sk-test-key-12345678901234567890');
+      fallbackService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        retry: { maxRetries: 0 },
+        presets: [backupPreset],
+      });
+      primarySend = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared');
+      backupSend = jest
+        .spyOn(OpenAIClientAdapter.prototype, 'sendPrepared')
+        .mockResolvedValue(backupResponse);
+    });
+
+    afterEach(() => {
+      primarySend.mockRestore();
+      backupSend.mockRestore();
+    });
+
+    it('falls through to the next preset on an eligible error', async () => {
+      primarySend.mockResolvedValueOnce(failure('RATE_LIMIT_EXCEEDED'));
+
+      const response = (await fallbackService.sendMessage(request, {
+        fallbackPresetIds: ['gpt-backup'],
+      })) as LLMResponse;
+
+      expect(response.object).toBe('chat.completion');
+      expect(response.fallback).toEqual({
+        presetId: 'gpt-backup',
+        position: 1,
+        failures: [{
+          provider: 'mock',
+          model: 'mock-model',
+          error: { message: 'mock RATE_LIMIT_EXCEEDED', code: 'RATE_LIMIT_EXCEEDED', type: 'server_error' },
+        }],
+      });
+      expect(backupSend.mock.calls[0][0].requestView.settings).toMatchObject({ temperature: 0.2 });
+    });
+
+    it('returns errors that are not fallback-eligible without trying fallbacks', async () => {
+      primarySend.mockResolvedValueOnce(failure('INVALID_API_KEY'));
+
+      const response = (await fallbackService.sendMessage(request, {
+        fallbackPresetIds: ['gpt-backup'],
+      })) as LLMFailureResponse;
+
+      expect(response.error.code).toBe('INVALID_API_KEY');
+      expect(response.fallback).toEqual({ position: 0, failures: [] });
+      expect(backupSend).not.toHaveBeenCalled();
+    });
+
+    it('skips fallback presets that fail preparation', async () => {
+      primarySend.mockResolvedValueOnce(failure('CONTEXT_LENGTH_EXCEEDED'));
+
+      const response = (await fallbackService.sendMessage(request, {
+        fallbackPresetIds: ['missing-preset', 'gpt-backup'],
+      })) as LLMResponse;
+
+      expect(response.fallback?.position).toBe(2);
+      expect(response.fallback?.failures.map((f) => [f.presetId, f.error.code])).toEqual([
+        [undefined, 'CONTEXT_LENGTH_EXCEEDED'],
+        ['missing-preset', 'PRESET_NOT_FOUND'],
+      ]);
+    });
+
+    it('falls back on a stream that fails before emitting content', async () => {
+      const primaryStream = jest
+        .spyOn(MockClientAdapter.prototype, 'streamPrepared')
+        .mockImplementationOnce(async function* () {
+          yield { type: 'start', provider: 'mock', model: 'mock-model' };
+          yield { type: 'error', error: failure('PROVIDER_ERROR') };
+        });
+      const backupStream = jest
+        .spyOn(OpenAIClientAdapter.prototype, 'streamPrepared')
+        .mockImplementationOnce(async function* () {
+          yield { type: 'start', provider: 'openai', model: 'gpt-4.1' };
+          yield { type: 'content_delta', delta: 'OK', index: 0 };
+          yield { type: 'complete', response: backupResponse };
+        });
+
+      try {
+        const events = [];
+        for await (const event of fallbackService.streamMessage(request, {
+          fallbackPresetIds: ['gpt-backup'],
+        })) {
+          events.push(event);
+        }
+
+        expect(events.map((event) => event.type)).toEqual(['start', 'content_delta', 'complete']);
+        expect(events[0]).toMatchObject({ provider: 'openai' });
+        const complete = events[2];
+        expect(complete.type === 'complete' && complete.response.fallback).toMatchObject({
+          presetId: 'gpt-backup',
+          position: 1,
+          failures: [{ error: { code: 'PROVIDER_ERROR' } }],
+        });
+      } finally {
+        primaryStream.mockRestore();
+        backupStream.mockRestore();
+      }
+    });
+
+    it('does not fall back once stream content has been emitted', async () => {
+      const primaryStream = jest
+        .spyOn(MockClientAdapter.prototype, 'streamPrepared')
+        .mockImplementationOnce(async function* () {
+          yield { type: 'start', provider: 'mock', model: 'mock-model' };
+          yield { type: 'content_delta', delta: 'Hel', index: 0 };
+          yield { type: 'error', error: failure('PROVIDER_ERROR') };
+        });
+      const backupStream = jest.spyOn(OpenAIClientAdapter.prototype, 'streamPrepared');
+
+      try {
+        const events = [];
+        for await (const event of fallbackService.streamMessage(request, {
+          fallbackPresetIds: ['gpt-backup'],
+        })) {
+          events.push(event);
+        }
+
+        expect(events.map((event) => event.type)).toEqual(['start', 'content_delta', 'error']);
+        expect(backupStream).not.toHaveBeenCalled();
+      } finally {
+        primaryStream.mockRestore();
+        backupStream.mockRestore();
+      }
+    });
+  });
+
+  describe('rate limiter', () => {
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    it('holds dispatch until a slot is free and releases it afterwards', async () => {
+      const rateLimiter = new RateLimiter({
+        limits: { mock: { maxConcurrency: 1 } },
+        logger: silentLogger,
+      });
+      const limitedService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', rateLimiter });
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared');
+
+      try {
+        const held = await rateLimiter.acquire('mock');
+        const pending = limitedService.sendMessage(request);
+        await tick();
+        expect(sendSpy).not.toHaveBeenCalled();
+        expect(rateLimiter.pending).toBe(1);
+
+        if ('permit' in held) {
+          held.permit.release();
+        }
+        const response = await pending;
+
+        expect(response.object).toBe('chat.completion');
+        expect(sendSpy).toHaveBeenCalledTimes(1);
+        // The service released its own slot
+        expect(await rateLimiter.acquire('mock')).toHaveProperty('permit');
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('charges the prompt and output-token estimate against tokensPerMinute', async () => {
+      const rateLimiter = new RateLimiter({ logger: silentLogger });
+      const acquireSpy = jest.spyOn(rateLimiter, 'acquire');
+      const limitedService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', rateLimiter });
+
+      await limitedService.sendMessage({ ...request, settings: { maxTokens: 200 } });
+
+      expect(acquireSpy).toHaveBeenCalledWith(
+        'mock',
+        'mock-model',
+        expect.objectContaining({ tokens: expect.any(Number) })
+      );
+      expect(acquireSpy.mock.calls[0][2]!.tokens).toBeGreaterThanOrEqual(200);
+    });
+
+    it('returns REQUEST_ABORTED when the signal fires while queued', async () => {
+      const rateLimiter = new RateLimiter({
+        limits: { 'mock/mock-model': { requestsPerMinute: 1 } },
+        logger: silentLogger,
+      });
+      const limitedService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', rateLimiter });
+      await rateLimiter.acquire('mock', 'mock-model');
+      const sendController = new AbortController();
+      const streamController = new AbortController();
+
+      const pending = limitedService.sendMessage(request, { signal: sendController.signal });
+      const events: string[] = [];
+      const streaming = (async () => {
+        for await (const event of limitedService.streamMessage(request, {
+          signal: streamController.signal,
+        })) {
+          events.push(event.type === 'error' ? String(event.error.error.code) : event.type);
+        }
+      })();
+      await tick();
+      sendController.abort();
+      streamController.abort();
+
+      const response = (await pending) as LLMFailureResponse;
+      await streaming;
+      expect(response.error).toMatchObject({ code: 'REQUEST_ABORTED', type: 'abort_error' });
+      expect(events).toEqual(['REQUEST_ABORTED']);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+    const outage: LLMFailureResponse = {
+      provider: 'mock',
+      model: 'mock-model',
+      object: 'error',
+      error: { message: 'Service unavailable', code: 'PROVIDER_ERROR', type: 'server_error', status: 503 },
+    };
+
+    it('opens after retryable failures and then fails fast without dispatching', async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 2, logger: silentLogger });
+      const guardedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        circuitBreaker,
+        retry: { maxRetries: 3, initialDelayMs: 1, maxDelayMs: 1 },
+      });
+      const sendSpy = jest
+        .spyOn(MockClientAdapter.prototype, 'sendPrepared')
+        .mockResolvedValue(outage);
+
+      try {
+        const first = (await guardedService.sendMessage(request)) as LLMFailureResponse;
+
+        // The breaker opened after two attempts and cut the retries short
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(first.error).toMatchObject({ code: 'CIRCUIT_OPEN', type: 'server_error' });
+        expect(first.error.retryAfterMs).toBeGreaterThan(0);
+
+        const events: string[] = [];
+        for await (const event of guardedService.streamMessage(request)) {
+          events.push(event.type === 'error' ? String(event.error.error.code) : event.type);
+        }
+        expect(events).toEqual(['CIRCUIT_OPEN']);
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(guardedService.getCircuitStatus({ providerId: 'mock', modelId: 'mock-model' })).toMatchObject({
+          state: 'open',
+          consecutiveFailures: 2,
+        });
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('does not count non-retryable failures or aborts', async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, logger: silentLogger });
+      const guardedService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', circuitBreaker });
+      const sendSpy = jest
+        .spyOn(MockClientAdapter.prototype, 'sendPrepared')
+        .mockResolvedValueOnce({
+          ...outage,
+          error: { message: 'Bad request', code: 'PROVIDER_ERROR', type: 'invalid_request_error', status: 400 },
+        })
+        .mockResolvedValueOnce({
+          ...outage,
+          error: { message: 'Aborted', code: 'REQUEST_ABORTED', type: 'abort_error' },
+        });
+
+      try {
+        await guardedService.sendMessage(request);
+        await guardedService.sendMessage(request);
+
+        expect(circuitBreaker.getState('mock', 'mock-model').state).toBe('closed');
+        expect((await guardedService.sendMessage(request)).object).toBe('chat.completion');
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('reports preset circuit state so callers can choose another preset', () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, logger: silentLogger });
+      const guardedService = new LLMService(mockApiKeyProvider, { logLevel: 'silent', circuitBreaker });
+      const permit = circuitBreaker.acquire('openai', 'gpt-4.1');
+      if ('permit' in permit) {
+        permit.permit.record('failure');
+      }
+
+      expect(guardedService.getCircuitStatus({ presetId: 'openai-gpt-4.1-default' })?.state).toBe('open');
+      expect(guardedService.getCircuitStatus({ presetId: 'openai-gpt-4.1-mini-default' })?.state).toBe(
+        'closed'
+      );
+      expect(guardedService.getCircuitStatus({ presetId: 'missing' })).toBeUndefined();
+      expect(service.getCircuitStatus({ presetId: 'openai-gpt-4.1-default' })).toBeUndefined();
+    });
+  });
+
+  describe('middleware', () => {
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+    const synthetic: LLMResponse = {
+      id: 'synthetic',
+      provider: 'mock',
+      model: 'mock-model',
+      created: 1,
+      choices: [{ index: 0, message: { role: 'assistant', content: 'from middleware' }, finish_reason: 'stop' }],
+      object: 'chat.completion',
+    };
+
+    it('runs request hooks in order, nests attempt wrappers and unwinds response hooks', async () => {
+      const calls: string[] = [];
+      const tracking = (name: string): LLMMiddleware => ({
+        onRequest: (current) => {
+          calls.push(`${name}:request`);
+          return { ...current, messages: [...current.messages, { role: 'user', content: name }] };
+        },
+        wrapAttempt: async (context, next) => {
+          calls.push(`${name}:attempt:${context.attempt}`);
+          const result = await next();
+          calls.push(`${name}:attempt-done`);
+          return result;
+        },
+        onResponse: () => {
+          calls.push(`${name}:response`);
+        },
+      });
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendMessage');
+      const hookedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [tracking('a'), tracking('b')],
+      });
+
+      try {
+        const response = await hookedService.sendMessage(request);
+
+        expect(response.object).toBe('chat.completion');
+        expect(calls).toEqual([
+          'a:request',
+          'b:request',
+          'a:attempt:0',
+          'b:attempt:0',
+          'b:attempt-done',
+          'a:attempt-done',
+          'b:response',
+          'a:response',
+        ]);
+        expect(sendSpy.mock.calls[0][0].messages.map((message) => message.content)).toEqual([
+          'Hello',
+          'a',
+          'b',
+        ]);
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('short-circuits from onRequest without dispatching and still runs response hooks', async () => {
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendPrepared');
+      const later = jest.fn();
+      const hookedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [
+          { onResponse: (response) => ({ ...response, id: `${(response as LLMResponse).id}-seen` }) as LLMResponse },
+          { onRequest: () => synthetic },
+          { onRequest: later },
+        ],
+      });
+
+      try {
+        const response = await hookedService.sendMessage(request);
+
+        expect(response).toMatchObject({ id: 'synthetic-seen', object: 'chat.completion' });
+        expect(later).not.toHaveBeenCalled();
+        expect(sendSpy).not.toHaveBeenCalled();
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('wraps every retry attempt and lets a wrapper answer instead of dispatching', async () => {
+      const attempts: number[] = [];
+      const hookedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        retry: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 1 },
+        middleware: [
+          {
+            wrapAttempt: async (context, next) => {
+              attempts.push(context.attempt);
+              expect(context).toMatchObject({ mode: 'complete', provider: 'mock', model: 'mock-model' });
+              return context.attempt < 2 ? next() : synthetic;
+            },
+          },
+        ],
+      });
+      const sendSpy = jest.spyOn(MockClientAdapter.prototype, 'sendMessage');
+
+      try {
+        const response = await hookedService.sendMessage({
+          ...request,
+          messages: [{ role: 'user', content: 'error_rate_limit' }],
+        });
+
+        expect(attempts).toEqual([0, 1, 2]);
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(response).toMatchObject({ object: 'chat.completion', choices: [{ message: { content: 'from middleware' } }] });
+      } finally {
+        sendSpy.mockRestore();
+      }
+    });
+
+    it('rewrites and drops stream events and streams a short-circuit as its terminal event', async () => {
+      const collect = async (target: LLMService) => {
+        const events = [];
+        for await (const event of target.streamMessage(request)) {
+          events.push(event);
+        }
+        return events;
+      };
+      const filtered = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [
+          {
+            onStreamEvent: (event) => {
+              if (event.type === 'start') {
+                return null;
+              }
+              return event.type === 'content_delta' ? { ...event, delta: event.delta.toUpperCase() } : undefined;
+            },
+          },
+        ],
+      });
+      const shortCircuited = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [{ onRequest: (_request, context) => (context.mode === 'stream' ? synthetic : undefined) }],
+      });
+
+      const events = await collect(filtered);
+      expect(events.some((event) => event.type === 'start')).toBe(false);
+      const text = events
+        .map((event) => (event.type === 'content_delta' ? event.delta : ''))
+        .join('');
+      expect(text).toBe(text.toUpperCase());
+      expect(text.length).toBeGreaterThan(0);
+      expect(events[events.length - 1].type).toBe('complete');
+
+      const shortEvents = await collect(shortCircuited);
+      expect(shortEvents).toHaveLength(1);
+      expect(shortEvents[0]).toMatchObject({ type: 'complete', response: { id: 'synthetic' } });
+    });
+
+    it('wraps stream attempts, streaming their events through next', async () => {
+      const calls: string[] = [];
+      const wrapped = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [
+          {
+            wrapAttempt: async (context, next) => {
+              calls.push(`attempt:${context.mode}:${context.attempt}`);
+              const result = await next();
+              calls.push('attempt-done');
+              return { ...result, id: 'wrapped' } as LLMResponse;
+            },
+          },
+        ],
+      });
+      const attemptEvents: string[] = [];
+      wrapped.on('attempt:start', () => attemptEvents.push('attempt:start'));
+      wrapped.on('attempt:end', () => attemptEvents.push('attempt:end'));
+
+      const events = [];
+      for await (const event of wrapped.streamMessage(request)) {
+        calls.push(event.type);
+        events.push(event);
+      }
+
+      expect(calls[0]).toBe('attempt:stream:0');
+      expect(calls.slice(-2)).toEqual(['attempt-done', 'complete']);
+      expect(calls).toContain('content_delta');
+      expect(new Set(events.map((event) => event.attemptId)).size).toBe(1);
+      expect(events[events.length - 1]).toMatchObject({ type: 'complete', response: { id: 'wrapped' } });
+      expect(attemptEvents).toEqual(['attempt:start', 'attempt:end']);
+    });
+
+    it('short-circuits a stream attempt and turns a wrapper exception into an error event', async () => {
+      const streamSpy = jest.spyOn(MockClientAdapter.prototype, 'streamPrepared');
+      const collect = async (middleware: LLMMiddleware) => {
+        const target = new LLMService(mockApiKeyProvider, { logLevel: 'silent', middleware: [middleware] });
+        const attemptStarts = jest.fn();
+        target.on('attempt:start', attemptStarts);
+        const events = [];
+        for await (const event of target.streamMessage(request)) {
+          events.push(event);
+        }
+        expect(attemptStarts).not.toHaveBeenCalled();
+        return events;
+      };
+
+      try {
+        const shortEvents = await collect({ wrapAttempt: async () => synthetic });
+        expect(shortEvents).toHaveLength(1);
+        expect(shortEvents[0]).toMatchObject({ type: 'complete', response: { id: 'synthetic' } });
+
+        const failedEvents = await collect({
+          wrapAttempt: async () => {
+            throw new Error('wrapper failed');
+          },
+        });
+        expect(failedEvents).toHaveLength(1);
+        expect(failedEvents[0]).toMatchObject({
+          type: 'error',
+          error: { object: 'error', error: { code: 'PROVIDER_ERROR' } },
+        });
+        expect(streamSpy).not.toHaveBeenCalled();
+      } finally {
+        streamSpy.mockRestore();
+      }
+    });
+
+    it('closes a wrapped stream attempt when the consumer stops early', async () => {
+      let settled: string | undefined;
+      const wrapped = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [
+          {
+            wrapAttempt: async (_context, next) => {
+              try {
+                return await next();
+              } catch (error) {
+                settled = (error as Error).message;
+                throw error;
+              }
+            },
+          },
+        ],
+      });
+      const ends: any[] = [];
+      wrapped.on('attempt:end', (event) => ends.push(event));
+
+      for await (const event of wrapped.streamMessage(request)) {
+        if (event.type === 'content_delta') {
+          break;
+        }
+      }
+
+      expect(settled).toBe('The stream was stopped before the attempt finished.');
+      expect(ends).toHaveLength(1);
+    });
+
+    it('ends the stream with a hook exception after closing the call', async () => {
+      const throwing = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [
+          {
+            onStreamEvent: (event) => {
+              if (event.type === 'content_delta') {
+                throw new Error('hook failed');
+              }
+            },
+          },
+        ],
+      });
+      const names: string[] = [];
+      const ends: any[] = [];
+      throwing.on('request:start', () => names.push('request:start'));
+      throwing.on('attempt:start', () => names.push('attempt:start'));
+      throwing.on('attempt:end', () => names.push('attempt:end'));
+      throwing.on('request:end', (event) => {
+        names.push('request:end');
+        ends.push(event);
+      });
+
+      const received: string[] = [];
+      await expect(async () => {
+        for await (const event of throwing.streamMessage(request)) {
+          received.push(event.type);
+        }
+      }).rejects.toThrow('hook failed');
+
+      expect(received).toEqual(['start']);
+      expect(names).toEqual(['request:start', 'attempt:start', 'attempt:end', 'request:end']);
+      expect(ends[0]).toMatchObject({
+        mode: 'stream',
+        success: false,
+        error: { message: 'hook failed', code: 'UNKNOWN_ERROR', type: 'server_error' },
+      });
+    });
+  });
+
+  describe('tracing', () => {
+    interface RecordedSpan {
+      name: string;
+      parent?: RecordedSpan;
+      attributes: Record<string, unknown>;
+      status?: { code: number; message?: string };
+      ended: boolean;
+    }
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+      settings: { temperature: 0.2 },
+    };
+    let spans: RecordedSpan[];
+    const tracer: Tracer = {
+      startSpan(name, options, context) {
+        const span: RecordedSpan = {
+          name,
+          parent: context as RecordedSpan | undefined,
+          attributes: { ...options?.attributes },
+          ended: false,
+        };
+        spans.push(span);
+        return {
+          setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+          setStatus: (status) => (span.status = status),
+          end: () => (span.ended = true),
+          span,
+        } as Span;
+      },
+    };
+    const contextWithSpan = (span: Span) => (span as unknown as { span: RecordedSpan }).span;
+
+    beforeEach(() => {
+      spans = [];
+    });
+
+    it('emits a call span with GenAI attributes and a child span per attempt', async () => {
+      const tracedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        tracing: { tracer, contextWithSpan },
+      });
+
+      const response = await tracedService.sendMessage(request);
+
+      expect(response.object).toBe('chat.completion');
+      expect(spans).toHaveLength(2);
+      const [call, attempt] = spans;
+      expect(call).toMatchObject({
+        name: 'chat mock-model',
+        ended: true,
+        attributes: {
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.provider.name': 'mock',
+          'gen_ai.request.model': 'mock-model',
+          'gen_ai.request.temperature': 0.2,
+          'gen_ai.response.finish_reasons': ['stop'],
+          'gen_ai.usage.input_tokens': expect.any(Number),
+          'gen_ai.usage.output_tokens': expect.any(Number),
+          'genai_lite.retry_count': 0,
+        },
+      });
+      expect(call.status).toBeUndefined();
+      expect(call.attributes).not.toHaveProperty('gen_ai.input.messages');
+      expect(call.attributes).not.toHaveProperty('gen_ai.output.messages');
+      expect(attempt).toMatchObject({ name: 'chat mock-model attempt', parent: call, ended: true });
+    });
+
+    it('records retries and the error code of a failed call', async () => {
+      const tracedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        retry: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 1 },
+        tracing: { tracer, contextWithSpan },
+      });
+
+      await tracedService.sendMessage({ ...request, messages: [{ role: 'user', content: 'error_rate_limit' }] });
+
+      expect(spans).toHaveLength(4);
+      expect(spans[0]).toMatchObject({
+        attributes: { 'genai_lite.retry_count': 2, 'error.type': 'RATE_LIMIT_EXCEEDED' },
+        status: { code: 2 },
+      });
+      expect(spans.slice(1).map((span) => span.attributes['genai_lite.attempt.index'])).toEqual([0, 1, 2]);
+    });
+
+    it('ends the call span with an error status when a middleware hook throws', async () => {
+      const tracedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        tracing: { tracer, contextWithSpan },
+        middleware: [
+          {
+            onRequest: () => {
+              throw new Error('hook failed');
+            },
+          },
+        ],
+      });
+
+      await expect(tracedService.sendMessage(request)).rejects.toThrow('hook failed');
+      await expect(async () => {
+        for await (const _event of tracedService.streamMessage(request)) {
+          // Drain until the hook throws
+        }
+      }).rejects.toThrow('hook failed');
+
+      expect(spans).toHaveLength(2);
+      for (const span of spans) {
+        expect(span).toMatchObject({
+          ended: true,
+          attributes: { 'error.type': 'UNKNOWN_ERROR' },
+          status: { code: 2, message: 'hook failed' },
+        });
+      }
+    });
+
+    it('names stream attempt spans after the attemptId and captures content on request', async () => {
+      const tracedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        tracing: { tracer, contextWithSpan, captureContent: true },
+      });
+
+      const attemptIds = new Set<string>();
+      for await (const event of tracedService.streamMessage({ ...request, systemMessage: 'Be brief.' })) {
+        attemptIds.add(event.attemptId);
+      }
+
+      const [call, attempt] = spans;
+      expect([...attemptIds]).toEqual([attempt.attributes['genai_lite.attempt.id']]);
+      expect(attempt.parent).toBe(call);
+      expect(call.ended && attempt.ended).toBe(true);
+      expect(JSON.parse(call.attributes['gen_ai.input.messages'] as string)).toEqual([
+        { role: 'user', parts: [{ type: 'text', content: 'Hello' }] },
+      ]);
+      expect(JSON.parse(call.attributes['gen_ai.system_instructions'] as string)).toEqual([
+        { type: 'text', content: 'Be brief.' },
+      ]);
+      expect(JSON.parse(call.attributes['gen_ai.output.messages'] as string)).toEqual([
+        expect.objectContaining({ role: 'assistant', finish_reason: 'stop' }),
+      ]);
+    });
+  });
+
+  describe('lifecycle events', () => {
+    const request: LLMChatRequest = {
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+    };
+
+    function record(target: LLMService) {
+      const events: Array<{ name: keyof LLMServiceEvents; payload: any }> = [];
+      for (const name of [
+        'request:start',
+        'attempt:start',
+        'attempt:retry',
+        'attempt:end',
+        'stream:first-token',
+        'request:end',
+        'prepared:stale',
+      ] as const) {
+        target.on(name, (payload) => events.push({ name, payload }));
+      }
+      return events;
+    }
+
+    it('emits request and attempt events around retries with one requestId', async () => {
+      const retryingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        retry: { maxRetries: 1, initialDelayMs: 1, maxDelayMs: 1 },
+      });
+      const events = record(retryingService);
+
+      await retryingService.sendMessage({ ...request, messages: [{ role: 'user', content: 'error_rate_limit' }] });
+
+      expect(events.map((event) => event.name)).toEqual([
+        'request:start',
+        'attempt:start',
+        'attempt:end',
+        'attempt:retry',
+        'attempt:start',
+        'attempt:end',
+        'request:end',
+      ]);
+      const [start] = events;
+      expect(start.payload).toMatchObject({ mode: 'complete', provider: 'mock', model: 'mock-model' });
+      expect(new Set(events.map((event) => event.payload.requestId))).toEqual(new Set([start.payload.requestId]));
+      expect(events[2].payload).toMatchObject({
+        attempt: 0,
+        success: false,
+        error: { code: 'RATE_LIMIT_EXCEEDED' },
+      });
+      expect(events[2].payload.attemptId).toBe(events[1].payload.attemptId);
+      expect(events[3].payload).toMatchObject({
+        attempt: 0,
+        delayMs: expect.any(Number),
+        verdict: { retry: true },
+        error: { code: 'RATE_LIMIT_EXCEEDED' },
+      });
+      expect(events[4].payload.attempt).toBe(1);
+      expect(events[6].payload).toMatchObject({
+        success: false,
+        durationMs: expect.any(Number),
+        error: { code: 'RATE_LIMIT_EXCEEDED' },
+      });
+      expect(events[6].payload.error).not.toHaveProperty('providerError');
+    });
+
+    it('reports usage on request:end and survives throwing or removed listeners', async () => {
+      const events = record(service);
+      service.on('request:start', () => {
+        throw new Error('listener failed');
+      });
+      const removed = jest.fn();
+      const unsubscribe = service.on('request:end', removed);
+      unsubscribe();
+
+      const response = await service.sendMessage(request);
+
+      expect(response.object).toBe('chat.completion');
+      expect(removed).not.toHaveBeenCalled();
+      const end = events.find((event) => event.name === 'request:end')!;
+      expect(end.payload).toMatchObject({
+        mode: 'complete',
+        provider: 'mock',
+        model: 'mock-model',
+        success: true,
+        usage: { total_tokens: expect.any(Number) },
+      });
+      expect(end.payload).not.toHaveProperty('error');
+    });
+
+    it('emits request:end when a middleware hook throws', async () => {
+      const throwingService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        middleware: [
+          {
+            onResponse: () => {
+              throw new Error('hook failed');
+            },
+          },
+        ],
+      });
+      const events = record(throwingService);
+      const handle = await throwingService.prepareMessage(request, { mode: 'complete' });
+
+      await expect(throwingService.sendMessage(request)).rejects.toThrow('hook failed');
+      await expect(throwingService.sendPrepared(handle as PreparedCompleteCall)).rejects.toThrow('hook failed');
+
+      const starts = events.filter((event) => event.name === 'request:start');
+      const ends = events.filter((event) => event.name === 'request:end');
+      expect(ends.map((event) => event.payload.requestId)).toEqual(
+        starts.map((event) => event.payload.requestId)
+      );
+      for (const end of ends) {
+        expect(end.payload).toMatchObject({
+          mode: 'complete',
+          success: false,
+          error: { message: 'hook failed', code: 'UNKNOWN_ERROR' },
+        });
+      }
+    });
+
+    it('emits stream:first-token once per stream attempt', async () => {
+      const events = record(service);
+
+      const attemptIds = new Set<string>();
+      for await (const event of service.streamMessage(request)) {
+        attemptIds.add(event.attemptId);
+      }
+
+      const firstTokens = events.filter((event) => event.name === 'stream:first-token');
+      expect(firstTokens).toHaveLength(1);
+      expect(firstTokens[0].payload).toMatchObject({
+        attemptId: [...attemptIds][0],
+        attempt: 0,
+        latencyMs: expect.any(Number),
+      });
+      expect(events.map((event) => event.name)).toEqual([
+        'request:start',
+        'attempt:start',
+        'stream:first-token',
+        'attempt:end',
+        'request:end',
+      ]);
+      expect(events[4].payload).toMatchObject({ mode: 'stream', success: true });
+    });
+
+    it('emits prepared:stale when a prepared call is revalidated against a newer endpoint revision', async () => {
+      let revision = 1;
+      const revisionedService = new LLMService(mockApiKeyProvider, {
+        logLevel: 'silent',
+        providerEndpointRevisionProvider: async () => revision,
+      });
+      const events = record(revisionedService);
+      const handle = await revisionedService.prepareMessage(request, { mode: 'complete' });
+      revision = 2;
+
+      const response = await revisionedService.sendPrepared(handle as PreparedCompleteCall);
+
+      expect(response).toMatchObject({ object: 'error', error: { code: 'PREPARED_CALL_STALE' } });
+      expect(events.find((event) => event.name === 'prepared:stale')?.payload).toMatchObject({
+        provider: 'mock',
+        model: 'mock-model',
+        phase: 'dispatch',
+        message: expect.any(String),
+      });
+    });
+  });
+
+  describe('sendBatch', () => {
+    const batchRequest = (content: string): LLMChatRequest => ({
+      providerId: 'mock',
+      modelId: 'mock-model',
+      messages: [{ role: 'user', content }],
+    });
+    const contentOf = (request: LLMChatRequest | { messages: LLMChatRequest['messages'] }) =>
+      request.messages[0].content as string;
+
+    /**
+     * Replaces sendMessage with a stub that answers with the request content
+     * after a delay, failing for contents that start with "fail".
+     */
+    function stubSend(target: LLMService, delayMs: (content: string) => number = () => 1) {
+      let inFlight = 0;
+      const stats = { maxInFlight: 0 };
+      const spy = jest.spyOn(target, 'sendMessage').mockImplementation(async (request, options) => {
+        const content = contentOf(request as LLMChatRequest);
+        inFlight++;
+        stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delayMs(content)));
+        inFlight--;
+        if (content.startsWith('fail') || options?.signal?.aborted) {
+          return {
+            provider: 'mock',
+            model: 'mock-model',
+            object: 'error',
+            error: { message: content, code: 'PROVIDER_ERROR', type: 'server_error' },
+          } as LLMFailureResponse;
+        }
+        return {
+          id: content,
+          provider: 'mock',
+          model: 'mock-model',
+          created: 0,
+          object: 'chat.completion',
+          choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 },
+          cost: { total: 0.5 },
+        } as LLMResponse;
+      });
+      return { spy, stats };
+    }
+
+    it('returns results in input order with bounded concurrency and aggregate usage', async () => {
+      const inputs = ['a', 'b', 'fail-c', 'd', 'e'].map(batchRequest);
+      // Earlier items take longer, so they finish out of order
+      const { spy, stats } = stubSend(service, (content) => (content === 'a' ? 40 : 5));
+      const progress: Array<{ index: number; completed: number; total?: number }> = [];
+
+      const batch = await service.sendBatch(inputs, {
+        concurrency: 2,
+        userTag: 'pipeline',
+        onProgress: ({ index, completed, total }) => progress.push({ index, completed, total }),
+      });
+
+      expect(batch.object).toBe('batch.result');
+      expect(batch.results.map((r) => (r.object === 'error' ? r.error.message : r.id))).toEqual([
+        'a',
+        'b',
+        'fail-c',
+        'd',
+        'e',
+      ]);
+      expect(batch).toMatchObject({ succeeded: 4, failed: 1, stopped: false, costUsd: 2 });
+      expect(batch.usage).toEqual({ prompt_tokens: 8, completion_tokens: 12, total_tokens: 20 });
+      expect(stats.maxInFlight).toBe(2);
+      expect(progress[0].index).not.toBe(0);
+      expect(progress.map((p) => p.completed)).toEqual([1, 2, 3, 4, 5]);
+      expect(progress.every((p) => p.total === 5)).toBe(true);
+      expect(spy.mock.calls[0][1]).toEqual({ userTag: 'pipeline' });
+    });
+
+    it('stops dispatching after the first failure with stopOnError', async () => {
+      const { spy } = stubSend(service);
+
+      const batch = await service.sendBatch(['a', 'fail-b', 'c', 'd'].map(batchRequest), {
+        concurrency: 1,
+        stopOnError: true,
+      });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(batch.results).toHaveLength(2);
+      expect(batch).toMatchObject({ succeeded: 1, failed: 1, stopped: true });
+    });
+
+    it('consumes async iterables lazily', async () => {
+      const { spy } = stubSend(service);
+      let produced = 0;
+      async function* generate() {
+        for (let i = 0; i < 6; i++) {
+          produced++;
+          // The producer never runs more than the concurrency ahead of dispatch
+          expect(produced - spy.mock.calls.length).toBeLessThanOrEqual(1);
+          yield batchRequest(`item-${i}`);
+        }
+      }
+      const totals: Array<number | undefined> = [];
+
+      const batch = await service.sendBatch(generate(), {
+        concurrency: 3,
+        onProgress: ({ total }) => totals.push(total),
+      });
+
+      expect(batch.results.map((r) => (r as LLMResponse).id)).toEqual(
+        Array.from({ length: 6 }, (_, i) => `item-${i}`)
+      );
+      expect(batch.stopped).toBe(false);
+      expect(totals.every((total) => total === undefined)).toBe(true);
+    });
+
+    it('stops dispatching when the signal aborts and passes it to in-flight items', async () => {
+      const controller = new AbortController();
+      const { spy } = stubSend(service, () => 20);
+
+      const pending = service.sendBatch(['a', 'b', 'c', 'd'].map(batchRequest), {
+        concurrency: 2,
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      controller.abort();
+      const batch = await pending;
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy.mock.calls[0][1]?.signal).toBe(controller.signal);
+      expect(batch).toMatchObject({ succeeded: 0, failed: 2, stopped: true });
+    });
+
+    it('rejects an invalid concurrency', async () => {
+      await expect(service.sendBatch([], { concurrency: 0 })).rejects.toThrow(
+        'Batch concurrency must be a positive integer.'
+      );
+    });
+  });
+
+  describe('fitToContext', () => {
+    const turns = (count: number): LLMMessage[] =>
+      Array.from({ length: count }, (_, i) => [
+        { role: 'user' as const, content: `Question ${i}: ${'word '.repeat(20)}` },
+        { role: 'assistant' as const, content: `Answer ${i}: ${'word '.repeat(20)}` },
+      ]).flat();
+
+    it('reserves the output limit and drops the oldest turns with exact counts', async () => {
+      const messages = turns(4);
+
+      const result = await service.fitToContext(
+        messages,
+        { providerId: 'openai', modelId: 'gpt-4.1', systemMessage: 'Be brief.', settings: { maxTokens: 100 } },
+        { contextWindow: 250, reserveTokens: 20 }
+      );
+
+      expect(result).toMatchObject({
+        object: 'context.fit',
+        provider: 'openai',
+        model: 'gpt-4.1',
+        systemMessage: 'Be brief.',
+        fits: true,
+        contextWindow: 250,
+        reservedOutputTokens: 100,
+        budgetTokens: 130,
+        countMethod: 'exact',
+        removedMessages: 4,
+      });
+      if (result.object !== 'context.fit') throw new Error('expected a fit');
+      expect(result.messages).toEqual(messages.slice(4));
+      expect(result.promptTokens).toBeLessThanOrEqual(130);
+    });
+
+    it('returns resolution failures for an unknown preset', async () => {
+      const result = await service.fitToContext(turns(1), { presetId: 'no-such-preset' });
+
+      expect(result).toMatchObject({ object: 'error', error: { code: 'PRESET_NOT_FOUND' } });
+    });
+
+    it('summarizes dropped turns with the target model', async () => {
+      const sendSpy = jest.spyOn(service, 'sendMessage').mockResolvedValue({
+        id: 'summary',
+        provider: 'openai',
+        model: 'gpt-4.1',
+        created: 1,
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Earlier questions 0-2.' }, finish_reason: 'stop' }],
+      });
+
+      const result = await service.fitToContext(
+        turns(4),
+        { presetId: 'openai-gpt-4.1-default', settings: { maxTokens: 100 } },
+        { contextWindow: 250, strategy: { type: 'summarize', maxSummaryTokens: 40 }, userTag: 'alice' }
+      );
+
+      expect(sendSpy).toHaveBeenCalledWith(
+        {
+          providerId: 'openai',
+          modelId: 'gpt-4.1',
+          systemMessage: expect.stringContaining('Summarize the conversation transcript'),
+          messages: [{ role: 'user', content: expect.stringContaining('user: Question 0:') }],
+          settings: { maxTokens: 40 },
+        },
+        { userTag: 'alice' }
+      );
+      expect(result).toMatchObject({
+        systemMessage: 'Summary of the earlier conversation:\nEarlier questions 0-2.',
+        summary: { text: 'Earlier questions 0-2.', summarizedMessages: 6 },
+        removedMessages: 6,
+        fits: true,
+      });
+      sendSpy.mockRestore();
+    });
+  });
 });
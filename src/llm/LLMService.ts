@@ -10,13 +10,26 @@ import type {
   LLMChatRequestWithPreset,
   LLMResponse,
   LLMFailureResponse,
+  LLMContextCache,
+  LLMContextCacheDeleted,
+  LLMContextCacheList,
+  LLMContextCacheRequest,
+  LLMContextCacheUpdate,
+  LLMFallbackFailure,
+  LLMFallbackInfo,
+  LLMBatchProgress,
+  LLMBatchResult,
+  LLMBatchJob,
+  LLMBatchJobResults,
   ProviderInfo,
+  DocumentTextExtractor,
   ModelInfo,
   ApiProviderId,
   LLMSettings,
   ModelContext,
   LLMMessage,
   LLMServiceStreamEvent,
+  LLMStreamEvent,
   LLMRequestCapabilityPreflight,
   LLMRequestCapabilityValidationResult,
   ModelCapabilities,
@@ -36,8 +49,12 @@ import type {
   LLMRawAnswerAccounting,
   LLMRawContentPart,
   LLMTermination,
+  LLMToolCall,
   LLMUsage,
   LLMUsageEvidence,
+  StandardSchemaV1,
+  StructuredOutputRequest,
+  StructuredOutputSchema,
   ProviderEndpointRevision,
   ProviderEndpointRevisionProvider,
 } from "./types";
@@ -45,6 +62,7 @@ import type {
   ILLMClientAdapter,
   InternalLLMChatRequest,
   AdapterRequestOptions,
+  AdapterBatchItemResult,
   AdapterPreparedRequest,
   AdapterLLMStreamEvent,
 } from "./clients/types";
@@ -55,10 +73,16 @@ import {
   ADAPTER_CONFIGS,
   getProviderById,
   getModelById,
-  getModelsByProvider
+  getModelsByProvider,
+  MODEL_PRICING_REVISION
 } from "./config";
 import { renderTemplate } from "../prompting/template";
-import { extractInitialTaggedContent, parseRoleTags, parseTemplateWithMetadata } from "../prompting/parser";
+import {
+  extractInitialTaggedContent,
+  PartialJsonParser,
+  parseRoleTags,
+  parseTemplateWithMetadata,
+} from "../prompting/parser";
 import defaultPresets from "../config/llm-presets.json";
 import { MockClientAdapter } from "./clients/MockClientAdapter";
 
@@ -68,13 +92,68 @@ import { AdapterRegistry } from "../shared/services/AdapterRegistry";
 import { RequestValidator } from "./services/RequestValidator";
 import { SettingsManager } from "./services/SettingsManager";
 import { ModelResolver } from "./services/ModelResolver";
-import { withRetry, type RetryPolicy } from "../shared/services/withRetry";
+import { withRetry, type RetryPolicy, type RetryVerdict } from "../shared/services/withRetry";
 import { ADAPTER_ERROR_CODES } from "./clients/types";
 import { deepFreeze } from "./clients/preparedAdapterUtils";
+import { createToolCallId } from "../shared/adapters/toolCallUtils";
+import { addUsageTotals, computeUsageCost } from "../shared/adapters/usageUtils";
+import type { UsageLedger, UsageReservation } from "./services/UsageLedger";
+import { computeResponseCacheKey, type ResponseCache } from "./services/ResponseCache";
+import type { RateLimiter, RateLimitPermit } from "../shared/services/RateLimiter";
+import type {
+  CircuitBreaker,
+  CircuitOutcome,
+  CircuitPermit,
+  CircuitStatus,
+} from "../shared/services/CircuitBreaker";
+import {
+  normalizeMessageContent,
+  resolveDocumentParts,
+} from "../shared/adapters/contentPartUtils";
 import {
   countContentTextTokens,
   resolveContentTokenProfile,
 } from "./tokenization";
+import {
+  CONTEXT_SUMMARY_INSTRUCTIONS,
+  createContextTokenCounter,
+  fitMessages,
+  type ContextFitOptions,
+  type ContextFitResult,
+  type ContextFitTarget,
+} from "./contextFitting";
+import {
+  createRepairPrompt,
+  createStructuredOutputAttempt,
+  getRepairMaxRetries,
+  parseJsonLeniently,
+  validateJsonSchema,
+  validateStandardSchema,
+} from "./structuredOutput";
+import { isStandardSchema, standardSchemaToJsonSchema } from "../shared/adapters/schemaUtils";
+import {
+  applyRequestMiddleware,
+  applyResponseMiddleware,
+  applyStreamEventMiddleware,
+  runAttemptMiddleware,
+  runStreamAttemptMiddleware,
+  type LLMMiddleware,
+  type LLMMiddlewareContext,
+} from "./middleware";
+import {
+  CallTrace,
+  endSpan,
+  traceAttempt,
+  type SpanAttributes,
+  type SpanOutcome,
+  type TracingOptions,
+} from "../shared/services/tracing";
+import { TypedEventEmitter } from "../shared/services/TypedEventEmitter";
+import type {
+  LLMAttemptEventBase,
+  LLMEventError,
+  LLMServiceEvents,
+} from "./events";
 
 // Re-export PresetMode for backward compatibility
 export type { PresetMode };
@@ -121,6 +200,46 @@ export interface LLMServiceOptions {
    * @default false
    */
   cachePreparationStateByEndpointRevision?: boolean;
+  /**
+   * Converts PDF document parts to text for providers without native PDF
+   * input. Without it, PDFs sent to those providers fail validation with
+   * `document_input_not_supported`.
+   */
+  documentTextExtractor?: DocumentTextExtractor;
+  /**
+   * Ledger that records every physical attempt and enforces spend budgets.
+   * Requests that would exceed a hard budget fail with `BUDGET_EXCEEDED`
+   * before dispatch.
+   */
+  usageLedger?: UsageLedger;
+  /**
+   * Cache of successful non-streaming responses keyed on the prepared request
+   * view and bindings. Hits skip dispatch and are marked `cacheHit: true`.
+   */
+  responseCache?: ResponseCache;
+  /**
+   * Client-side limiter for requests, estimated tokens and concurrency per
+   * provider or model. Each attempt (including retries) waits for a slot
+   * before dispatch. Can be shared with ImageService.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Breaker that fails calls to a provider/model fast with `CIRCUIT_OPEN`
+   * after repeated retryable failures, until a probe succeeds. Every attempt
+   * (including retries) is checked and recorded.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * Hooks that rewrite requests, wrap each attempt and post-process results,
+   * in the chain order documented on LLMMiddleware.
+   */
+  middleware?: LLMMiddleware[];
+  /**
+   * OpenTelemetry-compatible tracer. Each sendMessage, streamMessage or
+   * prepared dispatch gets a span with GenAI semantic-convention attributes,
+   * and each physical attempt a child span.
+   */
+  tracing?: TracingOptions;
 }
 
 /**
@@ -136,6 +255,39 @@ export interface SendMessageOptions {
   timeoutMs?: number;
   /** Per-request retry cap (overrides the service-level retry.maxRetries) */
   maxRetries?: number;
+  /** Tag recorded on usage ledger entries and matched by budget scopes. */
+  userTag?: string;
+  /**
+   * How this call uses the service's response cache: `'use'` reads and
+   * writes, `'refresh'` skips the read but stores the new response,
+   * `'bypass'` ignores the cache.
+   * @default 'use'
+   */
+  cacheMode?: "use" | "refresh" | "bypass";
+  /**
+   * Presets tried in order when the request still fails with
+   * RATE_LIMIT_EXCEEDED, PROVIDER_ERROR, CONTEXT_LENGTH_EXCEEDED or
+   * CIRCUIT_OPEN after retries. Each fallback keeps the request's messages and settings.
+   */
+  fallbackPresetIds?: string[];
+}
+
+/**
+ * Options for LLMService.sendBatch. The per-call fields apply to every item.
+ */
+export interface SendBatchOptions extends SendMessageOptions {
+  /**
+   * Items in flight at once.
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Stop dispatching new items after the first failure. Items already in
+   * flight still finish.
+   */
+  stopOnError?: boolean;
+  /** Called after each item finishes, in completion order. */
+  onProgress?: (progress: LLMBatchProgress) => void;
 }
 
 /**
@@ -149,6 +301,33 @@ export interface StreamMessageOptions {
   signal?: AbortSignal;
   /** Per-request timeout in ms (overrides the service-level timeoutMs) */
   timeoutMs?: number;
+  /** Tag recorded on usage ledger entries and matched by budget scopes. */
+  userTag?: string;
+  /**
+   * Presets tried in order when the stream fails with a fallback-eligible
+   * error before emitting any content.
+   */
+  fallbackPresetIds?: string[];
+}
+
+/**
+ * Per-call options for LLMService context-cache operations
+ */
+export interface ContextCacheOptions {
+  /** Abort signal to cancel the request (client-side only). */
+  signal?: AbortSignal;
+  /** Per-request timeout in ms (overrides the service-level timeoutMs) */
+  timeoutMs?: number;
+}
+
+/**
+ * Per-call options for LLMService batch-job operations
+ */
+export interface BatchJobOptions {
+  /** Abort signal to cancel the request (client-side only). */
+  signal?: AbortSignal;
+  /** Per-request timeout in ms (overrides the service-level timeoutMs) */
+  timeoutMs?: number;
 }
 
 /** Selects the immutable dispatch mode fixed during preparation. */
@@ -171,11 +350,22 @@ export interface CreateMessagesResult {
 interface PreparedLLMRequest {
   providerId: ApiProviderId;
   modelId: string;
+  presetId?: string;
   modelInfo: ModelInfo;
   resolvedRequest: LLMChatRequest;
   internalRequest: InternalLLMChatRequest;
   clientAdapter: ILLMClientAdapter;
   adapterPrepared: AdapterPreparedRequest;
+  /** The Standard Schema given as `structuredOutput.schema`, if any. */
+  structuredOutputValidator?: StandardSchemaV1;
+}
+
+/** State of one logical call, threaded from the public entry points to each attempt. */
+interface CallContext {
+  requestId: string;
+  mode: PreparedCallMode;
+  startedAt: number;
+  trace?: CallTrace;
 }
 
 interface CapabilityValidationContext {
@@ -185,6 +375,7 @@ interface CapabilityValidationContext {
   resolvedRequest: LLMChatRequest;
   finalSettings: Required<LLMSettings>;
   capabilities: ModelCapabilities;
+  structuredOutputValidator?: StandardSchemaV1;
   adapterPreparationState?: unknown;
 }
 
@@ -197,6 +388,24 @@ interface StreamPartialChoiceState {
   rawAnswerAccounting?: LLMRawAnswerAccounting;
   finishReason?: string | null;
   termination?: LLMTermination;
+  toolCalls?: Map<number, StreamPartialToolCallState>;
+  /** Structured output parsed so far, for parsed_delta events. */
+  partialJson?: StreamPartialJsonState;
+}
+
+interface StreamPartialJsonState {
+  parser: PartialJsonParser;
+  /** Offset in `content` where the parsed text starts (after a thinking block). */
+  start: number;
+  /** Length of `content` already written to the parser. */
+  written: number;
+}
+
+interface StreamPartialToolCallState {
+  id: string;
+  name: string;
+  arguments: string;
+  completed: boolean;
 }
 
 interface StreamPartialState {
@@ -231,6 +440,19 @@ interface PreparationStateCacheLease {
 
 const PREPARATION_STATE_CACHE_MAX_ENDPOINTS = 32;
 
+/** OpenAI and Anthropic bill batch jobs at half the synchronous price. */
+const BATCH_JOB_PRICE_MULTIPLIER = 0.5;
+
+/** Failures that move a fallback chain on to its next preset. */
+const FALLBACK_ERROR_CODES = new Set<string>([
+  ADAPTER_ERROR_CODES.RATE_LIMIT_EXCEEDED,
+  ADAPTER_ERROR_CODES.PROVIDER_ERROR,
+  ADAPTER_ERROR_CODES.CONTEXT_LENGTH_EXCEEDED,
+  ADAPTER_ERROR_CODES.CIRCUIT_OPEN,
+]);
+
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
 function mergeAnswerAccountingByScope(
   current: LLMAnswerAccountingByScope | undefined,
   incoming: LLMAnswerAccountingByScope | undefined,
@@ -288,6 +510,14 @@ export class LLMService {
   private defaultTimeoutMs?: number;
   private providerEndpointRevisionProvider?: ProviderEndpointRevisionProvider;
   private cachePreparationStateByEndpointRevision: boolean;
+  private documentTextExtractor?: DocumentTextExtractor;
+  private usageLedger?: UsageLedger;
+  private responseCache?: ResponseCache;
+  private rateLimiter?: RateLimiter;
+  private circuitBreaker?: CircuitBreaker;
+  private middleware: LLMMiddleware[];
+  private tracing?: TracingOptions;
+  private events: TypedEventEmitter<LLMServiceEvents>;
   private preparationStateCache = new Map<string, PreparationStateCacheEntry>();
   private preparationStateAdapterIds =
     new WeakMap<ILLMClientAdapter, number>();
@@ -307,6 +537,13 @@ export class LLMService {
     this.getApiKey = getApiKey;
     this.retryOptions = options.retry;
     this.defaultTimeoutMs = options.timeoutMs;
+    this.documentTextExtractor = options.documentTextExtractor;
+    this.usageLedger = options.usageLedger;
+    this.responseCache = options.responseCache;
+    this.rateLimiter = options.rateLimiter;
+    this.circuitBreaker = options.circuitBreaker;
+    this.middleware = [...(options.middleware ?? [])];
+    this.tracing = options.tracing;
     this.providerEndpointRevisionProvider =
       options.providerEndpointRevisionProvider;
     this.cachePreparationStateByEndpointRevision =
@@ -314,6 +551,7 @@ export class LLMService {
 
     // Initialize logger - custom logger takes precedence over logLevel
     this.logger = options.logger ?? createDefaultLogger(options.logLevel);
+    this.events = new TypedEventEmitter(this.logger);
 
     // Initialize services with logger
     this.presetManager = new PresetManager<ModelPreset>(
@@ -333,6 +571,27 @@ export class LLMService {
     this.modelResolver = new ModelResolver(this.presetManager, this.adapterRegistry, this.logger);
   }
 
+  /**
+   * Subscribes to a lifecycle event. Listeners run synchronously; one that
+   * throws is logged and does not affect the call.
+   *
+   * @returns A function that unsubscribes the listener
+   */
+  on<K extends keyof LLMServiceEvents>(
+    event: K,
+    listener: (payload: LLMServiceEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /** Unsubscribes a listener added with on(). */
+  off<K extends keyof LLMServiceEvents>(
+    event: K,
+    listener: (payload: LLMServiceEvents[K]) => void
+  ): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * Gets list of supported LLM providers
    *
@@ -480,23 +739,222 @@ export class LLMService {
   /**
    * Sends a chat message to an LLM provider
    *
+   * When `settings.structuredOutput.schema` is a Standard Schema (Zod,
+   * Valibot, ArkType), `T` is inferred from it and types `parsedContent`.
+   *
    * @param request - The LLM chat request
    * @returns Promise resolving to either success or failure response
    */
-  async sendMessage(
-    request: LLMChatRequest | LLMChatRequestWithPreset,
+  async sendMessage<T = unknown>(
+    request: (LLMChatRequest | LLMChatRequestWithPreset) & StructuredOutputRequest<T>,
     callOptions?: SendMessageOptions
-  ): Promise<LLMResponse | LLMFailureResponse> {
+  ): Promise<LLMResponse<T> | LLMFailureResponse> {
     this.logger.info(
       `LLMService.sendMessage called with presetId: ${(request as LLMChatRequestWithPreset).presetId}, provider: ${request.providerId}, model: ${request.modelId}`
     );
 
-    const canonical = await this.prepareMessage(request, { mode: "complete" });
-    if (this.isFailureResponse(canonical)) {
-      return canonical;
+    const call = this.startCall(
+      "complete",
+      this.getProviderEndpointRevisionContext(request),
+      (request as LLMChatRequestWithPreset).presetId
+    );
+    const final = await this.endCallWithResult(
+      call,
+      this.sendMessageWithMiddleware(request, callOptions, call)
+    );
+    // parsedContent is the validator's output when the schema is a Standard Schema
+    return final as LLMResponse<T> | LLMFailureResponse;
+  }
+
+  private async sendMessageWithMiddleware(
+    request: LLMChatRequest | LLMChatRequestWithPreset,
+    callOptions: SendMessageOptions | undefined,
+    call: CallContext
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const context: LLMMiddlewareContext = { mode: "complete" };
+    const resolved = await applyRequestMiddleware(this.middleware, request, context);
+    let result: LLMResponse | LLMFailureResponse;
+    if ("object" in resolved) {
+      result = resolved;
+    } else if (callOptions?.fallbackPresetIds?.length) {
+      result = await this.sendWithFallbacks(resolved, callOptions, call);
+    } else {
+      const canonical = await this.prepareMessage(resolved, { mode: "complete" });
+      result = this.isFailureResponse(canonical)
+        ? canonical
+        : await this.sendPreparedWithRepair(canonical, callOptions, call);
+    }
+    return applyResponseMiddleware(this.middleware, result, context);
+  }
+
+  /**
+   * Sends many chat requests with bounded concurrency.
+   *
+   * Inputs are read and dispatched in order, so an async iterable is consumed
+   * lazily and very large jobs never sit in memory. Per-item failures are
+   * returned in `results`; the batch itself only rejects when the input
+   * iterable throws (after in-flight items finish).
+   *
+   * @param requests - An array, iterable or async iterable of requests
+   * @param options - Concurrency, stop and progress controls plus per-call options
+   * @returns Results in input order with aggregate usage
+   */
+  async sendBatch(
+    requests:
+      | Iterable<LLMChatRequest | LLMChatRequestWithPreset>
+      | AsyncIterable<LLMChatRequest | LLMChatRequestWithPreset>,
+    options: SendBatchOptions = {}
+  ): Promise<LLMBatchResult> {
+    const {
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      stopOnError = false,
+      onProgress,
+      ...callOptions
+    } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new TypeError("Batch concurrency must be a positive integer.");
+    }
+
+    const total = Array.isArray(requests) ? requests.length : undefined;
+    const iterator =
+      Symbol.asyncIterator in requests
+        ? (requests as AsyncIterable<LLMChatRequest | LLMChatRequestWithPreset>)[
+            Symbol.asyncIterator
+          ]()
+        : (requests as Iterable<LLMChatRequest | LLMChatRequestWithPreset>)[
+            Symbol.iterator
+          ]();
+    this.logger.info(
+      `LLMService.sendBatch called with ${total ?? "a streamed"} inputs, concurrency ${concurrency}`
+    );
+
+    const results: Array<LLMResponse | LLMFailureResponse> = [];
+    const usage: LLMUsage = {};
+    let succeeded = 0;
+    let failed = 0;
+    let costUsd = 0;
+    let stopRequested = false;
+    let exhausted = false;
+    let dispatched = 0;
+
+    // Pulls are chained so workers never call next() on the iterator concurrently
+    let pulling: Promise<unknown> = Promise.resolve();
+    const pull = () => {
+      const step = pulling.then(async () => {
+        if (exhausted || stopRequested || callOptions.signal?.aborted) {
+          return undefined;
+        }
+        let next: IteratorResult<LLMChatRequest | LLMChatRequestWithPreset>;
+        try {
+          next = await iterator.next();
+        } catch (error) {
+          exhausted = true;
+          throw error;
+        }
+        if (next.done) {
+          exhausted = true;
+          return undefined;
+        }
+        return { index: dispatched++, request: next.value };
+      });
+      pulling = step.catch(() => undefined);
+      return step;
+    };
+
+    const worker = async () => {
+      for (let item = await pull(); item; item = await pull()) {
+        const result = await this.sendMessage(item.request, callOptions);
+        results[item.index] = result;
+        if (result.object === "error") {
+          failed++;
+          stopRequested ||= stopOnError;
+        } else {
+          succeeded++;
+        }
+        costUsd +=
+          (result.object === "error" ? result.partialResponse : result)?.cost
+            ?.total ?? 0;
+        addUsageTotals(
+          usage,
+          result.object === "error" ? result.partialResponse?.usage : result.usage
+        );
+        try {
+          onProgress?.({
+            index: item.index,
+            result,
+            completed: succeeded + failed,
+            succeeded,
+            failed,
+            ...(total !== undefined && { total }),
+          });
+        } catch (error) {
+          this.logger.warn("Batch onProgress callback threw:", error);
+        }
+      }
+    };
+
+    const settled = await Promise.allSettled(
+      Array.from({ length: concurrency }, worker)
+    );
+    const rejected = settled.find(
+      (outcome): outcome is PromiseRejectedResult => outcome.status === "rejected"
+    );
+    if (rejected) {
+      throw rejected.reason;
+    }
+
+    const stopped = total !== undefined ? dispatched < total : !exhausted;
+    if (stopped) {
+      await Promise.resolve(iterator.return?.()).catch(() => undefined);
+    }
+    return {
+      object: "batch.result",
+      results,
+      succeeded,
+      failed,
+      stopped,
+      usage,
+      costUsd,
+    };
+  }
+
+  /**
+   * Tries the request, then each fallback preset, until one succeeds or fails
+   * with an error that is not fallback-eligible. A fallback that fails
+   * preparation (unknown preset, unsupported content) is skipped.
+   */
+  private async sendWithFallbacks(
+    request: LLMChatRequest | LLMChatRequestWithPreset,
+    callOptions: SendMessageOptions,
+    call: CallContext
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const chain = this.buildFallbackChain(request, callOptions.fallbackPresetIds!);
+    const failures: LLMFallbackFailure[] = [];
+
+    for (const [position, entry] of chain.entries()) {
+      const isLast = position === chain.length - 1;
+      const canonical = await this.prepareMessage(entry, { mode: "complete" });
+      const result = this.isFailureResponse(canonical)
+        ? canonical
+        : await this.sendPreparedWithRepair(canonical, callOptions, call);
+
+      const canFallBack =
+        !isLast &&
+        result.object === "error" &&
+        (this.isFailureResponse(canonical)
+          ? position > 0
+          : FALLBACK_ERROR_CODES.has(String(result.error.code)));
+      if (!canFallBack) {
+        return {
+          ...result,
+          fallback: this.createFallbackInfo(entry, position, failures),
+        };
+      }
+      failures.push(this.recordFallbackFailure(entry, result as LLMFailureResponse));
     }
-    return this.sendPrepared(canonical, callOptions);
 
+    // Unreachable: the last chain entry always returns
+    throw new Error("Fallback chain ended without a result");
   }
 
   /**
@@ -521,6 +979,7 @@ export class LLMService {
     }
     const result = await this.prepareCanonicalRequest(request, options.mode);
     if ("error" in result) {
+      this.emitPreparedStale(result.error, "preparation");
       return result.error;
     }
 
@@ -580,12 +1039,96 @@ export class LLMService {
   async sendPrepared(
     handle: PreparedCompleteCall,
     callOptions?: SendMessageOptions
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const prepared = this.preparedCalls.get(handle as object);
+    const call = this.startCall("complete", prepared, prepared?.presetId);
+    return this.endCallWithResult(
+      call,
+      this.sendPreparedWithRepair(handle, callOptions, call).then((result) =>
+        applyResponseMiddleware(this.middleware, result, { mode: "complete" })
+      )
+    );
+  }
+
+  private async sendPreparedWithRepair(
+    handle: PreparedCompleteCall,
+    callOptions: SendMessageOptions | undefined,
+    call: CallContext
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const result = await this.sendPreparedOnce(handle, callOptions, call);
+    const prepared = this.preparedCalls.get(handle as object);
+    if (result.object === "error" || !prepared) {
+      return result;
+    }
+    return this.repairStructuredOutput(prepared, result, callOptions, call);
+  }
+
+  /**
+   * Re-prompts with the parse or validation errors while the first choice's
+   * structured output is invalid and `structuredOutput.repair` allows another
+   * retry. A failed repair call ends the loop with the last response.
+   */
+  private async repairStructuredOutput(
+    prepared: PreparedLLMRequest,
+    result: LLMResponse,
+    callOptions: SendMessageOptions | undefined,
+    call: CallContext
+  ): Promise<LLMResponse> {
+    const settings = prepared.internalRequest.settings.structuredOutput;
+    const maxRetries =
+      settings && settings.enabled !== false && settings.autoParse !== false
+        ? getRepairMaxRetries(settings.repair)
+        : 0;
+    if (maxRetries === 0) {
+      return result;
+    }
+
+    const attempts = [createStructuredOutputAttempt(result)];
+    let current = result;
+    let messages = prepared.resolvedRequest.messages;
+    for (let retry = 0; retry < maxRetries; retry++) {
+      const choice = current.choices[0];
+      if (!choice || (!choice.parseError && !choice.validationErrors)) {
+        break;
+      }
+      this.logger.info(
+        `Repairing structured output for ${prepared.providerId}/${prepared.modelId} (retry ${retry + 1} of ${maxRetries})`
+      );
+      messages = [
+        ...messages,
+        { role: "assistant", content: choice.message.content },
+        { role: "user", content: createRepairPrompt(choice) },
+      ];
+      const handle = await this.prepareMessage(
+        { ...prepared.resolvedRequest, messages },
+        { mode: "complete" }
+      );
+      const next = this.isFailureResponse(handle)
+        ? handle
+        : await this.sendPreparedOnce(handle, callOptions, call);
+      if (next.object === "error") {
+        attempts.push({ error: next.error });
+        break;
+      }
+      attempts.push(createStructuredOutputAttempt(next));
+      current = next;
+    }
+    return { ...current, structuredOutputAttempts: attempts };
+  }
+
+  private async sendPreparedOnce(
+    handle: PreparedCompleteCall,
+    callOptions: SendMessageOptions | undefined,
+    call: CallContext
   ): Promise<LLMResponse | LLMFailureResponse> {
     const resolved = this.resolvePreparedHandle(handle, "complete");
     if ("error" in resolved) {
       return resolved.error;
     }
     const prepared = resolved.prepared;
+    call.trace?.setAttributes(
+      this.getTraceRequestAttributes(prepared, call.trace.captureContent)
+    );
     const adapter = prepared.clientAdapter;
     if (!adapter.sendPrepared) {
       return this.createPreparedFailure(
@@ -597,21 +1140,43 @@ export class LLMService {
       );
     }
 
+    const cacheMode = this.responseCache
+      ? callOptions?.cacheMode ?? "use"
+      : "bypass";
+    const cacheKey =
+      cacheMode === "bypass"
+        ? undefined
+        : computeResponseCacheKey({
+            provider: prepared.providerId,
+            model: prepared.modelId,
+            request: prepared.adapterPrepared.requestView,
+            bindings: prepared.adapterPrepared.bindings,
+          });
+    if (cacheKey && cacheMode === "use") {
+      const cached = await this.responseCache!.get(cacheKey);
+      if (cached) {
+        this.logger.debug(
+          `Response cache hit for ${prepared.providerId}/${prepared.modelId}`
+        );
+        return this.revalidateCachedResponse({ ...cached, cacheHit: true }, prepared);
+      }
+    }
+
     const apiKey = await this.resolveDispatchApiKey(prepared);
     if (this.isFailureResponse(apiKey)) {
       return apiKey;
     }
     const adapterOptions = this.createAdapterOptions(callOptions);
-    const retryOnTimeout = this.retryOptions?.retryOnTimeout ?? true;
-    const retryableCodes = new Set<string>([
-      ADAPTER_ERROR_CODES.RATE_LIMIT_EXCEEDED,
-      ADAPTER_ERROR_CODES.NETWORK_ERROR,
-      ...(retryOnTimeout ? [ADAPTER_ERROR_CODES.REQUEST_TIMEOUT] : []),
-    ]);
 
     try {
       const result = await withRetry(
-        async () => {
+        (attempt) => runAttemptMiddleware(this.middleware, {
+          mode: "complete",
+          provider: prepared.providerId,
+          model: prepared.modelId,
+          attempt,
+          request: prepared.adapterPrepared.requestView,
+        }, () => traceAttempt(call.trace, attempt, (attemptId) => this.observeAttempt(call, prepared, attemptId, attempt, async () => {
           const revalidation = await this.revalidatePrepared(
             prepared,
             adapterOptions
@@ -619,27 +1184,53 @@ export class LLMService {
           if (revalidation) {
             return revalidation;
           }
-          return adapter.sendPrepared!(
-            prepared.adapterPrepared,
-            apiKey,
-            adapterOptions
+          const circuit = this.acquireCircuit(prepared);
+          if (this.isFailureResponse(circuit)) {
+            return circuit;
+          }
+          const permit = await this.acquireRateLimit(
+            prepared,
+            callOptions?.signal
           );
-        },
-        (response) => {
-          if (response.object !== "error") {
-            return { retry: false };
+          if (this.isFailureResponse(permit)) {
+            circuit?.record("ignored");
+            return permit;
           }
-          const code = String(response.error.code);
-          const status = response.error.status;
-          return {
-            retry:
-              retryableCodes.has(code) ||
-              (code === ADAPTER_ERROR_CODES.PROVIDER_ERROR &&
-                typeof status === "number" &&
-                (status === 408 || status === 409 || status >= 500)),
-            retryAfterMs: response.error.retryAfterMs,
-          };
-        },
+          const reservation = await this.reserveLedgerAttempt(
+            prepared,
+            callOptions?.userTag
+          );
+          if (this.isFailureResponse(reservation)) {
+            circuit?.record("ignored");
+            permit?.release(0);
+            return reservation;
+          }
+          let response: LLMResponse | LLMFailureResponse;
+          try {
+            response = await adapter.sendPrepared!(
+              prepared.adapterPrepared,
+              apiKey,
+              adapterOptions
+            );
+          } catch (error) {
+            if (reservation) {
+              this.usageLedger?.release(reservation);
+            }
+            circuit?.record("ignored");
+            permit?.release();
+            throw error;
+          }
+          circuit?.record(this.getCircuitOutcome(response));
+          this.releaseRateLimit(permit, response);
+          await this.recordLedgerAttempt(
+            reservation,
+            prepared,
+            attemptId,
+            response
+          );
+          return response;
+        }), (response) => this.getTraceOutcome(response, false))),
+        (response) => this.getRetryVerdict(response),
         {
           ...this.retryOptions,
           ...(callOptions?.maxRetries !== undefined && {
@@ -648,9 +1239,28 @@ export class LLMService {
           signal: callOptions?.signal,
           logger: this.logger,
           label: `${prepared.providerId}/${prepared.modelId}`,
+          onRetry: ({ attempt, delayMs, verdict, result }) => {
+            if (result.object === "error") {
+              this.events.emit("attempt:retry", {
+                requestId: call.requestId,
+                timestamp: Date.now(),
+                attempt,
+                provider: prepared.providerId,
+                model: prepared.modelId,
+                delayMs,
+                verdict,
+                error: this.toEventError(result),
+              });
+            }
+          },
         }
       );
-      return this.postProcessResponse(result, prepared);
+      const processed = this.postProcessResponse(result, prepared);
+      // Cached before the validator runs, so each hit is validated for its own call
+      if (cacheKey && processed.object === "chat.completion") {
+        await this.responseCache!.set(cacheKey, processed);
+      }
+      return await this.applyStructuredOutputValidator(processed, prepared);
     } catch (error) {
       return this.createUnexpectedDispatchFailure(prepared, error);
     }
@@ -667,19 +1277,189 @@ export class LLMService {
     request: LLMChatRequest | LLMChatRequestWithPreset,
     callOptions?: StreamMessageOptions
   ): AsyncGenerator<LLMServiceStreamEvent> {
-    const attemptId = randomUUID();
     this.logger.info(
       `LLMService.streamMessage called with presetId: ${(request as LLMChatRequestWithPreset).presetId}, provider: ${request.providerId}, model: ${request.modelId}`
     );
+    const call = this.startCall(
+      "stream",
+      this.getProviderEndpointRevisionContext(request),
+      (request as LLMChatRequestWithPreset).presetId
+    );
+    const context: LLMMiddlewareContext = { mode: "stream" };
+    yield* this.endCallWithStream(
+      call,
+      applyStreamEventMiddleware(
+        this.middleware,
+        this.streamMessageEvents(request, callOptions, context, call),
+        context
+      )
+    );
+  }
+
+  private async *streamMessageEvents(
+    request: LLMChatRequest | LLMChatRequestWithPreset,
+    callOptions: StreamMessageOptions | undefined,
+    context: LLMMiddlewareContext,
+    call: CallContext
+  ): AsyncGenerator<LLMServiceStreamEvent> {
+    const attemptId = randomUUID();
+    const resolved = await applyRequestMiddleware(this.middleware, request, context);
+    if ("object" in resolved) {
+      yield resolved.object === "error"
+        ? { attemptId, type: "error", error: resolved }
+        : { attemptId, type: "complete", response: resolved };
+      return;
+    }
+
+    if (callOptions?.fallbackPresetIds?.length) {
+      yield* this.streamWithFallbacks(resolved, callOptions, call);
+      return;
+    }
 
-    const canonical = await this.prepareMessage(request, { mode: "stream" });
+    const canonical = await this.prepareMessage(resolved, { mode: "stream" });
     if (this.isFailureResponse(canonical)) {
       yield { attemptId, type: "error", error: canonical };
       return;
     }
-    yield* this.streamPreparedWithAttempt(canonical, callOptions, attemptId);
-    return;
+    yield* this.streamPreparedWithAttempt(canonical, callOptions, attemptId, call);
+  }
 
+  /**
+   * Streaming counterpart of sendWithFallbacks. `start` and `usage` events are
+   * held back until the first content event, so a stream that falls back
+   * before emitting content leaves no trace beyond the recorded failure.
+   */
+  private async *streamWithFallbacks(
+    request: LLMChatRequest | LLMChatRequestWithPreset,
+    callOptions: StreamMessageOptions,
+    call: CallContext
+  ): AsyncGenerator<LLMServiceStreamEvent> {
+    const chain = this.buildFallbackChain(request, callOptions.fallbackPresetIds!);
+    const failures: LLMFallbackFailure[] = [];
+
+    for (const [position, entry] of chain.entries()) {
+      const isLast = position === chain.length - 1;
+      const attemptId = randomUUID();
+      const canonical = await this.prepareMessage(entry, { mode: "stream" });
+      if (this.isFailureResponse(canonical)) {
+        if (position > 0 && !isLast) {
+          failures.push(this.recordFallbackFailure(entry, canonical));
+          continue;
+        }
+        yield {
+          attemptId,
+          type: "error",
+          error: {
+            ...canonical,
+            fallback: this.createFallbackInfo(entry, position, failures),
+          },
+        };
+        return;
+      }
+
+      const held: LLMServiceStreamEvent[] = [];
+      let contentEmitted = false;
+      let fellBack = false;
+      for await (const event of this.streamPreparedWithAttempt(
+        canonical,
+        callOptions,
+        attemptId,
+        call
+      )) {
+        if (event.type === "complete") {
+          yield* held;
+          yield {
+            ...event,
+            response: {
+              ...event.response,
+              fallback: this.createFallbackInfo(entry, position, failures),
+            },
+          };
+          return;
+        }
+        if (event.type === "error") {
+          if (
+            !contentEmitted &&
+            !isLast &&
+            FALLBACK_ERROR_CODES.has(String(event.error.error.code))
+          ) {
+            failures.push(this.recordFallbackFailure(entry, event.error));
+            fellBack = true;
+            break;
+          }
+          yield* held;
+          yield {
+            ...event,
+            error: {
+              ...event.error,
+              fallback: this.createFallbackInfo(entry, position, failures),
+            },
+          };
+          return;
+        }
+        if (contentEmitted) {
+          yield event;
+        } else if (event.type === "start" || event.type === "usage") {
+          held.push(event);
+        } else {
+          contentEmitted = true;
+          yield* held;
+          held.length = 0;
+          yield event;
+        }
+      }
+      if (!fellBack) {
+        // The stream ended without a terminal event
+        yield* held;
+        return;
+      }
+    }
+  }
+
+  private buildFallbackChain(
+    request: LLMChatRequest | LLMChatRequestWithPreset,
+    fallbackPresetIds: string[]
+  ): Array<LLMChatRequest | LLMChatRequestWithPreset> {
+    const {
+      providerId: _providerId,
+      modelId: _modelId,
+      presetId: _presetId,
+      ...shared
+    } = request as LLMChatRequestWithPreset;
+    return [
+      request,
+      ...fallbackPresetIds.map((presetId) => ({ ...shared, presetId })),
+    ];
+  }
+
+  private createFallbackInfo(
+    entry: LLMChatRequest | LLMChatRequestWithPreset,
+    position: number,
+    failures: LLMFallbackFailure[]
+  ): LLMFallbackInfo {
+    const presetId = (entry as LLMChatRequestWithPreset).presetId;
+    return {
+      ...(presetId !== undefined && { presetId }),
+      position,
+      failures: [...failures],
+    };
+  }
+
+  private recordFallbackFailure(
+    entry: LLMChatRequest | LLMChatRequestWithPreset,
+    failure: LLMFailureResponse
+  ): LLMFallbackFailure {
+    const presetId = (entry as LLMChatRequestWithPreset).presetId;
+    const { providerError: _providerError, ...error } = failure.error;
+    this.logger.warn(
+      `Falling back after ${presetId ?? `${failure.provider}/${failure.model}`} failed: ${error.code ?? "UNKNOWN"} ${error.message}`
+    );
+    return {
+      ...(presetId !== undefined && { presetId }),
+      provider: failure.provider,
+      ...(failure.model !== undefined && { model: failure.model }),
+      error,
+    };
   }
 
   /** Dispatches a reusable stream-mode prepared call with no automatic retries. */
@@ -687,34 +1467,137 @@ export class LLMService {
     handle: PreparedStreamCall,
     callOptions?: StreamMessageOptions
   ): AsyncGenerator<LLMServiceStreamEvent> {
-    yield* this.streamPreparedWithAttempt(handle, callOptions, randomUUID());
+    const prepared = this.preparedCalls.get(handle as object);
+    const call = this.startCall("stream", prepared, prepared?.presetId);
+    yield* this.endCallWithStream(
+      call,
+      applyStreamEventMiddleware(
+        this.middleware,
+        this.streamPreparedWithAttempt(handle, callOptions, randomUUID(), call),
+        { mode: "stream" }
+      )
+    );
   }
 
+  /** Runs one stream attempt inside the attempt middleware. */
   private async *streamPreparedWithAttempt(
     handle: PreparedStreamCall,
     callOptions: StreamMessageOptions | undefined,
-    attemptId: string
+    attemptId: string,
+    call: CallContext
   ): AsyncGenerator<LLMServiceStreamEvent> {
     const resolved = this.resolvePreparedHandle(handle, "stream");
     if ("error" in resolved) {
-      yield { attemptId, type: "error", error: resolved.error };
+      yield* this.observeStreamAttempt(handle, callOptions, attemptId, call);
       return;
     }
     const prepared = resolved.prepared;
-    const adapter = prepared.clientAdapter;
-    if (!adapter.streamPrepared) {
-      yield {
-        attemptId,
-        type: "error",
-        error: this.createPreparedFailure(
-          prepared.providerId,
-          prepared.modelId,
-          ADAPTER_ERROR_CODES.PREPARED_CALL_UNSUPPORTED,
-          `Prepared streaming is not supported for provider '${prepared.providerId}'.`,
-          "unsupported_feature"
-        ),
-      };
-      return;
+    yield* runStreamAttemptMiddleware(
+      this.middleware,
+      {
+        mode: "stream",
+        provider: prepared.providerId,
+        model: prepared.modelId,
+        attempt: 0,
+        request: prepared.adapterPrepared.requestView,
+      },
+      attemptId,
+      () => this.observeStreamAttempt(handle, callOptions, attemptId, call),
+      (error) => this.createUnexpectedDispatchFailure(prepared, error)
+    );
+  }
+
+  /**
+   * Runs one stream attempt inside its attempt span and between its
+   * `attempt:start` and `attempt:end` events, emitting `stream:first-token`
+   * on the first delta.
+   */
+  private async *observeStreamAttempt(
+    handle: PreparedStreamCall,
+    callOptions: StreamMessageOptions | undefined,
+    attemptId: string,
+    call: CallContext
+  ): AsyncGenerator<LLMServiceStreamEvent> {
+    const prepared = this.preparedCalls.get(handle as object);
+    if (!prepared) {
+      yield* this.streamPreparedAttempt(handle, callOptions, attemptId);
+      return;
+    }
+    call.trace?.setAttributes(
+      this.getTraceRequestAttributes(prepared, call.trace.captureContent)
+    );
+    const span = call.trace?.startAttempt(attemptId, 0);
+    const attempt = {
+      requestId: call.requestId,
+      attemptId,
+      attempt: 0,
+      provider: prepared.providerId,
+      model: prepared.modelId,
+    };
+    const startedAt = Date.now();
+    this.events.emit("attempt:start", { ...attempt, timestamp: startedAt });
+    let result: LLMResponse | LLMFailureResponse | undefined;
+    let firstToken = false;
+    try {
+      for await (const event of this.streamPreparedAttempt(
+        handle,
+        callOptions,
+        attemptId
+      )) {
+        if (
+          !firstToken &&
+          (event.type === "content_delta" ||
+            event.type === "reasoning_delta" ||
+            event.type === "tool_call_start")
+        ) {
+          firstToken = true;
+          const timestamp = Date.now();
+          this.events.emit("stream:first-token", {
+            ...attempt,
+            timestamp,
+            latencyMs: timestamp - startedAt,
+          });
+        }
+        if (event.type === "complete") {
+          result = event.response;
+        } else if (event.type === "error") {
+          result = event.error;
+        }
+        yield event;
+      }
+    } finally {
+      if (span) {
+        endSpan(span, result && this.getTraceOutcome(result, false));
+      }
+      this.emitAttemptEnd(attempt, startedAt, result);
+    }
+  }
+
+  private async *streamPreparedAttempt(
+    handle: PreparedStreamCall,
+    callOptions: StreamMessageOptions | undefined,
+    attemptId: string
+  ): AsyncGenerator<LLMServiceStreamEvent> {
+    const resolved = this.resolvePreparedHandle(handle, "stream");
+    if ("error" in resolved) {
+      yield { attemptId, type: "error", error: resolved.error };
+      return;
+    }
+    const prepared = resolved.prepared;
+    const adapter = prepared.clientAdapter;
+    if (!adapter.streamPrepared) {
+      yield {
+        attemptId,
+        type: "error",
+        error: this.createPreparedFailure(
+          prepared.providerId,
+          prepared.modelId,
+          ADAPTER_ERROR_CODES.PREPARED_CALL_UNSUPPORTED,
+          `Prepared streaming is not supported for provider '${prepared.providerId}'.`,
+          "unsupported_feature"
+        ),
+      };
+      return;
     }
 
     const apiKey = await this.resolveDispatchApiKey(prepared);
@@ -739,6 +1622,9 @@ export class LLMService {
     };
     let iterator: AsyncIterator<AdapterLLMStreamEvent> | undefined;
     let terminal = false;
+    let reservation: UsageReservation | undefined;
+    let permit: RateLimitPermit | undefined;
+    let circuit: CircuitPermit | undefined;
     try {
       const revalidation = await this.revalidatePrepared(
         prepared,
@@ -748,6 +1634,28 @@ export class LLMService {
         yield { attemptId, type: "error", error: revalidation };
         return;
       }
+      const acquiredCircuit = this.acquireCircuit(prepared);
+      if (this.isFailureResponse(acquiredCircuit)) {
+        yield { attemptId, type: "error", error: acquiredCircuit };
+        return;
+      }
+      circuit = acquiredCircuit;
+      const acquired = await this.acquireRateLimit(prepared, callOptions?.signal);
+      if (this.isFailureResponse(acquired)) {
+        yield { attemptId, type: "error", error: acquired };
+        return;
+      }
+      permit = acquired;
+      const reserved = await this.reserveLedgerAttempt(
+        prepared,
+        callOptions?.userTag
+      );
+      if (this.isFailureResponse(reserved)) {
+        permit?.release(0);
+        yield { attemptId, type: "error", error: reserved };
+        return;
+      }
+      reservation = reserved;
 
       iterator = adapter
         .streamPrepared(prepared.adapterPrepared, apiKey, adapterOptions)
@@ -763,7 +1671,10 @@ export class LLMService {
           continue;
         }
         if (event.type === "complete") {
-          const processed = this.postProcessResponse(event.response, prepared);
+          const processed = await this.applyStructuredOutputValidator(
+            this.postProcessResponse(event.response, prepared),
+            prepared
+          );
           if (processed.object === "error") {
             const failure = this.finalizeStreamFailure(
               processed,
@@ -772,6 +1683,15 @@ export class LLMService {
               prepared
             );
             terminal = true;
+            circuit?.record(this.getCircuitOutcome(failure));
+            this.releaseRateLimit(permit, failure);
+            await this.recordLedgerAttempt(
+              reservation,
+              prepared,
+              attemptId,
+              failure
+            );
+            reservation = undefined;
             yield {
               attemptId,
               type: "error",
@@ -779,6 +1699,15 @@ export class LLMService {
             };
           } else {
             terminal = true;
+            circuit?.record(this.getCircuitOutcome(processed));
+            this.releaseRateLimit(permit, processed);
+            await this.recordLedgerAttempt(
+              reservation,
+              prepared,
+              attemptId,
+              processed
+            );
+            reservation = undefined;
             yield { attemptId, type: "complete", response: processed };
           }
           break;
@@ -791,6 +1720,15 @@ export class LLMService {
             prepared
           );
           terminal = true;
+          circuit?.record(this.getCircuitOutcome(failure));
+          this.releaseRateLimit(permit, failure);
+          await this.recordLedgerAttempt(
+            reservation,
+            prepared,
+            attemptId,
+            failure
+          );
+          reservation = undefined;
           yield {
             attemptId,
             type: "error",
@@ -798,66 +1736,127 @@ export class LLMService {
           };
           break;
         }
+        if (event.type === "tool_call_end") {
+          yield {
+            attemptId,
+            type: "tool_call_end",
+            index: event.index,
+            toolCallIndex: event.toolCallIndex,
+            toolCall: this.toStreamToolCall(
+              this.getStreamPartialToolCall(
+                partialState,
+                event.index,
+                event.toolCallIndex
+              )
+            ),
+          };
+          continue;
+        }
         const {
           observedEvidence: _observedEvidence,
           ...publicEvent
         } = event;
         yield { ...publicEvent, attemptId } as LLMServiceStreamEvent;
+        if (event.type === "content_delta") {
+          const parsedDelta = this.getParsedDelta(
+            prepared,
+            partialState,
+            event.index
+          );
+          if (parsedDelta) {
+            yield { ...parsedDelta, attemptId };
+          }
+        }
       }
 
       if (!terminal) {
         terminal = true;
         const aborted = signal.aborted;
-        yield {
-          attemptId,
-          type: "error",
-          error: this.finalizeStreamFailure(
-            this.createPreparedFailure(
-              prepared.providerId,
-              prepared.modelId,
-              aborted
-                ? ADAPTER_ERROR_CODES.REQUEST_ABORTED
-                : ADAPTER_ERROR_CODES.PROVIDER_ERROR,
-              aborted
-                ? "The streaming request was aborted."
-                : "The provider stream ended without a terminal event.",
-              aborted ? "abort_error" : "server_error"
-            ),
-            partialState,
-            attemptId,
-            prepared
+        const failure = this.finalizeStreamFailure(
+          this.createPreparedFailure(
+            prepared.providerId,
+            prepared.modelId,
+            aborted
+              ? ADAPTER_ERROR_CODES.REQUEST_ABORTED
+              : ADAPTER_ERROR_CODES.PROVIDER_ERROR,
+            aborted
+              ? "The streaming request was aborted."
+              : "The provider stream ended without a terminal event.",
+            aborted ? "abort_error" : "server_error"
           ),
-        };
+          partialState,
+          attemptId,
+          prepared
+        );
+        circuit?.record(this.getCircuitOutcome(failure));
+        this.releaseRateLimit(permit, failure);
+        await this.recordLedgerAttempt(
+          reservation,
+          prepared,
+          attemptId,
+          failure
+        );
+        reservation = undefined;
+        yield { attemptId, type: "error", error: failure };
       }
     } catch (error) {
       if (!terminal) {
         terminal = true;
         const aborted = signal.aborted;
-        yield {
+        const failure = this.finalizeStreamFailure(
+          this.createPreparedFailure(
+            prepared.providerId,
+            prepared.modelId,
+            aborted
+              ? ADAPTER_ERROR_CODES.REQUEST_ABORTED
+              : ADAPTER_ERROR_CODES.PROVIDER_ERROR,
+            aborted
+              ? "The streaming request was aborted."
+              : error instanceof Error
+                ? error.message
+                : "An unknown streaming error occurred.",
+            aborted ? "abort_error" : "server_error",
+            error
+          ),
+          partialState,
           attemptId,
-          type: "error",
-          error: this.finalizeStreamFailure(
+          prepared
+        );
+        circuit?.record(this.getCircuitOutcome(failure));
+        this.releaseRateLimit(permit, failure);
+        await this.recordLedgerAttempt(
+          reservation,
+          prepared,
+          attemptId,
+          failure
+        );
+        reservation = undefined;
+        yield { attemptId, type: "error", error: failure };
+      }
+    } finally {
+      circuit?.record("ignored");
+      permit?.release();
+      if (reservation) {
+        // The consumer stopped iterating before a terminal event; the attempt
+        // was still dispatched, so record whatever usage was observed.
+        await this.recordLedgerAttempt(
+          reservation,
+          prepared,
+          attemptId,
+          this.finalizeStreamFailure(
             this.createPreparedFailure(
               prepared.providerId,
               prepared.modelId,
-              aborted
-                ? ADAPTER_ERROR_CODES.REQUEST_ABORTED
-                : ADAPTER_ERROR_CODES.PROVIDER_ERROR,
-              aborted
-                ? "The streaming request was aborted."
-                : error instanceof Error
-                  ? error.message
-                  : "An unknown streaming error occurred.",
-              aborted ? "abort_error" : "server_error",
-              error
+              ADAPTER_ERROR_CODES.REQUEST_ABORTED,
+              "The stream consumer stopped before a terminal event.",
+              "abort_error"
             ),
             partialState,
             attemptId,
             prepared
-          ),
-        };
+          )
+        );
       }
-    } finally {
       cancellation.abort();
       if (iterator?.return) {
         try {
@@ -869,116 +1868,672 @@ export class LLMService {
     }
   }
 
-  private async resolveAndValidateCapabilities(
-    request: LLMChatRequest | LLMChatRequestWithPreset | LLMRequestCapabilityPreflight,
-    options: {
-      validateStructure: boolean;
-      detectLocalCapabilities: boolean;
-      adapterPreparationState?: unknown;
-    }
-  ): Promise<
-    { context: CapabilityValidationContext } |
-    { error: LLMFailureResponse; capabilities?: ModelCapabilities }
-  > {
-    const resolved = await this.modelResolver.resolve(request, {
-      detectLocalCapabilities: options.detectLocalCapabilities,
-      ...(options.adapterPreparationState !== undefined && {
-        adapterPreparationState: options.adapterPreparationState,
+  /** Starts a logical call: emits `request:start` and, when tracing is configured, starts its span. */
+  private startCall(
+    mode: PreparedCallMode,
+    target: { providerId: ApiProviderId; modelId: string } | undefined,
+    presetId: string | undefined
+  ): CallContext {
+    const call: CallContext = {
+      requestId: randomUUID(),
+      mode,
+      startedAt: Date.now(),
+      trace: CallTrace.start(this.tracing, "chat", target?.modelId, {
+        "gen_ai.provider.name": target?.providerId,
       }),
+    };
+    this.events.emit("request:start", {
+      requestId: call.requestId,
+      timestamp: call.startedAt,
+      mode,
+      ...(target && { provider: target.providerId, model: target.modelId }),
+      ...(presetId && { presetId }),
     });
-    if (resolved.error) {
-      return { error: resolved.error };
-    }
+    return call;
+  }
 
-    const providerId = resolved.providerId! as ApiProviderId;
-    const modelId = resolved.modelId!;
-    const providerInfo = getProviderById(providerId)!;
-    const modelInfo = resolved.modelInfo!;
-    const source = this.getCapabilitySource(providerId, modelId);
-    const capabilities = this.buildModelCapabilities(providerInfo, modelInfo, source);
+  /**
+   * Ends a logical call with its final result, or with none when a stream
+   * consumer stopped before the terminal event or the call threw `thrown`.
+   */
+  private endCall(
+    call: CallContext,
+    result: LLMResponse | LLMFailureResponse | undefined,
+    thrown?: unknown
+  ): void {
+    const error =
+      result?.object === "error"
+        ? this.toEventError(result)
+        : thrown !== undefined
+          ? this.toThrownEventError(thrown)
+          : undefined;
+    call.trace?.end(
+      result
+        ? this.getTraceOutcome(result, call.trace.captureContent)
+        : error && { attributes: {}, error }
+    );
+    const response =
+      result?.object === "error" ? result.partialResponse : result;
+    const timestamp = Date.now();
+    this.events.emit("request:end", {
+      requestId: call.requestId,
+      timestamp,
+      mode: call.mode,
+      ...(result && { provider: result.provider, model: result.model }),
+      durationMs: timestamp - call.startedAt,
+      success: result?.object === "chat.completion",
+      ...(response?.usage && { usage: response.usage }),
+      ...(response?.cost && { cost: response.cost.total }),
+      ...(error && { error }),
+    });
+  }
 
-    const resolvedRequest: LLMChatRequest = {
-      ...(request as Partial<LLMChatRequest>),
-      providerId,
-      modelId,
-      messages: "messages" in request && Array.isArray(request.messages)
-        ? request.messages
-        : [],
-    };
+  /**
+   * Ends a logical call once its result settles. A rejection (e.g. a throwing
+   * middleware hook) still ends the call before it propagates.
+   */
+  private async endCallWithResult(
+    call: CallContext,
+    pending: Promise<LLMResponse | LLMFailureResponse>
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    let result: LLMResponse | LLMFailureResponse;
+    try {
+      result = await pending;
+    } catch (error) {
+      this.endCall(call, undefined, error);
+      throw error;
+    }
+    this.endCall(call, result);
+    return result;
+  }
 
-    if (options.validateStructure) {
-      const structureValidationResult = this.requestValidator.validateRequestStructure(resolvedRequest);
-      if (structureValidationResult) {
-        return { error: structureValidationResult, capabilities };
+  /** Ends a logical call with the stream's terminal event once the stream finishes. */
+  private async *endCallWithStream(
+    call: CallContext,
+    events: AsyncIterable<LLMServiceStreamEvent>
+  ): AsyncGenerator<LLMServiceStreamEvent> {
+    let result: LLMResponse | LLMFailureResponse | undefined;
+    let thrown: unknown;
+    try {
+      for await (const event of events) {
+        if (event.type === "complete") {
+          result = event.response;
+        } else if (event.type === "error") {
+          result = event.error;
+        }
+        yield event;
       }
+    } catch (error) {
+      thrown = error;
+      throw error;
+    } finally {
+      this.endCall(call, result, thrown);
     }
+  }
 
-    const combinedSettings = {
-      ...(resolved.settings || {}),
-      ...(request.settings || {}),
+  /** Runs one complete-mode attempt between its `attempt:start` and `attempt:end` events. */
+  private async observeAttempt(
+    call: CallContext,
+    prepared: PreparedLLMRequest,
+    attemptId: string,
+    attempt: number,
+    run: () => Promise<LLMResponse | LLMFailureResponse>
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const context = {
+      requestId: call.requestId,
+      attemptId,
+      attempt,
+      provider: prepared.providerId,
+      model: prepared.modelId,
     };
-
-    const settingsValidation = this.requestValidator.validateSettings(
-      combinedSettings,
-      providerId,
-      modelId
-    );
-    if (settingsValidation) {
-      return { error: settingsValidation, capabilities };
+    const startedAt = Date.now();
+    this.events.emit("attempt:start", { ...context, timestamp: startedAt });
+    let result: LLMResponse | LLMFailureResponse;
+    try {
+      result = await run();
+    } catch (error) {
+      this.emitAttemptEnd(
+        context,
+        startedAt,
+        this.createUnexpectedDispatchFailure(prepared, error)
+      );
+      throw error;
     }
+    this.emitAttemptEnd(context, startedAt, result);
+    return result;
+  }
 
-    const finalSettings = this.settingsManager.mergeSettingsForModel(
-      modelId,
-      providerId,
-      combinedSettings,
-      modelInfo
-    );
-
-    const finalSettingsValidation = this.requestValidator.validateFinalSettings(
-      finalSettings,
-      providerId,
-      modelId
-    );
-    if (finalSettingsValidation) {
-      return { error: finalSettingsValidation, capabilities };
-    }
+  private emitAttemptEnd(
+    context: Omit<LLMAttemptEventBase, "timestamp">,
+    startedAt: number,
+    result: LLMResponse | LLMFailureResponse | undefined
+  ): void {
+    const response =
+      result?.object === "error" ? result.partialResponse : result;
+    const timestamp = Date.now();
+    this.events.emit("attempt:end", {
+      ...context,
+      timestamp,
+      durationMs: timestamp - startedAt,
+      success: result?.object === "chat.completion",
+      ...(response?.usage && { usage: response.usage }),
+      ...(result?.object === "error" && {
+        error: this.toEventError(result),
+      }),
+    });
+  }
 
-    const reasoningValidation = this.requestValidator.validateReasoningSettings(
-      modelInfo,
-      finalSettings.reasoning,
-      resolvedRequest
-    );
-    if (reasoningValidation) {
-      return { error: reasoningValidation, capabilities };
-    }
+  private toEventError(failure: LLMFailureResponse): LLMEventError {
+    const { providerError: _providerError, ...error } = failure.error;
+    return error;
+  }
 
-    const structuredOutputValidation = this.requestValidator.validateStructuredOutputSettings(
-      modelInfo,
-      finalSettings.structuredOutput,
-      resolvedRequest
-    );
-    if (structuredOutputValidation) {
-      return { error: structuredOutputValidation, capabilities };
-    }
+  private toThrownEventError(error: unknown): LLMEventError {
+    return {
+      message: error instanceof Error ? error.message : String(error),
+      code: ADAPTER_ERROR_CODES.UNKNOWN_ERROR,
+      type: "server_error",
+    };
+  }
 
+  /** GenAI semantic-convention attributes of the prepared request. */
+  private getTraceRequestAttributes(
+    prepared: PreparedLLMRequest,
+    captureContent: boolean
+  ): SpanAttributes {
+    const { settings } = prepared.internalRequest;
+    const { messages, systemMessage } = prepared.resolvedRequest;
     return {
-      context: {
-        providerId,
-        modelId,
-        modelInfo,
-        resolvedRequest,
-        finalSettings,
-        capabilities,
-        ...(resolved.adapterPreparationState !== undefined && {
-          adapterPreparationState: resolved.adapterPreparationState,
+      "gen_ai.provider.name": prepared.providerId,
+      "gen_ai.request.model": prepared.modelId,
+      "gen_ai.request.max_tokens": settings.maxTokens,
+      "gen_ai.request.temperature": settings.temperature,
+      "gen_ai.request.top_p": settings.topP,
+      "gen_ai.request.seed": settings.seed,
+      "gen_ai.request.choice.count": settings.n,
+      ...(captureContent && {
+        "gen_ai.input.messages": JSON.stringify(
+          messages.map((message) => ({
+            role: message.role,
+            parts: [
+              ...(typeof message.content === "string"
+                ? [{ type: "text", content: message.content }]
+                : message.content.map((part) =>
+                    part.type === "text"
+                      ? { type: "text", content: part.text }
+                      : { type: part.type }
+                  )),
+              ...(message.toolCalls ?? []).map((toolCall) => ({
+                type: "tool_call",
+                ...toolCall,
+              })),
+            ],
+          }))
+        ),
+        ...(systemMessage && {
+          "gen_ai.system_instructions": JSON.stringify([
+            { type: "text", content: systemMessage },
+          ]),
         }),
-      },
+      }),
     };
   }
 
-  private buildModelCapabilities(
-    providerInfo: ProviderInfo,
-    modelInfo: ModelInfo,
+  /** GenAI semantic-convention attributes of a result, plus its error for failures. */
+  private getTraceOutcome(
+    result: LLMResponse | LLMFailureResponse,
+    captureContent: boolean
+  ): SpanOutcome {
+    const response =
+      result.object === "error" ? result.partialResponse : result;
+    return {
+      attributes: {
+        "gen_ai.provider.name": result.provider,
+        ...(response && {
+          "gen_ai.response.id": response.id,
+          "gen_ai.response.model": response.model,
+          "gen_ai.response.finish_reasons": response.choices.map(
+            (choice) => choice.finish_reason ?? ""
+          ),
+          "gen_ai.usage.input_tokens": response.usage?.prompt_tokens,
+          "gen_ai.usage.output_tokens": response.usage?.completion_tokens,
+          "gen_ai.usage.cache_read.input_tokens":
+            response.usage?.cache_read_tokens,
+          ...(captureContent && {
+            "gen_ai.output.messages": JSON.stringify(
+              response.choices.map((choice) => ({
+                role: "assistant",
+                parts: [
+                  ...(choice.message.content
+                    ? [{ type: "text", content: choice.message.content }]
+                    : []),
+                  ...(choice.toolCalls ?? []).map((toolCall) => ({
+                    type: "tool_call",
+                    ...toolCall,
+                  })),
+                ],
+                finish_reason: choice.finish_reason ?? "",
+              }))
+            ),
+          }),
+        }),
+        ...(result.object !== "error" &&
+          result.cacheHit && { "genai_lite.cache_hit": true }),
+      },
+      ...(result.object === "error" && { error: result.error }),
+    };
+  }
+
+  /**
+   * Reserves worst-case spend for one physical attempt. Returns undefined
+   * without a ledger, or BUDGET_EXCEEDED when a hard budget would be crossed.
+   */
+  private async reserveLedgerAttempt(
+    prepared: PreparedLLMRequest,
+    userTag: string | undefined
+  ): Promise<UsageReservation | LLMFailureResponse | undefined> {
+    if (!this.usageLedger) {
+      return undefined;
+    }
+    const result = await this.usageLedger.reserve(
+      {
+        providerId: prepared.providerId,
+        modelId: prepared.modelId,
+        ...(prepared.presetId && { presetId: prepared.presetId }),
+        ...(userTag !== undefined && { userTag }),
+      },
+      this.estimateWorstCaseCost(prepared)
+    );
+    if ("reservation" in result) {
+      return result.reservation;
+    }
+
+    const { budget, spentUsd, reservedUsd } = result.exceeded;
+    const failure = this.createPreparedFailure(
+      prepared.providerId,
+      prepared.modelId,
+      ADAPTER_ERROR_CODES.BUDGET_EXCEEDED,
+      `Hard budget '${budget.id}' of $${budget.limitUsd} would be exceeded ` +
+        `(spent $${spentUsd.toFixed(6)}, reserved $${reservedUsd.toFixed(6)} ` +
+        `including this request).`,
+      "budget_error"
+    );
+    failure.error.param = budget.id;
+    return failure;
+  }
+
+  /**
+   * Upper bound on one attempt's cost: the prepared prompt upper bound (or
+   * exact count) at the input price plus the effective output-token limit at
+   * the higher of the output and reasoning prices. Unknown parts count as 0.
+   */
+  private estimateWorstCaseCost(prepared: PreparedLLMRequest): number {
+    const { promptTokens, outputTokens } = this.estimateAttemptTokens(prepared);
+    const { modelInfo } = prepared;
+    const outputPrice = modelInfo.outputPrice ?? 0;
+    const reasoningPrice =
+      modelInfo.reasoning?.outputPrice ??
+      modelInfo.thinkingConfig?.outputPrice ??
+      outputPrice;
+    return (
+      (promptTokens * (modelInfo.inputPrice ?? 0) +
+        outputTokens * Math.max(outputPrice, reasoningPrice)) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Upper bound on one attempt's tokens: the prepared prompt upper bound (or
+   * exact count) once per provider call and the effective output-token limit
+   * once per requested choice. Unknown parts count as 0.
+   */
+  private estimateAttemptTokens(prepared: PreparedLLMRequest): {
+    promptTokens: number;
+    outputTokens: number;
+  } {
+    const { promptAccounting, outputTokenLimit, requestView } =
+      prepared.adapterPrepared;
+    const promptTokens =
+      promptAccounting.status === "available"
+        ? promptAccounting.upperBound?.tokens ??
+          promptAccounting.count?.tokens ??
+          0
+        : 0;
+    return {
+      promptTokens: promptTokens * (requestView.fanOut ?? 1),
+      outputTokens:
+        (outputTokenLimit?.tokens ?? 0) *
+        (prepared.internalRequest.settings.n ?? 1),
+    };
+  }
+
+  /**
+   * Waits for a rate-limiter slot for one physical attempt. Returns undefined
+   * without a limiter, or REQUEST_ABORTED when the signal fires while queued.
+   */
+  private async acquireRateLimit(
+    prepared: PreparedLLMRequest,
+    signal: AbortSignal | undefined
+  ): Promise<RateLimitPermit | LLMFailureResponse | undefined> {
+    if (!this.rateLimiter) {
+      return undefined;
+    }
+    const { promptTokens, outputTokens } = this.estimateAttemptTokens(prepared);
+    const result = await this.rateLimiter.acquire(
+      prepared.providerId,
+      prepared.modelId,
+      { tokens: promptTokens + outputTokens, signal }
+    );
+    if ("permit" in result) {
+      return result.permit;
+    }
+    return this.createPreparedFailure(
+      prepared.providerId,
+      prepared.modelId,
+      ADAPTER_ERROR_CODES.REQUEST_ABORTED,
+      "The request was aborted while waiting for a rate limit slot.",
+      "abort_error"
+    );
+  }
+
+  /** Checks the circuit breaker; returns CIRCUIT_OPEN while the circuit refuses calls. */
+  private acquireCircuit(
+    prepared: PreparedLLMRequest
+  ): CircuitPermit | LLMFailureResponse | undefined {
+    if (!this.circuitBreaker) {
+      return undefined;
+    }
+    const result = this.circuitBreaker.acquire(
+      prepared.providerId,
+      prepared.modelId
+    );
+    if ("permit" in result) {
+      return result.permit;
+    }
+    const failure = this.createPreparedFailure(
+      prepared.providerId,
+      prepared.modelId,
+      ADAPTER_ERROR_CODES.CIRCUIT_OPEN,
+      `The circuit for ${result.open.key} is open after ` +
+        `${result.open.consecutiveFailures} consecutive failures.`,
+      "server_error"
+    );
+    if (result.open.retryAt !== undefined) {
+      failure.error.retryAfterMs = Math.max(0, result.open.retryAt - Date.now());
+    }
+    return failure;
+  }
+
+  /**
+   * Failures the retry layer would retry count against the circuit. Other
+   * failures show the provider is reachable, and aborts say nothing either way.
+   */
+  private getCircuitOutcome(
+    result: LLMResponse | LLMFailureResponse
+  ): CircuitOutcome {
+    if (result.object !== "error") {
+      return "success";
+    }
+    if (result.error.code === ADAPTER_ERROR_CODES.REQUEST_ABORTED) {
+      return "ignored";
+    }
+    return this.getRetryVerdict(result).retry ? "failure" : "success";
+  }
+
+  private getRetryVerdict(result: LLMResponse | LLMFailureResponse): RetryVerdict {
+    if (result.object !== "error") {
+      return { retry: false };
+    }
+    const retryOnTimeout = this.retryOptions?.retryOnTimeout ?? true;
+    const code = String(result.error.code);
+    const status = result.error.status;
+    return {
+      retry:
+        code === ADAPTER_ERROR_CODES.RATE_LIMIT_EXCEEDED ||
+        code === ADAPTER_ERROR_CODES.NETWORK_ERROR ||
+        (retryOnTimeout && code === ADAPTER_ERROR_CODES.REQUEST_TIMEOUT) ||
+        (code === ADAPTER_ERROR_CODES.PROVIDER_ERROR &&
+          typeof status === "number" &&
+          (status === 408 || status === 409 || status >= 500)),
+      retryAfterMs: result.error.retryAfterMs,
+    };
+  }
+
+  /** Frees a rate-limiter slot, settling the token estimate against reported usage. */
+  private releaseRateLimit(
+    permit: RateLimitPermit | undefined,
+    result: LLMResponse | LLMFailureResponse
+  ): void {
+    const response =
+      result.object === "error" ? result.partialResponse : result;
+    permit?.release(response?.usage?.total_tokens);
+  }
+
+  /** Records a finished attempt and releases its reservation. Never throws. */
+  private async recordLedgerAttempt(
+    reservation: UsageReservation | undefined,
+    prepared: PreparedLLMRequest,
+    attemptId: string,
+    result: LLMResponse | LLMFailureResponse
+  ): Promise<void> {
+    if (!reservation || !this.usageLedger) {
+      return;
+    }
+    const response =
+      result.object === "error" ? result.partialResponse : result;
+    const usage = response?.usage;
+    const cost =
+      response?.cost ??
+      computeUsageCost(
+        usage,
+        response?.usageEvidence,
+        prepared.modelInfo,
+        MODEL_PRICING_REVISION
+      );
+    try {
+      await this.usageLedger.record(
+        {
+          ...reservation.scope,
+          attemptId,
+          outcome: result.object === "error" ? "error" : "success",
+          ...(result.object === "error" &&
+            result.error.code !== undefined && {
+              errorCode: String(result.error.code),
+            }),
+          ...(usage && { usage }),
+          ...(cost && { cost }),
+          costUsd: cost?.total ?? 0,
+        },
+        reservation
+      );
+    } catch (error) {
+      this.logger.warn("Failed to record usage ledger entry:", error);
+    }
+  }
+
+  private async resolveAndValidateCapabilities(
+    request: LLMChatRequest | LLMChatRequestWithPreset | LLMRequestCapabilityPreflight,
+    options: {
+      validateStructure: boolean;
+      detectLocalCapabilities: boolean;
+      adapterPreparationState?: unknown;
+    }
+  ): Promise<
+    { context: CapabilityValidationContext } |
+    { error: LLMFailureResponse; capabilities?: ModelCapabilities }
+  > {
+    const resolved = await this.modelResolver.resolve(request, {
+      detectLocalCapabilities: options.detectLocalCapabilities,
+      ...(options.adapterPreparationState !== undefined && {
+        adapterPreparationState: options.adapterPreparationState,
+      }),
+    });
+    if (resolved.error) {
+      return { error: resolved.error };
+    }
+
+    const providerId = resolved.providerId! as ApiProviderId;
+    const modelId = resolved.modelId!;
+    const providerInfo = getProviderById(providerId)!;
+    const modelInfo = resolved.modelInfo!;
+    const source = this.getCapabilitySource(providerId, modelId);
+    const capabilities = this.buildModelCapabilities(providerInfo, modelInfo, source);
+
+    const resolvedRequest: LLMChatRequest = {
+      ...(request as Partial<LLMChatRequest>),
+      providerId,
+      modelId,
+      messages: "messages" in request && Array.isArray(request.messages)
+        ? request.messages
+        : [],
+    };
+
+    if (options.validateStructure) {
+      const structureValidationResult = this.requestValidator.validateRequestStructure(resolvedRequest);
+      if (structureValidationResult) {
+        return { error: structureValidationResult, capabilities };
+      }
+    }
+
+    const combinedSettings = {
+      ...(resolved.settings || {}),
+      ...(request.settings || {}),
+    };
+
+    const settingsValidation = this.requestValidator.validateSettings(
+      combinedSettings,
+      providerId,
+      modelId
+    );
+    if (settingsValidation) {
+      return { error: settingsValidation, capabilities };
+    }
+
+    const finalSettings = this.settingsManager.mergeSettingsForModel(
+      modelId,
+      providerId,
+      combinedSettings,
+      modelInfo
+    );
+
+    const finalSettingsValidation = this.requestValidator.validateFinalSettings(
+      finalSettings,
+      providerId,
+      modelId
+    );
+    if (finalSettingsValidation) {
+      return { error: finalSettingsValidation, capabilities };
+    }
+
+    const reasoningValidation = this.requestValidator.validateReasoningSettings(
+      modelInfo,
+      finalSettings.reasoning,
+      resolvedRequest
+    );
+    if (reasoningValidation) {
+      return { error: reasoningValidation, capabilities };
+    }
+
+    const structuredOutputValidation = this.requestValidator.validateStructuredOutputSettings(
+      modelInfo,
+      finalSettings.structuredOutput,
+      resolvedRequest
+    );
+    if (structuredOutputValidation) {
+      return { error: structuredOutputValidation, capabilities };
+    }
+    const structuredOutputSchema = this.convertStructuredOutputSchema(finalSettings);
+
+    const contentValidation = this.requestValidator.validateContentCapabilities(
+      modelInfo,
+      resolvedRequest
+    );
+    if (contentValidation) {
+      return { error: contentValidation, capabilities };
+    }
+
+    const documentValidation = this.requestValidator.validateDocumentDelivery(
+      providerInfo,
+      resolvedRequest,
+      this.documentTextExtractor !== undefined
+    );
+    if (documentValidation) {
+      return { error: documentValidation, capabilities };
+    }
+
+    return {
+      context: {
+        providerId,
+        modelId,
+        modelInfo,
+        resolvedRequest,
+        finalSettings,
+        capabilities,
+        ...(structuredOutputSchema.validator && {
+          structuredOutputValidator: structuredOutputSchema.validator,
+        }),
+        ...(resolved.adapterPreparationState !== undefined && {
+          adapterPreparationState: resolved.adapterPreparationState,
+        }),
+      },
+    };
+  }
+
+  /**
+   * Replaces a Standard Schema validator in `structuredOutput.schema` with its
+   * JSON Schema, so adapters only ever see JSON Schema. The validator is
+   * returned for checking the reply. A validator with no JSON Schema falls
+   * back to prompt delivery of a bare JSON instruction.
+   */
+  private convertStructuredOutputSchema(
+    finalSettings: Required<LLMSettings>
+  ): { validator?: StandardSchemaV1 } {
+    const structuredOutput = finalSettings.structuredOutput;
+    if (
+      !structuredOutput ||
+      structuredOutput.enabled === false ||
+      !isStandardSchema(structuredOutput.schema)
+    ) {
+      return {};
+    }
+
+    const { jsonSchema: explicitSchema, ...settings } = structuredOutput;
+    const validator = structuredOutput.schema;
+    if (explicitSchema) {
+      finalSettings.structuredOutput = { ...settings, schema: explicitSchema };
+      return { validator };
+    }
+
+    const vendor = validator["~standard"].vendor;
+    let jsonSchema: Record<string, unknown> | undefined;
+    let reason = `the ${vendor} schema does not provide a JSON Schema conversion`;
+    try {
+      jsonSchema = standardSchemaToJsonSchema(validator);
+    } catch (error) {
+      reason = error instanceof Error ? error.message : String(error);
+    }
+    if (!jsonSchema) {
+      this.logger.warn(
+        `Cannot convert structuredOutput.schema to JSON Schema (${reason}); delivering it as a prompt instruction. Pass structuredOutput.jsonSchema for provider enforcement.`
+      );
+      finalSettings.structuredOutput = {
+        ...settings,
+        delivery: "prompt",
+        // The empty schema accepts any JSON; the validator checks the reply
+        schema: {} as StructuredOutputSchema,
+      };
+      return { validator };
+    }
+    finalSettings.structuredOutput = {
+      ...settings,
+      schema: jsonSchema as unknown as StructuredOutputSchema,
+    };
+    return { validator };
+  }
+
+  private buildModelCapabilities(
+    providerInfo: ProviderInfo,
+    modelInfo: ModelInfo,
     source: CapabilitySource
   ): ModelCapabilities {
     const structuredOutput = this.getStructuredOutputSupport(modelInfo, source);
@@ -1179,35 +2734,47 @@ export class LLMService {
 
   private async resolveDispatchApiKey(
     prepared: PreparedLLMRequest
+  ): Promise<string | LLMFailureResponse> {
+    return this.resolveApiKey(
+      prepared.providerId,
+      prepared.modelId,
+      prepared.clientAdapter
+    );
+  }
+
+  private async resolveApiKey(
+    providerId: ApiProviderId,
+    modelId: string,
+    clientAdapter: ILLMClientAdapter
   ): Promise<string | LLMFailureResponse> {
     try {
-      const apiKey = await this.getApiKey(prepared.providerId);
+      const apiKey = await this.getApiKey(providerId);
       if (!apiKey) {
         return this.createPreparedFailure(
-          prepared.providerId,
-          prepared.modelId,
+          providerId,
+          modelId,
           "API_KEY_ERROR",
-          `API key for provider '${prepared.providerId}' could not be retrieved. Ensure your ApiKeyProvider is configured correctly.`,
+          `API key for provider '${providerId}' could not be retrieved. Ensure your ApiKeyProvider is configured correctly.`,
           "authentication_error"
         );
       }
       if (
-        prepared.clientAdapter.validateApiKey &&
-        !prepared.clientAdapter.validateApiKey(apiKey)
+        clientAdapter.validateApiKey &&
+        !clientAdapter.validateApiKey(apiKey)
       ) {
         return this.createPreparedFailure(
-          prepared.providerId,
-          prepared.modelId,
+          providerId,
+          modelId,
           ADAPTER_ERROR_CODES.INVALID_API_KEY,
-          `Invalid API key format for provider '${prepared.providerId}'. Please check your API key.`,
+          `Invalid API key format for provider '${providerId}'. Please check your API key.`,
           "authentication_error"
         );
       }
       return apiKey;
     } catch (error) {
       return this.createPreparedFailure(
-        prepared.providerId,
-        prepared.modelId,
+        providerId,
+        modelId,
         ADAPTER_ERROR_CODES.PROVIDER_ERROR,
         error instanceof Error
           ? error.message
@@ -1219,7 +2786,7 @@ export class LLMService {
   }
 
   private createAdapterOptions(
-    callOptions?: StreamMessageOptions
+    callOptions?: StreamMessageOptions | ContextCacheOptions | BatchJobOptions
   ): AdapterRequestOptions {
     const timeoutMs = callOptions?.timeoutMs ?? this.defaultTimeoutMs;
     return {
@@ -1247,6 +2814,7 @@ export class LLMService {
             prepared.modelId,
             prepared.clientAdapter
           );
+          this.emitPreparedStale(result.error, "dispatch");
         }
         return result.error;
       }
@@ -1262,12 +2830,29 @@ export class LLMService {
         prepared.modelId,
         prepared.clientAdapter
       );
+      this.emitPreparedStale(endpointError, "dispatch");
     }
     return endpointError;
   }
 
-  private isValidProviderEndpointRevision(
-    revision: unknown
+  private emitPreparedStale(
+    failure: LLMFailureResponse,
+    phase: LLMServiceEvents["prepared:stale"]["phase"]
+  ): void {
+    if (failure.error.code !== ADAPTER_ERROR_CODES.PREPARED_CALL_STALE) {
+      return;
+    }
+    this.events.emit("prepared:stale", {
+      timestamp: Date.now(),
+      provider: failure.provider,
+      model: failure.model ?? "unknown",
+      phase,
+      message: failure.error.message,
+    });
+  }
+
+  private isValidProviderEndpointRevision(
+    revision: unknown
   ): revision is ProviderEndpointRevision {
     return (
       (typeof revision === "string" && revision.length > 0) ||
@@ -1577,6 +3162,54 @@ export class LLMService {
     );
   }
 
+  /**
+   * Builds a parsed_delta event from the choice's streamed content when
+   * structured output is auto-parsed. Skips a leading thinking-tag block
+   * (thinking tag fallback) and returns undefined while nothing parses or
+   * the value is unchanged.
+   */
+  private getParsedDelta(
+    prepared: PreparedLLMRequest,
+    state: StreamPartialState,
+    index: number
+  ): Extract<LLMStreamEvent, { type: "parsed_delta" }> | undefined {
+    const { structuredOutput, thinkingTagFallback } =
+      prepared.internalRequest.settings;
+    if (
+      !structuredOutput ||
+      structuredOutput.enabled === false ||
+      structuredOutput.autoParse === false
+    ) {
+      return undefined;
+    }
+
+    const choice = this.getStreamPartialChoice(state, index);
+    const content = choice.content;
+    let start = 0;
+    if (thinkingTagFallback && thinkingTagFallback.enabled !== false) {
+      const tagName = thinkingTagFallback.tagName || "thinking";
+      const trimmed = content.trimStart();
+      if (trimmed.startsWith(`<${tagName}>`)) {
+        const closeTag = `</${tagName}>`;
+        const end = trimmed.indexOf(closeTag);
+        if (end === -1) {
+          return undefined;
+        }
+        start = content.length - trimmed.length + end + closeTag.length;
+      }
+    }
+
+    // Only the new text is parsed; a parser for text before a thinking block is replaced
+    if (choice.partialJson?.start !== start) {
+      choice.partialJson = { parser: new PartialJsonParser(), start, written: start };
+    }
+    const partialJson = choice.partialJson;
+    const changed = partialJson.parser.write(content.slice(partialJson.written));
+    partialJson.written = content.length;
+    const parsed = changed ? partialJson.parser.value : undefined;
+    return parsed === undefined ? undefined : { type: "parsed_delta", index, parsed };
+  }
+
   private observeStreamPartial(
     state: StreamPartialState,
     event: AdapterLLMStreamEvent
@@ -1652,6 +3285,39 @@ export class LLMService {
       }
       return;
     }
+    if (event.type === "tool_call_start") {
+      const toolCall = this.getStreamPartialToolCall(
+        state,
+        event.index,
+        event.toolCallIndex
+      );
+      toolCall.id = event.id;
+      toolCall.name = event.name;
+      return;
+    }
+    if (event.type === "tool_call_arguments_delta") {
+      this.getStreamPartialToolCall(
+        state,
+        event.index,
+        event.toolCallIndex
+      ).arguments += event.delta;
+      return;
+    }
+    if (event.type === "tool_call_end") {
+      const toolCall = this.getStreamPartialToolCall(
+        state,
+        event.index,
+        event.toolCallIndex
+      );
+      // Legacy adapters may carry the finished call; it is authoritative.
+      if ("toolCall" in event && event.toolCall) {
+        toolCall.id = event.toolCall.id;
+        toolCall.name = event.toolCall.name;
+        toolCall.arguments = event.toolCall.arguments;
+      }
+      toolCall.completed = true;
+      return;
+    }
     if (event.type === "usage") {
       state.usage = {
         ...(state.usage ?? {}),
@@ -1676,6 +3342,34 @@ export class LLMService {
     return choice;
   }
 
+  private getStreamPartialToolCall(
+    state: StreamPartialState,
+    index: number,
+    toolCallIndex: number
+  ): StreamPartialToolCallState {
+    const choice = this.getStreamPartialChoice(state, index);
+    choice.toolCalls ??= new Map();
+    let toolCall = choice.toolCalls.get(toolCallIndex);
+    if (!toolCall) {
+      toolCall = {
+        id: createToolCallId(toolCallIndex),
+        name: "",
+        arguments: "",
+        completed: false,
+      };
+      choice.toolCalls.set(toolCallIndex, toolCall);
+    }
+    return toolCall;
+  }
+
+  private toStreamToolCall(toolCall: StreamPartialToolCallState): LLMToolCall {
+    return {
+      id: toolCall.id,
+      name: toolCall.name,
+      arguments: toolCall.arguments,
+    };
+  }
+
   private finalizeStreamFailure(
     failure: LLMFailureResponse,
     state: StreamPartialState,
@@ -1705,33 +3399,41 @@ export class LLMService {
 
     const choices = Array.from(state.choices.entries())
       .sort(([left], [right]) => left - right)
-      .map(([index, choice]) => ({
-        index,
-        message: {
-          role: "assistant" as const,
-          content: choice.content,
-        },
-        ...(choice.reasoning.length > 0 && {
-          reasoning: choice.reasoning,
-        }),
-        ...(choice.rawContent !== undefined && {
-          rawContent: choice.rawContent,
-        }),
-        ...(choice.rawContentParts && {
-          rawContentParts: choice.rawContentParts,
-        }),
-        ...(choice.answerAccounting && {
-          answerAccounting: choice.answerAccounting,
-        }),
-        ...(choice.rawAnswerAccounting && {
-          rawAnswerAccounting: choice.rawAnswerAccounting,
-        }),
-        finish_reason: choice.finishReason ?? null,
-        termination: choice.termination ?? {
-          rawReason: null,
-          kind: "unknown" as const,
-        },
-      }));
+      .map(([index, choice]) => {
+        // Only calls whose arguments finished streaming are safe to execute.
+        const toolCalls = Array.from(choice.toolCalls?.entries() ?? [])
+          .filter(([, toolCall]) => toolCall.completed)
+          .sort(([left], [right]) => left - right)
+          .map(([, toolCall]) => this.toStreamToolCall(toolCall));
+        return {
+          index,
+          message: {
+            role: "assistant" as const,
+            content: choice.content,
+          },
+          ...(toolCalls.length > 0 && { toolCalls }),
+          ...(choice.reasoning.length > 0 && {
+            reasoning: choice.reasoning,
+          }),
+          ...(choice.rawContent !== undefined && {
+            rawContent: choice.rawContent,
+          }),
+          ...(choice.rawContentParts && {
+            rawContentParts: choice.rawContentParts,
+          }),
+          ...(choice.answerAccounting && {
+            answerAccounting: choice.answerAccounting,
+          }),
+          ...(choice.rawAnswerAccounting && {
+            rawAnswerAccounting: choice.rawAnswerAccounting,
+          }),
+          finish_reason: choice.finishReason ?? null,
+          termination: choice.termination ?? {
+            rawReason: null,
+            kind: "unknown" as const,
+          },
+        };
+      });
     const observed: Omit<LLMResponse, "object"> = {
       id: state.id ?? attemptId,
       provider: state.provider,
@@ -1773,6 +3475,10 @@ export class LLMService {
           prior?.rawContentParts && {
             rawContentParts: prior.rawContentParts,
           }),
+        ...(choice.toolCalls === undefined &&
+          prior?.toolCalls && {
+            toolCalls: prior.toolCalls,
+          }),
         ...(answerAccounting && {
           answerAccounting,
           ...(answerAccounting.rawContent && {
@@ -2031,6 +3737,7 @@ export class LLMService {
       resolvedRequest,
       finalSettings,
       adapterPreparationState,
+      structuredOutputValidator,
     } = validation.context;
 
     // Get provider info for parameter filtering
@@ -2069,8 +3776,30 @@ export class LLMService {
       filteredSettings.maxTokens = outputTokenLimit.tokens;
     }
 
+    const documentResolution = await resolveDocumentParts(
+      normalizeMessageContent(resolvedRequest.messages),
+      providerInfo.nativeDocumentTypes ?? [],
+      this.documentTextExtractor
+    );
+    if ("error" in documentResolution) {
+      return {
+        error: {
+          provider: providerId,
+          model: modelId,
+          error: {
+            message: documentResolution.error.message,
+            code: "document_extraction_failed",
+            type: "validation_error",
+            param: `messages[${documentResolution.error.index}].content`,
+          },
+          object: "error",
+        },
+      };
+    }
+
     const internalRequest: InternalLLMChatRequest = {
       ...resolvedRequest,
+      messages: documentResolution.messages,
       settings: filteredSettings as Required<LLMSettings>,
     };
 
@@ -2174,15 +3903,18 @@ export class LLMService {
             }
       );
 
+      const presetId = (request as LLMChatRequestWithPreset).presetId;
       return {
         prepared: {
           providerId,
           modelId,
+          ...(presetId && { presetId }),
           modelInfo,
           resolvedRequest,
           internalRequest,
           clientAdapter,
           adapterPrepared,
+          ...(structuredOutputValidator && { structuredOutputValidator }),
         },
       };
     } catch (error) {
@@ -2202,9 +3934,72 @@ export class LLMService {
 
   }
 
-  private postProcessResponse(
+  /**
+   * Validates a cached response's parsed structured output for this call.
+   * Requests with the same provider payload share an entry even when their
+   * Standard Schema validators (or lack of one) differ.
+   */
+  private async revalidateCachedResponse(
+    cached: LLMResponse,
+    prepared: PreparedLLMRequest
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const schema = prepared.internalRequest.settings.structuredOutput?.schema;
+    for (const choice of cached.choices) {
+      delete choice.validationErrors;
+      if ("parsedContent" in choice && schema && !prepared.structuredOutputValidator) {
+        this.applyJsonSchemaValidation(choice, schema);
+      }
+    }
+    return this.applyStructuredOutputValidator(cached, prepared);
+  }
+
+  private applyJsonSchemaValidation(
+    choice: LLMChoice,
+    schema: unknown
+  ): void {
+    const validationErrors = validateJsonSchema(choice.parsedContent, schema);
+    if (validationErrors.length > 0) {
+      choice.validationErrors = validationErrors;
+      this.logger.warn(
+        `Structured output for choice ${choice.index} does not match the schema: ${validationErrors.length} error(s)`
+      );
+    }
+  }
+
+  /**
+   * Checks parsed structured output with the request's Standard Schema
+   * validator. A valid choice's parsedContent becomes the validator's output,
+   * so defaults and transforms apply.
+   */
+  private async applyStructuredOutputValidator(
     result: LLMResponse | LLMFailureResponse,
     prepared: PreparedLLMRequest
+  ): Promise<LLMResponse | LLMFailureResponse> {
+    const validator = prepared.structuredOutputValidator;
+    if (!validator || result.object === "error") {
+      return result;
+    }
+    for (const choice of result.choices) {
+      if (!("parsedContent" in choice)) {
+        continue;
+      }
+      const validation = await validateStandardSchema(choice.parsedContent, validator);
+      if ("value" in validation) {
+        choice.parsedContent = validation.value;
+      } else {
+        choice.validationErrors = validation.errors;
+        this.logger.warn(
+          `Structured output for choice ${choice.index} does not match the schema: ${validation.errors.length} error(s)`
+        );
+      }
+    }
+    return result;
+  }
+
+  private postProcessResponse(
+    result: LLMResponse | LLMFailureResponse,
+    prepared: PreparedLLMRequest,
+    priceMultiplier = 1
   ): LLMResponse | LLMFailureResponse {
     if (result.object === "error") {
       if (!result.partialResponse) {
@@ -2215,7 +4010,8 @@ export class LLMService {
           ...result.partialResponse,
           object: "chat.completion",
         },
-        prepared
+        prepared,
+        priceMultiplier
       );
       if (processed.object === "error") {
         return {
@@ -2266,6 +4062,17 @@ export class LLMService {
       }
     }
 
+    const cost = computeUsageCost(
+      result.usage,
+      result.usageEvidence,
+      prepared.modelInfo,
+      MODEL_PRICING_REVISION,
+      priceMultiplier
+    );
+    if (cost) {
+      result.cost = cost;
+    }
+
     // Post-process for thinking tag fallback
     // This feature extracts reasoning from XML tags when native reasoning is not active.
     // It's a fallback mechanism for models without native reasoning or when native is disabled.
@@ -2281,9 +4088,11 @@ export class LLMService {
           prepared.internalRequest.settings.reasoning?.enabled !== false) ||
          prepared.modelInfo.reasoning?.canDisable === false);
 
-      // Process the response - extract thinking tags if present
-      const choice = result.choices[0];
-      if (choice?.message?.content) {
+      // Process each choice - extract thinking tags if present
+      for (const choice of result.choices) {
+        if (!choice.message?.content) {
+          continue;
+        }
         choice.rawContent ??= choice.message.content;
         const { extracted, remaining } = extractInitialTaggedContent(choice.message.content, tagName);
 
@@ -2346,6 +4155,7 @@ export class LLMService {
                 choices: result.choices,
                 usage: result.usage,
                 usageEvidence: result.usageEvidence,
+                ...(result.cost && { cost: result.cost }),
               }
             };
           }
@@ -2359,13 +4169,24 @@ export class LLMService {
     const structuredOutputSettings = prepared.internalRequest.settings.structuredOutput;
     if (structuredOutputSettings &&
         structuredOutputSettings.enabled !== false && structuredOutputSettings.autoParse !== false) {
+      const repair = getRepairMaxRetries(structuredOutputSettings.repair) > 0;
       for (const choice of result.choices) {
         if (choice.message?.content) {
           try {
             choice.parsedContent = JSON.parse(choice.message.content);
           } catch (e) {
-            choice.parseError = `JSON parse failed: ${e instanceof Error ? e.message : String(e)}`;
-            this.logger.warn(`Failed to parse structured output for choice ${choice.index}: ${choice.parseError}`);
+            // Repair mode first looks for JSON inside fences or surrounding prose
+            const lenient = repair ? parseJsonLeniently(choice.message.content) : undefined;
+            if (lenient) {
+              choice.parsedContent = lenient.value;
+            } else {
+              choice.parseError = `JSON parse failed: ${e instanceof Error ? e.message : String(e)}`;
+              this.logger.warn(`Failed to parse structured output for choice ${choice.index}: ${choice.parseError}`);
+            }
+          }
+          // A Standard Schema validator replaces this check (applyStructuredOutputValidator)
+          if ("parsedContent" in choice && !prepared.structuredOutputValidator) {
+            this.applyJsonSchemaValidation(choice, structuredOutputSettings.schema);
           }
         }
       }
@@ -2374,6 +4195,547 @@ export class LLMService {
     return result;
   }
 
+  /**
+   * Creates an explicit provider-side context cache (Gemini `cachedContents`)
+   * from messages and tools. Pass the returned `name` as
+   * `settings.cachedContent` on later requests to the same model.
+   *
+   * Context-cache operations are never retried: a retried create could leave
+   * a second billed cache behind.
+   */
+  async createContextCache(
+    request: LLMContextCacheRequest,
+    options?: ContextCacheOptions
+  ): Promise<LLMContextCache | LLMFailureResponse> {
+    const validation = await this.resolveAndValidateCapabilities(
+      {
+        providerId: request.providerId,
+        modelId: request.modelId,
+        messages: request.messages,
+        ...(request.tools && { settings: { tools: request.tools } }),
+      },
+      { validateStructure: true, detectLocalCapabilities: false }
+    );
+    if ("error" in validation) {
+      return validation.error;
+    }
+    const { providerId, modelId, resolvedRequest, finalSettings } =
+      validation.context;
+
+    const ttlError = this.validateContextCacheTtl(
+      providerId,
+      modelId,
+      request.ttlSeconds
+    );
+    if (ttlError) {
+      return ttlError;
+    }
+
+    const target = await this.resolveContextCacheTarget(
+      providerId,
+      modelId,
+      "createContextCache"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+
+    try {
+      return await target.clientAdapter.createContextCache!(
+        {
+          ...resolvedRequest,
+          messages: normalizeMessageContent(resolvedRequest.messages),
+          settings: finalSettings as Required<LLMSettings>,
+        },
+        {
+          ...(request.displayName !== undefined && {
+            displayName: request.displayName,
+          }),
+          ...(request.ttlSeconds !== undefined && {
+            ttlSeconds: request.ttlSeconds,
+          }),
+        },
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createContextCacheFailure(providerId, modelId, error);
+    }
+  }
+
+  /** Lists the provider's explicit context caches. */
+  async listContextCaches(
+    providerId: ApiProviderId,
+    options?: ContextCacheOptions
+  ): Promise<LLMContextCacheList | LLMFailureResponse> {
+    const target = await this.resolveContextCacheTarget(
+      providerId,
+      undefined,
+      "listContextCaches"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+    try {
+      return await target.clientAdapter.listContextCaches!(
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createContextCacheFailure(providerId, undefined, error);
+    }
+  }
+
+  /** Extends or shortens a context cache's lifetime. */
+  async updateContextCache(
+    providerId: ApiProviderId,
+    name: string,
+    update: LLMContextCacheUpdate,
+    options?: ContextCacheOptions
+  ): Promise<LLMContextCache | LLMFailureResponse> {
+    const hasTtl = update.ttlSeconds !== undefined;
+    const hasExpireTime = update.expireTime !== undefined;
+    if (hasTtl === hasExpireTime) {
+      return this.createPreparedFailure(
+        providerId,
+        "unknown",
+        "INVALID_REQUEST",
+        "Context cache update must set exactly one of 'ttlSeconds' or 'expireTime'",
+        "validation_error"
+      );
+    }
+    const ttlError = this.validateContextCacheTtl(
+      providerId,
+      "unknown",
+      update.ttlSeconds
+    );
+    if (ttlError) {
+      return ttlError;
+    }
+
+    const target = await this.resolveContextCacheTarget(
+      providerId,
+      undefined,
+      "updateContextCache"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+    try {
+      return await target.clientAdapter.updateContextCache!(
+        name,
+        update,
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createContextCacheFailure(providerId, undefined, error);
+    }
+  }
+
+  /** Deletes a context cache before it expires. */
+  async deleteContextCache(
+    providerId: ApiProviderId,
+    name: string,
+    options?: ContextCacheOptions
+  ): Promise<LLMContextCacheDeleted | LLMFailureResponse> {
+    const target = await this.resolveContextCacheTarget(
+      providerId,
+      undefined,
+      "deleteContextCache"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+    try {
+      return await target.clientAdapter.deleteContextCache!(
+        name,
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createContextCacheFailure(providerId, undefined, error);
+    }
+  }
+
+  /**
+   * Submits complete-mode prepared calls as one provider-native batch job
+   * (OpenAI Batch API, Anthropic Message Batches), which the provider bills
+   * at its batch discount and finishes within 24 hours.
+   *
+   * The keys of `calls` become the job's custom IDs. All calls must target
+   * the same provider. Batch jobs are not retried, rate limited or recorded
+   * in the usage ledger.
+   */
+  async createBatchJob(
+    calls: Record<string, PreparedCompleteCall>,
+    options?: BatchJobOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    const resolved = this.resolveBatchItems(calls);
+    if ("error" in resolved) {
+      return resolved.error;
+    }
+    const { providerId, modelId, items } = resolved;
+    const target = await this.resolveBatchJobTarget(
+      providerId,
+      modelId,
+      "createBatchJob"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+    try {
+      return await target.clientAdapter.createBatchJob!(
+        items.map(({ customId, prepared }) => ({
+          customId,
+          prepared: prepared.adapterPrepared,
+        })),
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createBatchJobFailure(providerId, modelId, error);
+    }
+  }
+
+  /** Fetches a batch job's current status and request counts. */
+  async getBatchJob(
+    providerId: ApiProviderId,
+    id: string,
+    options?: BatchJobOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    const target = await this.resolveBatchJobTarget(
+      providerId,
+      undefined,
+      "getBatchJob"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+    try {
+      return await target.clientAdapter.getBatchJob!(
+        id,
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createBatchJobFailure(providerId, undefined, error);
+    }
+  }
+
+  /**
+   * Fetches finished results and maps each back to its prepared call, so
+   * responses get the same post-processing (cost, thinking extraction) as
+   * sendMessage(). Costs use the providers' 50% batch discount.
+   *
+   * `calls` must use the custom IDs given to createBatchJob(). In a new
+   * process, prepare the same requests again; preparation is deterministic
+   * and needs no API key.
+   */
+  async getBatchJobResults(
+    providerId: ApiProviderId,
+    id: string,
+    calls: Record<string, PreparedCompleteCall>,
+    options?: BatchJobOptions
+  ): Promise<LLMBatchJobResults | LLMFailureResponse> {
+    const resolved = this.resolveBatchItems(calls);
+    if ("error" in resolved) {
+      return resolved.error;
+    }
+    if (resolved.providerId !== providerId) {
+      return this.createPreparedFailure(
+        providerId,
+        resolved.modelId,
+        "INVALID_REQUEST",
+        `The prepared calls target provider '${resolved.providerId}', not '${providerId}'.`,
+        "validation_error"
+      );
+    }
+    const target = await this.resolveBatchJobTarget(
+      providerId,
+      undefined,
+      "getBatchJobResults"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+
+    let itemResults: AdapterBatchItemResult[] | LLMFailureResponse;
+    try {
+      itemResults = await target.clientAdapter.getBatchJobResults!(
+        id,
+        resolved.items.map(({ customId, prepared }) => ({
+          customId,
+          prepared: prepared.adapterPrepared,
+        })),
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createBatchJobFailure(providerId, undefined, error);
+    }
+    if (this.isFailureResponse(itemResults)) {
+      return itemResults;
+    }
+
+    const preparedById = new Map(
+      resolved.items.map(({ customId, prepared }) => [customId, prepared])
+    );
+    const results: LLMBatchJobResults["results"] = {};
+    for (const { customId, result } of itemResults) {
+      const prepared = preparedById.get(customId);
+      if (prepared) {
+        results[customId] = await this.applyStructuredOutputValidator(
+          this.postProcessResponse(result, prepared, BATCH_JOB_PRICE_MULTIPLIER),
+          prepared
+        );
+      }
+    }
+    return { object: "batch_job.results", provider: providerId, id, results };
+  }
+
+  /**
+   * Asks the provider to cancel a batch job. Requests already processed keep
+   * their results; the rest come back cancelled.
+   */
+  async cancelBatchJob(
+    providerId: ApiProviderId,
+    id: string,
+    options?: BatchJobOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    const target = await this.resolveBatchJobTarget(
+      providerId,
+      undefined,
+      "cancelBatchJob"
+    );
+    if ("error" in target) {
+      return target.error;
+    }
+    try {
+      return await target.clientAdapter.cancelBatchJob!(
+        id,
+        target.apiKey,
+        this.createAdapterOptions(options)
+      );
+    } catch (error) {
+      return this.createBatchJobFailure(providerId, undefined, error);
+    }
+  }
+
+  /**
+   * Resolves batch custom IDs to complete-mode prepared calls for a single
+   * provider
+   */
+  private resolveBatchItems(
+    calls: Record<string, PreparedCompleteCall>
+  ):
+    | {
+        providerId: ApiProviderId;
+        modelId: string;
+        items: Array<{ customId: string; prepared: PreparedLLMRequest }>;
+      }
+    | { error: LLMFailureResponse } {
+    const items: Array<{ customId: string; prepared: PreparedLLMRequest }> = [];
+    for (const [customId, handle] of Object.entries(calls)) {
+      const resolved = this.resolvePreparedHandle(handle, "complete");
+      if ("error" in resolved) {
+        resolved.error.error.param = customId;
+        return resolved;
+      }
+      const first = items[0]?.prepared;
+      if (first && resolved.prepared.providerId !== first.providerId) {
+        const failure = this.createPreparedFailure(
+          resolved.prepared.providerId,
+          resolved.prepared.modelId,
+          "INVALID_REQUEST",
+          `A batch job takes calls for one provider; '${customId}' targets ` +
+            `'${resolved.prepared.providerId}' but earlier calls target '${first.providerId}'.`,
+          "validation_error"
+        );
+        failure.error.param = customId;
+        return { error: failure };
+      }
+      if (resolved.prepared.adapterPrepared.requestView.fanOut) {
+        const failure = this.createPreparedFailure(
+          resolved.prepared.providerId,
+          resolved.prepared.modelId,
+          "INVALID_REQUEST",
+          `'${customId}' requests ${resolved.prepared.internalRequest.settings.n} choices, ` +
+            `which '${resolved.prepared.providerId}' batch jobs cannot return.`,
+          "validation_error"
+        );
+        failure.error.param = customId;
+        return { error: failure };
+      }
+      items.push({ customId, prepared: resolved.prepared });
+    }
+    if (items.length === 0) {
+      return {
+        error: this.createPreparedFailure(
+          "unknown",
+          "unknown",
+          "INVALID_REQUEST",
+          "A batch job needs at least one prepared call.",
+          "validation_error"
+        ),
+      };
+    }
+    return {
+      providerId: items[0].prepared.providerId,
+      modelId: items[0].prepared.modelId,
+      items,
+    };
+  }
+
+  private createBatchJobFailure(
+    providerId: ApiProviderId,
+    modelId: string | undefined,
+    error: unknown
+  ): LLMFailureResponse {
+    return this.createPreparedFailure(
+      providerId,
+      modelId ?? "unknown",
+      ADAPTER_ERROR_CODES.PROVIDER_ERROR,
+      error instanceof Error
+        ? error.message
+        : "An unknown error occurred during the batch job operation.",
+      "server_error",
+      error
+    );
+  }
+
+  private validateContextCacheTtl(
+    providerId: ApiProviderId,
+    modelId: string,
+    ttlSeconds: number | undefined
+  ): LLMFailureResponse | undefined {
+    if (
+      ttlSeconds === undefined ||
+      (Number.isInteger(ttlSeconds) && ttlSeconds > 0)
+    ) {
+      return undefined;
+    }
+    return {
+      provider: providerId,
+      model: modelId,
+      error: {
+        message: "'ttlSeconds' must be a positive integer",
+        code: "INVALID_REQUEST",
+        type: "validation_error",
+        param: "ttlSeconds",
+      },
+      object: "error",
+    };
+  }
+
+  /**
+   * Resolves the adapter and API key for a context-cache operation, failing
+   * when the provider is unknown or its adapter lacks the operation
+   */
+  private resolveContextCacheTarget(
+    providerId: ApiProviderId,
+    modelId: string | undefined,
+    operation:
+      | "createContextCache"
+      | "listContextCaches"
+      | "updateContextCache"
+      | "deleteContextCache"
+  ): Promise<
+    | { clientAdapter: ILLMClientAdapter; apiKey: string }
+    | { error: LLMFailureResponse }
+  > {
+    return this.resolveOptionalOperationTarget(
+      providerId,
+      modelId,
+      operation,
+      ADAPTER_ERROR_CODES.CONTEXT_CACHE_UNSUPPORTED,
+      `Explicit context caches are not supported for provider '${providerId}'.`
+    );
+  }
+
+  /** Like resolveContextCacheTarget, for provider batch-job operations. */
+  private resolveBatchJobTarget(
+    providerId: ApiProviderId,
+    modelId: string | undefined,
+    operation:
+      | "createBatchJob"
+      | "getBatchJob"
+      | "getBatchJobResults"
+      | "cancelBatchJob"
+  ): Promise<
+    | { clientAdapter: ILLMClientAdapter; apiKey: string }
+    | { error: LLMFailureResponse }
+  > {
+    return this.resolveOptionalOperationTarget(
+      providerId,
+      modelId,
+      operation,
+      ADAPTER_ERROR_CODES.BATCH_JOB_UNSUPPORTED,
+      `Batch jobs are not supported for provider '${providerId}'.`
+    );
+  }
+
+  private async resolveOptionalOperationTarget(
+    providerId: ApiProviderId,
+    modelId: string | undefined,
+    operation: keyof ILLMClientAdapter,
+    unsupportedCode: string,
+    unsupportedMessage: string
+  ): Promise<
+    | { clientAdapter: ILLMClientAdapter; apiKey: string }
+    | { error: LLMFailureResponse }
+  > {
+    if (!getProviderById(providerId)) {
+      return {
+        error: this.createPreparedFailure(
+          providerId,
+          modelId ?? "unknown",
+          "UNSUPPORTED_PROVIDER",
+          `Unsupported provider: ${providerId}`,
+          "validation_error"
+        ),
+      };
+    }
+    const clientAdapter = this.adapterRegistry.getAdapter(providerId);
+    if (typeof clientAdapter[operation] !== "function") {
+      return {
+        error: this.createPreparedFailure(
+          providerId,
+          modelId ?? "unknown",
+          unsupportedCode,
+          unsupportedMessage,
+          "unsupported_feature"
+        ),
+      };
+    }
+    const apiKey = await this.resolveApiKey(
+      providerId,
+      modelId ?? "unknown",
+      clientAdapter
+    );
+    if (typeof apiKey !== "string") {
+      return { error: apiKey };
+    }
+    return { clientAdapter, apiKey };
+  }
+
+  private createContextCacheFailure(
+    providerId: ApiProviderId,
+    modelId: string | undefined,
+    error: unknown
+  ): LLMFailureResponse {
+    return this.createPreparedFailure(
+      providerId,
+      modelId ?? "unknown",
+      ADAPTER_ERROR_CODES.PROVIDER_ERROR,
+      error instanceof Error
+        ? error.message
+        : "An unknown error occurred during the context cache operation.",
+      "server_error",
+      error
+    );
+  }
+
   /**
    * Gets all configured model presets
    * 
@@ -2383,6 +4745,121 @@ export class LLMService {
     return this.presetManager.getPresets();
   }
 
+  /**
+   * Returns the circuit-breaker state for a preset or provider/model, so a
+   * caller can pick a preset whose circuit is not open. Returns undefined
+   * when no breaker is configured or the preset is unknown.
+   */
+  getCircuitStatus(
+    target: { presetId: string } | { providerId: ApiProviderId; modelId: string }
+  ): CircuitStatus | undefined {
+    if (!this.circuitBreaker) {
+      return undefined;
+    }
+    if ("presetId" in target) {
+      const preset = this.presetManager.resolvePreset(target.presetId);
+      return preset
+        ? this.circuitBreaker.getState(preset.providerId, preset.modelId)
+        : undefined;
+    }
+    return this.circuitBreaker.getState(target.providerId, target.modelId);
+  }
+
+  /**
+   * Shrinks `messages` so a request fits the model's context window while
+   * leaving room for the effective output-token limit. Counts with the
+   * model's content-token profile when one exists and a heuristic
+   * otherwise, so results are estimates; use `reserveTokens` for slack.
+   *
+   * @example
+   * const fitted = await llmService.fitToContext(history, { presetId, systemMessage },
+   *   { strategy: { type: "keep_last", turns: 20 } });
+   * if (fitted.object === "context.fit") {
+   *   await llmService.sendMessage({ presetId, messages: fitted.messages, systemMessage: fitted.systemMessage });
+   * }
+   */
+  async fitToContext(
+    messages: LLMMessage[],
+    target: ContextFitTarget,
+    options: ContextFitOptions = {}
+  ): Promise<ContextFitResult | LLMFailureResponse> {
+    const request: LLMChatRequestWithPreset = { ...target, messages };
+    const validation = await this.resolveAndValidateCapabilities(request, {
+      validateStructure: false,
+      detectLocalCapabilities: true,
+    });
+    if ("error" in validation) {
+      return validation.error;
+    }
+
+    const { providerId, modelId, modelInfo, finalSettings } = validation.context;
+    const contextWindow = options.contextWindow ?? modelInfo.contextWindow;
+    if (contextWindow === undefined) {
+      return this.createPreparedFailure(
+        providerId,
+        modelId,
+        "INVALID_REQUEST",
+        `The context window of ${providerId}/${modelId} is unknown; pass options.contextWindow.`,
+        "invalid_request_error"
+      );
+    }
+    const filteredSettings = this.settingsManager.filterUnsupportedParameters(
+      finalSettings,
+      modelInfo,
+      getProviderById(providerId)!
+    );
+    const reservedOutputTokens =
+      this.createEffectiveOutputTokenLimit(
+        request,
+        providerId,
+        modelInfo,
+        filteredSettings.maxTokens
+      )?.tokens ?? 0;
+    const budgetTokens = contextWindow - reservedOutputTokens - (options.reserveTokens ?? 0);
+    const counter = createContextTokenCounter(providerId, modelId);
+
+    const strategy = options.strategy ?? { type: "drop_oldest" };
+    const fitted = await fitMessages(
+      messages,
+      {
+        budgetTokens,
+        ...(target.systemMessage !== undefined && { systemMessage: target.systemMessage }),
+        ...(filteredSettings.tools && { tools: filteredSettings.tools }),
+        counter,
+      },
+      strategy,
+      (transcript, maxTokens) => {
+        const summarizer =
+          (strategy.type === "summarize" && strategy.summarizer) || { providerId, modelId };
+        return this.sendMessage(
+          {
+            ...summarizer,
+            systemMessage: CONTEXT_SUMMARY_INSTRUCTIONS,
+            messages: [{ role: "user", content: transcript }],
+            settings: { ...summarizer.settings, maxTokens },
+          },
+          {
+            ...(options.signal && { signal: options.signal }),
+            ...(options.userTag !== undefined && { userTag: options.userTag }),
+          }
+        );
+      }
+    );
+    if ("object" in fitted) {
+      return fitted;
+    }
+    return {
+      object: "context.fit",
+      provider: providerId,
+      model: modelId,
+      ...fitted,
+      budgetTokens,
+      contextWindow,
+      reservedOutputTokens,
+      countMethod: counter.method,
+    };
+  }
+
   /**
    * Creates messages from a template with role tags and model-aware variable substitution
    *
@@ -1,3 +1,4 @@
+import { createHash } from 'node:crypto';
 import Anthropic from '@anthropic-ai/sdk';
 import { AnthropicClientAdapter } from './AnthropicClientAdapter';
 import { ADAPTER_ERROR_CODES } from './types';
@@ -48,9 +49,14 @@ describe('AnthropicClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         stopSequences: [],
         user: 'test-user',
         geminiSafetySettings: [],
@@ -685,6 +691,93 @@ describe('AnthropicClientAdapter', () => {
       expect((response as LLMResponse).choices[0].reasoning).toBeUndefined();
       expect((response as LLMResponse).choices[0].message.content).toBe('answer');
     });
+
+    it('should keep signed thinking blocks as reasoning_details and send them back', async () => {
+      const thinking = [
+        { type: 'thinking', thinking: 'Need the weather', signature: 'sig-1' },
+        { type: 'redacted_thinking', data: 'opaque' },
+      ];
+      mockCreate
+        .mockResolvedValueOnce({
+          id: 'msg_tool',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-3-5-sonnet-20241022',
+          content: [
+            ...thinking,
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+          ],
+          stop_reason: 'tool_use',
+          usage: { input_tokens: 10, output_tokens: 20 }
+        })
+        .mockResolvedValueOnce({
+          id: 'msg_done',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-3-5-sonnet-20241022',
+          content: [{ type: 'text', text: 'Sunny' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 30, output_tokens: 5 }
+        });
+      const request = withReasoning();
+      request.settings.reasoning!.exclude = true;
+
+      const first = (await adapter.sendMessage(request, 'test-api-key')) as LLMResponse;
+      expect(first.choices[0].reasoning_details).toEqual(thinking);
+
+      await adapter.sendMessage({
+        ...request,
+        messages: [
+          ...request.messages,
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: first.choices[0].toolCalls,
+            reasoning_details: first.choices[0].reasoning_details,
+          },
+          { role: 'tool', toolCallId: 'toolu_1', content: '{"sky":"clear"}' },
+        ],
+      }, 'test-api-key');
+
+      expect(mockCreate.mock.calls[1][0].messages[1]).toEqual({
+        role: 'assistant',
+        content: [
+          ...thinking,
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+        ],
+      });
+    });
+
+    it('should assemble streamed thinking blocks with their signatures', async () => {
+      mockStream.mockReturnValueOnce(streamFrom([
+        {
+          type: 'message_start',
+          message: { id: 'msg_stream', model: 'claude-3-5-sonnet-20241022', usage: { input_tokens: 5, output_tokens: 0 } }
+        },
+        { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '', signature: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Need ' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'a lookup' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig-2' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'text', text: 'Done' } },
+        {
+          type: 'message_delta',
+          delta: { stop_reason: 'end_turn', stop_sequence: null },
+          usage: { input_tokens: 5, output_tokens: 3 }
+        },
+        { type: 'message_stop' }
+      ]));
+
+      const events: any[] = [];
+      for await (const event of adapter.streamMessage(withReasoning(), 'test-api-key')) {
+        events.push(event);
+      }
+
+      const complete = events.find((event) => event.type === 'complete');
+      expect(complete.response.choices[0].reasoning_details).toEqual([
+        { type: 'thinking', thinking: 'Need a lookup', signature: 'sig-2' },
+      ]);
+    });
   });
 
   describe('structured output', () => {
@@ -966,4 +1059,429 @@ describe('AnthropicClientAdapter', () => {
       // supportedModels is not part of the interface
     });
   });
+
+  describe('tool calling', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      parameters: {
+        type: 'object' as const,
+        properties: { city: { type: 'string' as const } },
+        required: ['city'],
+      },
+    };
+
+    it('should send tools and group tool results into one user turn', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'msg_tools',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{ type: 'text', text: 'Paris is warmer.' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      });
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [
+          { role: 'user', content: 'Compare Paris and Oslo' },
+          {
+            role: 'assistant',
+            content: 'Checking both.',
+            toolCalls: [
+              { id: 'toolu_1', name: 'get_weather', arguments: '{"city":"Paris"}' },
+              { id: 'toolu_2', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            ],
+          },
+          { role: 'tool', toolCallId: 'toolu_1', content: '21C' },
+          { role: 'tool', toolCallId: 'toolu_2', content: '9C' },
+          { role: 'user', content: 'Which is warmer?' },
+        ],
+        settings: {
+          ...basicRequest.settings,
+          tools: [weatherTool],
+          toolChoice: 'required',
+        },
+      }, 'test-api-key');
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.tools).toEqual([{
+        name: 'get_weather',
+        description: 'Get the weather for a city',
+        input_schema: weatherTool.parameters,
+      }]);
+      expect(params.tool_choice).toEqual({ type: 'any' });
+      expect(params.messages).toEqual([
+        { role: 'user', content: 'Compare Paris and Oslo' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Checking both.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+            { type: 'tool_use', id: 'toolu_2', name: 'get_weather', input: { city: 'Oslo' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: '21C' },
+            { type: 'tool_result', tool_use_id: 'toolu_2', content: '9C' },
+            { type: 'text', text: 'Which is warmer?' },
+          ],
+        },
+      ]);
+    });
+
+    it('should map tool_use blocks even when the response has no text', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'msg_tool_use',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{
+          type: 'tool_use',
+          id: 'toolu_abc',
+          name: 'get_weather',
+          input: { city: 'Paris' },
+        }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      });
+
+      const response = await adapter.sendMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key') as LLMResponse;
+
+      expect(response.object).toBe('chat.completion');
+      expect(response.choices[0].message.content).toBe('');
+      expect(response.choices[0].toolCalls).toEqual([
+        { id: 'toolu_abc', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      ]);
+      expect(response.choices[0].termination?.kind).toBe('tool_call');
+    });
+
+    it('should stream tool_use blocks as tool-call events', async () => {
+      mockStream.mockReturnValueOnce(streamFrom([
+        {
+          type: 'message_start',
+          message: {
+            id: 'msg_tool_stream',
+            type: 'message',
+            role: 'assistant',
+            model: 'claude-3-5-sonnet-20241022',
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: 5, output_tokens: 0 },
+          },
+        },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking.' } },
+        { type: 'content_block_stop', index: 0 },
+        {
+          type: 'content_block_start',
+          index: 1,
+          content_block: { type: 'tool_use', id: 'toolu_abc', name: 'get_weather', input: {} },
+        },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+        { type: 'content_block_stop', index: 1 },
+        {
+          type: 'message_delta',
+          delta: { stop_reason: 'tool_use', stop_sequence: null },
+          usage: { input_tokens: 5, output_tokens: 12 },
+        },
+        { type: 'message_stop' },
+      ]));
+
+      const events: any[] = [];
+      for await (const event of adapter.streamMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key')) {
+        events.push(event);
+      }
+
+      expect(events.filter((event) => event.type.startsWith('tool_call_'))).toEqual([
+        { type: 'tool_call_start', index: 0, toolCallIndex: 0, id: 'toolu_abc', name: 'get_weather' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 0, delta: '{"city":' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 0, delta: '"Paris"}' },
+        { type: 'tool_call_end', index: 0, toolCallIndex: 0 },
+      ]);
+      const complete = events[events.length - 1];
+      expect(complete.type).toBe('complete');
+      expect(complete.response.choices[0].message.content).toBe('Checking.');
+      expect(complete.response.choices[0].toolCalls).toEqual([
+        { id: 'toolu_abc', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      ]);
+      expect(complete.response.choices[0].finish_reason).toBe('tool_calls');
+    });
+  });
+
+  describe('image content parts', () => {
+    it('should send base64 and URL images as image blocks', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'msg_image',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{ type: 'text', text: 'A cat.' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 3 },
+      });
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', url: 'data:image/png;base64,aGVsbG8=' },
+            { type: 'image', url: 'https://example.com/cat.jpg' },
+          ],
+        }],
+      }, 'test-api-key');
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.messages).toEqual([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          {
+            type: 'image',
+            source: { type: 'base64', media_type: 'image/png', data: 'aGVsbG8=' },
+          },
+          {
+            type: 'image',
+            source: { type: 'url', url: 'https://example.com/cat.jpg' },
+          },
+        ],
+      }]);
+    });
+  });
+
+  describe('document content parts', () => {
+    const documentRequest = (): InternalLLMChatRequest => ({
+      ...basicRequest,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'document', data: 'JVBERi0xLjc=', title: 'Report' },
+          { type: 'document', text: 'Meeting notes' },
+          { type: 'text', text: 'Summarize both.' },
+        ],
+      }],
+    });
+
+    it('should send PDF and text documents as document blocks', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'msg_document',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{ type: 'text', text: 'Summary.' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 3 },
+      });
+
+      await adapter.sendMessage(documentRequest(), 'test-api-key');
+
+      expect(mockCreate.mock.calls[0][0].messages[0].content).toEqual([
+        {
+          type: 'document',
+          source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0xLjc=' },
+          title: 'Report',
+        },
+        {
+          type: 'document',
+          source: { type: 'text', media_type: 'text/plain', data: 'Meeting notes' },
+        },
+        { type: 'text', text: 'Summarize both.' },
+      ]);
+    });
+
+    it('should show documents as redacted placeholders in the request view', async () => {
+      const result = await adapter.prepareRequest(documentRequest(), {
+        mode: 'complete',
+        modelInfo: {} as any,
+      });
+
+      expect('prepared' in result && result.prepared.requestView.messages).toEqual([{
+        role: 'user',
+        content: [
+          {
+            type: 'document',
+            redacted: true,
+            mimeType: 'application/pdf',
+            bytes: 8,
+            sha256: createHash('sha256').update('%PDF-1.7').digest('hex'),
+            title: 'Report',
+          },
+          {
+            type: 'document',
+            redacted: true,
+            mimeType: 'text/plain',
+            bytes: 13,
+            sha256: createHash('sha256').update('Meeting notes').digest('hex'),
+          },
+          { type: 'text', text: 'Summarize both.' },
+        ],
+      }]);
+    });
+  });
+
+  describe('multiple choices', () => {
+    it('emulates n with parallel calls and sums their usage', async () => {
+      mockCreate.mockImplementation(async () => ({
+        id: `msg_${mockCreate.mock.calls.length}`,
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20241022',
+        content: [{ type: 'text', text: `Answer ${mockCreate.mock.calls.length}` }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+      basicRequest.settings.n = 3;
+
+      const prepared = await adapter.prepareRequest(basicRequest, {
+        mode: 'complete',
+        modelInfo: {} as any,
+      });
+      if (!('prepared' in prepared)) {
+        throw new Error('preparation failed');
+      }
+      const response = await adapter.sendPrepared(prepared.prepared, 'test-api-key') as LLMResponse;
+
+      expect(prepared.prepared.requestView.fanOut).toBe(3);
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('n');
+      expect(response.choices.map((choice) => [choice.index, choice.message.content])).toEqual([
+        [0, 'Answer 1'],
+        [1, 'Answer 2'],
+        [2, 'Answer 3'],
+      ]);
+      expect(response.usage).toMatchObject({ prompt_tokens: 30, completion_tokens: 15, total_tokens: 45 });
+    });
+  });
+
+  describe('prompt caching', () => {
+    const textResponse = (usage: Record<string, number> = { input_tokens: 10, output_tokens: 5 }) => ({
+      id: 'msg_cache',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-3-5-sonnet-20241022',
+      content: [{ type: 'text', text: 'OK' }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage,
+    });
+
+    const conversation: InternalLLMChatRequest['messages'] = [
+      { role: 'user', content: 'Here is a long document.' },
+      { role: 'assistant', content: 'Noted.' },
+      { role: 'user', content: 'Summarize it.' },
+    ];
+
+    it('caches the system prompt and the first N messages', async () => {
+      mockCreate.mockResolvedValueOnce(textResponse());
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        systemMessage: 'You are a careful analyst.',
+        messages: conversation,
+        settings: { ...basicRequest.settings, promptCache: { messages: 2 } },
+      }, 'test-api-key');
+
+      const [params] = mockCreate.mock.calls[0];
+      expect(params.system).toEqual([
+        { type: 'text', text: 'You are a careful analyst.', cache_control: { type: 'ephemeral' } },
+      ]);
+      expect(params.messages).toEqual([
+        { role: 'user', content: 'Here is a long document.' },
+        {
+          role: 'assistant',
+          content: [{ type: 'text', text: 'Noted.', cache_control: { type: 'ephemeral' } }],
+        },
+        { role: 'user', content: 'Summarize it.' },
+      ]);
+    });
+
+    it('honors per-message breakpoints with their own TTL', async () => {
+      mockCreate.mockResolvedValueOnce(textResponse());
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [
+          { role: 'user', content: 'Reference material', cacheBreakpoint: { ttl: '1h' } },
+          { role: 'assistant', content: 'Noted.' },
+          { role: 'user', content: 'Question' },
+        ],
+      }, 'test-api-key');
+
+      const [params] = mockCreate.mock.calls[0];
+      expect(params.system).toBeUndefined();
+      expect(params.messages[0].content).toEqual([
+        { type: 'text', text: 'Reference material', cache_control: { type: 'ephemeral', ttl: '1h' } },
+      ]);
+      expect(params.messages[2].content).toBe('Question');
+    });
+
+    it('keeps only the last four breakpoints', async () => {
+      mockCreate.mockResolvedValueOnce(textResponse());
+      const marked = ['a', 'b', 'c', 'd', 'e'].flatMap((text, i) => [
+        { role: 'user' as const, content: text, cacheBreakpoint: true },
+        ...(i < 4 ? [{ role: 'assistant' as const, content: `ack ${text}` }] : []),
+      ]);
+
+      await adapter.sendMessage({ ...basicRequest, messages: marked }, 'test-api-key');
+
+      const [params] = mockCreate.mock.calls[0];
+      const cachedTexts = params.messages
+        .filter((message: any) => Array.isArray(message.content) && message.content[0].cache_control)
+        .map((message: any) => message.content[0].text);
+      expect(cachedTexts).toEqual(['b', 'c', 'd', 'e']);
+    });
+
+    it('drops every breakpoint when promptCache.enabled is false', async () => {
+      mockCreate.mockResolvedValueOnce(textResponse());
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        systemMessage: 'System',
+        messages: [{ role: 'user', content: 'Hello', cacheBreakpoint: true }],
+        settings: { ...basicRequest.settings, promptCache: { enabled: false, messages: 1 } },
+      }, 'test-api-key');
+
+      const [params] = mockCreate.mock.calls[0];
+      expect(params.system).toBe('System');
+      expect(params.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    });
+
+    it('normalizes cache creation and read tokens as excluded from prompt tokens', async () => {
+      mockCreate.mockResolvedValueOnce(textResponse({
+        input_tokens: 12,
+        output_tokens: 5,
+        cache_creation_input_tokens: 1000,
+        cache_read_input_tokens: 2000,
+      }));
+
+      const response = await adapter.sendMessage(basicRequest, 'test-api-key') as LLMResponse;
+
+      expect(response.usage).toEqual({
+        prompt_tokens: 12,
+        completion_tokens: 5,
+        total_tokens: 17,
+        cache_creation_tokens: 1000,
+        cache_read_tokens: 2000,
+      });
+      expect(response.usageEvidence?.cache_read_tokens).toEqual({
+        source: 'provider',
+        providerField: 'cache_read_input_tokens',
+        includedInPrompt: false,
+      });
+    });
+  });
 });
@@ -2,8 +2,19 @@
 // Handles Claude-specific request formatting, response parsing, and error mapping to standardized format.
 
 import Anthropic from "@anthropic-ai/sdk";
-import type { LLMResponse, LLMFailureResponse, LLMMessage } from "../types";
 import type {
+  ApiProviderId,
+  LLMBatchJob,
+  LLMResponse,
+  LLMFailureResponse,
+  LLMMessage,
+  LLMContentPart,
+  LLMPromptCacheTtl,
+  LLMToolChoice,
+} from "../types";
+import type {
+  AdapterBatchItem,
+  AdapterBatchItemResult,
   ILLMClientAdapter,
   InternalLLMChatRequest,
   AdapterErrorCode,
@@ -15,7 +26,12 @@ import type {
 } from "./types";
 import { ADAPTER_ERROR_CODES } from "./types";
 import { getCommonMappedErrorDetails } from "../../shared/adapters/errorUtils";
-import { applyStrictSchemaConstraints } from "../../shared/adapters/schemaUtils";
+import { createUnprocessedBatchItemFailure } from "../../shared/adapters/batchUtils";
+import {
+  ANTHROPIC_SCHEMA_DIALECT,
+  applyStrictSchemaConstraints,
+  downConvertSchema,
+} from "../../shared/adapters/schemaUtils";
 import {
   createProviderOutputAccounting,
   mergeUsageRecords,
@@ -25,7 +41,28 @@ import {
 import {
   collectSystemContent,
   prependSystemToFirstUserMessage,
+  type GenericMessage,
 } from "../../shared/adapters/systemMessageUtils";
+import {
+  getBase64Data,
+  getMessageText,
+  resolveImageSource,
+} from "../../shared/adapters/contentPartUtils";
+import {
+  EMPTY_TOOL_PARAMETERS,
+  appendStreamedToolCallArguments,
+  endStreamedToolCalls,
+  getCompletedStreamedToolCalls,
+  parseToolArguments,
+  startStreamedToolCall,
+  stringifyToolArguments,
+  type StreamedToolCalls,
+} from "../../shared/adapters/toolCallUtils";
+import {
+  getChoiceCount,
+  sendFanOut,
+  streamFanOut,
+} from "../../shared/adapters/fanOutUtils";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import {
@@ -49,6 +86,15 @@ interface AnthropicMessagePayload {
   messages: Anthropic.Messages.MessageParam[];
 }
 
+/** A content block that should end a cached prompt prefix. */
+interface AnthropicCacheBreakpoint {
+  block: { cache_control?: Anthropic.Messages.CacheControlEphemeral | null };
+  ttl: LLMPromptCacheTtl;
+}
+
+/** Anthropic rejects requests with more cache_control blocks than this. */
+const ANTHROPIC_MAX_CACHE_BREAKPOINTS = 4;
+
 interface AnthropicPreparedProviderRequest {
   request: InternalLLMChatRequest;
   messageParams: Anthropic.Messages.MessageCreateParams;
@@ -73,8 +119,57 @@ interface AnthropicStreamAccumulator {
     value?: import("../types").PreparedRequestValue;
     reasoning?: boolean;
   }>;
+  toolCalls: StreamedToolCalls;
+  /** Maps a tool_use content block index to its tool-call position. */
+  toolCallBlocks: Map<number, number>;
+  /** Thinking and redacted_thinking blocks by content block index, with their signatures. */
+  thinkingBlocks: Map<number, AnthropicThinkingBlock>;
+}
+
+/** A thinking block as Anthropic requires it back on later assistant turns. */
+type AnthropicThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+/**
+ * Signed thinking blocks of a response or replayed `reasoning_details`.
+ * Unsigned blocks are dropped: the API rejects them.
+ */
+function getSignedThinkingBlocks(blocks: unknown): AnthropicThinkingBlock[] {
+  if (!Array.isArray(blocks)) {
+    return [];
+  }
+  return blocks.flatMap((block): AnthropicThinkingBlock[] => {
+    if (
+      block?.type === "thinking" &&
+      typeof block.thinking === "string" &&
+      typeof block.signature === "string" &&
+      block.signature.length > 0
+    ) {
+      return [
+        { type: "thinking", thinking: block.thinking, signature: block.signature },
+      ];
+    }
+    if (block?.type === "redacted_thinking" && typeof block.data === "string") {
+      return [{ type: "redacted_thinking", data: block.data }];
+    }
+    return [];
+  });
 }
 
+/** HTTP status implied by each Anthropic error type, for errored batch results. */
+const ANTHROPIC_ERROR_TYPE_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  billing_error: 402,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
 /**
  * Client adapter for Anthropic API integration
  *
@@ -126,7 +221,9 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
               unknown
             >,
             structuredOutput: request.settings.structuredOutput,
+            schemaDialect: ANTHROPIC_SCHEMA_DIALECT,
             reasoningField: "thinking",
+            fanOut: getChoiceCount(request.settings),
           }),
           promptAccounting: { status: "unavailable" },
           outputTokenLimit: context.outputTokenLimit,
@@ -149,24 +246,27 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     const providerRequest =
       prepared.providerRequest as AnthropicPreparedProviderRequest;
     const request = providerRequest.request;
-    try {
-      const anthropic = this.createClient(apiKey);
-      const messageParams = structuredClone(
-        providerRequest.messageParams
-      ) as Anthropic.Messages.MessageCreateParamsNonStreaming;
-      const requestTransportOptions = this.createTransportOptions(options);
-      const completion =
-        Object.keys(requestTransportOptions).length > 0
-          ? await anthropic.messages.create(
-              messageParams,
-              requestTransportOptions
-            )
-          : await anthropic.messages.create(messageParams);
-      return this.createSuccessResponse(completion, request);
-    } catch (error) {
-      this.logger.error("Anthropic prepared API error:", error);
-      return this.createErrorResponse(error, request);
-    }
+    // Anthropic has no choice count or seed: each choice is a separate call
+    return sendFanOut(getChoiceCount(request.settings), async () => {
+      try {
+        const anthropic = this.createClient(apiKey);
+        const messageParams = structuredClone(
+          providerRequest.messageParams
+        ) as Anthropic.Messages.MessageCreateParamsNonStreaming;
+        const requestTransportOptions = this.createTransportOptions(options);
+        const completion =
+          Object.keys(requestTransportOptions).length > 0
+            ? await anthropic.messages.create(
+                messageParams,
+                requestTransportOptions
+              )
+            : await anthropic.messages.create(messageParams);
+        return this.createSuccessResponse(completion, request);
+      } catch (error) {
+        this.logger.error("Anthropic prepared API error:", error);
+        return this.createErrorResponse(error, request);
+      }
+    });
   }
 
   async *streamPrepared(
@@ -176,12 +276,14 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
   ): AsyncIterable<AdapterLLMStreamEvent> {
     const providerRequest =
       prepared.providerRequest as AnthropicPreparedProviderRequest;
-    yield* this.streamMessages(
-      providerRequest.request,
-      structuredClone(providerRequest.messageParams),
-      providerRequest.useStructuredOutput,
-      apiKey,
-      options
+    yield* streamFanOut(getChoiceCount(providerRequest.request.settings), () =>
+      this.streamMessages(
+        providerRequest.request,
+        structuredClone(providerRequest.messageParams),
+        providerRequest.useStructuredOutput,
+        apiKey,
+        options
+      )
     );
   }
 
@@ -272,6 +374,9 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
       hasGeneratedOutput: false,
       stopReason: null,
       rawParts: [],
+      toolCalls: new Map(),
+      toolCallBlocks: new Map(),
+      thinkingBlocks: new Map(),
     };
     let sawEvent = false;
     let started = false;
@@ -400,6 +505,21 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
               },
             },
           };
+          if (block?.type === "thinking") {
+            accumulator.thinkingBlocks.set(event.index, {
+              type: "thinking",
+              thinking: typeof block.thinking === "string" ? block.thinking : "",
+              signature: typeof block.signature === "string" ? block.signature : "",
+            });
+          } else if (
+            block?.type === "redacted_thinking" &&
+            typeof block.data === "string"
+          ) {
+            accumulator.thinkingBlocks.set(event.index, {
+              type: "redacted_thinking",
+              data: block.data,
+            });
+          }
           if (block?.type === "text" && typeof block.text === "string" && block.text.length > 0) {
             accumulator.content += block.text;
             publicEvents.push({
@@ -420,6 +540,35 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
                 index: 0,
               });
             }
+          } else if (block?.type === "tool_use") {
+            const toolCallIndex = accumulator.toolCallBlocks.size;
+            accumulator.toolCallBlocks.set(event.index, toolCallIndex);
+            publicEvents.push(
+              startStreamedToolCall(
+                accumulator.toolCalls,
+                0,
+                toolCallIndex,
+                block.id,
+                String(block.name ?? "")
+              )
+            );
+            // The API sends `input: {}` here and streams the real input as
+            // input_json_delta; only a non-empty object is treated as content.
+            if (
+              block.input &&
+              typeof block.input === "object" &&
+              Object.keys(block.input).length > 0
+            ) {
+              const argumentsDelta = appendStreamedToolCallArguments(
+                accumulator.toolCalls,
+                0,
+                toolCallIndex,
+                stringifyToolArguments(block.input)
+              );
+              if (argumentsDelta) {
+                publicEvents.push(argumentsDelta);
+              }
+            }
           }
         } else if (event.type === "content_block_delta") {
           const delta = event.delta as any;
@@ -439,6 +588,17 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
             }),
           };
           accumulator.rawParts.push(rawPart);
+          const thinkingBlock = accumulator.thinkingBlocks.get(event.index);
+          if (thinkingBlock?.type === "thinking") {
+            if (delta?.type === "thinking_delta" && typeof delta.thinking === "string") {
+              thinkingBlock.thinking += delta.thinking;
+            } else if (
+              delta?.type === "signature_delta" &&
+              typeof delta.signature === "string"
+            ) {
+              thinkingBlock.signature += delta.signature;
+            }
+          }
           if (
             (typeof delta?.text === "string" &&
               delta.text.length > 0) ||
@@ -483,6 +643,31 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
                 index: 0,
               });
             }
+          } else if (
+            delta?.type === "input_json_delta" &&
+            typeof delta.partial_json === "string" &&
+            accumulator.toolCallBlocks.has(event.index)
+          ) {
+            const argumentsDelta = appendStreamedToolCallArguments(
+              accumulator.toolCalls,
+              0,
+              accumulator.toolCallBlocks.get(event.index)!,
+              delta.partial_json
+            );
+            if (argumentsDelta) {
+              publicEvents.push(argumentsDelta);
+            }
+          }
+        } else if (event.type === "content_block_stop") {
+          const toolCallIndex = accumulator.toolCallBlocks.get(event.index);
+          if (toolCallIndex !== undefined) {
+            publicEvents.push(
+              ...endStreamedToolCalls(
+                accumulator.toolCalls,
+                0,
+                toolCallIndex + 1
+              )
+            );
           }
         } else if (event.type === "message_delta") {
           accumulator.stopReason = event.delta.stop_reason ?? accumulator.stopReason;
@@ -557,6 +742,7 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
         }
       }
 
+      yield* endStreamedToolCalls(accumulator.toolCalls, 0);
       const response = this.createSuccessResponse(
         this.createSyntheticMessage(request, accumulator),
         request
@@ -610,6 +796,158 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     };
   }
 
+  /** Submits the prepared message params as one Message Batch. */
+  async createBatchJob(
+    items: AdapterBatchItem[],
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    return this.runBatchJobOperation(apiKey, options, async (anthropic, transport) =>
+      this.toBatchJob(
+        await anthropic.messages.batches.create(
+          {
+            requests: items.map(({ customId, prepared }) => ({
+              custom_id: customId,
+              params: (prepared.providerRequest as AnthropicPreparedProviderRequest)
+                .messageParams as Anthropic.Messages.MessageCreateParamsNonStreaming,
+            })),
+          },
+          transport
+        )
+      )
+    );
+  }
+
+  async getBatchJob(
+    id: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    return this.runBatchJobOperation(apiKey, options, async (anthropic, transport) =>
+      this.toBatchJob(await anthropic.messages.batches.retrieve(id, transport))
+    );
+  }
+
+  /** Streams the results file once the batch has ended; until then there are none. */
+  async getBatchJobResults(
+    id: string,
+    items: AdapterBatchItem[],
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<AdapterBatchItemResult[] | LLMFailureResponse> {
+    const requests = new Map(
+      items.map(({ customId, prepared }) => [
+        customId,
+        (prepared.providerRequest as AnthropicPreparedProviderRequest).request,
+      ])
+    );
+    return this.runBatchJobOperation(apiKey, options, async (anthropic, transport) => {
+      const batch = await anthropic.messages.batches.retrieve(id, transport);
+      if (!batch.results_url) {
+        return [];
+      }
+      const results: AdapterBatchItemResult[] = [];
+      for await (const line of await anthropic.messages.batches.results(id, transport)) {
+        const request = requests.get(line.custom_id);
+        if (!request) {
+          this.logger.warn(
+            `Anthropic batch ${id} returned unknown custom_id '${line.custom_id}'`
+          );
+          continue;
+        }
+        results.push({
+          customId: line.custom_id,
+          result: this.mapBatchResult(line.result, request),
+        });
+      }
+      return results;
+    });
+  }
+
+  async cancelBatchJob(
+    id: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    return this.runBatchJobOperation(apiKey, options, async (anthropic, transport) =>
+      this.toBatchJob(await anthropic.messages.batches.cancel(id, transport))
+    );
+  }
+
+  private async runBatchJobOperation<T>(
+    apiKey: string,
+    options: AdapterRequestOptions | undefined,
+    operation: (anthropic: Anthropic, transport: Record<string, unknown>) => Promise<T>
+  ): Promise<T | LLMFailureResponse> {
+    try {
+      return await operation(
+        this.createClient(apiKey),
+        this.createTransportOptions(options)
+      );
+    } catch (error) {
+      this.logger.error("Anthropic batch API error:", error);
+      return this.createErrorResponse(error, { providerId: "anthropic" });
+    }
+  }
+
+  private toBatchJob(batch: Anthropic.Messages.MessageBatch): LLMBatchJob {
+    const counts = batch.request_counts;
+    const failed = counts.errored + counts.canceled + counts.expired;
+    const status =
+      batch.processing_status === "ended"
+        ? batch.cancel_initiated_at
+          ? "cancelled"
+          : "completed"
+        : batch.processing_status === "canceling"
+          ? "cancelling"
+          : "in_progress";
+    return {
+      object: "batch_job",
+      provider: "anthropic",
+      id: batch.id,
+      status,
+      providerStatus: batch.processing_status,
+      requestCounts: {
+        total: counts.succeeded + failed + counts.processing,
+        succeeded: counts.succeeded,
+        failed,
+        pending: counts.processing,
+      },
+      createdAt: batch.created_at,
+      ...(batch.ended_at && { endedAt: batch.ended_at }),
+      expiresAt: batch.expires_at,
+    };
+  }
+
+  private mapBatchResult(
+    result: Anthropic.Messages.MessageBatchResult,
+    request: InternalLLMChatRequest
+  ): LLMResponse | LLMFailureResponse {
+    try {
+      switch (result.type) {
+        case "succeeded":
+          return this.createSuccessResponse(result.message, request);
+        case "canceled":
+          return createUnprocessedBatchItemFailure(request, "cancelled", result);
+        case "expired":
+          return createUnprocessedBatchItemFailure(request, "expired", result);
+        default: {
+          const error = result.error?.error;
+          const status = ANTHROPIC_ERROR_TYPE_STATUS[error?.type];
+          return this.createErrorResponse(
+            Object.assign(new Error(error?.message ?? "The batch request failed."), {
+              ...(status !== undefined && { status }),
+              result,
+            }),
+            request
+          );
+        }
+      }
+    } catch (error) {
+      return this.createErrorResponse(error, request);
+    }
+  }
+
   private prepareMessageRequest(
     request: InternalLLMChatRequest,
     apiKey: string,
@@ -659,7 +997,20 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     );
 
     // Format messages for Anthropic API (Claude has specific requirements)
-    const { messages, systemMessage } = this.formatMessagesForAnthropic(request);
+    const { messages, systemMessage, systemCacheTtl, cacheBreakpoints } =
+      this.formatMessagesForAnthropic(request);
+
+    // A cached system prompt must be sent as a text block to carry cache_control
+    let system: Anthropic.Messages.MessageCreateParams["system"] = systemMessage;
+    if (systemMessage && systemCacheTtl) {
+      const systemBlock: Anthropic.Messages.TextBlockParam = {
+        type: "text",
+        text: systemMessage,
+      };
+      system = [systemBlock];
+      cacheBreakpoints.unshift({ block: systemBlock, ttl: systemCacheTtl });
+    }
+    this.applyCacheBreakpoints(cacheBreakpoints);
 
     // Prepare API call parameters
     const messageParams: Anthropic.Messages.MessageCreateParams = {
@@ -671,12 +1022,28 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
       ...(request.settings.topK !== undefined && {
         top_k: request.settings.topK,
       }),
-      ...(systemMessage && { system: systemMessage }),
+      ...(system && { system }),
       ...(request.settings.stopSequences.length > 0 && {
         stop_sequences: request.settings.stopSequences,
       }),
     };
 
+    if (request.settings.tools && request.settings.tools.length > 0) {
+      messageParams.tools = request.settings.tools.map((tool) => ({
+        name: tool.name,
+        ...(tool.description !== undefined && {
+          description: tool.description,
+        }),
+        input_schema: (tool.parameters ??
+          EMPTY_TOOL_PARAMETERS) as Anthropic.Messages.Tool.InputSchema,
+      }));
+      if (request.settings.toolChoice !== undefined) {
+        messageParams.tool_choice = this.mapToolChoice(
+          request.settings.toolChoice
+        );
+      }
+    }
+
     // Handle structured output configuration for Anthropic.
     // Structured outputs are generally available: the stable request field is
     // output_config.format, with no beta header. The format object carries only
@@ -684,11 +1051,16 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     // `strict` fields exist for other providers and are not serialized here.
     if (useStructuredOutput) {
       const so = request.settings.structuredOutput!;
-      // Anthropic requires additionalProperties: false on all object schemas
+      // Anthropic rejects numeric, length and item-count limits, and requires
+      // additionalProperties: false on all object schemas
+      const supportedSchema: Record<string, unknown> = downConvertSchema(
+        { ...so.schema },
+        ANTHROPIC_SCHEMA_DIALECT
+      ).schema;
       const processedSchema: Record<string, unknown> =
         so.strict !== false
-          ? applyStrictSchemaConstraints({ ...so.schema })
-          : { ...so.schema };
+          ? applyStrictSchemaConstraints(supportedSchema)
+          : supportedSchema;
       messageParams.output_config = {
         format: {
           type: "json_schema",
@@ -742,11 +1114,56 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     };
   }
 
+  /**
+   * Marks cache breakpoints with cache_control, keeping only the last
+   * ANTHROPIC_MAX_CACHE_BREAKPOINTS (later breakpoints cover longer prefixes).
+   */
+  private applyCacheBreakpoints(breakpoints: AnthropicCacheBreakpoint[]): void {
+    const unique = breakpoints.filter(
+      (breakpoint, index) =>
+        breakpoints.findIndex((other) => other.block === breakpoint.block) === index
+    );
+    if (unique.length > ANTHROPIC_MAX_CACHE_BREAKPOINTS) {
+      this.logger.warn(
+        `Anthropic allows ${ANTHROPIC_MAX_CACHE_BREAKPOINTS} cache breakpoints; ` +
+          `dropping the first ${unique.length - ANTHROPIC_MAX_CACHE_BREAKPOINTS}.`
+      );
+    }
+    for (const { block, ttl } of unique.slice(-ANTHROPIC_MAX_CACHE_BREAKPOINTS)) {
+      block.cache_control =
+        ttl === "1h" ? { type: "ephemeral", ttl } : { type: "ephemeral" };
+    }
+  }
+
+  /**
+   * Returns the last content block of the last formatted message, converting
+   * string content to a text block so it can carry cache_control.
+   */
+  private getLastContentBlock(
+    messages: Anthropic.Messages.MessageParam[]
+  ): AnthropicCacheBreakpoint["block"] | undefined {
+    const last = messages[messages.length - 1];
+    if (!last) {
+      return undefined;
+    }
+    if (typeof last.content === "string") {
+      if (last.content.length === 0) {
+        return undefined;
+      }
+      last.content = [{ type: "text", text: last.content }];
+    }
+    const blocks = last.content as AnthropicCacheBreakpoint["block"][];
+    return blocks[blocks.length - 1];
+  }
+
   private normalizeAnthropicUsage(usage: any) {
     return normalizeUsage(usage, {
       prompt: ["input_tokens"],
       completion: ["output_tokens"],
       total: [],
+      cacheCreation: ["cache_creation_input_tokens"],
+      cacheRead: ["cache_read_input_tokens"],
+      cacheIncludedInPrompt: false,
     });
   }
 
@@ -770,7 +1187,13 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     accumulator: AnthropicStreamAccumulator
   ): Anthropic.Messages.Message {
     const content: any[] = [];
-    if (accumulator.reasoning) {
+    if (accumulator.thinkingBlocks.size > 0) {
+      content.push(
+        ...[...accumulator.thinkingBlocks.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([, block]) => block)
+      );
+    } else if (accumulator.reasoning) {
       content.push({
         type: "thinking",
         thinking: accumulator.reasoning,
@@ -781,6 +1204,16 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
       type: "text",
       text: accumulator.content,
     });
+    for (const toolCall of getCompletedStreamedToolCalls(
+      accumulator.toolCalls
+    )) {
+      content.push({
+        type: "tool_use",
+        id: toolCall.id,
+        name: toolCall.name,
+        input: parseToolArguments(toolCall.arguments),
+      });
+    }
 
     return {
       id: accumulator.id || `anthropic-stream-${Date.now()}`,
@@ -803,6 +1236,8 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
   private formatMessagesForAnthropic(request: InternalLLMChatRequest): {
     messages: Anthropic.Messages.MessageParam[];
     systemMessage?: string;
+    systemCacheTtl?: LLMPromptCacheTtl;
+    cacheBreakpoints: AnthropicCacheBreakpoint[];
   } {
     const messages: Anthropic.Messages.MessageParam[] = [];
     const inlineSystemMessages: string[] = [];
@@ -810,22 +1245,111 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     // Check if model supports system messages
     const supportsSystem = request.settings.supportsSystemMessage !== false;
 
+    // Prompt-cache breakpoints: system prompt, end of the first N messages,
+    // and explicit per-message markers
+    const promptCache = request.settings.promptCache;
+    const cachingEnabled = promptCache?.enabled !== false;
+    const defaultTtl = promptCache?.ttl ?? "5m";
+    const cacheBreakpoints: AnthropicCacheBreakpoint[] = [];
+    let systemCacheTtl =
+      promptCache && cachingEnabled && promptCache.system !== false
+        ? defaultTtl
+        : undefined;
+    const nonSystemCount = request.messages.filter(
+      (message) => message.role !== "system"
+    ).length;
+    const prefixEndIndex = promptCache?.messages
+      ? Math.min(promptCache.messages, nonSystemCount) - 1
+      : -1;
+    let nonSystemIndex = 0;
+
     // Process conversation messages
     for (const message of request.messages) {
+      const markerTtl =
+        cachingEnabled && message.cacheBreakpoint
+          ? (typeof message.cacheBreakpoint === "object" &&
+              message.cacheBreakpoint.ttl) ||
+            defaultTtl
+          : undefined;
       if (message.role === "system") {
         // Collect inline system messages
-        inlineSystemMessages.push(message.content);
-      } else if (message.role === "user") {
-        messages.push({
-          role: "user",
-          content: message.content,
-        });
+        inlineSystemMessages.push(getMessageText(message.content));
+        systemCacheTtl = markerTtl ?? systemCacheTtl;
+        continue;
+      }
+
+      if (message.role === "user") {
+        const toolResultMessage = this.getTrailingToolResultMessage(messages);
+        if (toolResultMessage) {
+          // Content sent after tool results joins the same user turn
+          toolResultMessage.content.push(
+            ...(typeof message.content === "string"
+              ? [{ type: "text" as const, text: message.content }]
+              : this.formatContentParts(message.content))
+          );
+        } else {
+          messages.push({
+            role: "user",
+            content:
+              typeof message.content === "string"
+                ? message.content
+                : this.formatContentParts(message.content),
+          });
+        }
       } else if (message.role === "assistant") {
-        messages.push({
-          role: "assistant",
-          content: message.content,
-        });
+        const text = getMessageText(message.content);
+        const thinkingBlocks = getSignedThinkingBlocks(
+          message.reasoning_details
+        );
+        if (
+          (message.toolCalls && message.toolCalls.length > 0) ||
+          thinkingBlocks.length > 0
+        ) {
+          messages.push({
+            role: "assistant",
+            content: [
+              ...thinkingBlocks,
+              ...(text ? [{ type: "text" as const, text }] : []),
+              ...(message.toolCalls ?? []).map((call) => ({
+                type: "tool_use" as const,
+                id: call.id,
+                name: call.name,
+                input: parseToolArguments(call.arguments),
+              })),
+            ],
+          });
+        } else {
+          messages.push({
+            role: "assistant",
+            content: text,
+          });
+        }
+      } else if (message.role === "tool") {
+        // Anthropic carries tool results as tool_result blocks in a user turn;
+        // consecutive results share one turn to keep roles alternating.
+        const block: Anthropic.Messages.ToolResultBlockParam = {
+          type: "tool_result",
+          tool_use_id: message.toolCallId!,
+          content: getMessageText(message.content),
+        };
+        const toolResultMessage = this.getTrailingToolResultMessage(messages);
+        if (toolResultMessage) {
+          toolResultMessage.content.push(block);
+        } else {
+          messages.push({ role: "user", content: [block] });
+        }
+      }
+
+      const cacheTtl =
+        markerTtl ??
+        (cachingEnabled && nonSystemIndex === prefixEndIndex
+          ? defaultTtl
+          : undefined);
+      const cacheBlock = cacheTtl ? this.getLastContentBlock(messages) : undefined;
+      if (cacheTtl && cacheBlock) {
+        cacheBreakpoints.push({ block: cacheBlock, ttl: cacheTtl });
       }
+      nonSystemIndex++;
     }
 
     // Use shared utility to collect and combine system content
@@ -845,7 +1369,7 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
         // Model doesn't support system messages - prepend to first user message
         const simpleMessages = messages.map((m) => ({
           role: m.role,
-          content: m.content as string,
+          content: m.content as GenericMessage["content"],
         }));
         const modifiedIndex = prependSystemToFirstUserMessage(
           simpleMessages,
@@ -853,7 +1377,8 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
           request.settings.systemMessageFallback
         );
         if (modifiedIndex !== -1) {
-          messages[modifiedIndex].content = simpleMessages[modifiedIndex].content;
+          messages[modifiedIndex].content = simpleMessages[modifiedIndex]
+            .content as Anthropic.Messages.MessageParam["content"];
           this.logger.debug(
             `Model ${request.modelId} doesn't support system messages - prepended to first user message`
           );
@@ -888,9 +1413,93 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     return {
       messages: cleanedMessages,
       systemMessage,
+      ...(systemMessage && systemCacheTtl && { systemCacheTtl }),
+      cacheBreakpoints,
     };
   }
 
+  /**
+   * Returns the last formatted message when it is a user turn carrying tool results
+   */
+  /**
+   * Maps text, image and document parts to Anthropic content blocks.
+   */
+  private formatContentParts(
+    parts: readonly LLMContentPart[]
+  ): Anthropic.Messages.ContentBlockParam[] {
+    return parts.map((part): Anthropic.Messages.ContentBlockParam => {
+      if (part.type === "text") {
+        return { type: "text", text: part.text };
+      }
+      if (part.type === "document") {
+        return {
+          type: "document",
+          source:
+            part.data !== undefined
+              ? {
+                  type: "base64",
+                  media_type: "application/pdf",
+                  data: getBase64Data(part.data),
+                }
+              : { type: "text", media_type: "text/plain", data: part.text ?? "" },
+          ...(part.title !== undefined && { title: part.title }),
+        };
+      }
+      const source = resolveImageSource(part);
+      return {
+        type: "image",
+        source:
+          source.kind === "url"
+            ? { type: "url", url: source.url }
+            : {
+                type: "base64",
+                media_type:
+                  source.mimeType as Anthropic.Messages.Base64ImageSource["media_type"],
+                data: source.data,
+              },
+      };
+    });
+  }
+
+  private getTrailingToolResultMessage(
+    messages: Anthropic.Messages.MessageParam[]
+  ):
+    | (Anthropic.Messages.MessageParam & {
+        content: Anthropic.Messages.ContentBlockParam[];
+      })
+    | undefined {
+    const last = messages[messages.length - 1];
+    if (
+      last?.role === "user" &&
+      Array.isArray(last.content) &&
+      last.content.some((block) => block.type === "tool_result")
+    ) {
+      return last as Anthropic.Messages.MessageParam & {
+        content: Anthropic.Messages.ContentBlockParam[];
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Maps the provider-neutral tool choice to Anthropic's tool_choice
+   */
+  private mapToolChoice(
+    toolChoice: LLMToolChoice
+  ): Anthropic.Messages.ToolChoice {
+    if (typeof toolChoice === "object") {
+      return { type: "tool", name: toolChoice.name };
+    }
+    switch (toolChoice) {
+      case "none":
+        return { type: "none" };
+      case "required":
+        return { type: "any" };
+      default:
+        return { type: "auto" };
+    }
+  }
+
   /**
    * Ensures messages alternate between user and assistant roles as required by Anthropic
    *
@@ -937,8 +1546,13 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
     // models may place a thinking block before the text block.
     const textBlocks = completion.content.filter((block: any) => block.type === "text");
     const textContent = textBlocks.map((block: any) => block.text || "").join("");
+    const toolUseBlocks = completion.content.filter(
+      (block): block is Anthropic.Messages.ToolUseBlock =>
+        block.type === "tool_use"
+    );
 
-    if (textBlocks.length === 0) {
+    // A tool-use turn may legitimately contain no text at all
+    if (textBlocks.length === 0 && toolUseBlocks.length === 0) {
       throw new Error("Invalid completion structure from Anthropic API");
     }
 
@@ -985,6 +1599,21 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
       choice.reasoning = reasoning;
     }
 
+    // Signed thinking blocks must go back unchanged with the tool results of a
+    // thinking turn, so they are kept even when reasoning is excluded.
+    const thinkingBlocks = getSignedThinkingBlocks(completion.content);
+    if (thinkingBlocks.length > 0) {
+      choice.reasoning_details = thinkingBlocks;
+    }
+
+    if (toolUseBlocks.length > 0) {
+      choice.toolCalls = toolUseBlocks.map((block) => ({
+        id: block.id,
+        name: block.name,
+        arguments: stringifyToolArguments(block.input),
+      }));
+    }
+
     const providerOutput = createProviderOutputAccounting({
       source:
         completion.usage as unknown as Record<string, unknown> | undefined,
@@ -1003,14 +1632,7 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
       choice.answerAccounting = { providerOutput };
     }
 
-    const normalizedUsage = normalizeUsage(
-      completion.usage as unknown as Record<string, unknown> | undefined,
-      {
-        prompt: ["input_tokens"],
-        completion: ["output_tokens"],
-        total: [],
-      }
-    );
+    const normalizedUsage = this.normalizeAnthropicUsage(completion.usage);
 
     return {
       id: completion.id,
@@ -1064,7 +1686,7 @@ export class AnthropicClientAdapter implements ILLMClientAdapter {
    */
   private createErrorResponse(
     error: any,
-    request: InternalLLMChatRequest
+    request: { providerId: ApiProviderId; modelId?: string }
   ): LLMFailureResponse {
     // Use shared error mapping utility for common error patterns
     const initialProviderMessage =
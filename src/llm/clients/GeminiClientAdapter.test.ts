@@ -56,9 +56,14 @@ describe('GeminiClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         stopSequences: [],
         user: 'test-user',
         geminiSafetySettings: [],
@@ -120,6 +125,30 @@ describe('GeminiClientAdapter', () => {
       expect(successResponse.usage?.total_tokens).toBe(30);
     });
 
+    it('normalizes implicit cached content tokens', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        text: () => 'Hi',
+        candidates: [{
+          finishReason: 'STOP',
+          content: { parts: [{ text: 'Hi' }], role: 'model' }
+        }],
+        usageMetadata: {
+          promptTokenCount: 5000,
+          cachedContentTokenCount: 4096,
+          candidatesTokenCount: 1,
+          totalTokenCount: 5001
+        }
+      });
+
+      const response = await adapter.sendMessage(basicRequest, 'test-api-key') as LLMResponse;
+
+      expect(response.usage).toMatchObject({ prompt_tokens: 5000, cache_read_tokens: 4096 });
+      expect(response.usageEvidence?.cache_read_tokens).toMatchObject({
+        providerField: 'cachedContentTokenCount',
+        includedInPrompt: true,
+      });
+    });
+
     it('should map topK and seed into the generation config', async () => {
       mockGenerateContent.mockResolvedValueOnce({
         text: () => 'Hi',
@@ -142,6 +171,26 @@ describe('GeminiClientAdapter', () => {
       expect(callArgs.config).not.toHaveProperty('repeat_penalty');
     });
 
+    it('should request candidateCount for n and map every candidate', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        candidates: [
+          { index: 0, finishReason: 'STOP', content: { parts: [{ text: 'A' }], role: 'model' } },
+          { index: 1, finishReason: 'MAX_TOKENS', content: { parts: [{ text: 'B' }], role: 'model' } },
+        ],
+        usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 4, totalTokenCount: 5 }
+      });
+
+      basicRequest.settings.n = 2;
+      const response = await adapter.sendMessage(basicRequest, 'test-api-key') as LLMResponse;
+
+      expect(mockGenerateContent.mock.calls[0][0].config.candidateCount).toBe(2);
+      expect(response.choices.map((choice) => [choice.index, choice.message.content, choice.finish_reason])).toEqual([
+        [0, 'A', 'stop'],
+        [1, 'B', 'length'],
+      ]);
+      expect(response.usage).toMatchObject({ completion_tokens: 4 });
+    });
+
     it('should pass abort signal and timeout into the request config', async () => {
       mockGenerateContent.mockResolvedValueOnce({
         text: () => 'Hi',
@@ -1045,6 +1094,43 @@ describe('GeminiClientAdapter', () => {
       }
     });
 
+    it("streams each candidate on its own choice index", async () => {
+      mockGenerateContentStream.mockResolvedValueOnce(streamFrom([
+        {
+          candidates: [
+            { index: 0, content: { role: "model", parts: [{ text: "one" }] } },
+            { index: 1, content: { role: "model", parts: [{ text: "two" }] } },
+          ],
+        },
+        {
+          candidates: [
+            { index: 1, finishReason: "STOP", content: { role: "model", parts: [{ text: "!" }] } },
+            { index: 0, finishReason: "STOP", content: { role: "model", parts: [] } },
+          ],
+          usageMetadata: { candidatesTokenCount: 4 },
+        },
+      ]));
+
+      const events = await collectEvents();
+      const complete = events.find((event) => event.type === "complete");
+
+      expect(
+        events
+          .filter((event) => event.type === "content_delta")
+          .map((event) => event.type === "content_delta" && [event.index, event.delta])
+      ).toEqual([
+        [0, "one"],
+        [1, "two"],
+        [1, "!"],
+      ]);
+      expect(complete?.type === "complete" && complete.response.choices.map(
+        (choice) => [choice.index, choice.message.content]
+      )).toEqual([
+        [0, "one"],
+        [1, "two!"],
+      ]);
+    });
+
     it('should preserve transport options and request configuration', async () => {
       mockGenerateContentStream.mockResolvedValueOnce(streamFrom([
         {
@@ -1224,4 +1310,303 @@ describe('GeminiClientAdapter', () => {
       // supportedModels is not part of the interface
     });
   });
+
+  describe('tool calling', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      parameters: {
+        type: 'object' as const,
+        properties: { city: { type: 'string' as const } },
+        required: ['city'],
+      },
+    };
+
+    it('should send function declarations and replayed function turns', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        text: 'It is sunny.',
+        candidates: [{
+          content: { parts: [{ text: 'It is sunny.' }] },
+          finishReason: 'STOP',
+        }],
+      });
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_0', name: 'get_weather', arguments: '{"city":"Paris"}' }],
+          },
+          { role: 'tool', toolCallId: 'call_0', content: '{"temp":21}' },
+        ],
+        settings: {
+          ...basicRequest.settings,
+          tools: [weatherTool],
+          toolChoice: { name: 'get_weather' },
+        },
+      }, 'test-api-key');
+
+      const params = mockGenerateContent.mock.calls[0][0];
+      expect(params.config.tools).toEqual([{
+        functionDeclarations: [{
+          name: 'get_weather',
+          description: 'Get the weather for a city',
+          parametersJsonSchema: weatherTool.parameters,
+        }],
+      }]);
+      expect(params.config.toolConfig).toEqual({
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] },
+      });
+      expect(params.contents.slice(1)).toEqual([
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+        },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: 'get_weather', response: { temp: 21 } } }],
+        },
+      ]);
+    });
+
+    it('should map function calls with generated IDs and a tool_call termination', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        candidates: [{
+          content: {
+            parts: [
+              { functionCall: { name: 'get_weather', args: { city: 'Paris' } } },
+              { functionCall: { name: 'get_weather', args: { city: 'Oslo' } } },
+            ],
+          },
+          finishReason: 'STOP',
+        }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      });
+
+      const response = await adapter.sendMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key') as LLMResponse;
+
+      expect(response.choices[0].toolCalls).toEqual([
+        { id: 'call_0', name: 'get_weather', arguments: '{"city":"Paris"}' },
+        { id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+      ]);
+      expect(response.choices[0].finish_reason).toBe('tool_calls');
+      expect(response.choices[0].termination).toEqual({
+        rawReason: 'STOP',
+        kind: 'tool_call',
+      });
+    });
+
+    it('should stream function calls as complete tool-call events', async () => {
+      mockGenerateContentStream.mockResolvedValueOnce(streamFrom([
+        {
+          modelUsed: 'gemini-2.5-flash',
+          candidates: [{
+            content: {
+              parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }],
+              role: 'model',
+            },
+            finishReason: 'STOP',
+          }],
+          usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+        },
+      ]));
+
+      const events: any[] = [];
+      for await (const event of adapter.streamMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key')) {
+        events.push(event);
+      }
+
+      expect(events.filter((event) => event.type.startsWith('tool_call_'))).toEqual([
+        { type: 'tool_call_start', index: 0, toolCallIndex: 0, id: 'call_0', name: 'get_weather' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 0, delta: '{"city":"Paris"}' },
+        { type: 'tool_call_end', index: 0, toolCallIndex: 0 },
+      ]);
+      const complete = events[events.length - 1];
+      expect(complete.type).toBe('complete');
+      expect(complete.response.choices[0].toolCalls).toEqual([
+        { id: 'call_0', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      ]);
+    });
+  });
+
+  describe('image content parts', () => {
+    const imageResponse = {
+      text: () => 'A cat.',
+      candidates: [{
+        finishReason: 'STOP',
+        content: { parts: [{ text: 'A cat.' }], role: 'model' }
+      }],
+      usageMetadata: { promptTokenCount: 15, candidatesTokenCount: 3, totalTokenCount: 18 }
+    };
+
+    it('should send inline images as inlineData and URLs as fileData', async () => {
+      mockGenerateContent.mockResolvedValueOnce(imageResponse);
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' },
+            { type: 'image', url: 'https://example.com/cat.jpg', mimeType: 'image/jpeg' }
+          ]
+        }]
+      }, 'test-api-key');
+
+      const callArgs = mockGenerateContent.mock.calls[0][0];
+      expect(callArgs.contents).toEqual([{
+        role: 'user',
+        parts: [
+          { text: 'What is this?' },
+          { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } },
+          { fileData: { fileUri: 'https://example.com/cat.jpg', mimeType: 'image/jpeg' } }
+        ]
+      }]);
+    });
+
+    it('should add a leading text part when prepending system content before an image', async () => {
+      mockGenerateContent.mockResolvedValueOnce(imageResponse);
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        modelId: 'gemma-3-27b-it',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          {
+            role: 'user',
+            content: [{ type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' }]
+          }
+        ],
+        settings: {
+          ...basicRequest.settings,
+          supportsSystemMessage: false
+        }
+      }, 'test-api-key');
+
+      const parts = mockGenerateContent.mock.calls[0][0].contents[0].parts;
+      expect(parts).toHaveLength(2);
+      expect(parts[0].text).toContain('Be brief.');
+      expect(parts[1]).toEqual({ inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } });
+    });
+  });
+
+  describe('context caches', () => {
+    let caches: { create: jest.Mock; list: jest.Mock; update: jest.Mock; delete: jest.Mock };
+    const rawCache = {
+      name: 'cachedContents/abc123',
+      model: 'models/gemini-2.5-pro',
+      displayName: 'manual',
+      expireTime: '2026-10-18T13:00:00Z',
+      usageMetadata: { totalTokenCount: 40960 },
+    };
+    const apiKey = 'AIzaSyTestKey1234567890123456789012345';
+
+    beforeEach(() => {
+      caches = {
+        create: jest.fn().mockResolvedValue(rawCache),
+        list: jest.fn().mockResolvedValue(streamFrom([rawCache])),
+        update: jest.fn().mockResolvedValue(rawCache),
+        delete: jest.fn().mockResolvedValue({}),
+      };
+      MockGoogleGenAI.mockImplementation(() => ({
+        models: { generateContent: mockGenerateContent },
+        caches,
+      } as any));
+    });
+
+    it('creates a cache from system instruction, contents and tools', async () => {
+      const result = await adapter.createContextCache(
+        {
+          ...basicRequest,
+          messages: [
+            { role: 'system', content: 'Answer from the manual.' },
+            { role: 'user', content: 'Manual text' },
+          ],
+          settings: {
+            ...basicRequest.settings,
+            tools: [{ name: 'lookup', parameters: { type: 'object' } }],
+          },
+        },
+        { displayName: 'manual', ttlSeconds: 600 },
+        apiKey
+      );
+
+      expect(caches.create).toHaveBeenCalledWith({
+        model: 'gemini-2.5-pro',
+        config: expect.objectContaining({
+          contents: [{ role: 'user', parts: [{ text: 'Manual text' }] }],
+          systemInstruction: 'Answer from the manual.',
+          tools: [expect.objectContaining({ functionDeclarations: expect.any(Array) })],
+          displayName: 'manual',
+          ttl: '600s',
+        }),
+      });
+      expect(result).toEqual({
+        object: 'context_cache',
+        provider: 'gemini',
+        model: 'gemini-2.5-pro',
+        name: 'cachedContents/abc123',
+        displayName: 'manual',
+        expireTime: '2026-10-18T13:00:00Z',
+        totalTokens: 40960,
+      });
+    });
+
+    it('lists, updates and deletes caches by resource name', async () => {
+      const list = await adapter.listContextCaches(apiKey);
+      await adapter.updateContextCache('cachedContents/abc123', { ttlSeconds: 3600 }, apiKey);
+      const deleted = await adapter.deleteContextCache('cachedContents/abc123', apiKey);
+
+      expect(list).toMatchObject({ object: 'context_cache.list', caches: [{ name: 'cachedContents/abc123' }] });
+      expect(caches.update).toHaveBeenCalledWith({
+        name: 'cachedContents/abc123',
+        config: { ttl: '3600s' },
+      });
+      expect(caches.delete).toHaveBeenCalledWith({ name: 'cachedContents/abc123', config: {} });
+      expect(deleted).toEqual({
+        object: 'context_cache.deleted',
+        provider: 'gemini',
+        name: 'cachedContents/abc123',
+      });
+    });
+
+    it('maps SDK errors to failure responses', async () => {
+      caches.delete.mockRejectedValue(
+        Object.assign(new Error('CachedContent not found'), { status: 404 })
+      );
+
+      const result = (await adapter.deleteContextCache('cachedContents/gone', apiKey)) as LLMFailureResponse;
+
+      expect(result.object).toBe('error');
+      expect(result.provider).toBe('gemini');
+      expect(result.error.status).toBe(404);
+    });
+
+    it('references a cache through settings.cachedContent', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        text: () => 'From cache',
+        candidates: [{ finishReason: 'STOP', content: { parts: [{ text: 'From cache' }] } }],
+      });
+
+      await adapter.sendMessage(
+        {
+          ...basicRequest,
+          settings: { ...basicRequest.settings, cachedContent: 'cachedContents/abc123' },
+        },
+        apiKey
+      );
+
+      expect(mockGenerateContent.mock.calls[0][0].config.cachedContent).toBe('cachedContents/abc123');
+    });
+  });
 });
@@ -3,9 +3,18 @@
 
 import { GoogleGenAI } from "@google/genai";
 import type {
+  ApiProviderId,
   LLMAnswerAccounting,
+  LLMContextCache,
+  LLMContextCacheDeleted,
+  LLMContextCacheList,
+  LLMContextCacheUpdate,
+  LLMChoice,
   LLMResponse,
   LLMFailureResponse,
+  LLMContentPart,
+  LLMToolCall,
+  LLMToolChoice,
   GeminiSafetySetting,
 } from "../types";
 import type {
@@ -19,6 +28,7 @@ import type {
 } from "./types";
 import { ADAPTER_ERROR_CODES } from "./types";
 import { getCommonMappedErrorDetails } from "../../shared/adapters/errorUtils";
+import { getChoiceCount } from "../../shared/adapters/fanOutUtils";
 import {
   createProviderOutputAccounting,
   mergeUsageRecords,
@@ -29,6 +39,27 @@ import {
   collectSystemContent,
   prependSystemToFirstUserMessage,
 } from "../../shared/adapters/systemMessageUtils";
+import {
+  formatDocumentText,
+  getBase64Data,
+  getMessageText,
+  resolveImageSource,
+} from "../../shared/adapters/contentPartUtils";
+import {
+  EMPTY_TOOL_PARAMETERS,
+  appendStreamedToolCallArguments,
+  createToolCallId,
+  endStreamedToolCalls,
+  parseToolArguments,
+  resolveToolResultName,
+  startStreamedToolCall,
+  stringifyToolArguments,
+  type StreamedToolCalls,
+} from "../../shared/adapters/toolCallUtils";
+import {
+  downConvertSchema,
+  GEMINI_SCHEMA_DIALECT,
+} from "../../shared/adapters/schemaUtils";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import {
@@ -94,18 +125,24 @@ function isGeminiThinkingExcluded(
   );
 }
 
+interface GeminiStreamCandidateState {
+  rawParts: Record<string, unknown>[];
+  hasGeneratedOutput: boolean;
+  finishReason: string | null;
+  toolCalls: StreamedToolCalls;
+}
+
+/** Candidate index, falling back to the position in `candidates`. */
+function getGeminiCandidateIndex(candidate: any, position: number): number {
+  return Number.isInteger(candidate?.index) ? candidate.index : position;
+}
+
 interface GeminiStreamAccumulator {
   responseId: string;
   created: number;
   model: string;
-  contentParts: string[];
-  thoughtParts: string[];
-  rawParts: Record<string, unknown>[];
-  candidateIndexes: Set<number>;
-  maxCandidateCount: number;
-  candidateCardinalityAmbiguous: boolean;
-  hasGeneratedOutput: boolean;
-  finishReason: string | null;
+  /** Per-candidate state keyed by candidate index. */
+  candidates: Map<number, GeminiStreamCandidateState>;
   usageMetadata?: any;
 }
 
@@ -201,6 +238,7 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
             systemField: "systemInstruction",
             reasoningField: "thinkingConfig",
             structuredOutput: request.settings.structuredOutput,
+            schemaDialect: GEMINI_SCHEMA_DIALECT,
           }),
           promptAccounting: { status: "unavailable" },
           outputTokenLimit: context.outputTokenLimit,
@@ -339,14 +377,7 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       responseId: this.generateResponseId(),
       created: Math.floor(Date.now() / 1000),
       model: request.modelId,
-      contentParts: [],
-      thoughtParts: [],
-      rawParts: [],
-      candidateIndexes: new Set<number>(),
-      maxCandidateCount: 0,
-      candidateCardinalityAmbiguous: false,
-      hasGeneratedOutput: false,
-      finishReason: null,
+      candidates: new Map(),
     };
     let transportState: GeminiTransportState | undefined;
     let sawChunk = false;
@@ -412,7 +443,7 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
         this.getTransportErrorContext(options, transportState)
       );
 
-      if (sawChunk || accumulator.contentParts.length > 0 || accumulator.thoughtParts.length > 0) {
+      if (sawChunk) {
         const partial = this.createSuccessResponse(
           this.createSyntheticGeminiResponse(accumulator),
           request,
@@ -435,6 +466,147 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
     }
   }
 
+  /**
+   * Creates a `cachedContents` resource holding the request's system
+   * instruction, contents and tools
+   */
+  async createContextCache(
+    request: InternalLLMChatRequest,
+    cacheOptions: { displayName?: string; ttlSeconds?: number },
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCache | LLMFailureResponse> {
+    return this.runContextCacheOperation(
+      request,
+      apiKey,
+      options,
+      async (genAI, transport) => {
+        const { contents, generationConfig, systemInstruction } =
+          this.formatInternalRequestToGemini(request);
+        const cache = await genAI.caches.create({
+          model: request.modelId,
+          config: {
+            ...transport,
+            contents,
+            ...(systemInstruction && { systemInstruction }),
+            ...(generationConfig.tools && { tools: generationConfig.tools }),
+            ...(generationConfig.toolConfig && {
+              toolConfig: generationConfig.toolConfig,
+            }),
+            ...(cacheOptions.displayName && {
+              displayName: cacheOptions.displayName,
+            }),
+            ...(cacheOptions.ttlSeconds !== undefined && {
+              ttl: `${cacheOptions.ttlSeconds}s`,
+            }),
+          },
+        });
+        return this.toContextCache(cache);
+      }
+    );
+  }
+
+  async listContextCaches(
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCacheList | LLMFailureResponse> {
+    return this.runContextCacheOperation(
+      { providerId: "gemini" },
+      apiKey,
+      options,
+      async (genAI, transport) => {
+        const pager = await genAI.caches.list({ config: transport });
+        const caches: LLMContextCache[] = [];
+        for await (const cache of pager) {
+          caches.push(this.toContextCache(cache));
+        }
+        return { object: "context_cache.list", provider: "gemini", caches };
+      }
+    );
+  }
+
+  async updateContextCache(
+    name: string,
+    update: LLMContextCacheUpdate,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCache | LLMFailureResponse> {
+    return this.runContextCacheOperation(
+      { providerId: "gemini" },
+      apiKey,
+      options,
+      async (genAI, transport) => {
+        const cache = await genAI.caches.update({
+          name,
+          config: {
+            ...transport,
+            ...(update.ttlSeconds !== undefined && { ttl: `${update.ttlSeconds}s` }),
+            ...(update.expireTime !== undefined && { expireTime: update.expireTime }),
+          },
+        });
+        return this.toContextCache(cache);
+      }
+    );
+  }
+
+  async deleteContextCache(
+    name: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCacheDeleted | LLMFailureResponse> {
+    return this.runContextCacheOperation(
+      { providerId: "gemini" },
+      apiKey,
+      options,
+      async (genAI, transport) => {
+        await genAI.caches.delete({ name, config: transport });
+        return { object: "context_cache.deleted", provider: "gemini", name };
+      }
+    );
+  }
+
+  /**
+   * Runs one cache-management call with the adapter's abort/timeout handling
+   * and maps failures like chat errors
+   */
+  private async runContextCacheOperation<T>(
+    context: { providerId: ApiProviderId; modelId?: string },
+    apiKey: string,
+    options: AdapterRequestOptions | undefined,
+    operation: (genAI: GoogleGenAI, transport: Record<string, unknown>) => Promise<T>
+  ): Promise<T | LLMFailureResponse> {
+    let transportState: GeminiTransportState | undefined;
+    try {
+      transportState = this.createTransportState(options);
+      const { config } = this.addTransportToParams({}, options, transportState);
+      return await operation(new GoogleGenAI({ apiKey }), config);
+    } catch (error) {
+      this.logger.error("Gemini context cache error:", error);
+      return this.createErrorResponse(
+        error,
+        context,
+        this.getTransportErrorContext(options, transportState)
+      );
+    } finally {
+      transportState?.cleanup();
+    }
+  }
+
+  private toContextCache(cache: any): LLMContextCache {
+    const totalTokens = cache.usageMetadata?.totalTokenCount;
+    return {
+      object: "context_cache",
+      provider: "gemini",
+      model: String(cache.model ?? "").replace(/^models\//, ""),
+      name: cache.name,
+      ...(cache.displayName && { displayName: cache.displayName }),
+      ...(cache.createTime && { createTime: cache.createTime }),
+      ...(cache.updateTime && { updateTime: cache.updateTime }),
+      ...(cache.expireTime && { expireTime: cache.expireTime }),
+      ...(typeof totalTokens === "number" && { totalTokens }),
+    };
+  }
+
   /**
    * Validates Gemini API key format
    *
@@ -496,6 +668,9 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
           ...generationConfig,
           safetySettings,
           ...(systemInstruction && { systemInstruction }),
+          ...(request.settings.cachedContent && {
+            cachedContent: request.settings.cachedContent,
+          }),
         },
       },
       generationConfig,
@@ -580,20 +755,13 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
     const candidates = Array.isArray(chunk.candidates)
       ? chunk.candidates
       : [];
-    accumulator.maxCandidateCount = Math.max(
-      accumulator.maxCandidateCount,
-      candidates.length
-    );
-    if (candidates.length > 1) {
-      accumulator.candidateCardinalityAmbiguous = true;
-    }
     for (const [position, candidate] of candidates.entries()) {
-      accumulator.candidateIndexes.add(
-        Number.isInteger(candidate?.index) ? candidate.index : position
+      const state = this.getStreamCandidateState(
+        accumulator,
+        getGeminiCandidateIndex(candidate, position)
       );
+      state.finishReason = candidate?.finishReason ?? state.finishReason;
     }
-    const candidate = candidates[0];
-    accumulator.finishReason = candidate?.finishReason ?? accumulator.finishReason;
     if (chunk.usageMetadata) {
       accumulator.usageMetadata = mergeUsageRecords(
         accumulator.usageMetadata,
@@ -609,7 +777,76 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
     semanticParams: any
   ): AdapterLLMStreamEvent[] {
     const events: AdapterLLMStreamEvent[] = [];
-    const candidate = chunk.candidates?.[0];
+    const candidates = Array.isArray(chunk.candidates) ? chunk.candidates : [];
+    for (const [position, candidate] of candidates.entries()) {
+      events.push(
+        ...this.processGeminiStreamCandidate(
+          accumulator,
+          candidate,
+          getGeminiCandidateIndex(candidate, position),
+          request
+        )
+      );
+    }
+
+    if (chunk.usageMetadata) {
+      const normalized = normalizeUsage(chunk.usageMetadata, {
+        prompt: ["promptTokenCount"],
+        completion: ["candidatesTokenCount"],
+        total: ["totalTokenCount"],
+        reasoning: ["thoughtsTokenCount"],
+        cacheRead: ["cachedContentTokenCount"],
+        cacheIncludedInPrompt: true,
+      });
+      const [onlyIndex, onlyCandidate] =
+        accumulator.candidates.entries().next().value ?? [0, undefined];
+      const providerOutput =
+        this.createGeminiProviderOutputAccounting(
+          accumulator.usageMetadata,
+          accumulator.candidates.size,
+          onlyCandidate?.hasGeneratedOutput ?? false,
+          request.modelId,
+          semanticParams
+        );
+      if (normalized.usage || providerOutput) {
+        events.push({
+          type: "adapter_evidence",
+          observedEvidence: {
+            ...(normalized.usage && { usage: normalized.usage }),
+            ...(normalized.usageEvidence && {
+              usageEvidence: normalized.usageEvidence,
+            }),
+            ...(providerOutput && {
+              choice: {
+                index: onlyIndex,
+                answerAccounting: { providerOutput },
+              },
+            }),
+          },
+        });
+      }
+      if (normalized.usage) {
+        events.push({
+          type: "usage",
+          usage: normalized.usage,
+          observedEvidence: {
+            usageEvidence: normalized.usageEvidence,
+          },
+        });
+      }
+    }
+
+    return events;
+  }
+
+  private processGeminiStreamCandidate(
+    accumulator: GeminiStreamAccumulator,
+    candidate: any,
+    index: number,
+    request: InternalLLMChatRequest
+  ): AdapterLLMStreamEvent[] {
+    const events: AdapterLLMStreamEvent[] = [];
+    const state = this.getStreamCandidateState(accumulator, index);
     const parts = candidate?.content?.parts || [];
     const rawFinishReason = candidate?.finishReason;
     if (rawFinishReason != null) {
@@ -617,7 +854,7 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
         type: "adapter_evidence",
         observedEvidence: {
           choice: {
-            index: 0,
+            index,
             finishReason: this.mapGeminiFinishReason(rawFinishReason),
             termination: normalizeTermination(
               rawFinishReason,
@@ -630,7 +867,7 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
 
     for (const part of parts) {
       if (hasGeminiGeneratedPart(part)) {
-        accumulator.hasGeneratedOutput = true;
+        state.hasGeneratedOutput = true;
       }
       const rawPart = toPreparedRequestValue(part);
       if (
@@ -638,13 +875,13 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
         typeof rawPart === "object" &&
         !Array.isArray(rawPart)
       ) {
-        accumulator.rawParts.push(rawPart);
+        state.rawParts.push(rawPart);
       }
       events.push({
         type: "adapter_evidence",
         observedEvidence: {
           choice: {
-            index: 0,
+            index,
             ...(!part?.thought &&
               typeof part?.text === "string" && {
                 rawContentDelta: part.text,
@@ -660,69 +897,48 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
           },
         },
       });
+      if (part?.functionCall?.name) {
+        // Gemini streams each function call whole, so it starts and ends in
+        // the same chunk.
+        const toolCallIndex = state.toolCalls.size;
+        events.push(
+          startStreamedToolCall(
+            state.toolCalls,
+            index,
+            toolCallIndex,
+            part.functionCall.id,
+            part.functionCall.name
+          )
+        );
+        const argumentsDelta = appendStreamedToolCallArguments(
+          state.toolCalls,
+          index,
+          toolCallIndex,
+          stringifyToolArguments(part.functionCall.args)
+        );
+        if (argumentsDelta) {
+          events.push(argumentsDelta);
+        }
+        events.push(...endStreamedToolCalls(state.toolCalls, index));
+        continue;
+      }
       if (typeof part?.text !== "string" || part.text.length === 0) {
         continue;
       }
 
       if (part.thought) {
-        accumulator.thoughtParts.push(part.text);
         if (request.settings.reasoning?.exclude !== true) {
           events.push({
             type: "reasoning_delta",
             delta: part.text,
-            index: 0,
+            index,
           });
         }
       } else {
-        accumulator.contentParts.push(part.text);
         events.push({
           type: "content_delta",
           delta: part.text,
-          index: 0,
-        });
-      }
-    }
-
-    if (chunk.usageMetadata) {
-      const normalized = normalizeUsage(chunk.usageMetadata, {
-        prompt: ["promptTokenCount"],
-        completion: ["candidatesTokenCount"],
-        total: ["totalTokenCount"],
-      });
-      const providerOutput =
-        this.createGeminiProviderOutputAccounting(
-          accumulator.usageMetadata,
-          accumulator.candidateCardinalityAmbiguous
-            ? Math.max(2, accumulator.maxCandidateCount)
-            : accumulator.candidateIndexes.size,
-          accumulator.hasGeneratedOutput,
-          request.modelId,
-          semanticParams
-        );
-      if (normalized.usage || providerOutput) {
-        events.push({
-          type: "adapter_evidence",
-          observedEvidence: {
-            ...(normalized.usage && { usage: normalized.usage }),
-            ...(normalized.usageEvidence && {
-              usageEvidence: normalized.usageEvidence,
-            }),
-            ...(providerOutput && {
-              choice: {
-                index: 0,
-                answerAccounting: { providerOutput },
-              },
-            }),
-          },
-        });
-      }
-      if (normalized.usage) {
-        events.push({
-          type: "usage",
-          usage: normalized.usage,
-          observedEvidence: {
-            usageEvidence: normalized.usageEvidence,
-          },
+          index,
         });
       }
     }
@@ -730,6 +946,23 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
     return events;
   }
 
+  private getStreamCandidateState(
+    accumulator: GeminiStreamAccumulator,
+    index: number
+  ): GeminiStreamCandidateState {
+    let state = accumulator.candidates.get(index);
+    if (!state) {
+      state = {
+        rawParts: [],
+        hasGeneratedOutput: false,
+        finishReason: null,
+        toolCalls: new Map(),
+      };
+      accumulator.candidates.set(index, state);
+    }
+    return state;
+  }
+
   private createGeminiProviderOutputAccounting(
     usageMetadata: Record<string, unknown> | undefined,
     candidateCount: number,
@@ -782,21 +1015,16 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
   private createSyntheticGeminiResponse(
     accumulator: GeminiStreamAccumulator
   ): any {
-    const parts = accumulator.rawParts;
-    const candidateCount = accumulator.candidateCardinalityAmbiguous
-      ? Math.max(2, accumulator.maxCandidateCount)
-      : accumulator.candidateIndexes.size;
-    const candidates = Array.from(
-      { length: candidateCount },
-      (_, index) => ({
+    const candidates = Array.from(accumulator.candidates.entries())
+      .sort(([left], [right]) => left - right)
+      .map(([index, state]) => ({
         index,
-        finishReason: accumulator.finishReason,
+        finishReason: state.finishReason,
         content: {
           role: "model",
-          parts: index === 0 ? parts : [],
+          parts: state.rawParts,
         },
-      })
-    );
+      }));
 
     return {
       responseId: accumulator.responseId,
@@ -826,21 +1054,55 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
     const supportsSystem = request.settings.supportsSystemMessage !== false;
 
     // Process messages - separate system messages and build conversation contents
-    for (const message of request.messages) {
+    for (const [index, message] of request.messages.entries()) {
       if (message.role === "system") {
         // Collect inline system messages
-        inlineSystemMessages.push(message.content);
+        inlineSystemMessages.push(getMessageText(message.content));
       } else if (message.role === "user") {
         contents.push({
           role: "user",
-          parts: [{ text: message.content }],
+          parts:
+            typeof message.content === "string"
+              ? [{ text: message.content }]
+              : this.formatContentParts(message.content),
         });
       } else if (message.role === "assistant") {
         // Map assistant to model for Gemini
+        const toolCalls = message.toolCalls ?? [];
         contents.push({
           role: "model",
-          parts: [{ text: message.content }],
+          parts: [
+            ...(getMessageText(message.content) || toolCalls.length === 0
+              ? [{ text: getMessageText(message.content) }]
+              : []),
+            ...toolCalls.map((call) => ({
+              functionCall: {
+                name: call.name,
+                args: parseToolArguments(call.arguments),
+              },
+            })),
+          ],
         });
+      } else if (message.role === "tool") {
+        // Gemini pairs function responses with calls by name, and expects all
+        // responses to one model turn in a single user turn.
+        const part = {
+          functionResponse: {
+            name: resolveToolResultName(request.messages, index) ?? "",
+            response: this.createFunctionResponsePayload(
+              getMessageText(message.content)
+            ),
+          },
+        };
+        const previous = contents[contents.length - 1];
+        if (
+          previous?.role === "user" &&
+          previous.parts.every((p: any) => p.functionResponse !== undefined)
+        ) {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: "user", parts: [part] });
+        }
       }
     }
 
@@ -860,9 +1122,10 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       } else {
         // Model doesn't support system instructions - prepend to first user message
         // Create a simple array with role/content for the utility
+        // (a user turn that starts with an image gets a new leading text part)
         const simpleContents = contents.map((c) => ({
           role: c.role,
-          content: c.parts[0].text,
+          content: typeof c.parts[0]?.text === "string" ? c.parts[0].text : [],
         }));
         const modifiedIndex = prependSystemToFirstUserMessage(
           simpleContents,
@@ -871,7 +1134,12 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
         );
         if (modifiedIndex !== -1) {
           // Update the actual contents array
-          contents[modifiedIndex].parts[0].text = simpleContents[modifiedIndex].content;
+          const updated = simpleContents[modifiedIndex].content;
+          if (typeof updated === "string") {
+            contents[modifiedIndex].parts[0].text = updated;
+          } else {
+            contents[modifiedIndex].parts.unshift({ text: updated[0].text });
+          }
           this.logger.debug(
             `Model ${request.modelId} doesn't support system instructions - prepended to first user message`
           );
@@ -891,6 +1159,9 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       ...(request.settings.seed !== undefined && {
         seed: request.settings.seed,
       }),
+      ...(getChoiceCount(request.settings) > 1 && {
+        candidateCount: request.settings.n,
+      }),
       ...(request.settings.stopSequences &&
         request.settings.stopSequences.length > 0 && {
           stopSequences: request.settings.stopSequences,
@@ -954,6 +1225,25 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       generationConfig.responseSchema = this.convertToGeminiSchema(so.schema);
     }
 
+    if (request.settings.tools && request.settings.tools.length > 0) {
+      generationConfig.tools = [
+        {
+          functionDeclarations: request.settings.tools.map((tool) => ({
+            name: tool.name,
+            ...(tool.description !== undefined && {
+              description: tool.description,
+            }),
+            parametersJsonSchema: tool.parameters ?? EMPTY_TOOL_PARAMETERS,
+          })),
+        },
+      ];
+      if (request.settings.toolChoice !== undefined) {
+        generationConfig.toolConfig = {
+          functionCallingConfig: this.mapToolChoice(request.settings.toolChoice),
+        };
+      }
+    }
+
     // Map safety settings from Athanor format to Gemini SDK format
     const safetySettings = request.settings.geminiSafetySettings?.map(
       (setting: GeminiSafetySetting) => ({
@@ -982,8 +1272,46 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
     request: InternalLLMChatRequest,
     semanticParams?: any
   ): LLMResponse {
-    // Extract content from the response object
-    const candidate = response.candidates?.[0];
+    // A response without candidates still yields one empty choice
+    const candidates: any[] =
+      Array.isArray(response.candidates) && response.candidates.length > 0
+        ? response.candidates
+        : [undefined];
+    const normalizedUsage = normalizeUsage(response.usageMetadata, {
+      prompt: ["promptTokenCount"],
+      completion: ["candidatesTokenCount"],
+      total: ["totalTokenCount"],
+      reasoning: ["thoughtsTokenCount"],
+      cacheRead: ["cachedContentTokenCount"],
+      cacheIncludedInPrompt: true,
+    });
+
+    return {
+      id: (response as any).responseId || this.generateResponseId(),
+      provider: request.providerId,
+      model: response.modelUsed || request.modelId,
+      created: (response as any).created || Math.floor(Date.now() / 1000),
+      choices: candidates.map((candidate, position) =>
+        this.createResponseChoice(
+          candidate,
+          getGeminiCandidateIndex(candidate, position),
+          response,
+          request,
+          semanticParams
+        )
+      ),
+      ...normalizedUsage,
+      object: "chat.completion",
+    };
+  }
+
+  private createResponseChoice(
+    candidate: any,
+    index: number,
+    response: any,
+    request: InternalLLMChatRequest,
+    semanticParams?: any
+  ): LLMChoice {
     let content = "";
     let reasoning: string | undefined;
     
@@ -1010,9 +1338,21 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
 
     const rawFinishReason = candidate?.finishReason ?? null;
 
-    const finishReason = this.mapGeminiFinishReason(
-      rawFinishReason
-    );
+    // Gemini has no call IDs on most models, so unassigned calls get
+    // positional IDs that stay stable for the response.
+    const toolCalls: LLMToolCall[] = (candidate?.content?.parts ?? [])
+      .filter((part: any) => part?.functionCall?.name)
+      .map((part: any, position: number) => ({
+        id: part.functionCall.id || createToolCallId(position),
+        name: part.functionCall.name,
+        arguments: stringifyToolArguments(part.functionCall.args),
+      }));
+
+    // Gemini reports STOP for turns that end in function calls
+    const endedWithToolCalls = toolCalls.length > 0 && rawFinishReason === "STOP";
+    const finishReason = endedWithToolCalls
+      ? "tool_calls"
+      : this.mapGeminiFinishReason(rawFinishReason);
 
     const choice: any = {
       message: {
@@ -1029,11 +1369,13 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
         }),
       })),
       finish_reason: finishReason,
-      termination: normalizeTermination(
-        rawFinishReason,
-        rawFinishReason === "MAX_TOKENS" ? "output" : undefined
-      ),
-      index: 0,
+      termination: endedWithToolCalls
+        ? { rawReason: rawFinishReason, kind: "tool_call" }
+        : normalizeTermination(
+            rawFinishReason,
+            rawFinishReason === "MAX_TOKENS" ? "output" : undefined
+          ),
+      index,
     };
 
     // Include reasoning if available and not excluded
@@ -1041,6 +1383,10 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       choice.reasoning = reasoning;
     }
 
+    if (toolCalls.length > 0) {
+      choice.toolCalls = toolCalls;
+    }
+
     const usageMetadata =
       response.usageMetadata as Record<string, unknown> | undefined;
     const candidateCount = Array.isArray(response.candidates)
@@ -1063,21 +1409,66 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       choice.answerAccounting = { providerOutput };
     }
 
-    const normalizedUsage = normalizeUsage(response.usageMetadata, {
-      prompt: ["promptTokenCount"],
-      completion: ["candidatesTokenCount"],
-      total: ["totalTokenCount"],
+    return choice;
+  }
+
+  /**
+   * Maps the provider-neutral tool choice to Gemini's function-calling config
+   */
+  private mapToolChoice(toolChoice: LLMToolChoice): Record<string, unknown> {
+    if (typeof toolChoice === "object") {
+      return { mode: "ANY", allowedFunctionNames: [toolChoice.name] };
+    }
+    switch (toolChoice) {
+      case "none":
+        return { mode: "NONE" };
+      case "required":
+        return { mode: "ANY" };
+      default:
+        return { mode: "AUTO" };
+    }
+  }
+
+  /**
+   * Maps text, image and document parts to Gemini parts. Inline bytes use
+   * inlineData; remote URLs use fileData.
+   */
+  private formatContentParts(parts: readonly LLMContentPart[]): any[] {
+    return parts.map((part) => {
+      if (part.type === "text") {
+        return { text: part.text };
+      }
+      if (part.type === "document") {
+        // PDFs are native; text documents arrive here already converted to text
+        return part.data !== undefined
+          ? { inlineData: { mimeType: "application/pdf", data: getBase64Data(part.data) } }
+          : { text: formatDocumentText(part.text ?? "", part.title) };
+      }
+      const source = resolveImageSource(part);
+      return source.kind === "base64"
+        ? { inlineData: { mimeType: source.mimeType, data: source.data } }
+        : {
+            fileData: {
+              fileUri: source.url,
+              ...(source.mimeType !== undefined && { mimeType: source.mimeType }),
+            },
+          };
     });
+  }
 
-    return {
-      id: (response as any).responseId || this.generateResponseId(),
-      provider: request.providerId,
-      model: response.modelUsed || request.modelId,
-      created: (response as any).created || Math.floor(Date.now() / 1000),
-      choices: [choice],
-      ...normalizedUsage,
-      object: "chat.completion",
-    };
+  /**
+   * Wraps tool result text as the object Gemini requires for functionResponse
+   */
+  private createFunctionResponsePayload(content: string): Record<string, unknown> {
+    try {
+      const parsed: unknown = JSON.parse(content);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+      return { output: parsed };
+    } catch {
+      return { output: content };
+    }
   }
 
   /**
@@ -1115,7 +1506,7 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
    */
   private createErrorResponse(
     error: any,
-    request: InternalLLMChatRequest,
+    request: { providerId: ApiProviderId; modelId?: string },
     context?: { timedOut?: boolean; aborted?: boolean }
   ): LLMFailureResponse {
     // Classify adapter-owned aborts/timeouts first — the SDK surfaces both as
@@ -1210,8 +1601,8 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
    * @returns Gemini-compatible schema object
    */
   private convertToGeminiSchema(schema: any): any {
-    // Gemini now supports standard JSON Schema format
-    // Just pass through with minimal transformation
+    // responseSchema takes the OpenAPI 3.0 subset: unsupported keywords are
+    // rewritten (type arrays, const, oneOf, $ref) or dropped first
     const convertProperty = (prop: any): any => {
       if (!prop || typeof prop !== 'object') {
         return prop;
@@ -1240,6 +1631,6 @@ export class GeminiClientAdapter implements ILLMClientAdapter {
       return result;
     };
 
-    return convertProperty(schema);
+    return convertProperty(downConvertSchema(schema, GEMINI_SCHEMA_DIALECT).schema);
   }
 }
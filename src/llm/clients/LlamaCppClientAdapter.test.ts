@@ -56,9 +56,14 @@ describe('LlamaCppClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         supportsSystemMessage: true,
         systemMessageFallback: { format: 'xml', tagName: 'system', separator: '---' },
         user: '' as any,
@@ -18,7 +18,12 @@ import { getCommonMappedErrorDetails } from "../../shared/adapters/errorUtils";
 import {
   collectSystemContent,
   prependSystemToFirstUserMessage,
+  type GenericMessage,
 } from "../../shared/adapters/systemMessageUtils";
+import {
+  createOpenAIChatContent,
+  getMessageText,
+} from "../../shared/adapters/contentPartUtils";
 import {
   LlamaCppServerClient,
   type LlamaCppModelsResponse,
@@ -26,11 +31,28 @@ import {
 import { detectGgufCapabilities } from "../config";
 import { extractMarkerDelimitedContent } from "../../prompting/parser";
 import { mapOpenAIChatLogprobs } from "../../shared/adapters/logprobsUtils";
+import {
+  createOpenAIChatToolCalls,
+  createOpenAIChatToolChoice,
+  createOpenAIChatTools,
+  endStreamedToolCalls,
+  getCompletedStreamedToolCalls,
+  mapOpenAIChatToolCalls,
+  observeOpenAIChatToolCallDeltas,
+  type StreamedToolCalls,
+} from "../../shared/adapters/toolCallUtils";
 import {
   createProviderOutputAccounting,
   normalizeTermination,
   normalizeUsage,
+  OPENAI_COMPATIBLE_USAGE_ALIASES,
 } from "../../shared/adapters/usageUtils";
+import {
+  getChoiceCount,
+  sendFanOut,
+  streamFanOut,
+  withFanOutSeed,
+} from "../../shared/adapters/fanOutUtils";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import {
@@ -94,6 +116,7 @@ interface LlamaCppStreamChoiceState {
   logprobs: any[];
   prefixBuffer: string;
   prefixPhase: "nothink" | "assistant_prefill" | "passthrough";
+  toolCalls: StreamedToolCalls;
 }
 
 function hasPositiveLlamaCppReasoningTokens(usage: unknown): boolean {
@@ -188,13 +211,18 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
         models,
         selectedModel
       );
+      const detectedCaps = this.detectModelCapabilities(
+        models,
+        selectedModel
+      );
+      // Image input depends on the server's mmproj, not on the GGUF name
+      const supportsImages = props.modalities?.vision === true;
       return {
         kind: "llamacpp-preparation-v1",
         selectedModel,
-        detectedCaps: this.detectModelCapabilities(
-          models,
-          selectedModel
-        ),
+        detectedCaps: supportsImages
+          ? { ...(detectedCaps ?? {}), supportsImages }
+          : detectedCaps,
         ...(stateBinding && { stateBinding }),
       };
     } catch (error) {
@@ -343,6 +371,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
           payload: completionParams as unknown as Record<string, unknown>,
           structuredOutput: request.settings.structuredOutput,
           extensionFields: ["chat_template_kwargs", "grammar"],
+          fanOut: getChoiceCount(request.settings),
         }),
         promptAccounting,
         outputTokenLimit: context.outputTokenLimit,
@@ -424,29 +453,36 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
     const providerRequest =
       prepared.providerRequest as LlamaCppPreparedProviderRequest;
     const request = providerRequest.request;
-    try {
-      const openai = this.createClient(apiKey);
-      const completionParams = structuredClone(
-        providerRequest.completionParams
-      ) as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
-      const transportOptions = this.createTransportOptions(options);
-      const completion =
-        Object.keys(transportOptions).length > 0
-          ? await openai.chat.completions.create(
-              completionParams,
-              transportOptions
-            )
-          : await openai.chat.completions.create(completionParams);
-      return this.createSuccessResponse(
-        completion,
-        request,
-        providerRequest.detectedCaps,
-        providerRequest.assistantPrefill
-      );
-    } catch (error) {
-      this.handleConnectionError(error);
-      return this.createErrorResponse(error, request);
-    }
+    // llama-server only returns one choice per request
+    return sendFanOut(getChoiceCount(request.settings), async (index) => {
+      try {
+        const openai = this.createClient(apiKey);
+        const completionParams = withFanOutSeed(
+          structuredClone(
+            providerRequest.completionParams
+          ) as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+          "seed",
+          index
+        );
+        const transportOptions = this.createTransportOptions(options);
+        const completion =
+          Object.keys(transportOptions).length > 0
+            ? await openai.chat.completions.create(
+                completionParams,
+                transportOptions
+              )
+            : await openai.chat.completions.create(completionParams);
+        return this.createSuccessResponse(
+          completion,
+          request,
+          providerRequest.detectedCaps,
+          providerRequest.assistantPrefill
+        );
+      } catch (error) {
+        this.handleConnectionError(error);
+        return this.createErrorResponse(error, request);
+      }
+    });
   }
 
   async *streamPrepared(
@@ -456,15 +492,21 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
   ): AsyncIterable<AdapterLLMStreamEvent> {
     const providerRequest =
       prepared.providerRequest as LlamaCppPreparedProviderRequest;
-    yield* this.streamCompletion(
-      providerRequest.request,
-      structuredClone(
-        providerRequest.completionParams
-      ) as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
-      providerRequest.detectedCaps,
-      providerRequest.assistantPrefill,
-      apiKey,
-      options
+    yield* streamFanOut(getChoiceCount(providerRequest.request.settings), (index) =>
+      this.streamCompletion(
+        providerRequest.request,
+        withFanOutSeed(
+          structuredClone(
+            providerRequest.completionParams
+          ) as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
+          "seed",
+          index
+        ),
+        providerRequest.detectedCaps,
+        providerRequest.assistantPrefill,
+        apiKey,
+        options
+      )
     );
   }
 
@@ -668,11 +710,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
           usage = chunk.usage;
           const normalized = normalizeUsage(
             chunk.usage as unknown as Record<string, unknown>,
-            {
-              prompt: ["prompt_tokens"],
-              completion: ["completion_tokens"],
-              total: ["total_tokens"],
-            }
+            OPENAI_COMPATIBLE_USAGE_ALIASES
           );
           if (normalized.usage) {
             evidenceEvents.push({
@@ -715,6 +753,13 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
           ) {
             state.hasGeneratedOutput = true;
           }
+          publicEvents.push(
+            ...observeOpenAIChatToolCallDeltas(
+              state.toolCalls,
+              choice.index,
+              delta?.tool_calls
+            )
+          );
           const reasoningDelta = delta?.reasoning_content ?? delta?.reasoning;
           if (typeof reasoningDelta === "string" && reasoningDelta.length > 0) {
             state.reasoningContent += reasoningDelta;
@@ -776,6 +821,11 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
           if (mappedLogprobs) {
             state.logprobs.push(...((choice.logprobs as any)?.content || []));
           }
+          if (choice.finish_reason != null) {
+            publicEvents.push(
+              ...endStreamedToolCalls(state.toolCalls, choice.index)
+            );
+          }
         }
 
         if (chunk.usage && choiceStates.size === 1) {
@@ -837,6 +887,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
             index,
           };
         }
+        yield* endStreamedToolCalls(state.toolCalls, index);
       }
 
       const response = this.createSuccessResponse(
@@ -901,11 +952,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
       } else if (usage) {
         const normalizedUsage = normalizeUsage(
           usage as unknown as Record<string, unknown>,
-          {
-            prompt: ["prompt_tokens"],
-            completion: ["completion_tokens"],
-            total: ["total_tokens"],
-          }
+          OPENAI_COMPATIBLE_USAGE_ALIASES
         );
         errorResponse.partialResponse = {
           id: responseId,
@@ -993,6 +1040,15 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
       }),
     } as OpenAI.Chat.Completions.ChatCompletionCreateParams;
 
+    if (request.settings.tools && request.settings.tools.length > 0) {
+      completionParams.tools = createOpenAIChatTools(request.settings.tools) as any;
+      if (request.settings.toolChoice !== undefined) {
+        completionParams.tool_choice = createOpenAIChatToolChoice(
+          request.settings.toolChoice
+        );
+      }
+    }
+
     if (
       request.settings.structuredOutput?.schema &&
       request.settings.structuredOutput.enabled !== false &&
@@ -1101,6 +1157,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
         logprobs: [],
         prefixBuffer: "",
         prefixPhase: "nothink",
+        toolCalls: new Map(),
       };
       states.set(index, state);
     }
@@ -1225,20 +1282,26 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
   ): OpenAI.Chat.Completions.ChatCompletion {
     const choices = Array.from(choiceStates.entries())
       .sort(([a], [b]) => a - b)
-      .map(([index, state]) => ({
-        index,
-        message: {
-          role: "assistant" as const,
-          content: state.content,
-          ...(state.reasoningContent && {
-            reasoning_content: state.reasoningContent,
+      .map(([index, state]) => {
+        const toolCalls = getCompletedStreamedToolCalls(state.toolCalls);
+        return {
+          index,
+          message: {
+            role: "assistant" as const,
+            content: state.content,
+            ...(state.reasoningContent && {
+              reasoning_content: state.reasoningContent,
+            }),
+            ...(toolCalls.length > 0 && {
+              tool_calls: createOpenAIChatToolCalls(toolCalls),
+            }),
+          },
+          finish_reason: state.finishReason,
+          ...(state.logprobs.length > 0 && {
+            logprobs: { content: state.logprobs },
           }),
-        },
-        finish_reason: state.finishReason,
-        ...(state.logprobs.length > 0 && {
-          logprobs: { content: state.logprobs },
-        }),
-      }));
+        };
+      });
 
     return {
       id: id || `llamacpp-stream-${Date.now()}`,
@@ -1307,16 +1370,30 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
     for (const message of request.messages) {
       if (message.role === "system") {
         // Collect inline system messages
-        inlineSystemMessages.push(message.content);
+        inlineSystemMessages.push(getMessageText(message.content));
       } else if (message.role === "user") {
         messages.push({
           role: "user",
-          content: message.content,
+          content: createOpenAIChatContent(message.content),
         });
       } else if (message.role === "assistant") {
+        messages.push(
+          message.toolCalls && message.toolCalls.length > 0
+            ? {
+                role: "assistant",
+                content: getMessageText(message.content) || null,
+                tool_calls: createOpenAIChatToolCalls(message.toolCalls),
+              }
+            : {
+                role: "assistant",
+                content: getMessageText(message.content),
+              }
+        );
+      } else if (message.role === "tool") {
         messages.push({
-          role: "assistant",
-          content: message.content,
+          role: "tool",
+          tool_call_id: message.toolCallId!,
+          content: getMessageText(message.content),
         });
       }
     }
@@ -1339,7 +1416,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
         // Model doesn't support system messages - prepend to first user message
         const simpleMessages = messages.map((m) => ({
           role: m.role,
-          content: m.content as string,
+          content: m.content as GenericMessage["content"],
         }));
         const modifiedIndex = prependSystemToFirstUserMessage(
           simpleMessages,
@@ -1347,7 +1424,8 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
           request.settings.systemMessageFallback
         );
         if (modifiedIndex !== -1) {
-          messages[modifiedIndex].content = simpleMessages[modifiedIndex].content;
+          messages[modifiedIndex].content = simpleMessages[modifiedIndex]
+            .content as OpenAI.Chat.Completions.ChatCompletionUserMessageParam["content"];
           this.logger.debug(
             `Model ${request.modelId} doesn't support system messages - prepended to first user message`
           );
@@ -1390,11 +1468,7 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
 
     const normalizedUsage = normalizeUsage(
       completion.usage as unknown as Record<string, unknown> | undefined,
-      {
-        prompt: ["prompt_tokens"],
-        completion: ["completion_tokens"],
-        total: ["total_tokens"],
-      }
+      OPENAI_COMPATIBLE_USAGE_ALIASES
     );
 
     return {
@@ -1469,6 +1543,11 @@ export class LlamaCppClientAdapter implements ILLMClientAdapter {
           mappedChoice.logprobs = logprobs;
         }
 
+        const toolCalls = mapOpenAIChatToolCalls(c.message.tool_calls);
+        if (toolCalls) {
+          mappedChoice.toolCalls = toolCalls;
+        }
+
         const providerOutput = createProviderOutputAccounting({
           source:
             completion.usage as unknown as
@@ -122,6 +122,21 @@ describe("LlamaCppClientAdapter prepared state", () => {
     ).toBe(false);
   });
 
+  it("reports image support when the server has a vision projector", async () => {
+    const { adapter, server } = adapterWithServer();
+    expect(
+      (await adapter.getPreparationSnapshot("llamacpp")).detectedCaps
+    ).toBeNull();
+
+    server.getProps.mockResolvedValue({
+      ...baseProps,
+      modalities: { vision: true, audio: false },
+    });
+    const snapshot = await adapter.getPreparationSnapshot("llamacpp");
+
+    expect(snapshot.detectedCaps).toEqual({ supportsImages: true });
+  });
+
   it("prepares and exactly counts empty system/user messages", async () => {
     const { adapter, server } = adapterWithServer();
     const empty = request(false);
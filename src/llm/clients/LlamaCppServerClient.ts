@@ -54,6 +54,8 @@ export interface LlamaCppPropsResponse {
   bos_token?: string;
   eos_token?: string;
   build_info?: Record<string, unknown> | string;
+  /** Input modalities; `vision` is true when a multimodal projector (mmproj) is loaded */
+  modalities?: { vision?: boolean; audio?: boolean };
   [key: string]: unknown;
 }
 
@@ -48,9 +48,14 @@ describe('MistralClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         stopSequences: [],
         user: undefined as any,
         geminiSafetySettings: [],
@@ -705,4 +710,76 @@ describe('MistralClientAdapter', () => {
       expect(info.baseURL).toBe('https://custom.api.com');
     });
   });
+
+  describe('tool calling', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      parameters: {
+        type: 'object' as const,
+        properties: { city: { type: 'string' as const } },
+      },
+    };
+
+    it('should send camelCase tool fields and map tool calls', async () => {
+      mockComplete.mockResolvedValueOnce({
+        id: 'mistral-tools',
+        model: 'mistral-small-latest',
+        created: 1234567890,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{
+              id: 'abc123xyz',
+              type: 'function',
+              function: { name: 'get_weather', arguments: { city: 'Oslo' } },
+            }],
+          },
+          finishReason: 'tool_calls',
+        }],
+      });
+
+      const response = await adapter.sendMessage({
+        ...basicRequest,
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call00001', name: 'get_weather', arguments: '{"city":"Paris"}' }],
+          },
+          { role: 'tool', toolCallId: 'call00001', content: '21C' },
+        ],
+        settings: {
+          ...basicRequest.settings,
+          tools: [weatherTool],
+          toolChoice: 'auto',
+        },
+      }, 'test-api-key') as LLMResponse;
+
+      const params = mockComplete.mock.calls[0][0];
+      expect(params.tools).toEqual([{
+        type: 'function',
+        function: { name: 'get_weather', parameters: weatherTool.parameters },
+      }]);
+      expect(params.toolChoice).toBe('auto');
+      expect(params.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{
+            id: 'call00001',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          }],
+        },
+        { role: 'tool', content: '21C', toolCallId: 'call00001', name: 'get_weather' },
+      ]);
+      expect(response.choices[0].toolCalls).toEqual([
+        { id: 'abc123xyz', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+      ]);
+      expect(response.choices[0].termination?.kind).toBe('tool_call');
+    });
+  });
 });
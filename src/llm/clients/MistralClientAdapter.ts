@@ -23,6 +23,28 @@ import {
   collectSystemContent,
   prependSystemToFirstUserMessage,
 } from "../../shared/adapters/systemMessageUtils";
+import {
+  createImageUrl,
+  formatDocumentText,
+  getMessageText,
+} from "../../shared/adapters/contentPartUtils";
+import {
+  createOpenAIChatToolCalls,
+  createOpenAIChatToolChoice,
+  createOpenAIChatTools,
+  endStreamedToolCalls,
+  getCompletedStreamedToolCalls,
+  mapOpenAIChatToolCalls,
+  observeOpenAIChatToolCallDeltas,
+  resolveToolResultName,
+  type StreamedToolCalls,
+} from "../../shared/adapters/toolCallUtils";
+import {
+  getChoiceCount,
+  sendFanOut,
+  streamFanOut,
+  withFanOutSeed,
+} from "../../shared/adapters/fanOutUtils";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import {
@@ -32,6 +54,20 @@ import {
   toPreparedRequestValue,
 } from "./preparedAdapterUtils";
 
+/** Content chunk in the Mistral SDK's camelCase request shape. */
+type MistralContentChunk =
+  | { type: "text"; text: string }
+  | { type: "image_url"; imageUrl: string };
+
+/** Chat message in the Mistral SDK's camelCase request shape. */
+interface MistralMessage {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string | MistralContentChunk[];
+  toolCalls?: ReturnType<typeof createOpenAIChatToolCalls>;
+  toolCallId?: string;
+  name?: string;
+}
+
 interface MistralPreparedRequest {
   mistral: Mistral;
   requestOptions: any;
@@ -51,6 +87,7 @@ interface MistralStreamChoiceState {
   hasGeneratedOutput: boolean;
   finishReason: string | null;
   rawContentParts: unknown[];
+  toolCalls: StreamedToolCalls;
 }
 
 function hasMistralGeneratedContent(content: unknown): boolean {
@@ -163,6 +200,7 @@ export class MistralClientAdapter implements ILLMClientAdapter {
             mode: context.mode,
             payload: requestOptions,
             structuredOutput: request.settings.structuredOutput,
+            fanOut: getChoiceCount(request.settings),
           }),
           promptAccounting: { status: "unavailable" },
           outputTokenLimit: context.outputTokenLimit,
@@ -185,19 +223,25 @@ export class MistralClientAdapter implements ILLMClientAdapter {
     const providerRequest =
       prepared.providerRequest as MistralPreparedProviderRequest;
     const request = providerRequest.request;
-    try {
-      const mistral = this.createClient(apiKey);
-      const requestOptions = structuredClone(providerRequest.requestOptions);
-      const transportOptions = this.createTransportOptions(options);
-      const completion =
-        Object.keys(transportOptions).length > 0
-          ? await mistral.chat.complete(requestOptions as any, transportOptions as any)
-          : await mistral.chat.complete(requestOptions as any);
-      return this.createSuccessResponse(completion, request);
-    } catch (error) {
-      this.logger.error("Mistral prepared API error:", error);
-      return this.createErrorResponse(error, request);
-    }
+    return sendFanOut(getChoiceCount(request.settings), async (index) => {
+      try {
+        const mistral = this.createClient(apiKey);
+        const requestOptions = withFanOutSeed(
+          structuredClone(providerRequest.requestOptions),
+          "randomSeed",
+          index
+        );
+        const transportOptions = this.createTransportOptions(options);
+        const completion =
+          Object.keys(transportOptions).length > 0
+            ? await mistral.chat.complete(requestOptions as any, transportOptions as any)
+            : await mistral.chat.complete(requestOptions as any);
+        return this.createSuccessResponse(completion, request);
+      } catch (error) {
+        this.logger.error("Mistral prepared API error:", error);
+        return this.createErrorResponse(error, request);
+      }
+    });
   }
 
   async *streamPrepared(
@@ -207,11 +251,17 @@ export class MistralClientAdapter implements ILLMClientAdapter {
   ): AsyncIterable<AdapterLLMStreamEvent> {
     const providerRequest =
       prepared.providerRequest as MistralPreparedProviderRequest;
-    yield* this.streamCompletion(
-      providerRequest.request,
-      structuredClone(providerRequest.requestOptions),
-      apiKey,
-      options
+    yield* streamFanOut(getChoiceCount(providerRequest.request.settings), (index) =>
+      this.streamCompletion(
+        providerRequest.request,
+        withFanOutSeed(
+          structuredClone(providerRequest.requestOptions),
+          "randomSeed",
+          index
+        ),
+        apiKey,
+        options
+      )
     );
   }
 
@@ -443,6 +493,22 @@ export class MistralClientAdapter implements ILLMClientAdapter {
               index,
             });
           }
+
+          const toolCallDeltas =
+            choice.delta?.toolCalls ?? choice.delta?.tool_calls;
+          if (Array.isArray(toolCallDeltas) && toolCallDeltas.length > 0) {
+            state.hasGeneratedOutput = true;
+          }
+          publicEvents.push(
+            ...observeOpenAIChatToolCallDeltas(
+              state.toolCalls,
+              index,
+              toolCallDeltas
+            )
+          );
+          if (rawFinishReason != null) {
+            publicEvents.push(...endStreamedToolCalls(state.toolCalls, index));
+          }
         }
 
         if (
@@ -492,6 +558,9 @@ export class MistralClientAdapter implements ILLMClientAdapter {
         }
       }
 
+      for (const [index, state] of choiceStates) {
+        yield* endStreamedToolCalls(state.toolCalls, index);
+      }
       const response = this.createSuccessResponse(
         this.createSyntheticCompletion(request, responseId, responseModel, created, choiceStates, usage),
         request
@@ -600,6 +669,16 @@ export class MistralClientAdapter implements ILLMClientAdapter {
       // Note: Mistral does not support frequency_penalty or presence_penalty
     };
 
+    if (request.settings.tools && request.settings.tools.length > 0) {
+      requestOptions.tools = createOpenAIChatTools(request.settings.tools);
+      if (request.settings.toolChoice !== undefined) {
+        // Mistral accepts the OpenAI-style choices, including "required"
+        requestOptions.toolChoice = createOpenAIChatToolChoice(
+          request.settings.toolChoice
+        );
+      }
+    }
+
     // Handle structured output configuration for Mistral
     // Mistral only supports json_object mode, no schema validation
     if (
@@ -644,6 +723,7 @@ export class MistralClientAdapter implements ILLMClientAdapter {
         hasGeneratedOutput: false,
         finishReason: null,
         rawContentParts: [],
+        toolCalls: new Map(),
       };
       states.set(index, state);
     }
@@ -689,18 +769,24 @@ export class MistralClientAdapter implements ILLMClientAdapter {
   ): any {
     const choices = Array.from(choiceStates.entries())
       .sort(([a], [b]) => a - b)
-      .map(([index, state]) => ({
-        index,
-        message: {
-          role: "assistant",
-          content:
-            state.rawContentParts.length > 0
-              ? state.rawContentParts
-              : state.content,
-          ...(state.reasoning && { reasoning: state.reasoning }),
-        },
-        finishReason: state.finishReason,
-      }));
+      .map(([index, state]) => {
+        const toolCalls = getCompletedStreamedToolCalls(state.toolCalls);
+        return {
+          index,
+          message: {
+            role: "assistant",
+            content:
+              state.rawContentParts.length > 0
+                ? state.rawContentParts
+                : state.content,
+            ...(state.reasoning && { reasoning: state.reasoning }),
+            ...(toolCalls.length > 0 && {
+              toolCalls: createOpenAIChatToolCalls(toolCalls),
+            }),
+          },
+          finishReason: state.finishReason,
+        };
+      });
 
     return {
       id: id || `mistral-stream-${Date.now()}`,
@@ -732,27 +818,50 @@ export class MistralClientAdapter implements ILLMClientAdapter {
    */
   private formatMessages(
     request: InternalLLMChatRequest
-  ): Array<{ role: "user" | "assistant" | "system"; content: string }> {
-    const messages: Array<{ role: "user" | "assistant" | "system"; content: string }> = [];
+  ): MistralMessage[] {
+    const messages: MistralMessage[] = [];
     const inlineSystemMessages: string[] = [];
 
     // Mistral supports system messages natively
     const supportsSystem = request.settings.supportsSystemMessage !== false;
 
     // Add conversation messages (collecting system messages separately)
-    for (const message of request.messages) {
+    for (const [index, message] of request.messages.entries()) {
       if (message.role === "system") {
         // Collect inline system messages
-        inlineSystemMessages.push(message.content);
+        inlineSystemMessages.push(getMessageText(message.content));
       } else if (message.role === "user") {
         messages.push({
           role: "user",
-          content: message.content,
+          content:
+            typeof message.content === "string"
+              ? message.content
+              : message.content.map((part): MistralContentChunk => {
+                  if (part.type === "image") {
+                    return { type: "image_url", imageUrl: createImageUrl(part) };
+                  }
+                  // Documents arrive here already converted to text by LLMService
+                  return part.type === "text"
+                    ? { type: "text", text: part.text }
+                    : { type: "text", text: formatDocumentText(part.text ?? "", part.title) };
+                }),
         });
       } else if (message.role === "assistant") {
         messages.push({
           role: "assistant",
-          content: message.content,
+          content: getMessageText(message.content),
+          ...(message.toolCalls &&
+            message.toolCalls.length > 0 && {
+              toolCalls: createOpenAIChatToolCalls(message.toolCalls),
+            }),
+        });
+      } else if (message.role === "tool") {
+        const name = resolveToolResultName(request.messages, index);
+        messages.push({
+          role: "tool",
+          content: getMessageText(message.content),
+          toolCallId: message.toolCallId!,
+          ...(name && { name }),
         });
       }
     }
@@ -868,6 +977,13 @@ export class MistralClientAdapter implements ILLMClientAdapter {
           responseChoice.reasoning = reasoning;
         }
 
+        const toolCalls = mapOpenAIChatToolCalls(
+          c.message?.toolCalls ?? c.message?.tool_calls
+        );
+        if (toolCalls) {
+          responseChoice.toolCalls = toolCalls;
+        }
+
         const providerOutput = createProviderOutputAccounting({
           source: completion.usage,
           directFields: ["completionTokens", "completion_tokens"],
@@ -875,7 +991,8 @@ export class MistralClientAdapter implements ILLMClientAdapter {
           hasGeneratedOutput:
             rawContent.length > 0 ||
             Boolean(reasoning) ||
-            hasMistralGeneratedContent(providerContent),
+            hasMistralGeneratedContent(providerContent) ||
+            toolCalls !== undefined,
           reasoning: "unknown",
         });
         if (providerOutput) {
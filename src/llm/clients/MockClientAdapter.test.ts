@@ -23,9 +23,14 @@ describe('MockClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         stopSequences: [],
         user: 'test-user',
         geminiSafetySettings: [],
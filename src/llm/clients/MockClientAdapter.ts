@@ -6,6 +6,7 @@ import type {
   LLMFailureResponse,
   ApiProviderId,
   LLMSettings,
+  LLMToolCall,
 } from "../types";
 import type {
   ILLMClientAdapter,
@@ -19,6 +20,7 @@ import type {
 } from "./types";
 import { ADAPTER_ERROR_CODES } from "./types";
 import { normalizeTermination } from "../../shared/adapters/usageUtils";
+import { getMessageText } from "../../shared/adapters/contentPartUtils";
 import {
   applyPromptStructuredOutput,
   createPreparedRequestView,
@@ -78,7 +80,7 @@ export class MockClientAdapter implements ILLMClientAdapter {
           count: {
             tokens: Math.ceil(
               request.messages.reduce(
-                (total, message) => total + message.content.length,
+                (total, message) => total + getMessageText(message.content).length,
                 0
               ) / 4
             ),
@@ -87,7 +89,7 @@ export class MockClientAdapter implements ILLMClientAdapter {
             tokenProfileRevision: MOCK_HEURISTIC_REVISION,
             uncertaintyTokens: Math.ceil(
               request.messages.reduce(
-                (total, message) => total + message.content.length,
+                (total, message) => total + getMessageText(message.content).length,
                 0
               ) / 8
             ),
@@ -155,7 +157,7 @@ export class MockClientAdapter implements ILLMClientAdapter {
     try {
       // Check for special test patterns in the last user message
       const lastMessage = request.messages[request.messages.length - 1];
-      const originalContent = lastMessage?.content || "";
+      const originalContent = lastMessage ? getMessageText(lastMessage.content) : "";
       const content = originalContent.toLowerCase();
 
       // Simulate various error conditions based on message content
@@ -361,6 +363,21 @@ export class MockClientAdapter implements ILLMClientAdapter {
       };
     }
 
+    for (const [toolCallIndex, toolCall] of (choice?.toolCalls ?? []).entries()) {
+      const index = choice?.index ?? 0;
+      yield {
+        type: "tool_call_start",
+        index,
+        toolCallIndex,
+        id: toolCall.id,
+        name: toolCall.name,
+      };
+      for (const delta of toolCall.arguments.match(/.{1,16}/gs) || []) {
+        yield { type: "tool_call_arguments_delta", index, toolCallIndex, delta };
+      }
+      yield { type: "tool_call_end", index, toolCallIndex };
+    }
+
     if (response.usage) {
       yield {
         type: "usage",
@@ -393,6 +410,33 @@ export class MockClientAdapter implements ILLMClientAdapter {
     };
   }
 
+  /**
+   * Creates a mock tool call for the "tool_call:" pattern when tools are enabled.
+   * Calls the tool named by toolChoice, or the first tool, with the JSON after the marker.
+   */
+  private createMockToolCalls(
+    request: InternalLLMChatRequest,
+    userContent: string,
+    originalContent: string
+  ): LLMToolCall[] | undefined {
+    const tools = request.settings.tools;
+    if (
+      !userContent.includes("tool_call:") ||
+      !tools ||
+      tools.length === 0 ||
+      request.settings.toolChoice === "none"
+    ) {
+      return undefined;
+    }
+    const toolChoice = request.settings.toolChoice;
+    const name =
+      typeof toolChoice === "object" ? toolChoice.name : tools[0].name;
+    const startIndex =
+      originalContent.indexOf("tool_call:") + "tool_call:".length;
+    const args = originalContent.substring(startIndex).trim();
+    return [{ id: "mock-call-0", name, arguments: args || "{}" }];
+  }
+
   /**
    * Creates a successful mock response
    */
@@ -423,6 +467,9 @@ export class MockClientAdapter implements ILLMClientAdapter {
       // Extract content after "json:" for testing structured output parsing
       const startIndex = originalContent.indexOf("json:") + "json:".length;
       responseContent = originalContent.substring(startIndex).trim();
+    } else if (userContent.includes("tool_call:")) {
+      // Tool calls carry no text; arguments come from the text after "tool_call:"
+      responseContent = "";
     } else if (userContent.includes("empty:")) {
       // Return empty content for testing empty response handling
       responseContent = "";
@@ -478,7 +525,10 @@ export class MockClientAdapter implements ILLMClientAdapter {
 
     const mockTokenCount = Math.floor(responseContent.length / 4); // Rough token estimation
     const promptTokenCount = Math.floor(
-      request.messages.reduce((acc: number, msg: any) => acc + msg.content.length, 0) / 4
+      request.messages.reduce(
+        (acc: number, msg: any) => acc + getMessageText(msg.content).length,
+        0
+      ) / 4
     );
 
     // Determine finish reason
@@ -493,6 +543,11 @@ export class MockClientAdapter implements ILLMClientAdapter {
       finishReason = "stop";
     }
 
+    const toolCalls = this.createMockToolCalls(request, userContent, originalContent);
+    if (toolCalls) {
+      finishReason = "tool_calls";
+    }
+
     // Check if we need to add reasoning to the response
     const isReasoningTest = userContent.includes("test_reasoning:");
     const rawContentAccounting = {
@@ -526,6 +581,10 @@ export class MockClientAdapter implements ILLMClientAdapter {
       choice.reasoning = "Initial model reasoning from native capabilities.";
     }
 
+    if (toolCalls) {
+      choice.toolCalls = toolCalls;
+    }
+
     if (request.settings.logprobs === true) {
       const alternatives = [
         { token: responseContent, logprob: Math.log(0.7) },
@@ -51,9 +51,14 @@ describe('OpenAIClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         stopSequences: [],
         user: 'test-user',
         geminiSafetySettings: [],
@@ -188,6 +193,32 @@ describe('OpenAIClientAdapter', () => {
       expect(params).not.toHaveProperty('repeat_penalty');
     });
 
+    it('should request n choices and map every returned choice', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'chatcmpl-n',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4.1',
+        choices: [
+          { index: 0, message: { role: 'assistant', content: 'A' }, finish_reason: 'stop' },
+          { index: 1, message: { role: 'assistant', content: 'B' }, finish_reason: 'length' },
+        ],
+        usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 }
+      });
+
+      basicRequest.settings.n = 2;
+      const response = await adapter.sendMessage(basicRequest, 'test-api-key') as LLMResponse;
+
+      expect(mockCreate.mock.calls[0][0].n).toBe(2);
+      expect(response.choices.map((choice) => [choice.index, choice.message.content, choice.finish_reason])).toEqual([
+        [0, 'A', 'stop'],
+        [1, 'B', 'length'],
+      ]);
+      // Aggregate completion tokens cannot be attributed to one choice
+      expect(response.choices[0].answerAccounting).toBeUndefined();
+      expect(response.usage).toMatchObject({ completion_tokens: 4 });
+    });
+
     it('should request and map logprobs', async () => {
       mockCreate.mockResolvedValueOnce({
         id: 'chatcmpl-lp',
@@ -924,4 +955,249 @@ describe('OpenAIClientAdapter', () => {
       // supportedModels is not part of the interface
     });
   });
+
+  describe('tool calling', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      parameters: {
+        type: 'object' as const,
+        properties: { city: { type: 'string' as const } },
+        required: ['city'],
+      },
+    };
+
+    it('should send tools, tool choice, and replayed tool turns', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'chatcmpl-tools',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4.1',
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: 'It is sunny.' },
+          finish_reason: 'stop',
+        }],
+      });
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }],
+          },
+          { role: 'tool', toolCallId: 'call_1', content: '{"temp":21}' },
+        ],
+        settings: {
+          ...basicRequest.settings,
+          tools: [weatherTool],
+          toolChoice: { name: 'get_weather' },
+        },
+      }, 'test-api-key');
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.tools).toEqual([{
+        type: 'function',
+        function: {
+          name: 'get_weather',
+          description: 'Get the weather for a city',
+          parameters: weatherTool.parameters,
+        },
+      }]);
+      expect(params.tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'get_weather' },
+      });
+      expect(params.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"temp":21}' },
+      ]);
+    });
+
+    it('should map tool calls from the response', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'chatcmpl-tools',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4.1',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{
+              id: 'call_abc',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+            }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+      const response = await adapter.sendMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key') as LLMResponse;
+
+      expect(response.object).toBe('chat.completion');
+      expect(response.choices[0].message.content).toBe('');
+      expect(response.choices[0].toolCalls).toEqual([
+        { id: 'call_abc', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      ]);
+      expect(response.choices[0].termination?.kind).toBe('tool_call');
+    });
+
+    const toolCallChunk = (toolCalls: any[], finishReason: string | null = null) => ({
+      id: 'chatcmpl-tool-stream',
+      object: 'chat.completion.chunk',
+      created: 1234567890,
+      model: 'gpt-4.1',
+      choices: [{ index: 0, delta: { tool_calls: toolCalls }, finish_reason: finishReason }],
+    });
+
+    it('should stream tool-call events and include the calls in the final response', async () => {
+      mockCreate.mockResolvedValueOnce(streamFrom([
+        toolCallChunk([{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '' } }]),
+        toolCallChunk([{ index: 0, function: { arguments: '{"city":' } }]),
+        toolCallChunk([{ index: 0, function: { arguments: '"Paris"}' } }]),
+        toolCallChunk([{ index: 1, id: 'call_b', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } }]),
+        toolCallChunk([], 'tool_calls'),
+      ]));
+
+      const collected: any[] = [];
+      for await (const event of adapter.streamMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key')) {
+        collected.push(event);
+      }
+
+      expect(collected.filter((event) => event.type.startsWith('tool_call_'))).toEqual([
+        { type: 'tool_call_start', index: 0, toolCallIndex: 0, id: 'call_a', name: 'get_weather' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 0, delta: '{"city":' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 0, delta: '"Paris"}' },
+        { type: 'tool_call_end', index: 0, toolCallIndex: 0 },
+        { type: 'tool_call_start', index: 0, toolCallIndex: 1, id: 'call_b', name: 'get_weather' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 1, delta: '{"city":"Rome"}' },
+        { type: 'tool_call_end', index: 0, toolCallIndex: 1 },
+      ]);
+      const complete = collected[collected.length - 1];
+      expect(complete.type).toBe('complete');
+      expect(complete.response.choices[0].toolCalls).toEqual([
+        { id: 'call_a', name: 'get_weather', arguments: '{"city":"Paris"}' },
+        { id: 'call_b', name: 'get_weather', arguments: '{"city":"Rome"}' },
+      ]);
+      expect(complete.response.choices[0].finish_reason).toBe('tool_calls');
+    });
+
+    it('should keep only completed tool calls in a failed stream partial', async () => {
+      mockCreate.mockResolvedValueOnce(streamFrom([
+        toolCallChunk([{ index: 0, id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]),
+        toolCallChunk([{ index: 1, id: 'call_b', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } }]),
+      ], new Error('connection reset')));
+
+      const collected: any[] = [];
+      for await (const event of adapter.streamMessage({
+        ...basicRequest,
+        settings: { ...basicRequest.settings, tools: [weatherTool] },
+      }, 'test-api-key')) {
+        collected.push(event);
+      }
+
+      const terminal = collected[collected.length - 1];
+      expect(terminal.type).toBe('error');
+      expect(terminal.error.partialResponse.choices[0].toolCalls).toEqual([
+        { id: 'call_a', name: 'get_weather', arguments: '{"city":"Paris"}' },
+      ]);
+    });
+  });
+
+  describe('image content parts', () => {
+    it('should send text and image parts as chat content parts', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'chatcmpl-image',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4.1',
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: 'A cat.' },
+          finish_reason: 'stop',
+        }],
+      });
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' },
+            { type: 'image', url: 'https://example.com/cat.jpg' },
+          ],
+        }],
+      }, 'test-api-key');
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.messages).toEqual([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } },
+        ],
+      }]);
+    });
+  });
+
+  describe('document content parts', () => {
+    it('should send PDFs as file parts', async () => {
+      mockCreate.mockResolvedValueOnce({
+        id: 'chatcmpl-document',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4.1',
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: 'Summary.' },
+          finish_reason: 'stop',
+        }],
+      });
+
+      await adapter.sendMessage({
+        ...basicRequest,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Summarize this.' },
+            { type: 'document', data: 'JVBERi0xLjc=', title: 'report.pdf' },
+          ],
+        }],
+      }, 'test-api-key');
+
+      expect(mockCreate.mock.calls[0][0].messages[0].content).toEqual([
+        { type: 'text', text: 'Summarize this.' },
+        {
+          type: 'file',
+          file: {
+            filename: 'report.pdf',
+            file_data: 'data:application/pdf;base64,JVBERi0xLjc=',
+          },
+        },
+      ]);
+    });
+  });
 });
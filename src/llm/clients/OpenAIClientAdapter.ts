@@ -1,9 +1,17 @@
 // AI Summary: OpenAI client adapter for making real API calls to OpenAI's chat completions endpoint.
 // Handles request formatting, response parsing, and error mapping to standardized format.
 
-import OpenAI from "openai";
-import type { LLMResponse, LLMFailureResponse } from "../types";
+import OpenAI, { toFile } from "openai";
 import type {
+  ApiProviderId,
+  LLMBatchJob,
+  LLMChoice,
+  LLMResponse,
+  LLMFailureResponse,
+} from "../types";
+import type {
+  AdapterBatchItem,
+  AdapterBatchItemResult,
   ILLMClientAdapter,
   InternalLLMChatRequest,
   AdapterRequestOptions,
@@ -14,17 +22,43 @@ import type {
 } from "./types";
 import { ADAPTER_ERROR_CODES } from "./types";
 import { getCommonMappedErrorDetails } from "../../shared/adapters/errorUtils";
+import {
+  createUnprocessedBatchItemFailure,
+  parseJsonLines,
+  unixSecondsToIso,
+} from "../../shared/adapters/batchUtils";
+import { getChoiceCount } from "../../shared/adapters/fanOutUtils";
 import { mapOpenAIChatLogprobs } from "../../shared/adapters/logprobsUtils";
+import {
+  createOpenAIChatToolCalls,
+  createOpenAIChatToolChoice,
+  createOpenAIChatTools,
+  endStreamedToolCalls,
+  getCompletedStreamedToolCalls,
+  mapOpenAIChatToolCalls,
+  observeOpenAIChatToolCallDeltas,
+  type StreamedToolCalls,
+} from "../../shared/adapters/toolCallUtils";
 import {
   createProviderOutputAccounting,
   normalizeTermination,
   normalizeUsage,
+  OPENAI_COMPATIBLE_USAGE_ALIASES,
 } from "../../shared/adapters/usageUtils";
-import { applyStrictSchemaConstraints } from "../../shared/adapters/schemaUtils";
+import {
+  applyStrictSchemaConstraints,
+  downConvertSchema,
+  OPENAI_STRICT_SCHEMA_DIALECT,
+} from "../../shared/adapters/schemaUtils";
 import {
   collectSystemContent,
   prependSystemToFirstUserMessage,
+  type GenericMessage,
 } from "../../shared/adapters/systemMessageUtils";
+import {
+  createOpenAIChatContent,
+  getMessageText,
+} from "../../shared/adapters/contentPartUtils";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import {
@@ -43,6 +77,8 @@ interface OpenAIPreparedProviderRequest {
   completionParams: OpenAI.Chat.Completions.ChatCompletionCreateParams;
 }
 
+const OPENAI_BATCH_ENDPOINT = "/v1/chat/completions";
+
 const OPENAI_ADAPTER_REVISION = "openai-adapter-v1";
 const OPENAI_REQUEST_SHAPE_REVISION = "openai-chat-completions-v1";
 
@@ -52,6 +88,7 @@ interface OpenAIStreamChoiceState {
   hasGeneratedOutput: boolean;
   finishReason: string | null;
   logprobs: any[];
+  toolCalls: StreamedToolCalls;
 }
 
 function hasPositiveOpenAIReasoningTokens(usage: unknown): boolean {
@@ -119,6 +156,9 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
             mode: context.mode,
             payload: completionParams as unknown as Record<string, unknown>,
             structuredOutput: request.settings.structuredOutput,
+            ...(request.settings.structuredOutput?.strict !== false && {
+              schemaDialect: OPENAI_STRICT_SCHEMA_DIALECT,
+            }),
             reasoningField: "reasoning_effort",
           }),
           promptAccounting: { status: "unavailable" },
@@ -274,11 +314,7 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
           usage = chunk.usage;
           const normalized = normalizeUsage(
             chunk.usage as unknown as Record<string, unknown>,
-            {
-              prompt: ["prompt_tokens"],
-              completion: ["completion_tokens"],
-              total: ["total_tokens"],
-            }
+            OPENAI_COMPATIBLE_USAGE_ALIASES
           );
           if (normalized.usage) {
             evidenceEvents.push({
@@ -320,6 +356,13 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
           ) {
             state.hasGeneratedOutput = true;
           }
+          publicEvents.push(
+            ...observeOpenAIChatToolCallDeltas(
+              state.toolCalls,
+              choice.index,
+              delta?.tool_calls
+            )
+          );
 
           const reasoningDelta = delta?.reasoning ?? delta?.reasoning_content;
           if (typeof reasoningDelta === "string" && reasoningDelta.length > 0) {
@@ -370,6 +413,11 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
           if (mappedLogprobs) {
             state.logprobs.push(...((choice.logprobs as any)?.content || []));
           }
+          if (choice.finish_reason != null) {
+            publicEvents.push(
+              ...endStreamedToolCalls(state.toolCalls, choice.index)
+            );
+          }
         }
 
         if (chunk.usage && choiceStates.size === 1) {
@@ -418,6 +466,9 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
         }
       }
 
+      for (const [index, state] of choiceStates) {
+        yield* endStreamedToolCalls(state.toolCalls, index);
+      }
       const response = this.createSuccessResponse(
         this.createSyntheticCompletion(
           request,
@@ -458,11 +509,7 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
       } else if (usage) {
         const normalizedUsage = normalizeUsage(
           usage as unknown as Record<string, unknown>,
-          {
-            prompt: ["prompt_tokens"],
-            completion: ["completion_tokens"],
-            total: ["total_tokens"],
-          }
+          OPENAI_COMPATIBLE_USAGE_ALIASES
         );
         errorResponse.partialResponse = {
           id: responseId,
@@ -499,6 +546,188 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
     };
   }
 
+  /**
+   * Uploads the prepared chat-completions bodies as a JSONL file and starts
+   * an OpenAI Batch over it with a 24h completion window.
+   */
+  async createBatchJob(
+    items: AdapterBatchItem[],
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    return this.runBatchJobOperation(apiKey, options, async (openai, transport) => {
+      const lines = items.map(({ customId, prepared }) =>
+        JSON.stringify({
+          custom_id: customId,
+          method: "POST",
+          url: OPENAI_BATCH_ENDPOINT,
+          body: (prepared.providerRequest as OpenAIPreparedProviderRequest)
+            .completionParams,
+        })
+      );
+      const file = await openai.files.create(
+        {
+          file: await toFile(Buffer.from(`${lines.join("\n")}\n`), "batch.jsonl"),
+          purpose: "batch",
+        },
+        transport
+      );
+      const batch = await openai.batches.create(
+        {
+          input_file_id: file.id,
+          endpoint: OPENAI_BATCH_ENDPOINT,
+          completion_window: "24h",
+        },
+        transport
+      );
+      return this.toBatchJob(batch);
+    });
+  }
+
+  async getBatchJob(
+    id: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    return this.runBatchJobOperation(apiKey, options, async (openai, transport) =>
+      this.toBatchJob(await openai.batches.retrieve(id, transport))
+    );
+  }
+
+  /**
+   * Reads the batch's output and error files. Both are written as the batch
+   * finishes, so a running batch yields no results.
+   */
+  async getBatchJobResults(
+    id: string,
+    items: AdapterBatchItem[],
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<AdapterBatchItemResult[] | LLMFailureResponse> {
+    const requests = new Map(
+      items.map(({ customId, prepared }) => [
+        customId,
+        (prepared.providerRequest as OpenAIPreparedProviderRequest).request,
+      ])
+    );
+    return this.runBatchJobOperation(apiKey, options, async (openai, transport) => {
+      const batch = await openai.batches.retrieve(id, transport);
+      const results: AdapterBatchItemResult[] = [];
+      for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+        if (!fileId) {
+          continue;
+        }
+        const content = await openai.files.content(fileId, transport);
+        for (const line of parseJsonLines(await content.text()) as any[]) {
+          const request = requests.get(line.custom_id);
+          if (!request) {
+            this.logger.warn(
+              `OpenAI batch ${id} returned unknown custom_id '${line.custom_id}'`
+            );
+            continue;
+          }
+          results.push({
+            customId: line.custom_id,
+            result: this.mapBatchResultLine(line, request),
+          });
+        }
+      }
+      return results;
+    });
+  }
+
+  async cancelBatchJob(
+    id: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse> {
+    return this.runBatchJobOperation(apiKey, options, async (openai, transport) =>
+      this.toBatchJob(await openai.batches.cancel(id, transport))
+    );
+  }
+
+  private async runBatchJobOperation<T>(
+    apiKey: string,
+    options: AdapterRequestOptions | undefined,
+    operation: (
+      openai: OpenAI,
+      transport: ReturnType<OpenAIClientAdapter["createTransportOptions"]>
+    ) => Promise<T>
+  ): Promise<T | LLMFailureResponse> {
+    try {
+      return await operation(
+        this.createClient(apiKey),
+        this.createTransportOptions(options)
+      );
+    } catch (error) {
+      this.logger.error("OpenAI batch API error:", error);
+      return this.createErrorResponse(error, { providerId: "openai" });
+    }
+  }
+
+  private toBatchJob(batch: OpenAI.Batches.Batch): LLMBatchJob {
+    const counts = batch.request_counts ?? { total: 0, completed: 0, failed: 0 };
+    const endedAt =
+      batch.completed_at ?? batch.failed_at ?? batch.expired_at ?? batch.cancelled_at;
+    const errors = batch.errors?.data?.map((error) => ({
+      message: error.message ?? "Unknown batch error",
+      ...(error.code && { code: error.code }),
+      ...(typeof error.line === "number" && { line: error.line }),
+    }));
+    return {
+      object: "batch_job",
+      provider: "openai",
+      id: batch.id,
+      status: batch.status,
+      providerStatus: batch.status,
+      requestCounts: {
+        total: counts.total,
+        succeeded: counts.completed,
+        failed: counts.failed,
+        pending: Math.max(0, counts.total - counts.completed - counts.failed),
+      },
+      createdAt: unixSecondsToIso(batch.created_at),
+      ...(endedAt !== undefined && { endedAt: unixSecondsToIso(endedAt) }),
+      ...(batch.expires_at !== undefined && {
+        expiresAt: unixSecondsToIso(batch.expires_at),
+      }),
+      ...(errors && errors.length > 0 && { errors }),
+    };
+  }
+
+  /** Maps one output/error file line to a response or failure. */
+  private mapBatchResultLine(
+    line: any,
+    request: InternalLLMChatRequest
+  ): LLMResponse | LLMFailureResponse {
+    const statusCode = line.response?.status_code;
+    try {
+      if (typeof statusCode === "number" && statusCode >= 200 && statusCode < 300) {
+        return this.createSuccessResponse(line.response.body, request);
+      }
+      if (line.error?.code === "batch_expired" || line.error?.code === "batch_cancelled") {
+        return createUnprocessedBatchItemFailure(
+          request,
+          line.error.code === "batch_expired" ? "expired" : "cancelled",
+          line
+        );
+      }
+      const message =
+        line.response?.body?.error?.message ??
+        line.error?.message ??
+        "The batch request failed.";
+      return this.createErrorResponse(
+        Object.assign(new Error(message), {
+          ...(typeof statusCode === "number" && { status: statusCode }),
+          line,
+        }),
+        request
+      );
+    } catch (error) {
+      return this.createErrorResponse(error, request);
+    }
+  }
+
   private prepareCompletionRequest(
     request: InternalLLMChatRequest,
     apiKey: string
@@ -540,6 +769,9 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
         ...(request.settings.seed !== undefined && {
           seed: request.settings.seed,
         }),
+        ...(getChoiceCount(request.settings) > 1 && {
+          n: request.settings.n,
+        }),
         ...(request.settings.logprobs === true && {
           logprobs: true,
           ...(request.settings.topLogprobs !== undefined && {
@@ -551,6 +783,15 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
         }),
       };
 
+    if (request.settings.tools && request.settings.tools.length > 0) {
+      completionParams.tools = createOpenAIChatTools(request.settings.tools) as any;
+      if (request.settings.toolChoice !== undefined) {
+        completionParams.tool_choice = createOpenAIChatToolChoice(
+          request.settings.toolChoice
+        );
+      }
+    }
+
     if (request.settings.reasoning && !request.settings.reasoning.exclude) {
       const reasoning = request.settings.reasoning;
       if (reasoning.effort) {
@@ -566,10 +807,14 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
       request.settings.structuredOutput.delivery !== "prompt"
     ) {
       const so = request.settings.structuredOutput;
-      // OpenAI strict mode additionally requires `required` to list every
-      // property of each object schema.
+      // OpenAI strict mode rejects allOf, not and conditionals, and
+      // additionally requires `required` to list every property of each
+      // object schema.
       const processedSchema = so.strict !== false
-        ? applyStrictSchemaConstraints({ ...so.schema }, { requireAllProperties: true })
+        ? applyStrictSchemaConstraints(
+            downConvertSchema({ ...so.schema }, OPENAI_STRICT_SCHEMA_DIALECT).schema,
+            { requireAllProperties: true }
+          )
         : so.schema;
       completionParams.response_format = {
         type: 'json_schema',
@@ -603,6 +848,7 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
         hasGeneratedOutput: false,
         finishReason: null,
         logprobs: [],
+        toolCalls: new Map(),
       };
       states.set(index, state);
     }
@@ -619,18 +865,24 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
   ): OpenAI.Chat.Completions.ChatCompletion {
     const choices = Array.from(choiceStates.entries())
       .sort(([a], [b]) => a - b)
-      .map(([index, state]) => ({
-        index,
-        message: {
-          role: "assistant" as const,
-          content: state.content,
-          ...(state.reasoning && { reasoning: state.reasoning }),
-        },
-        finish_reason: state.finishReason,
-        ...(state.logprobs.length > 0 && {
-          logprobs: { content: state.logprobs },
-        }),
-      }));
+      .map(([index, state]) => {
+        const toolCalls = getCompletedStreamedToolCalls(state.toolCalls);
+        return {
+          index,
+          message: {
+            role: "assistant" as const,
+            content: state.content,
+            ...(state.reasoning && { reasoning: state.reasoning }),
+            ...(toolCalls.length > 0 && {
+              tool_calls: createOpenAIChatToolCalls(toolCalls),
+            }),
+          },
+          finish_reason: state.finishReason,
+          ...(state.logprobs.length > 0 && {
+            logprobs: { content: state.logprobs },
+          }),
+        };
+      });
 
     return {
       id: id || `openai-stream-${Date.now()}`,
@@ -661,16 +913,30 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
     for (const message of request.messages) {
       if (message.role === "system") {
         // Collect inline system messages
-        inlineSystemMessages.push(message.content);
+        inlineSystemMessages.push(getMessageText(message.content));
       } else if (message.role === "user") {
         messages.push({
           role: "user",
-          content: message.content,
+          content: createOpenAIChatContent(message.content),
         });
       } else if (message.role === "assistant") {
+        messages.push(
+          message.toolCalls && message.toolCalls.length > 0
+            ? {
+                role: "assistant",
+                content: getMessageText(message.content) || null,
+                tool_calls: createOpenAIChatToolCalls(message.toolCalls),
+              }
+            : {
+                role: "assistant",
+                content: getMessageText(message.content),
+              }
+        );
+      } else if (message.role === "tool") {
         messages.push({
-          role: "assistant",
-          content: message.content,
+          role: "tool",
+          tool_call_id: message.toolCallId!,
+          content: getMessageText(message.content),
         });
       }
     }
@@ -693,7 +959,7 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
         // Model doesn't support system messages - prepend to first user message
         const simpleMessages = messages.map((m) => ({
           role: m.role,
-          content: m.content as string,
+          content: m.content as GenericMessage["content"],
         }));
         const modifiedIndex = prependSystemToFirstUserMessage(
           simpleMessages,
@@ -701,7 +967,8 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
           request.settings.systemMessageFallback
         );
         if (modifiedIndex !== -1) {
-          messages[modifiedIndex].content = simpleMessages[modifiedIndex].content;
+          messages[modifiedIndex].content = simpleMessages[modifiedIndex]
+            .content as OpenAI.Chat.Completions.ChatCompletionUserMessageParam["content"];
           this.logger.debug(
             `Model ${request.modelId} doesn't support system messages - prepended to first user message`
           );
@@ -723,12 +990,33 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
     completion: OpenAI.Chat.Completions.ChatCompletion,
     request: InternalLLMChatRequest
   ): LLMResponse {
-    const choice = completion.choices[0];
-
-    if (!choice || !choice.message) {
+    if (!completion.choices?.[0]?.message) {
       throw new Error("Invalid completion structure from OpenAI API");
     }
 
+    const normalizedUsage = normalizeUsage(
+      completion.usage as unknown as Record<string, unknown> | undefined,
+      OPENAI_COMPATIBLE_USAGE_ALIASES
+    );
+
+    return {
+      id: completion.id,
+      provider: request.providerId,
+      model: completion.model || request.modelId,
+      created: completion.created,
+      choices: completion.choices
+        .filter((choice) => choice.message)
+        .map((choice) => this.createResponseChoice(choice, completion, request)),
+      ...normalizedUsage,
+      object: "chat.completion",
+    };
+  }
+
+  private createResponseChoice(
+    choice: OpenAI.Chat.Completions.ChatCompletion.Choice,
+    completion: OpenAI.Chat.Completions.ChatCompletion,
+    request: InternalLLMChatRequest
+  ): LLMChoice {
     const responseChoice: any = {
       message: {
         role: choice.message.role as "assistant",
@@ -753,6 +1041,12 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
       responseChoice.logprobs = logprobs;
     }
 
+    const toolCalls = mapOpenAIChatToolCalls(choice.message.tool_calls);
+    if (toolCalls) {
+      responseChoice.toolCalls = toolCalls;
+    }
+
+    // Usage covers all choices, so it is only attributed to a lone choice
     const providerOutput = createProviderOutputAccounting({
       source:
         completion.usage as unknown as Record<string, unknown> | undefined,
@@ -770,24 +1064,7 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
       responseChoice.answerAccounting = { providerOutput };
     }
 
-    const normalizedUsage = normalizeUsage(
-      completion.usage as unknown as Record<string, unknown> | undefined,
-      {
-        prompt: ["prompt_tokens"],
-        completion: ["completion_tokens"],
-        total: ["total_tokens"],
-      }
-    );
-
-    return {
-      id: completion.id,
-      provider: request.providerId,
-      model: completion.model || request.modelId,
-      created: completion.created,
-      choices: [responseChoice],
-      ...normalizedUsage,
-      object: "chat.completion",
-    };
+    return responseChoice;
   }
 
   /**
@@ -799,7 +1076,7 @@ export class OpenAIClientAdapter implements ILLMClientAdapter {
    */
   private createErrorResponse(
     error: any,
-    request: InternalLLMChatRequest
+    request: { providerId: ApiProviderId; modelId?: string }
   ): LLMFailureResponse {
     // Use shared error mapping utility for common error patterns
     const initialProviderMessage =
@@ -42,9 +42,14 @@ describe('OpenRouterClientAdapter', () => {
         minP: undefined as any,
         repeatPenalty: undefined as any,
         seed: undefined as any,
+        n: undefined as any,
         logprobs: undefined as any,
         topLogprobs: undefined as any,
         llamacpp: undefined as any,
+        tools: undefined as any,
+        toolChoice: undefined as any,
+        promptCache: undefined as any,
+        cachedContent: undefined as any,
         stopSequences: [],
         user: undefined as any,
         geminiSafetySettings: [],
@@ -212,6 +217,24 @@ describe('OpenRouterClientAdapter', () => {
           expect(response.choices[0].reasoning).toBeUndefined();
         }
       });
+
+      it('replays reasoning_details on assistant messages', async () => {
+        mockCreate.mockResolvedValueOnce(okResponse());
+        const details = [{ type: 'reasoning.encrypted', data: 'opaque' }];
+        basicRequest.messages = [
+          { role: 'user', content: 'Hello' },
+          { role: 'assistant', content: 'Hi', reasoning_details: details },
+          { role: 'user', content: 'And then?' },
+        ];
+
+        await adapter.sendMessage(basicRequest, KEY);
+
+        expect(mockCreate.mock.calls[0][0].messages[1]).toEqual({
+          role: 'assistant',
+          content: 'Hi',
+          reasoning_details: details,
+        });
+      });
     });
 
     it('should format the request correctly and call the OpenRouter API', async () => {
@@ -14,16 +14,33 @@ import type {
 } from "./types";
 import { ADAPTER_ERROR_CODES } from "./types";
 import { getCommonMappedErrorDetails } from "../../shared/adapters/errorUtils";
+import { getChoiceCount } from "../../shared/adapters/fanOutUtils";
 import { mapOpenAIChatLogprobs } from "../../shared/adapters/logprobsUtils";
+import {
+  createOpenAIChatToolCalls,
+  createOpenAIChatToolChoice,
+  createOpenAIChatTools,
+  endStreamedToolCalls,
+  getCompletedStreamedToolCalls,
+  mapOpenAIChatToolCalls,
+  observeOpenAIChatToolCallDeltas,
+  type StreamedToolCalls,
+} from "../../shared/adapters/toolCallUtils";
 import {
   createProviderOutputAccounting,
   normalizeTermination,
   normalizeUsage,
+  OPENAI_COMPATIBLE_USAGE_ALIASES,
 } from "../../shared/adapters/usageUtils";
 import {
   collectSystemContent,
   prependSystemToFirstUserMessage,
+  type GenericMessage,
 } from "../../shared/adapters/systemMessageUtils";
+import {
+  createOpenAIChatContent,
+  getMessageText,
+} from "../../shared/adapters/contentPartUtils";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import {
@@ -66,6 +83,7 @@ interface OpenRouterStreamChoiceState {
   hasGeneratedOutput: boolean;
   finishReason: string | null;
   logprobs: any[];
+  toolCalls: StreamedToolCalls;
 }
 
 function hasPositiveOpenRouterReasoningTokens(usage: unknown): boolean {
@@ -312,11 +330,7 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
           usage = chunk.usage;
           const normalized = normalizeUsage(
             chunk.usage as unknown as Record<string, unknown>,
-            {
-              prompt: ["prompt_tokens"],
-              completion: ["completion_tokens"],
-              total: ["total_tokens"],
-            }
+            OPENAI_COMPATIBLE_USAGE_ALIASES
           );
           if (normalized.usage) {
             evidenceEvents.push({
@@ -358,6 +372,13 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
           ) {
             state.hasGeneratedOutput = true;
           }
+          publicEvents.push(
+            ...observeOpenAIChatToolCallDeltas(
+              state.toolCalls,
+              choice.index,
+              delta?.tool_calls
+            )
+          );
 
           const reasoningDelta = delta?.reasoning ?? delta?.reasoning_content;
           if (typeof reasoningDelta === "string" && reasoningDelta.length > 0) {
@@ -413,6 +434,11 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
           if (mappedLogprobs) {
             state.logprobs.push(...((choice.logprobs as any)?.content || []));
           }
+          if (choice.finish_reason != null) {
+            publicEvents.push(
+              ...endStreamedToolCalls(state.toolCalls, choice.index)
+            );
+          }
         }
 
         if (chunk.usage && choiceStates.size === 1) {
@@ -461,6 +487,9 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
         }
       }
 
+      for (const [index, state] of choiceStates) {
+        yield* endStreamedToolCalls(state.toolCalls, index);
+      }
       const response = this.createSuccessResponse(
         this.createSyntheticCompletion(
           request,
@@ -501,11 +530,7 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
       } else if (usage) {
         const normalizedUsage = normalizeUsage(
           usage as unknown as Record<string, unknown>,
-          {
-            prompt: ["prompt_tokens"],
-            completion: ["completion_tokens"],
-            total: ["total_tokens"],
-          }
+          OPENAI_COMPATIBLE_USAGE_ALIASES
         );
         errorResponse.partialResponse = {
           id: responseId,
@@ -564,6 +589,9 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
       ...(request.settings.seed !== undefined && {
         seed: request.settings.seed,
       }),
+      ...(getChoiceCount(request.settings) > 1 && {
+        n: request.settings.n,
+      }),
       ...(request.settings.topK !== undefined && {
         top_k: request.settings.topK,
       }),
@@ -581,6 +609,15 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
       }),
     } as OpenAI.Chat.Completions.ChatCompletionCreateParams;
 
+    if (request.settings.tools && request.settings.tools.length > 0) {
+      completionParams.tools = createOpenAIChatTools(request.settings.tools) as any;
+      if (request.settings.toolChoice !== undefined) {
+        completionParams.tool_choice = createOpenAIChatToolChoice(
+          request.settings.toolChoice
+        );
+      }
+    }
+
     const providerSettings = request.settings.openRouterProvider;
     if (providerSettings) {
       const provider: Record<string, any> = {};
@@ -663,6 +700,7 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
         hasGeneratedOutput: false,
         finishReason: null,
         logprobs: [],
+        toolCalls: new Map(),
       };
       states.set(index, state);
     }
@@ -679,21 +717,27 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
   ): OpenAI.Chat.Completions.ChatCompletion {
     const choices = Array.from(choiceStates.entries())
       .sort(([a], [b]) => a - b)
-      .map(([index, state]) => ({
-        index,
-        message: {
-          role: "assistant" as const,
-          content: state.content,
-          ...(state.reasoning && { reasoning: state.reasoning }),
-          ...(state.reasoningDetails && {
-            reasoning_details: state.reasoningDetails,
+      .map(([index, state]) => {
+        const toolCalls = getCompletedStreamedToolCalls(state.toolCalls);
+        return {
+          index,
+          message: {
+            role: "assistant" as const,
+            content: state.content,
+            ...(state.reasoning && { reasoning: state.reasoning }),
+            ...(state.reasoningDetails && {
+              reasoning_details: state.reasoningDetails,
+            }),
+            ...(toolCalls.length > 0 && {
+              tool_calls: createOpenAIChatToolCalls(toolCalls),
+            }),
+          },
+          finish_reason: state.finishReason,
+          ...(state.logprobs.length > 0 && {
+            logprobs: { content: state.logprobs },
           }),
-        },
-        finish_reason: state.finishReason,
-        ...(state.logprobs.length > 0 && {
-          logprobs: { content: state.logprobs },
-        }),
-      }));
+        };
+      });
 
     return {
       id: id || `openrouter-stream-${Date.now()}`,
@@ -749,16 +793,34 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
     for (const message of request.messages) {
       if (message.role === "system") {
         // Collect inline system messages
-        inlineSystemMessages.push(message.content);
+        inlineSystemMessages.push(getMessageText(message.content));
       } else if (message.role === "user") {
         messages.push({
           role: "user",
-          content: message.content,
+          content: createOpenAIChatContent(message.content),
         });
       } else if (message.role === "assistant") {
         messages.push({
-          role: "assistant",
-          content: message.content,
+          ...(message.toolCalls && message.toolCalls.length > 0
+            ? {
+                role: "assistant",
+                content: getMessageText(message.content) || null,
+                tool_calls: createOpenAIChatToolCalls(message.toolCalls),
+              }
+            : {
+                role: "assistant",
+                content: getMessageText(message.content),
+              }),
+          // OpenRouter extension: lets reasoning models continue their chain
+          ...(message.reasoning_details !== undefined && {
+            reasoning_details: message.reasoning_details,
+          }),
+        } as OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam);
+      } else if (message.role === "tool") {
+        messages.push({
+          role: "tool",
+          tool_call_id: message.toolCallId!,
+          content: getMessageText(message.content),
         });
       }
     }
@@ -781,7 +843,7 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
         // Model doesn't support system messages - prepend to first user message
         const simpleMessages = messages.map((m) => ({
           role: m.role,
-          content: m.content as string,
+          content: m.content as GenericMessage["content"],
         }));
         const modifiedIndex = prependSystemToFirstUserMessage(
           simpleMessages,
@@ -789,7 +851,8 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
           request.settings.systemMessageFallback
         );
         if (modifiedIndex !== -1) {
-          messages[modifiedIndex].content = simpleMessages[modifiedIndex].content;
+          messages[modifiedIndex].content = simpleMessages[modifiedIndex]
+            .content as OpenAI.Chat.Completions.ChatCompletionUserMessageParam["content"];
           this.logger.debug(
             `Model ${request.modelId} doesn't support system messages - prepended to first user message`
           );
@@ -819,11 +882,7 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
 
     const normalizedUsage = normalizeUsage(
       completion.usage as unknown as Record<string, unknown> | undefined,
-      {
-        prompt: ["prompt_tokens"],
-        completion: ["completion_tokens"],
-        total: ["total_tokens"],
-      }
+      OPENAI_COMPATIBLE_USAGE_ALIASES
     );
 
     return {
@@ -860,6 +919,11 @@ export class OpenRouterClientAdapter implements ILLMClientAdapter {
           mappedChoice.logprobs = logprobs;
         }
 
+        const toolCalls = mapOpenAIChatToolCalls(c.message.tool_calls);
+        if (toolCalls) {
+          mappedChoice.toolCalls = toolCalls;
+        }
+
         const providerOutput = createProviderOutputAccounting({
           source:
             completion.usage as unknown as
@@ -0,0 +1,378 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { AnthropicClientAdapter } from "./AnthropicClientAdapter";
+import { OpenAIClientAdapter } from "./OpenAIClientAdapter";
+import type { AdapterBatchItem, ILLMClientAdapter, InternalLLMChatRequest } from "./types";
+import { getModelById } from "../config";
+import type { LLMFailureResponse, LLMResponse, LLMSettings } from "../types";
+import { silentLogger } from "../../logging/defaultLogger";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+type Route = (request: RecordedRequest) => { status?: number; json?: unknown; text?: string };
+
+/** Local stand-in for the OpenAI and Anthropic batch endpoints. */
+let server: http.Server;
+let baseUrl: string;
+let routes: Record<string, Route>;
+let recorded: RecordedRequest[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = { method: req.method ?? "GET", url: req.url ?? "/", body };
+      recorded.push(request);
+      const route = routes[`${request.method} ${request.url.split("?")[0]}`];
+      const reply = route ? route(request) : { status: 404, json: { error: { message: "Not found" } } };
+      res.writeHead(reply.status ?? 200, {
+        "content-type": reply.text !== undefined ? "application/binary" : "application/json",
+      });
+      res.end(reply.text ?? JSON.stringify(reply.json));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  server.unref();
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes = {};
+  recorded = [];
+});
+
+function chatRequest(providerId: string, modelId: string, text: string): InternalLLMChatRequest {
+  return {
+    providerId,
+    modelId,
+    messages: [{ role: "user", content: text }],
+    settings: {
+      maxTokens: 64,
+      stopSequences: [],
+      temperature: 0,
+      frequencyPenalty: 0,
+      presencePenalty: 0,
+      user: undefined,
+    } as unknown as Required<LLMSettings>,
+  };
+}
+
+async function batchItems(
+  adapter: ILLMClientAdapter,
+  providerId: string,
+  modelId: string,
+  prompts: Record<string, string>
+): Promise<AdapterBatchItem[]> {
+  const items: AdapterBatchItem[] = [];
+  for (const [customId, text] of Object.entries(prompts)) {
+    const result = await adapter.prepareRequest!(chatRequest(providerId, modelId, text), {
+      mode: "complete",
+      modelInfo: getModelById(modelId, providerId)!,
+    });
+    if ("error" in result) {
+      throw new Error(result.error.error.message);
+    }
+    items.push({ customId, prepared: result.prepared });
+  }
+  return items;
+}
+
+function resultsById(results: Array<{ customId: string; result: LLMResponse | LLMFailureResponse }>) {
+  return Object.fromEntries(results.map(({ customId, result }) => [customId, result]));
+}
+
+describe("OpenAI batch jobs", () => {
+  const openaiBatch = (overrides: Record<string, unknown> = {}) => ({
+    id: "batch_1",
+    object: "batch",
+    endpoint: "/v1/chat/completions",
+    input_file_id: "file-in",
+    completion_window: "24h",
+    status: "validating",
+    created_at: 1_700_000_000,
+    expires_at: 1_700_086_400,
+    request_counts: { total: 3, completed: 0, failed: 0 },
+    ...overrides,
+  });
+
+  const completion = (content: string) => ({
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 1_700_000_100,
+    model: "gpt-4.1",
+    choices: [
+      { index: 0, finish_reason: "stop", message: { role: "assistant", content } },
+    ],
+    usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+  });
+
+  function adapter() {
+    return new OpenAIClientAdapter({ baseURL: `${baseUrl}/v1`, logger: silentLogger });
+  }
+
+  it("uploads a JSONL input file and creates the batch", async () => {
+    routes["POST /v1/files"] = () => ({
+      json: {
+        id: "file-in",
+        object: "file",
+        bytes: 100,
+        created_at: 1_700_000_000,
+        filename: "batch.jsonl",
+        purpose: "batch",
+        status: "processed",
+      },
+    });
+    routes["POST /v1/batches"] = () => ({ json: openaiBatch() });
+    const openai = adapter();
+    const items = await batchItems(openai, "openai", "gpt-4.1", { a: "Hello", b: "Bye" });
+
+    const job = await openai.createBatchJob!(items, "sk-test");
+
+    expect(job).toEqual({
+      object: "batch_job",
+      provider: "openai",
+      id: "batch_1",
+      status: "validating",
+      providerStatus: "validating",
+      requestCounts: { total: 3, succeeded: 0, failed: 0, pending: 3 },
+      createdAt: "2023-11-14T22:13:20.000Z",
+      expiresAt: "2023-11-15T22:13:20.000Z",
+    });
+    const upload = recorded.find((r) => r.url === "/v1/files")!;
+    const lines = upload.body
+      .split("\n")
+      .filter((line) => line.startsWith("{"))
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      custom_id: "a",
+      method: "POST",
+      url: "/v1/chat/completions",
+      body: { model: "gpt-4.1", messages: [{ role: "user", content: "Hello" }] },
+    });
+    expect(JSON.parse(recorded.find((r) => r.url === "/v1/batches")!.body)).toEqual({
+      input_file_id: "file-in",
+      endpoint: "/v1/chat/completions",
+      completion_window: "24h",
+    });
+  });
+
+  it("maps output and error file lines back to their custom IDs", async () => {
+    routes["GET /v1/batches/batch_1"] = () => ({
+      json: openaiBatch({
+        status: "completed",
+        completed_at: 1_700_000_500,
+        output_file_id: "file-out",
+        error_file_id: "file-err",
+        request_counts: { total: 3, completed: 1, failed: 2 },
+      }),
+    });
+    routes["GET /v1/files/file-out/content"] = () => ({
+      text:
+        JSON.stringify({
+          custom_id: "a",
+          response: { status_code: 200, body: completion("Hi!") },
+          error: null,
+        }) + "\n",
+    });
+    routes["GET /v1/files/file-err/content"] = () => ({
+      text: [
+        {
+          custom_id: "b",
+          response: { status_code: 400, body: { error: { message: "Bad request" } } },
+          error: null,
+        },
+        { custom_id: "c", response: null, error: { code: "batch_expired", message: "Expired" } },
+        { custom_id: "unknown", response: null, error: { code: "batch_expired" } },
+      ]
+        .map((line) => JSON.stringify(line))
+        .join("\n"),
+    });
+    const openai = adapter();
+    const items = await batchItems(openai, "openai", "gpt-4.1", { a: "1", b: "2", c: "3" });
+
+    const results = await openai.getBatchJobResults!("batch_1", items, "sk-test");
+
+    expect(Array.isArray(results)).toBe(true);
+    const byId = resultsById(results as any);
+    expect(Object.keys(byId)).toEqual(["a", "b", "c"]);
+    expect(byId.a).toMatchObject({
+      object: "chat.completion",
+      provider: "openai",
+      choices: [{ message: { content: "Hi!" } }],
+    });
+    expect(byId.b).toMatchObject({
+      object: "error",
+      error: { message: "Bad request", code: "PROVIDER_ERROR" },
+    });
+    expect(byId.c).toMatchObject({
+      object: "error",
+      error: { code: "REQUEST_TIMEOUT", type: "timeout_error" },
+    });
+  });
+
+  it("returns no results while the batch is still running", async () => {
+    routes["GET /v1/batches/batch_1"] = () => ({ json: openaiBatch({ status: "in_progress" }) });
+    const openai = adapter();
+    const items = await batchItems(openai, "openai", "gpt-4.1", { a: "1" });
+
+    expect(await openai.getBatchJobResults!("batch_1", items, "sk-test")).toEqual([]);
+  });
+
+  it("cancels a batch and returns provider errors as failures", async () => {
+    routes["POST /v1/batches/batch_1/cancel"] = () => ({
+      json: openaiBatch({ status: "cancelling", cancelling_at: 1_700_000_200 }),
+    });
+    const openai = adapter();
+
+    expect(await openai.cancelBatchJob!("batch_1", "sk-test")).toMatchObject({
+      status: "cancelling",
+    });
+    expect(await openai.getBatchJob!("batch_missing", "sk-test")).toMatchObject({
+      object: "error",
+      provider: "openai",
+      error: { code: "MODEL_NOT_FOUND", message: expect.stringContaining("Not found") },
+    });
+  });
+});
+
+describe("Anthropic batch jobs", () => {
+  const messageBatch = (overrides: Record<string, unknown> = {}) => ({
+    id: "msgbatch_1",
+    type: "message_batch",
+    processing_status: "in_progress",
+    request_counts: { processing: 3, succeeded: 0, errored: 0, canceled: 0, expired: 0 },
+    created_at: "2024-08-20T18:37:24.100435Z",
+    expires_at: "2024-08-21T18:37:24.100435Z",
+    ended_at: null,
+    cancel_initiated_at: null,
+    archived_at: null,
+    results_url: null,
+    ...overrides,
+  });
+
+  function adapter() {
+    return new AnthropicClientAdapter({ baseURL: baseUrl, logger: silentLogger });
+  }
+
+  it("creates a message batch from the prepared message params", async () => {
+    routes["POST /v1/messages/batches"] = () => ({ json: messageBatch() });
+    const anthropic = adapter();
+    const items = await batchItems(anthropic, "anthropic", "claude-sonnet-4-20250514", {
+      a: "Hello",
+    });
+
+    const job = await anthropic.createBatchJob!(items, "sk-ant-test");
+
+    expect(job).toMatchObject({
+      object: "batch_job",
+      provider: "anthropic",
+      id: "msgbatch_1",
+      status: "in_progress",
+      providerStatus: "in_progress",
+      requestCounts: { total: 3, succeeded: 0, failed: 0, pending: 3 },
+    });
+    expect(JSON.parse(recorded[0].body)).toMatchObject({
+      requests: [
+        {
+          custom_id: "a",
+          params: {
+            model: "claude-sonnet-4-20250514",
+            messages: [{ role: "user", content: "Hello" }],
+          },
+        },
+      ],
+    });
+  });
+
+  it("maps succeeded, errored and expired results back to their custom IDs", async () => {
+    routes["GET /v1/messages/batches/msgbatch_1"] = () => ({
+      json: messageBatch({
+        processing_status: "ended",
+        ended_at: "2024-08-20T19:00:00Z",
+        request_counts: { processing: 0, succeeded: 1, errored: 1, canceled: 0, expired: 1 },
+        results_url: `${baseUrl}/v1/messages/batches/msgbatch_1/results`,
+      }),
+    });
+    routes["GET /v1/messages/batches/msgbatch_1/results"] = () => ({
+      text: [
+        {
+          custom_id: "a",
+          result: {
+            type: "succeeded",
+            message: {
+              id: "msg_1",
+              type: "message",
+              role: "assistant",
+              model: "claude-sonnet-4-20250514",
+              content: [{ type: "text", text: "Hi!" }],
+              stop_reason: "end_turn",
+              stop_sequence: null,
+              usage: { input_tokens: 5, output_tokens: 2 },
+            },
+          },
+        },
+        {
+          custom_id: "b",
+          result: {
+            type: "errored",
+            error: { type: "error", error: { type: "rate_limit_error", message: "Slow down" } },
+          },
+        },
+        { custom_id: "c", result: { type: "expired" } },
+      ]
+        .map((line) => JSON.stringify(line))
+        .join("\n"),
+    });
+    const anthropic = adapter();
+    const items = await batchItems(anthropic, "anthropic", "claude-sonnet-4-20250514", {
+      a: "1",
+      b: "2",
+      c: "3",
+    });
+
+    expect(await anthropic.getBatchJob!("msgbatch_1", "sk-ant-test")).toMatchObject({
+      status: "completed",
+      endedAt: "2024-08-20T19:00:00Z",
+      requestCounts: { total: 3, succeeded: 1, failed: 2, pending: 0 },
+    });
+    const results = await anthropic.getBatchJobResults!("msgbatch_1", items, "sk-ant-test");
+
+    const byId = resultsById(results as any);
+    expect(byId.a).toMatchObject({
+      object: "chat.completion",
+      provider: "anthropic",
+      choices: [{ message: { content: "Hi!" } }],
+    });
+    expect(byId.b).toMatchObject({
+      object: "error",
+      error: { message: "Slow down", code: "RATE_LIMIT_EXCEEDED" },
+    });
+    expect(byId.c).toMatchObject({ error: { code: "REQUEST_TIMEOUT" } });
+  });
+
+  it("reports an ended batch with a cancel request as cancelled", async () => {
+    routes["POST /v1/messages/batches/msgbatch_1/cancel"] = () => ({
+      json: messageBatch({
+        processing_status: "ended",
+        cancel_initiated_at: "2024-08-20T18:40:00Z",
+        ended_at: "2024-08-20T18:41:00Z",
+      }),
+    });
+    const anthropic = adapter();
+
+    expect(await anthropic.cancelBatchJob!("msgbatch_1", "sk-ant-test")).toMatchObject({
+      status: "cancelled",
+      providerStatus: "ended",
+    });
+  });
+});
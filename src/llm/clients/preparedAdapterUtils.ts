@@ -1,5 +1,7 @@
+import { createHash } from "node:crypto";
 import type {
   PreparedCallMode,
+  PreparedDocumentPlaceholder,
   PreparedProviderMessageView,
   PreparedProviderRequestView,
   PreparedRequestValue,
@@ -7,6 +9,8 @@ import type {
   StructuredOutputSettings,
 } from "../types";
 import type { InternalLLMChatRequest } from "./types";
+import { getMessageText } from "../../shared/adapters/contentPartUtils";
+import { downConvertSchema, type SchemaDialect } from "../../shared/adapters/schemaUtils";
 
 export const PROMPT_STRUCTURED_OUTPUT_REVISION = "prompt-schema-v1";
 
@@ -69,6 +73,69 @@ export function toPreparedRequestValue(
   return undefined;
 }
 
+/** Size and SHA-256 digest of a document body, so placeholders differ when bodies do. */
+function describeDocumentBody(
+  data: string,
+  encoding: "base64" | "utf8"
+): Pick<PreparedDocumentPlaceholder, "bytes" | "sha256"> {
+  const body = Buffer.from(data, encoding);
+  return {
+    bytes: body.byteLength,
+    sha256: createHash("sha256").update(body).digest("hex"),
+  };
+}
+
+/**
+ * Recognizes provider-shaped document parts (Anthropic document blocks, OpenAI
+ * file parts, Gemini non-image inlineData) and describes them without the body.
+ */
+function toDocumentPlaceholder(
+  part: unknown
+): PreparedDocumentPlaceholder | undefined {
+  if (!part || typeof part !== "object") {
+    return undefined;
+  }
+  const record = part as Record<string, any>;
+  if (record.type === "document" && record.source) {
+    const data = String(record.source.data ?? "");
+    return {
+      type: "document",
+      redacted: true,
+      mimeType: String(record.source.media_type ?? "application/pdf"),
+      ...describeDocumentBody(
+        data,
+        record.source.type === "base64" ? "base64" : "utf8"
+      ),
+      ...(typeof record.title === "string" && { title: record.title }),
+    };
+  }
+  if (record.type === "file" && typeof record.file?.file_data === "string") {
+    const match = /^data:([^;,]+);base64,(.*)$/s.exec(record.file.file_data);
+    return {
+      type: "document",
+      redacted: true,
+      mimeType: match?.[1] ?? "application/octet-stream",
+      ...describeDocumentBody(match?.[2] ?? "", "base64"),
+      ...(typeof record.file.filename === "string" && {
+        title: record.file.filename,
+      }),
+    };
+  }
+  const inlineData = record.inlineData;
+  if (
+    typeof inlineData?.mimeType === "string" &&
+    !inlineData.mimeType.startsWith("image/")
+  ) {
+    return {
+      type: "document",
+      redacted: true,
+      mimeType: inlineData.mimeType,
+      ...describeDocumentBody(String(inlineData.data ?? ""), "base64"),
+    };
+  }
+  return undefined;
+}
+
 function normalizeMessages(value: unknown): PreparedProviderMessageView[] {
   if (!Array.isArray(value)) {
     return [];
@@ -78,8 +145,13 @@ function normalizeMessages(value: unknown): PreparedProviderMessageView[] {
       message && typeof message === "object"
         ? (message as Record<string, unknown>)
         : {};
+    const rawContent = record.content ?? record.parts ?? "";
     const content =
-      toPreparedRequestValue(record.content ?? record.parts ?? "") ?? "";
+      toPreparedRequestValue(
+        Array.isArray(rawContent)
+          ? rawContent.map((part) => toDocumentPlaceholder(part) ?? part)
+          : rawContent
+      ) ?? "";
     return {
       role: String(record.role ?? "unknown"),
       content,
@@ -89,7 +161,8 @@ function normalizeMessages(value: unknown): PreparedProviderMessageView[] {
 
 function structuredOutputView(
   settings: StructuredOutputSettings | undefined,
-  payload: Record<string, unknown>
+  payload: Record<string, unknown>,
+  schemaDialect: SchemaDialect | undefined
 ): PreparedStructuredOutputView | undefined {
   if (!settings?.schema || settings.enabled === false) {
     return undefined;
@@ -125,6 +198,10 @@ function structuredOutputView(
     config?.responseSchema;
   const nativeName =
     typeof jsonSchema?.name === "string" ? jsonSchema.name : undefined;
+  const droppedKeywords =
+    nativeSchema !== undefined && schemaDialect
+      ? downConvertSchema(settings.schema, schemaDialect).droppedKeywords
+      : [];
   return {
     delivery,
     enforcement: nativeSchema === undefined ? "json_only" : "provider",
@@ -132,6 +209,7 @@ function structuredOutputView(
     ...(nativeSchema !== undefined && {
       schema: toPreparedRequestValue(nativeSchema) ?? {},
     }),
+    ...(droppedKeywords.length > 0 && { droppedKeywords }),
   };
 }
 
@@ -140,10 +218,14 @@ export interface PreparedViewOptions {
   mode: PreparedCallMode;
   payload: Record<string, unknown>;
   structuredOutput?: StructuredOutputSettings;
+  /** Keyword subset the provider accepts; reported as droppedKeywords. */
+  schemaDialect?: SchemaDialect;
   messageField?: string;
   systemField?: string;
   reasoningField?: string;
   extensionFields?: readonly string[];
+  /** Parallel calls made to emulate `settings.n`; recorded when above 1. */
+  fanOut?: number;
 }
 
 /** Builds the stable inspection view from the same canonical provider payload. */
@@ -189,15 +271,18 @@ export function createPreparedRequestView(
     mode: options.mode,
     messages: normalizeMessages(options.payload[messageField]),
     ...(systemInstruction !== undefined && { systemInstruction }),
-    ...(structuredOutputView(options.structuredOutput, options.payload) && {
+    ...(structuredOutputView(options.structuredOutput, options.payload, options.schemaDialect) && {
       structuredOutput: structuredOutputView(
         options.structuredOutput,
-        options.payload
+        options.payload,
+        options.schemaDialect
       ),
     }),
     ...(reasoning !== undefined && { reasoning }),
     settings,
     ...(Object.keys(extensions).length > 0 && { extensions }),
+    ...(options.fanOut !== undefined &&
+      options.fanOut > 1 && { fanOut: options.fanOut }),
   });
 }
 
@@ -205,10 +290,14 @@ export function createPreparedRequestView(
 export function createPromptStructuredOutputInstruction(
   settings: StructuredOutputSettings
 ): string {
+  // An empty schema (a validator without a JSON Schema) asks for bare JSON
+  const hasSchema = Object.keys(settings.schema).length > 0;
   return [
     `<GENAI_LITE_STRUCTURED_OUTPUT revision="${PROMPT_STRUCTURED_OUTPUT_REVISION}" name="${settings.name}">`,
-    "Return only valid JSON matching this schema. Do not include markdown fences or commentary.",
-    JSON.stringify(settings.schema),
+    hasSchema
+      ? "Return only valid JSON matching this schema. Do not include markdown fences or commentary."
+      : "Return only valid JSON. Do not include markdown fences or commentary.",
+    ...(hasSchema ? [JSON.stringify(settings.schema)] : []),
     "</GENAI_LITE_STRUCTURED_OUTPUT>",
   ].join("\n");
 }
@@ -234,7 +323,11 @@ export function applyPromptStructuredOutput(
 
   const messages = request.messages.map((message) => ({ ...message }));
   const instruction = createPromptStructuredOutputInstruction(structuredOutput);
-  if (messages.some((message) => message.content.includes(instruction))) {
+  if (
+    messages.some((message) =>
+      getMessageText(message.content).includes(instruction)
+    )
+  ) {
     return request;
   }
   let targetIndex = -1;
@@ -246,8 +339,11 @@ export function applyPromptStructuredOutput(
   }
 
   if (targetIndex >= 0) {
+    const content = messages[targetIndex].content;
     messages[targetIndex].content =
-      `${messages[targetIndex].content}\n\n${instruction}`;
+      typeof content === "string"
+        ? `${content}\n\n${instruction}`
+        : [...content, { type: "text", text: instruction }];
   } else {
     messages.push({ role: "user", content: instruction });
   }
@@ -4,6 +4,11 @@
 import type {
   LLMChatRequest,
   LLMAnswerAccountingByScope,
+  LLMBatchJob,
+  LLMContextCache,
+  LLMContextCacheDeleted,
+  LLMContextCacheList,
+  LLMContextCacheUpdate,
   LLMResponse,
   LLMFailureResponse,
   LLMRawAnswerAccounting,
@@ -73,6 +78,16 @@ export type AdapterLLMStreamEvent =
   | (LLMStreamEvent & {
       observedEvidence?: AdapterStreamObservedEvidence;
     })
+  | {
+      /**
+       * Built-in adapters may end a tool call without repeating it; LLMService
+       * fills `toolCall` from the accumulated start and argument deltas.
+       */
+      type: "tool_call_end";
+      index: number;
+      toolCallIndex: number;
+      observedEvidence?: AdapterStreamObservedEvidence;
+    }
   | {
       type: "adapter_evidence";
       observedEvidence: AdapterStreamObservedEvidence;
@@ -109,6 +124,19 @@ export type AdapterPreparationResult =
   | { prepared: AdapterPreparedRequest }
   | { error: LLMFailureResponse };
 
+/** One prepared call submitted in a provider batch job. */
+export interface AdapterBatchItem {
+  /** Caller-chosen ID used to match the result to this call. */
+  customId: string;
+  prepared: AdapterPreparedRequest;
+}
+
+/** A finished batch item mapped back to its custom ID. */
+export interface AdapterBatchItemResult {
+  customId: string;
+  result: LLMResponse | LLMFailureResponse;
+}
+
 /** Result of revalidating observable prepared-call bindings. */
 export type AdapterRevalidationResult =
   | { valid: true }
@@ -198,6 +226,72 @@ export interface ILLMClientAdapter {
     options?: AdapterRequestOptions
   ): Promise<AdapterRevalidationResult>;
 
+  /**
+   * Optional explicit context-cache management. Like sendMessage, these
+   * return failures instead of throwing.
+   *
+   * @param request - Messages and tools to cache, with applied default settings
+   */
+  createContextCache?(
+    request: InternalLLMChatRequest,
+    cacheOptions: { displayName?: string; ttlSeconds?: number },
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCache | LLMFailureResponse>;
+
+  listContextCaches?(
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCacheList | LLMFailureResponse>;
+
+  updateContextCache?(
+    name: string,
+    update: LLMContextCacheUpdate,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCache | LLMFailureResponse>;
+
+  deleteContextCache?(
+    name: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMContextCacheDeleted | LLMFailureResponse>;
+
+  /**
+   * Optional provider-native batch jobs. Like sendMessage, these return
+   * failures instead of throwing.
+   *
+   * @param items - Complete-mode prepared calls with unique custom IDs
+   */
+  createBatchJob?(
+    items: AdapterBatchItem[],
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse>;
+
+  getBatchJob?(
+    id: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse>;
+
+  /**
+   * Maps finished results back to the submitted items. Results whose custom
+   * ID is not among `items` are skipped; pending items are omitted.
+   */
+  getBatchJobResults?(
+    id: string,
+    items: AdapterBatchItem[],
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<AdapterBatchItemResult[] | LLMFailureResponse>;
+
+  cancelBatchJob?(
+    id: string,
+    apiKey: string,
+    options?: AdapterRequestOptions
+  ): Promise<LLMBatchJob | LLMFailureResponse>;
+
   /**
    * Optional method to validate API key format before making requests
    *
@@ -243,6 +337,14 @@ export const ADAPTER_ERROR_CODES = {
   INVALID_PREPARED_CALL: "INVALID_PREPARED_CALL",
   /** A prepared handle was dispatched with the wrong mode. */
   PREPARED_CALL_MODE_MISMATCH: "PREPARED_CALL_MODE_MISMATCH",
+  /** A hard usage-ledger budget would be exceeded (checked before dispatch). */
+  BUDGET_EXCEEDED: "BUDGET_EXCEEDED",
+  /** The provider adapter does not manage explicit context caches. */
+  CONTEXT_CACHE_UNSUPPORTED: "CONTEXT_CACHE_UNSUPPORTED",
+  /** The provider adapter does not support native batch jobs. */
+  BATCH_JOB_UNSUPPORTED: "BATCH_JOB_UNSUPPORTED",
+  /** The provider/model circuit is open after repeated failures (fails fast). */
+  CIRCUIT_OPEN: "CIRCUIT_OPEN",
 } as const;
 
 /**
@@ -159,6 +159,51 @@ describe('LLM Config', () => {
       expect(validateLLMSettings({ temperature: 'invalid' as any })).toContain('temperature must be a number between 0 and 2');
     });
 
+    it('should validate tool definitions', () => {
+      expect(validateLLMSettings({
+        tools: [{ name: 'get_weather', parameters: { type: 'object', properties: {} } }],
+        toolChoice: { name: 'get_weather' }
+      })).toEqual([]);
+      expect(validateLLMSettings({ tools: {} as any })).toContain('tools must be an array');
+      expect(validateLLMSettings({ tools: [{ name: 'bad name' }] })).toContain(
+        'tools[0].name must be 1-64 letters, digits, underscores, or dashes'
+      );
+      expect(validateLLMSettings({ tools: [{ name: 'a' }, { name: 'a' }] })).toContain(
+        "tools[1].name 'a' is duplicated"
+      );
+      expect(validateLLMSettings({ tools: [{ name: 'a', parameters: [] as any }] })).toContain(
+        'tools[0].parameters must be a JSON schema object'
+      );
+    });
+
+    it('should validate toolChoice', () => {
+      expect(validateLLMSettings({ toolChoice: 'any' as any })).toContain(
+        "toolChoice must be 'auto', 'none', 'required', or { name }"
+      );
+      expect(validateLLMSettings({
+        tools: [{ name: 'a' }],
+        toolChoice: { name: 'b' }
+      })).toContain("toolChoice names 'b', which is not in tools");
+    });
+
+    it('should validate cachedContent', () => {
+      expect(validateLLMSettings({ cachedContent: 'cachedContents/abc' })).toEqual([]);
+      expect(validateLLMSettings({ cachedContent: ' ' })).toContain(
+        'cachedContent must be a non-empty string'
+      );
+    });
+
+    it('should validate promptCache', () => {
+      expect(validateLLMSettings({ promptCache: { system: true, messages: 2, ttl: '1h' } })).toEqual([]);
+      expect(validateLLMSettings({ promptCache: [] as any })).toContain('promptCache must be an object');
+      expect(validateLLMSettings({ promptCache: { messages: -1 } })).toContain(
+        'promptCache.messages must be a non-negative integer'
+      );
+      expect(validateLLMSettings({ promptCache: { ttl: '10m' as any } })).toContain(
+        "promptCache.ttl must be '5m' or '1h'"
+      );
+    });
+
     it('should validate maxTokens', () => {
       expect(validateLLMSettings({ maxTokens: 0 })).toContain('maxTokens must be an integer between 1 and 100000');
       expect(validateLLMSettings({ maxTokens: 100001 })).toContain('maxTokens must be an integer between 1 and 100000');
@@ -210,6 +255,13 @@ describe('LLM Config', () => {
       expect(validateLLMSettings({ seed: 42 })).toEqual([]);
     });
 
+    it('should validate n', () => {
+      expect(validateLLMSettings({ n: 0 })).toContain('n must be a positive integer');
+      expect(validateLLMSettings({ n: 1.5 })).toContain('n must be a positive integer');
+      expect(validateLLMSettings({ n: 'invalid' as any })).toContain('n must be a positive integer');
+      expect(validateLLMSettings({ n: 3 })).toEqual([]);
+    });
+
     it('should validate logprobs and topLogprobs', () => {
       expect(validateLLMSettings({ logprobs: 'yes' as any })).toContain('logprobs must be a boolean');
       expect(validateLLMSettings({ logprobs: true })).toEqual([]);
@@ -21,6 +21,7 @@ import { LlamaCppClientAdapter } from "./clients/LlamaCppClientAdapter";
 import { OpenRouterClientAdapter } from "./clients/OpenRouterClientAdapter";
 import { MistralClientAdapter } from "./clients/MistralClientAdapter";
 import { createDefaultLogger } from "../logging/defaultLogger";
+import { isStandardSchema } from "../shared/adapters/schemaUtils";
 
 const logger = createDefaultLogger();
 
@@ -67,6 +68,13 @@ export const ADAPTER_CONFIGS: Partial<
   },
 };
 
+/**
+ * Revision of the model price table in SUPPORTED_MODELS. Bump whenever an
+ * inputPrice/outputPrice/cache or reasoning price changes; it is recorded in
+ * every computed LLMCost.
+ */
+export const MODEL_PRICING_REVISION = "2026-10-18";
+
 /**
  * Default settings applied to all LLM requests unless overridden
  */
@@ -81,6 +89,7 @@ export const DEFAULT_LLM_SETTINGS: Required<LLMSettings> = {
   minP: undefined as any, // No universal default; explicit per-model defaults for detected GGUF models
   repeatPenalty: undefined as any, // No universal default; explicit per-model defaults for detected GGUF models
   seed: undefined as any, // No universal default; deterministic sampling is opt-in
+  n: undefined as any, // Single choice unless requested
   supportsSystemMessage: true,
   systemMessageFallback: {
     format: 'xml',
@@ -110,6 +119,10 @@ export const DEFAULT_LLM_SETTINGS: Required<LLMSettings> = {
   logprobs: undefined as any, // Optional, per-token log probabilities (llama.cpp/OpenAI/OpenRouter)
   topLogprobs: undefined as any, // Optional, number of alternatives per token
   llamacpp: undefined as any, // Optional, llama.cpp-specific settings (grammar, chatTemplateKwargs)
+  tools: undefined as any, // Optional, function definitions the model may call
+  toolChoice: undefined as any, // Optional, only meaningful with tools
+  promptCache: undefined as any, // Optional, prompt-cache breakpoints (Anthropic)
+  cachedContent: undefined as any, // Optional, explicit context cache name (Gemini)
 };
 
 /**
@@ -150,6 +163,7 @@ export const SUPPORTED_PROVIDERS: ProviderInfo[] = [
     id: "openai",
     name: "OpenAI",
     unsupportedParameters: ["frequencyPenalty", "topK", "minP", "repeatPenalty"],
+    nativeDocumentTypes: ["application/pdf"],
   },
   {
     id: "anthropic",
@@ -159,6 +173,7 @@ export const SUPPORTED_PROVIDERS: ProviderInfo[] = [
       supported: false,
       notes: "Anthropic responses are not mapped to OpenAI-style choice.logprobs.",
     },
+    nativeDocumentTypes: ["application/pdf", "text/plain"],
   },
   {
     id: "gemini",
@@ -169,6 +184,7 @@ export const SUPPORTED_PROVIDERS: ProviderInfo[] = [
       supported: false,
       notes: "Gemini exposes logprobs in a provider-specific shape that is not mapped yet.",
     },
+    nativeDocumentTypes: ["application/pdf"],
   },
   {
     id: "mistral",
@@ -192,6 +208,7 @@ export const SUPPORTED_PROVIDERS: ProviderInfo[] = [
     id: "openrouter",
     name: "OpenRouter",
     allowUnknownModels: true,  // OpenRouter provides 100+ models dynamically
+    nativeDocumentTypes: ["application/pdf"],
   },
   {
     id: "mock",
@@ -1931,6 +1948,12 @@ export function validateLLMSettings(settings: Partial<LLMSettings>): string[] {
     }
   }
 
+  if (settings.n !== undefined) {
+    if (!Number.isInteger(settings.n) || settings.n < 1) {
+      errors.push("n must be a positive integer");
+    }
+  }
+
   if (settings.logprobs !== undefined && typeof settings.logprobs !== "boolean") {
     errors.push("logprobs must be a boolean");
   }
@@ -1984,6 +2007,100 @@ export function validateLLMSettings(settings: Partial<LLMSettings>): string[] {
     }
   }
 
+  if (settings.tools !== undefined) {
+    if (!Array.isArray(settings.tools)) {
+      errors.push("tools must be an array");
+    } else {
+      const names = new Set<string>();
+      settings.tools.forEach((tool: any, i: number) => {
+        if (!tool || typeof tool !== "object") {
+          errors.push(`tools[${i}] must be an object with a name`);
+          return;
+        }
+        if (
+          typeof tool.name !== "string" ||
+          !/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)
+        ) {
+          errors.push(
+            `tools[${i}].name must be 1-64 letters, digits, underscores, or dashes`
+          );
+        } else if (names.has(tool.name)) {
+          errors.push(`tools[${i}].name '${tool.name}' is duplicated`);
+        } else {
+          names.add(tool.name);
+        }
+        if (
+          tool.description !== undefined &&
+          typeof tool.description !== "string"
+        ) {
+          errors.push(`tools[${i}].description must be a string`);
+        }
+        if (
+          tool.parameters !== undefined &&
+          (typeof tool.parameters !== "object" ||
+            tool.parameters === null ||
+            Array.isArray(tool.parameters))
+        ) {
+          errors.push(`tools[${i}].parameters must be a JSON schema object`);
+        }
+      });
+    }
+  }
+
+  if (settings.toolChoice !== undefined) {
+    const choice = settings.toolChoice as unknown;
+    if (typeof choice === "string") {
+      if (!["auto", "none", "required"].includes(choice)) {
+        errors.push("toolChoice must be 'auto', 'none', 'required', or { name }");
+      }
+    } else if (
+      !choice ||
+      typeof choice !== "object" ||
+      typeof (choice as { name?: unknown }).name !== "string"
+    ) {
+      errors.push("toolChoice must be 'auto', 'none', 'required', or { name }");
+    } else if (
+      Array.isArray(settings.tools) &&
+      !settings.tools.some(
+        (tool) => tool?.name === (choice as { name: string }).name
+      )
+    ) {
+      errors.push(
+        `toolChoice names '${(choice as { name: string }).name}', which is not in tools`
+      );
+    }
+  }
+
+  if (settings.promptCache !== undefined) {
+    const cache = settings.promptCache as unknown as Record<string, unknown>;
+    if (!cache || typeof cache !== "object" || Array.isArray(cache)) {
+      errors.push("promptCache must be an object");
+    } else {
+      if (cache.enabled !== undefined && typeof cache.enabled !== "boolean") {
+        errors.push("promptCache.enabled must be a boolean");
+      }
+      if (cache.system !== undefined && typeof cache.system !== "boolean") {
+        errors.push("promptCache.system must be a boolean");
+      }
+      if (
+        cache.messages !== undefined &&
+        (!Number.isInteger(cache.messages) || (cache.messages as number) < 0)
+      ) {
+        errors.push("promptCache.messages must be a non-negative integer");
+      }
+      if (cache.ttl !== undefined && cache.ttl !== "5m" && cache.ttl !== "1h") {
+        errors.push("promptCache.ttl must be '5m' or '1h'");
+      }
+    }
+  }
+
+  if (
+    settings.cachedContent !== undefined &&
+    (typeof settings.cachedContent !== "string" || settings.cachedContent.trim() === "")
+  ) {
+    errors.push("cachedContent must be a non-empty string");
+  }
+
   if (settings.user !== undefined && typeof settings.user !== "string") {
     errors.push("user must be a string");
   }
@@ -2059,17 +2176,26 @@ export function validateLLMSettings(settings: Partial<LLMSettings>): string[] {
         errors.push("structuredOutput.name is required and must be a non-empty string");
       }
 
-      // schema is required
-      if (!so.schema || typeof so.schema !== "object") {
-        errors.push("structuredOutput.schema is required and must be an object");
-      } else {
-        // Validate schema has a valid type
-        const validTypes = ["object", "array", "string", "number", "boolean"];
-        if (!so.schema.type || !validTypes.includes(so.schema.type)) {
-          errors.push(`structuredOutput.schema.type must be one of: ${validTypes.join(", ")}`);
+      // schema is required; Standard Schema validators are checked when they are converted
+      if (!isStandardSchema(so.schema)) {
+        if (!so.schema || typeof so.schema !== "object") {
+          errors.push("structuredOutput.schema is required and must be an object");
+        } else {
+          // Validate schema has a valid type
+          const validTypes = ["object", "array", "string", "number", "boolean"];
+          if (!so.schema.type || !validTypes.includes(so.schema.type)) {
+            errors.push(`structuredOutput.schema.type must be one of: ${validTypes.join(", ")}`);
+          }
         }
       }
 
+      if (
+        so.jsonSchema !== undefined &&
+        (!so.jsonSchema || typeof so.jsonSchema !== "object" || Array.isArray(so.jsonSchema))
+      ) {
+        errors.push("structuredOutput.jsonSchema must be an object");
+      }
+
       // enabled must be boolean if present
       if (so.enabled !== undefined && typeof so.enabled !== "boolean") {
         errors.push("structuredOutput.enabled must be a boolean");
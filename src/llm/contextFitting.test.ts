@@ -0,0 +1,181 @@
+import {
+  countMessageTokens,
+  createContextTokenCounter,
+  fitMessages,
+  type ContextSummarizer,
+  type ContextTokenCounter,
+} from './contextFitting';
+import type { LLMMessage, LLMResponse } from './types';
+
+// One token per character keeps the arithmetic readable: a message costs 4 + its length
+const counter: ContextTokenCounter = { method: 'exact', countText: (text) => text.length };
+const noSummary: ContextSummarizer = async () => {
+  throw new Error('summarizer should not be called');
+};
+
+const user = (content: string): LLMMessage => ({ role: 'user', content });
+const assistant = (content: string): LLMMessage => ({ role: 'assistant', content });
+
+// Four turns of 2 x 14 = 28 tokens each
+const history: LLMMessage[] = [
+  user('q1________'),
+  assistant('a1________'),
+  user('q2________'),
+  assistant('a2________'),
+  user('q3________'),
+  assistant('a3________'),
+  user('q4________'),
+  assistant('a4________'),
+];
+
+const contents = (messages: LLMMessage[]) => messages.map((message) => message.content);
+
+describe('fitMessages', () => {
+  it('returns the messages unchanged when they fit', async () => {
+    const result = await fitMessages(history, { budgetTokens: 200, counter }, { type: 'drop_oldest' }, noSummary);
+
+    expect(result).toEqual({ messages: history, fits: true, promptTokens: 112, removedMessages: 0 });
+  });
+
+  it('drops the oldest turns and counts the system message', async () => {
+    const result = await fitMessages(
+      history,
+      { budgetTokens: 80, systemMessage: 'sys', counter },
+      { type: 'drop_oldest' },
+      noSummary
+    );
+
+    expect(result).toMatchObject({
+      fits: true,
+      promptTokens: 7 + 56,
+      removedMessages: 4,
+      systemMessage: 'sys',
+    });
+    expect('messages' in result && contents(result.messages)).toEqual([
+      'q3________',
+      'a3________',
+      'q4________',
+      'a4________',
+    ]);
+  });
+
+  it('keeps at most the last N turns', async () => {
+    const result = await fitMessages(history, { budgetTokens: 1000, counter }, { type: 'keep_last', turns: 1 }, noSummary);
+
+    expect('messages' in result && contents(result.messages)).toEqual(['q4________', 'a4________']);
+  });
+
+  it('removes turns from the middle with middle_out', async () => {
+    const result = await fitMessages(history, { budgetTokens: 60, counter }, { type: 'middle_out' }, noSummary);
+
+    expect('messages' in result && contents(result.messages)).toEqual([
+      'q1________',
+      'a1________',
+      'q4________',
+      'a4________',
+    ]);
+  });
+
+  it('keeps tool results with their calls and always keeps system messages', async () => {
+    const messages: LLMMessage[] = [
+      { role: 'system', content: 'pinned' },
+      user('look it up'),
+      { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'lookup', arguments: '{}' }] },
+      { role: 'tool', toolCallId: 'c1', content: 'result' },
+      assistant('done'),
+      user('next'),
+    ];
+
+    const result = await fitMessages(messages, { budgetTokens: 20, counter }, { type: 'drop_oldest' }, noSummary);
+
+    expect(result).toMatchObject({ removedMessages: 4, fits: true });
+    expect('messages' in result && contents(result.messages)).toEqual(['pinned', 'next']);
+  });
+
+  it('reports when even the latest turn does not fit', async () => {
+    const result = await fitMessages(history, { budgetTokens: 10, counter }, { type: 'drop_oldest' }, noSummary);
+
+    expect(result).toMatchObject({ fits: false, promptTokens: 28, removedMessages: 6 });
+  });
+
+  it('replaces old turns with a summary in the system message', async () => {
+    const summarize = jest.fn<ReturnType<ContextSummarizer>, Parameters<ContextSummarizer>>(async () => ({
+      id: 'sum',
+      provider: 'openai',
+      model: 'gpt-4.1',
+      created: 1,
+      object: 'chat.completion',
+      choices: [{ index: 0, message: { role: 'assistant', content: ' Talked about q1 to q3. ' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 50, completion_tokens: 6, total_tokens: 56 },
+    } as LLMResponse));
+
+    const result = await fitMessages(
+      history,
+      { budgetTokens: 120, systemMessage: 'Be brief.', counter },
+      { type: 'summarize', maxSummaryTokens: 30 },
+      summarize
+    );
+
+    expect(summarize).toHaveBeenCalledWith(expect.stringContaining('user: q1________\n\nassistant: a1________'), 30);
+    expect(result).toMatchObject({
+      systemMessage: 'Be brief.\n\nSummary of the earlier conversation:\nTalked about q1 to q3.',
+      removedMessages: 6,
+      fits: true,
+      summary: {
+        text: 'Talked about q1 to q3.',
+        summarizedMessages: 6,
+        usage: { total_tokens: 56 },
+      },
+    });
+    expect('messages' in result && contents(result.messages)).toEqual(['q4________', 'a4________']);
+  });
+
+  it('returns the summarizer failure', async () => {
+    const failure = {
+      provider: 'openai',
+      model: 'gpt-4.1',
+      object: 'error' as const,
+      error: { message: 'down', code: 'PROVIDER_ERROR', type: 'server_error' },
+    };
+
+    const result = await fitMessages(
+      history,
+      { budgetTokens: 60, counter },
+      { type: 'summarize' },
+      async () => failure
+    );
+
+    expect(result).toBe(failure);
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('counts tool calls and gives binary parts a flat allowance', () => {
+    expect(
+      countMessageTokens(
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'abc' },
+            { type: 'image', url: 'https://example.com/cat.png' },
+          ],
+        },
+        counter
+      )
+    ).toBe(4 + 3 + 1024);
+    expect(
+      countMessageTokens(
+        { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'get', arguments: '{"a":1}' }] },
+        counter
+      )
+    ).toBe(4 + 4 + 3 + 7);
+  });
+
+  it('uses the exact profile for mapped models and a heuristic otherwise', () => {
+    expect(createContextTokenCounter('openai', 'gpt-4.1').method).toBe('exact');
+    expect(createContextTokenCounter('openai', 'gpt-4.1').countText('hello world')).toBe(2);
+    const heuristic = createContextTokenCounter('mock', 'mock-model');
+    expect(heuristic.method).toBe('heuristic');
+    expect(heuristic.countText('12345678')).toBe(2 + 1);
+  });
+});
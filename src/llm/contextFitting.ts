@@ -0,0 +1,380 @@
+// AI Summary: Token counting and turn-based trimming used by LLMService.fitToContext().
+// Groups messages into turns so tool results stay with their calls, counts them with
+// the model's content-token profile (or a heuristic), and applies the fitting strategies.
+
+import type {
+  ApiProviderId,
+  LLMChatRequestWithPreset,
+  LLMCost,
+  LLMFailureResponse,
+  LLMMessage,
+  LLMRequestCapabilityPreflight,
+  LLMResponse,
+  LLMToolDefinition,
+  LLMUsage,
+  PreparedPromptTokenCount,
+} from "./types";
+import {
+  countContentTextTokens,
+  estimateTextTokens,
+  resolveContentTokenProfile,
+} from "./tokenization";
+
+/** Model whose context window is targeted, plus the request parts that are always sent. */
+export interface ContextFitTarget extends LLMRequestCapabilityPreflight {
+  /** Counted against the budget and never trimmed. */
+  systemMessage?: string;
+}
+
+/**
+ * How to shrink messages that do not fit. Whole turns (a user message and
+ * the assistant, tool call and tool result messages after it) are removed,
+ * so tool results are never separated from their calls. System messages and
+ * the latest turn are always kept.
+ *
+ * - `drop_oldest`: remove the oldest turns until the rest fits.
+ * - `keep_last`: keep at most the last `turns` turns, and fewer if needed.
+ * - `middle_out`: keep the first and latest turns, removing from the middle.
+ * - `summarize`: replace the oldest turns with an LLM-written summary,
+ *   appended to the system message.
+ */
+export type ContextFitStrategy =
+  | { type: "drop_oldest" }
+  | { type: "keep_last"; turns: number }
+  | { type: "middle_out" }
+  | {
+      type: "summarize";
+      /** Output limit for the summary, also reserved in the budget. Default 1024. */
+      maxSummaryTokens?: number;
+      /** Model that writes the summary. Defaults to the resolved target model without preset settings. */
+      summarizer?: Omit<LLMChatRequestWithPreset, "messages">;
+    };
+
+export interface ContextFitOptions {
+  /** Default `{ type: "drop_oldest" }`. */
+  strategy?: ContextFitStrategy;
+  /** Overrides the model's context window, e.g. a llama.cpp server's `--ctx-size`. */
+  contextWindow?: number;
+  /** Extra tokens to leave free on top of the effective output-token limit. Default 0. */
+  reserveTokens?: number;
+  /** Cancels the summarizer call. */
+  signal?: AbortSignal;
+  /** Usage-ledger tag for the summarizer call. */
+  userTag?: string;
+}
+
+/** Summary produced by the `summarize` strategy. */
+export interface ContextFitSummary {
+  text: string;
+  /** Number of messages the summary replaced. */
+  summarizedMessages: number;
+  usage?: LLMUsage;
+  cost?: LLMCost;
+}
+
+/** Messages trimmed to fit a model's context window. */
+export interface ContextFitResult {
+  object: "context.fit";
+  provider: ApiProviderId;
+  model: string;
+  /** Messages to send; unchanged when they already fit. */
+  messages: LLMMessage[];
+  /** System message to send; includes the summary for the `summarize` strategy. */
+  systemMessage?: string;
+  /** False when even the latest turn alone exceeds the budget. */
+  fits: boolean;
+  /** Estimated prompt tokens of `messages`, `systemMessage` and tool definitions. */
+  promptTokens: number;
+  /** Context window minus reserved output and extra reserve tokens. */
+  budgetTokens: number;
+  contextWindow: number;
+  /** Effective output-token limit reserved for the reply. */
+  reservedOutputTokens: number;
+  /** `exact` or `model` with a content-token profile, otherwise `heuristic`. */
+  countMethod: PreparedPromptTokenCount["method"];
+  /** Number of input messages left out of `messages`. */
+  removedMessages: number;
+  summary?: ContextFitSummary;
+}
+
+/** Counts text for one model. */
+export interface ContextTokenCounter {
+  method: PreparedPromptTokenCount["method"];
+  countText(text: string): number;
+}
+
+/** Model budget and fixed request parts that fitMessages() trims against. */
+export interface ContextFitBudget {
+  budgetTokens: number;
+  systemMessage?: string;
+  tools?: LLMToolDefinition[];
+  counter: ContextTokenCounter;
+}
+
+/** Writes a summary of `transcript` in at most `maxTokens` tokens. */
+export type ContextSummarizer = (
+  transcript: string,
+  maxTokens: number
+) => Promise<LLMResponse | LLMFailureResponse>;
+
+/** Per-message framing tokens (role markers, separators) added by chat templates. */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/**
+ * Rough allowance for an image or binary document part. Actual costs vary
+ * by provider, resolution and page count.
+ */
+const BINARY_PART_TOKENS = 1024;
+const DEFAULT_MAX_SUMMARY_TOKENS = 1024;
+const SUMMARY_HEADING = "Summary of the earlier conversation:";
+
+/** System message for the summarizer call of the `summarize` strategy. */
+export const CONTEXT_SUMMARY_INSTRUCTIONS =
+  "Summarize the conversation transcript you are given so it can replace the original messages. " +
+  "Keep facts, decisions, names, numbers, open questions and tool results that later turns may rely on. " +
+  "Write plain prose without preamble.";
+
+/**
+ * Counts with the model's content-token profile when one is available,
+ * otherwise with the generic estimate plus its uncertainty.
+ */
+export function createContextTokenCounter(
+  providerId: ApiProviderId,
+  modelId: string
+): ContextTokenCounter {
+  const estimate = (text: string) => {
+    const count = estimateTextTokens(text);
+    return count.tokens + (count.uncertaintyTokens ?? 0);
+  };
+  const resolution = resolveContentTokenProfile(providerId, modelId);
+  if (resolution.status !== "available") {
+    return { method: "heuristic", countText: estimate };
+  }
+  const profile = resolution.profile;
+  return {
+    method: profile.quality,
+    countText: (text) => {
+      const counted = countContentTextTokens(text, profile);
+      return counted.status === "available" ? counted.count.tokens : estimate(text);
+    },
+  };
+}
+
+/** Estimated tokens of one message, including tool calls and framing. */
+export function countMessageTokens(
+  message: LLMMessage,
+  counter: ContextTokenCounter
+): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof message.content === "string") {
+    tokens += counter.countText(message.content);
+  } else {
+    for (const part of message.content) {
+      if (part.type === "text") {
+        tokens += counter.countText(part.text);
+      } else if (part.type === "document" && part.text !== undefined) {
+        tokens += counter.countText(part.text);
+      } else {
+        tokens += BINARY_PART_TOKENS;
+      }
+    }
+  }
+  for (const call of message.toolCalls ?? []) {
+    tokens +=
+      MESSAGE_OVERHEAD_TOKENS + counter.countText(call.name) + counter.countText(call.arguments);
+  }
+  if (message.name !== undefined) {
+    tokens += counter.countText(message.name);
+  }
+  return tokens;
+}
+
+/**
+ * Applies `strategy` to `messages` against `budget`. Returns the summarizer's
+ * failure when the `summarize` strategy cannot get a summary.
+ */
+export async function fitMessages(
+  messages: LLMMessage[],
+  budget: ContextFitBudget,
+  strategy: ContextFitStrategy,
+  summarize: ContextSummarizer
+): Promise<
+  | Pick<ContextFitResult, "messages" | "systemMessage" | "fits" | "promptTokens" | "removedMessages" | "summary">
+  | LLMFailureResponse
+> {
+  const { budgetTokens, tools, counter } = budget;
+  const counts = new Map<LLMMessage, number>();
+  const countMessage = (message: LLMMessage) => {
+    let tokens = counts.get(message);
+    if (tokens === undefined) {
+      tokens = countMessageTokens(message, counter);
+      counts.set(message, tokens);
+    }
+    return tokens;
+  };
+  const fixedTokens = countFixedTokens(budget.systemMessage, tools, counter);
+  const finish = (
+    trimmed: { kept: LLMMessage[]; removed: LLMMessage[]; tokens: number },
+    systemMessage = budget.systemMessage,
+    summary?: ContextFitSummary
+  ) => {
+    const promptTokens = countFixedTokens(systemMessage, tools, counter) + trimmed.tokens;
+    return {
+      messages: trimmed.kept,
+      ...(systemMessage !== undefined && { systemMessage }),
+      fits: promptTokens <= budgetTokens,
+      promptTokens,
+      removedMessages: trimmed.removed.length,
+      ...(summary && { summary }),
+    };
+  };
+
+  if (strategy.type !== "summarize") {
+    return finish(trimMessagesToBudget(messages, budgetTokens - fixedTokens, strategy, countMessage));
+  }
+
+  const untrimmed = trimMessagesToBudget(
+    messages,
+    budgetTokens - fixedTokens,
+    { type: "drop_oldest" },
+    countMessage
+  );
+  if (untrimmed.removed.length === 0) {
+    return finish(untrimmed);
+  }
+
+  // Trim again, leaving room for the summary in the system message
+  const maxSummaryTokens = strategy.maxSummaryTokens ?? DEFAULT_MAX_SUMMARY_TOKENS;
+  const summaryTokens =
+    maxSummaryTokens +
+    (budget.systemMessage === undefined
+      ? MESSAGE_OVERHEAD_TOKENS + counter.countText(`${SUMMARY_HEADING}\n`)
+      : counter.countText(`\n\n${SUMMARY_HEADING}\n`));
+  const trimmed = trimMessagesToBudget(
+    messages,
+    budgetTokens - fixedTokens - summaryTokens,
+    { type: "drop_oldest" },
+    countMessage
+  );
+  const response = await summarize(formatTranscript(trimmed.removed), maxSummaryTokens);
+  if (response.object === "error") {
+    return response;
+  }
+  const text = response.choices[0].message.content.trim();
+  const systemMessage = [budget.systemMessage, `${SUMMARY_HEADING}\n${text}`]
+    .filter((part) => part !== undefined && part !== "")
+    .join("\n\n");
+  return finish(trimmed, systemMessage, {
+    text,
+    summarizedMessages: trimmed.removed.length,
+    ...(response.usage && { usage: response.usage }),
+    ...(response.cost && { cost: response.cost }),
+  });
+}
+
+function countFixedTokens(
+  systemMessage: string | undefined,
+  tools: LLMToolDefinition[] | undefined,
+  counter: ContextTokenCounter
+): number {
+  return (
+    (systemMessage ? MESSAGE_OVERHEAD_TOKENS + counter.countText(systemMessage) : 0) +
+    (tools && tools.length > 0 ? counter.countText(JSON.stringify(tools)) : 0)
+  );
+}
+
+/**
+ * Trims `messages` by whole turns until their tokens fit `budgetTokens`.
+ * Returns the kept and removed messages, each in their original order.
+ */
+function trimMessagesToBudget(
+  messages: LLMMessage[],
+  budgetTokens: number,
+  strategy: Exclude<ContextFitStrategy, { type: "summarize" }>,
+  countMessage: (message: LLMMessage) => number
+): { kept: LLMMessage[]; removed: LLMMessage[]; tokens: number } {
+  const tokens = messages.map(countMessage);
+  const turns = groupTurns(messages);
+  const turnTokens = turns.map((turn) => turn.reduce((sum, index) => sum + tokens[index], 0));
+  let total = tokens.reduce((sum, count) => sum + count, 0);
+
+  // Indices into `turns` of turns that are still kept, oldest first
+  const kept = turns.map((_, index) => index);
+  const drop = (position: number) => {
+    total -= turnTokens[kept[position]];
+    kept.splice(position, 1);
+  };
+
+  if (strategy.type === "keep_last") {
+    while (kept.length > Math.max(1, strategy.turns)) {
+      drop(0);
+    }
+  }
+  while (total > budgetTokens && kept.length > 1) {
+    if (strategy.type === "middle_out" && kept.length > 2) {
+      // Remove the turn nearest the middle, never the first or the last
+      drop(Math.floor(kept.length / 2));
+    } else {
+      drop(0);
+    }
+  }
+
+  const keptIndices = new Set(kept.flatMap((turn) => turns[turn]));
+  const result = { kept: [] as LLMMessage[], removed: [] as LLMMessage[], tokens: total };
+  messages.forEach((message, index) => {
+    // System messages belong to no turn and are always kept
+    const keep = message.role === "system" || keptIndices.has(index);
+    (keep ? result.kept : result.removed).push(message);
+  });
+  return result;
+}
+
+/** Formats removed messages as a plain-text transcript for the summarizer. */
+function formatTranscript(messages: LLMMessage[]): string {
+  return messages
+    .map((message) => {
+      const content =
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              .map((part) =>
+                part.type === "text"
+                  ? part.text
+                  : part.type === "document" && part.text !== undefined
+                    ? part.text
+                    : `[${part.type}]`
+              )
+              .join("\n");
+      const calls = (message.toolCalls ?? [])
+        .map((call) => `\n[tool call ${call.name}(${call.arguments})]`)
+        .join("");
+      return `${message.role}: ${content}${calls}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Groups message indices into turns. Each user message starts a turn;
+ * messages before the first user message join the first turn. System
+ * messages are left out.
+ */
+function groupTurns(messages: LLMMessage[]): number[][] {
+  const turns: number[][] = [];
+  let leading: number[] = [];
+  messages.forEach((message, index) => {
+    if (message.role === "system") {
+      return;
+    }
+    if (message.role === "user") {
+      turns.push([...leading, index]);
+      leading = [];
+    } else if (turns.length === 0) {
+      leading.push(index);
+    } else {
+      turns[turns.length - 1].push(index);
+    }
+  });
+  if (leading.length > 0) {
+    turns.push(leading);
+  }
+  return turns;
+}
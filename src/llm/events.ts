@@ -0,0 +1,99 @@
+// AI Summary: Typed lifecycle events emitted by LLMService, subscribed to with LLMService.on().
+// Maps each event name to its payload: logical request start/end, physical attempt
+// start/retry/end, first streamed token, and stale prepared calls.
+
+import type { RetryVerdict } from "../shared/services/withRetry";
+import type {
+  ApiProviderId,
+  LLMFailureResponse,
+  LLMUsage,
+  PreparedCallMode,
+} from "./types";
+
+/** Error of a failed request or attempt, without the raw provider error. */
+export type LLMEventError = Omit<LLMFailureResponse["error"], "providerError">;
+
+export interface LLMRequestEventBase {
+  /** Generated per sendMessage/streamMessage/sendPrepared/streamPrepared call; shared by its attempt events. */
+  requestId: string;
+  /** Epoch ms when the event was emitted. */
+  timestamp: number;
+}
+
+export interface LLMAttemptEventBase extends LLMRequestEventBase {
+  /** Same ID as the attempt's usage ledger entry and stream events. */
+  attemptId: string;
+  /** 0-based attempt index within the retry loop. */
+  attempt: number;
+  provider: ApiProviderId;
+  model: string;
+}
+
+export interface LLMRequestStartEvent extends LLMRequestEventBase {
+  mode: PreparedCallMode;
+  /** Requested provider and model, from the preset when one is given; unset when neither resolves. */
+  provider?: ApiProviderId;
+  model?: string;
+  presetId?: string;
+}
+
+export interface LLMAttemptRetryEvent extends LLMRequestEventBase {
+  /** 0-based index of the attempt that failed. */
+  attempt: number;
+  provider: ApiProviderId;
+  model: string;
+  /** Wait before the next attempt, in ms. */
+  delayMs: number;
+  verdict: RetryVerdict;
+  error: LLMEventError;
+}
+
+export interface LLMAttemptEndEvent extends LLMAttemptEventBase {
+  durationMs: number;
+  success: boolean;
+  /** Usage reported by the provider, including partial usage of failed attempts. */
+  usage?: LLMUsage;
+  error?: LLMEventError;
+}
+
+export interface LLMStreamFirstTokenEvent extends LLMAttemptEventBase {
+  /** Time from the start of the attempt to its first content delta, reasoning delta or tool call, in ms. */
+  latencyMs: number;
+}
+
+export interface LLMRequestEndEvent extends LLMRequestEventBase {
+  mode: PreparedCallMode;
+  /** Provider and model that produced the result, when known. */
+  provider?: ApiProviderId;
+  model?: string;
+  durationMs: number;
+  /** False for failures and for streams the consumer stopped before a terminal event. */
+  success: boolean;
+  usage?: LLMUsage;
+  /** Total cost in USD, when the model has pricing. */
+  cost?: number;
+  error?: LLMEventError;
+}
+
+export interface LLMPreparedStaleEvent {
+  timestamp: number;
+  provider: ApiProviderId;
+  model: string;
+  /**
+   * `'preparation'` when the endpoint revision changed while a call was being
+   * prepared; `'dispatch'` when a prepared call was revalidated before an attempt.
+   */
+  phase: "preparation" | "dispatch";
+  message: string;
+}
+
+/** Event names and payloads of LLMService.on(). */
+export interface LLMServiceEvents {
+  "request:start": LLMRequestStartEvent;
+  "attempt:start": LLMAttemptEventBase;
+  "attempt:retry": LLMAttemptRetryEvent;
+  "attempt:end": LLMAttemptEndEvent;
+  "stream:first-token": LLMStreamFirstTokenEvent;
+  "request:end": LLMRequestEndEvent;
+  "prepared:stale": LLMPreparedStaleEvent;
+}
@@ -0,0 +1,271 @@
+// AI Summary: Middleware chain around LLMService dispatch, configured via LLMServiceOptions.middleware.
+// Defines the hook types and runs them in chain order: request hooks before preparation,
+// attempt wrappers inside the retry loop, and response/stream-event hooks on the way out.
+
+import type {
+  ApiProviderId,
+  LLMChatRequest,
+  LLMChatRequestWithPreset,
+  LLMFailureResponse,
+  LLMResponse,
+  LLMServiceStreamEvent,
+  PreparedCallMode,
+  PreparedProviderRequestView,
+} from "./types";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/** A request as given to sendMessage or streamMessage. */
+export type LLMMiddlewareRequest = LLMChatRequest | LLMChatRequestWithPreset;
+
+export interface LLMMiddlewareContext {
+  /** `'complete'` for sendMessage/sendPrepared, `'stream'` for streamMessage/streamPrepared. */
+  mode: PreparedCallMode;
+}
+
+export interface LLMAttemptContext extends LLMMiddlewareContext {
+  provider: ApiProviderId;
+  model: string;
+  /** 0-based attempt index within the retry loop. */
+  attempt: number;
+  /** Frozen inspection view of the provider request being sent. */
+  request: PreparedProviderRequestView;
+}
+
+/**
+ * Hooks around LLMService dispatch. Every hook is optional.
+ *
+ * For `middleware: [a, b]` the chain runs in this order:
+ * 1. `onRequest`: a, then b, on the request given to sendMessage or
+ *    streamMessage, before presets are resolved and the provider request is
+ *    prepared. Prepared calls skip this stage.
+ * 2. `wrapAttempt`: a wraps b, which wraps each physical attempt inside the
+ *    retry loop (structured output repairs included). In stream mode `next`
+ *    streams the attempt's events as they arrive and resolves with its
+ *    terminal result, and the wrapper's result becomes the terminal event.
+ * 3. `onResponse`: b, then a, on the final response or failure of a
+ *    complete-mode call, after fallbacks and repairs.
+ * 4. `onStreamEvent`: b, then a, on each event of a stream, terminal
+ *    `complete`/`error` events included.
+ *
+ * `onRequest` short-circuits by returning a response or failure instead of a
+ * request: later request hooks, preparation and dispatch are skipped, and the
+ * result still passes through `onResponse` (or `onStreamEvent` as a terminal
+ * event). `wrapAttempt` short-circuits by returning without calling `next`,
+ * which also skips rate limiting, the circuit breaker and the usage ledger.
+ *
+ * A hook that throws rejects the call or ends the stream with that exception,
+ * except inside `wrapAttempt`, where a throw becomes a `PROVIDER_ERROR`
+ * failure like an adapter exception. The call is closed first: `request:end`
+ * reports the exception as an `UNKNOWN_ERROR` and the call span ends with an
+ * error status.
+ */
+export interface LLMMiddleware {
+  /** Returns a replacement request, a response to short-circuit with, or nothing to continue unchanged. */
+  onRequest?(
+    request: LLMMiddlewareRequest,
+    context: LLMMiddlewareContext
+  ): MaybePromise<LLMMiddlewareRequest | LLMResponse | LLMFailureResponse | void>;
+  /** Runs one attempt; `next` runs the rest of the chain and the dispatch. */
+  wrapAttempt?(
+    context: LLMAttemptContext,
+    next: () => Promise<LLMResponse | LLMFailureResponse>
+  ): Promise<LLMResponse | LLMFailureResponse>;
+  /** Returns a replacement result, or nothing to keep it. */
+  onResponse?(
+    response: LLMResponse | LLMFailureResponse,
+    context: LLMMiddlewareContext
+  ): MaybePromise<LLMResponse | LLMFailureResponse | void>;
+  /** Returns a replacement event, `null` to drop the event, or nothing to keep it. */
+  onStreamEvent?(
+    event: LLMServiceStreamEvent,
+    context: LLMMiddlewareContext
+  ): MaybePromise<LLMServiceStreamEvent | null | void>;
+}
+
+/**
+ * Runs the request hooks in order. Returns the final request, or the first
+ * response a hook short-circuited with.
+ */
+export async function applyRequestMiddleware(
+  middleware: readonly LLMMiddleware[],
+  request: LLMMiddlewareRequest,
+  context: LLMMiddlewareContext
+): Promise<LLMMiddlewareRequest | LLMResponse | LLMFailureResponse> {
+  let current = request;
+  for (const entry of middleware) {
+    const result = await entry.onRequest?.(current, context);
+    if (!result) {
+      continue;
+    }
+    if ("object" in result) {
+      return result;
+    }
+    current = result;
+  }
+  return current;
+}
+
+/** Runs `attempt` inside the attempt wrappers, the first middleware outermost. */
+export function runAttemptMiddleware(
+  middleware: readonly LLMMiddleware[],
+  context: LLMAttemptContext,
+  attempt: () => Promise<LLMResponse | LLMFailureResponse>
+): Promise<LLMResponse | LLMFailureResponse> {
+  const dispatch = (position: number): Promise<LLMResponse | LLMFailureResponse> => {
+    const entry = middleware[position];
+    if (!entry) {
+      return attempt();
+    }
+    if (!entry.wrapAttempt) {
+      return dispatch(position + 1);
+    }
+    return entry.wrapAttempt(context, () => dispatch(position + 1));
+  };
+  return dispatch(0);
+}
+
+/**
+ * Streaming counterpart of runAttemptMiddleware. `next` forwards the
+ * attempt's events as they are consumed and resolves with its terminal
+ * result; the result of the outermost wrapper becomes the terminal event.
+ * A wrapper that throws ends the attempt with `onThrow(error)`.
+ */
+export async function* runStreamAttemptMiddleware(
+  middleware: readonly LLMMiddleware[],
+  context: LLMAttemptContext,
+  attemptId: string,
+  attempt: () => AsyncIterable<LLMServiceStreamEvent>,
+  onThrow: (error: unknown) => LLMFailureResponse
+): AsyncGenerator<LLMServiceStreamEvent> {
+  if (!middleware.some((entry) => entry.wrapAttempt)) {
+    yield* attempt();
+    return;
+  }
+
+  // Forwarded events wait here until the consumer takes them
+  const queue: { event: LLMServiceStreamEvent; taken: () => void }[] = [];
+  const runs: Promise<unknown>[] = [];
+  let wake: (() => void) | undefined;
+  let stopped = false;
+  let settled = false;
+
+  const forward = async (): Promise<LLMResponse | LLMFailureResponse> => {
+    let result: LLMResponse | LLMFailureResponse | undefined;
+    for await (const event of attempt()) {
+      if (event.type === "complete") {
+        result = event.response;
+      } else if (event.type === "error") {
+        result = event.error;
+      } else {
+        if (!stopped) {
+          await new Promise<void>((taken) => {
+            queue.push({ event, taken });
+            wake?.();
+          });
+        }
+        if (stopped) {
+          throw new Error("The stream was stopped before the attempt finished.");
+        }
+      }
+    }
+    if (!result) {
+      throw new Error("The stream attempt ended without a terminal event.");
+    }
+    return result;
+  };
+  const next = (): Promise<LLMResponse | LLMFailureResponse> => {
+    const run = forward();
+    runs.push(run.catch(() => undefined));
+    return run;
+  };
+  const dispatch = (position: number): Promise<LLMResponse | LLMFailureResponse> => {
+    const entry = middleware[position];
+    if (!entry) {
+      return next();
+    }
+    if (!entry.wrapAttempt) {
+      return dispatch(position + 1);
+    }
+    return entry.wrapAttempt(context, () => dispatch(position + 1));
+  };
+
+  const outcome = new Promise<LLMResponse | LLMFailureResponse>((resolve) =>
+    resolve(dispatch(0))
+  )
+    .catch(onThrow)
+    .finally(() => {
+      settled = true;
+      wake?.();
+    });
+  try {
+    while (queue.length > 0 || !settled) {
+      const pending = queue.shift();
+      if (pending) {
+        try {
+          yield pending.event;
+        } finally {
+          pending.taken();
+        }
+        continue;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = undefined;
+    }
+  } finally {
+    // Release forwarders still waiting so their attempts close
+    stopped = true;
+    for (const pending of queue.splice(0)) {
+      pending.taken();
+    }
+    await Promise.all(runs);
+    await outcome;
+  }
+  const result = await outcome;
+  yield result.object === "error"
+    ? { attemptId, type: "error", error: result }
+    : { attemptId, type: "complete", response: result };
+}
+
+/** Runs the response hooks, last middleware first. */
+export async function applyResponseMiddleware(
+  middleware: readonly LLMMiddleware[],
+  response: LLMResponse | LLMFailureResponse,
+  context: LLMMiddlewareContext
+): Promise<LLMResponse | LLMFailureResponse> {
+  let current = response;
+  for (let position = middleware.length - 1; position >= 0; position--) {
+    current = (await middleware[position].onResponse?.(current, context)) ?? current;
+  }
+  return current;
+}
+
+/**
+ * Passes every event through the stream-event hooks, last middleware first.
+ * A dropped event is not passed to the remaining hooks.
+ */
+export async function* applyStreamEventMiddleware(
+  middleware: readonly LLMMiddleware[],
+  events: AsyncIterable<LLMServiceStreamEvent>,
+  context: LLMMiddlewareContext
+): AsyncGenerator<LLMServiceStreamEvent> {
+  if (!middleware.some((entry) => entry.onStreamEvent)) {
+    yield* events;
+    return;
+  }
+  for await (const event of events) {
+    let current: LLMServiceStreamEvent | null = event;
+    for (let position = middleware.length - 1; position >= 0 && current; position--) {
+      const result: LLMServiceStreamEvent | null | void =
+        await middleware[position].onStreamEvent?.(current, context);
+      if (result !== undefined) {
+        current = result;
+      }
+    }
+    if (current) {
+      yield current;
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { RequestValidator } from './RequestValidator';
-import type { LLMChatRequest, LLMFailureResponse, ModelInfo, StructuredOutputSettings } from '../types';
+import type { LLMChatRequest, LLMFailureResponse, ModelInfo, ProviderInfo, StructuredOutputSettings } from '../types';
 
 describe('RequestValidator', () => {
   let validator: RequestValidator;
@@ -111,6 +111,122 @@ describe('RequestValidator', () => {
       expect(result?.provider).toBe('test-preset');
       expect(result?.model).toBe('test-preset');
     });
+
+    it('should accept tool calls paired with tool results', () => {
+      const request: LLMChatRequest = {
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [
+          { role: 'user', content: 'Weather?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{}' }]
+          },
+          { role: 'tool', toolCallId: 'call_1', content: 'sunny' }
+        ]
+      };
+
+      expect(validator.validateRequestStructure(request)).toBeNull();
+    });
+
+    it('should reject a tool message without toolCallId', () => {
+      const request: LLMChatRequest = {
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [{ role: 'tool', content: 'sunny' }]
+      };
+
+      const result = validator.validateRequestStructure(request);
+
+      expect(result?.error.code).toBe('INVALID_MESSAGE');
+      expect(result?.error.param).toBe('messages[0]');
+      expect(result?.error.message).toContain("non-empty 'toolCallId'");
+    });
+
+    it('should reject toolCalls on non-assistant messages', () => {
+      const request: LLMChatRequest = {
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [{
+          role: 'user',
+          content: 'Hi',
+          toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{}' }]
+        }]
+      };
+
+      const result = validator.validateRequestStructure(request);
+
+      expect(result?.error.code).toBe('INVALID_MESSAGE');
+      expect(result?.error.message).toContain("Only assistant messages may set 'toolCalls'");
+    });
+
+    it('should reject malformed tool calls', () => {
+      const request: LLMChatRequest = {
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [{
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: {} as any }]
+        }]
+      };
+
+      const result = validator.validateRequestStructure(request);
+
+      expect(result?.error.message).toContain("malformed 'toolCalls'");
+    });
+
+    it('should validate cacheBreakpoint markers', () => {
+      const withMarker = (cacheBreakpoint: unknown): LLMChatRequest => ({
+        providerId: 'anthropic',
+        modelId: 'claude-sonnet-4-5-20250929',
+        messages: [{ role: 'user', content: 'Hi', cacheBreakpoint: cacheBreakpoint as any }]
+      });
+
+      expect(validator.validateRequestStructure(withMarker(true))).toBeNull();
+      expect(validator.validateRequestStructure(withMarker({ ttl: '1h' }))).toBeNull();
+      expect(validator.validateRequestStructure(withMarker({ ttl: '2h' }))?.error).toMatchObject({
+        code: 'INVALID_MESSAGE',
+        param: 'messages[0]',
+      });
+      expect(validator.validateRequestStructure(withMarker('yes'))?.error.message).toContain(
+        "'cacheBreakpoint' must be a boolean or { ttl: '5m' | '1h' }"
+      );
+    });
+
+    it('should accept text and image content parts', () => {
+      const request: LLMChatRequest = {
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this picture?' },
+            { type: 'image', data: Buffer.from('png'), mimeType: 'image/png' }
+          ]
+        }]
+      };
+
+      expect(validator.validateRequestStructure(request)).toBeNull();
+    });
+
+    it('should reject malformed image parts', () => {
+      const request: LLMChatRequest = {
+        providerId: 'openai',
+        modelId: 'gpt-4.1',
+        messages: [{
+          role: 'user',
+          content: [{ type: 'image', data: 'aGVsbG8=' }]
+        }]
+      };
+
+      const result = validator.validateRequestStructure(request);
+
+      expect(result?.error.code).toBe('INVALID_MESSAGE');
+      expect(result?.error.param).toBe('messages[0]');
+      expect(result?.error.message).toContain("must set 'mimeType'");
+    });
   });
 
   describe('validateSettings', () => {
@@ -198,6 +314,19 @@ describe('RequestValidator', () => {
       }
     );
 
+    it("rejects toolChoice without effective tools", () => {
+      const result = validator.validateFinalSettings(
+        { toolChoice: "required" },
+        "openai",
+        "gpt-4.1"
+      );
+
+      expect(result?.error).toMatchObject({
+        code: "INVALID_SETTINGS",
+        param: "settings.toolChoice",
+      });
+    });
+
     it("allows settings without topLogprobs", () => {
       expect(validator.validateFinalSettings(
         { logprobs: false },
@@ -472,4 +601,111 @@ describe('RequestValidator', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('validateContentCapabilities', () => {
+    const imageRequest: LLMChatRequest = {
+      providerId: 'anthropic',
+      modelId: 'claude-3-5-haiku-20241022',
+      messages: [
+        { role: 'system', content: 'Describe images.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', url: 'https://example.com/cat.png' }
+          ]
+        }
+      ]
+    };
+
+    it('should reject image parts for models without image support', () => {
+      const model: ModelInfo = {
+        id: 'claude-3-5-haiku-20241022',
+        name: 'Claude 3.5 Haiku',
+        providerId: 'anthropic' as any,
+        supportsImages: false,
+        supportsPromptCache: false
+      };
+
+      const result = validator.validateContentCapabilities(model, imageRequest);
+
+      expect(result?.error.code).toBe('image_input_not_supported');
+      expect(result?.error.type).toBe('validation_error');
+      expect(result?.error.param).toBe('messages[1].content');
+    });
+
+    it('should accept image parts for image-capable models', () => {
+      const model: ModelInfo = {
+        id: 'claude-sonnet-4-5-20250929',
+        name: 'Claude Sonnet 4.5',
+        providerId: 'anthropic' as any,
+        supportsImages: true,
+        supportsPromptCache: false
+      };
+
+      expect(validator.validateContentCapabilities(model, imageRequest)).toBeNull();
+    });
+
+    it('should accept text-only part arrays for any model', () => {
+      const model: ModelInfo = {
+        id: 'text-model',
+        name: 'Text Model',
+        providerId: 'openai' as any,
+        supportsPromptCache: false
+      };
+
+      const result = validator.validateContentCapabilities(model, {
+        providerId: 'openai',
+        modelId: 'text-model',
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }]
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('validateDocumentDelivery', () => {
+    const pdfRequest: LLMChatRequest = {
+      providerId: 'mistral',
+      modelId: 'mistral-small-latest',
+      messages: [
+        { role: 'user', content: 'Hi' },
+        {
+          role: 'user',
+          content: [{ type: 'document', data: 'JVBERg==', title: 'Report' }]
+        }
+      ]
+    };
+    const mistral: ProviderInfo = { id: 'mistral', name: 'Mistral AI' };
+
+    it('should reject PDFs for providers without native PDF input', () => {
+      const result = validator.validateDocumentDelivery(mistral, pdfRequest, false);
+
+      expect(result?.error.code).toBe('document_input_not_supported');
+      expect(result?.error.param).toBe('messages[1].content');
+    });
+
+    it('should accept PDFs when a text extractor is configured', () => {
+      expect(validator.validateDocumentDelivery(mistral, pdfRequest, true)).toBeNull();
+    });
+
+    it('should accept PDFs for providers with native PDF input', () => {
+      const anthropic: ProviderInfo = {
+        id: 'anthropic',
+        name: 'Anthropic',
+        nativeDocumentTypes: ['application/pdf', 'text/plain']
+      };
+
+      expect(validator.validateDocumentDelivery(anthropic, pdfRequest, false)).toBeNull();
+    });
+
+    it('should always accept plain-text documents', () => {
+      const result = validator.validateDocumentDelivery(mistral, {
+        ...pdfRequest,
+        messages: [{ role: 'user', content: [{ type: 'document', text: 'Notes' }] }]
+      }, false);
+
+      expect(result).toBeNull();
+    });
+  });
 });
@@ -3,13 +3,16 @@ import type {
   LLMChatRequest,
   LLMChatRequestWithPreset,
   LLMFailureResponse,
+  LLMMessage,
   LLMSettings,
   ModelInfo,
+  ProviderInfo,
   StructuredOutputSettings
 } from "../types";
 import type { Logger } from "../../logging/types";
 import { createDefaultLogger } from "../../logging/defaultLogger";
 import { validateLLMSettings } from "../config";
+import { validateMessageContent } from "../../shared/adapters/contentPartUtils";
 
 /**
  * Validates LLM requests including structure, messages, and settings
@@ -57,7 +60,7 @@ export class RequestValidator {
       const message = request.messages[i];
       if (
         typeof message?.role !== "string" ||
-        typeof message.content !== "string"
+        (typeof message.content !== "string" && !Array.isArray(message.content))
       ) {
         return {
           provider: request.providerId || ('presetId' in request ? request.presetId : undefined) || 'unknown',
@@ -71,23 +74,105 @@ export class RequestValidator {
         };
       }
 
-      if (!["user", "assistant", "system"].includes(message.role)) {
+      if (!["user", "assistant", "system", "tool"].includes(message.role)) {
         return {
           provider: request.providerId || ('presetId' in request ? request.presetId : undefined) || 'unknown',
           model: request.modelId || ('presetId' in request ? request.presetId : undefined) || 'unknown',
           error: {
-            message: `Invalid message role '${message.role}' at index ${i}. Must be 'user', 'assistant', or 'system'`,
+            message: `Invalid message role '${message.role}' at index ${i}. Must be 'user', 'assistant', 'system', or 'tool'`,
             code: "INVALID_MESSAGE_ROLE",
             type: "validation_error",
           },
           object: "error",
         };
       }
+
+      const toolMessageError =
+        this.validateToolMessageFields(message, i) ??
+        this.validateCacheBreakpoint(message, i) ??
+        validateMessageContent(message, i);
+      if (toolMessageError) {
+        return {
+          provider: request.providerId || ('presetId' in request ? request.presetId : undefined) || 'unknown',
+          model: request.modelId || ('presetId' in request ? request.presetId : undefined) || 'unknown',
+          error: {
+            message: toolMessageError,
+            code: "INVALID_MESSAGE",
+            type: "validation_error",
+            param: `messages[${i}]`,
+          },
+          object: "error",
+        };
+      }
     }
 
     return null; // Request is valid
   }
 
+  /**
+   * Checks the optional prompt-cache marker of one message.
+   *
+   * @returns A validation message, or null when the marker is absent or valid
+   */
+  private validateCacheBreakpoint(
+    message: LLMMessage,
+    index: number
+  ): string | null {
+    const marker = message.cacheBreakpoint as unknown;
+    if (marker === undefined || typeof marker === "boolean") {
+      return null;
+    }
+    const ttl =
+      marker && typeof marker === "object" && !Array.isArray(marker)
+        ? (marker as { ttl?: unknown }).ttl
+        : null;
+    if (ttl === undefined || ttl === "5m" || ttl === "1h") {
+      return null;
+    }
+    return `'cacheBreakpoint' must be a boolean or { ttl: '5m' | '1h' } (message at index ${index})`;
+  }
+
+  /**
+   * Checks the tool-call pairing fields of one message.
+   *
+   * @returns A validation message, or null when the fields are well formed
+   */
+  private validateToolMessageFields(
+    message: LLMMessage,
+    index: number
+  ): string | null {
+    if (message.role === "tool") {
+      if (
+        typeof message.toolCallId !== "string" ||
+        message.toolCallId.length === 0
+      ) {
+        return `Tool message at index ${index} must have a non-empty 'toolCallId'`;
+      }
+    } else if (message.toolCallId !== undefined) {
+      return `Only tool messages may set 'toolCallId' (message at index ${index})`;
+    }
+
+    if (message.toolCalls !== undefined) {
+      if (message.role !== "assistant") {
+        return `Only assistant messages may set 'toolCalls' (message at index ${index})`;
+      }
+      if (
+        !Array.isArray(message.toolCalls) ||
+        message.toolCalls.some(
+          (call) =>
+            !call ||
+            typeof call.id !== "string" ||
+            typeof call.name !== "string" ||
+            typeof call.arguments !== "string"
+        )
+      ) {
+        return `Message at index ${index} has malformed 'toolCalls'; each call needs string 'id', 'name', and 'arguments'`;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Validates LLM settings
    *
@@ -140,6 +225,23 @@ export class RequestValidator {
     providerId: ApiProviderId,
     modelId: string
   ): LLMFailureResponse | null {
+    if (
+      settings.toolChoice !== undefined &&
+      (!settings.tools || settings.tools.length === 0)
+    ) {
+      return {
+        provider: providerId,
+        model: modelId,
+        error: {
+          message: "Invalid settings: toolChoice requires at least one effective tool",
+          code: "INVALID_SETTINGS",
+          type: "validation_error",
+          param: "settings.toolChoice",
+        },
+        object: "error",
+      };
+    }
+
     if (settings.topLogprobs !== undefined && settings.logprobs !== true) {
       return {
         provider: providerId,
@@ -202,6 +304,90 @@ export class RequestValidator {
     return null;
   }
 
+  /**
+   * Validates multimodal message content against model capabilities
+   *
+   * @param modelInfo - The model information
+   * @param request - The request whose messages are checked
+   * @returns LLMFailureResponse if validation fails, null if valid
+   */
+  validateContentCapabilities(
+    modelInfo: ModelInfo,
+    request: LLMChatRequest
+  ): LLMFailureResponse | null {
+    if (modelInfo.supportsImages) {
+      return null;
+    }
+
+    const index = request.messages.findIndex(
+      (message) =>
+        Array.isArray(message?.content) &&
+        message.content.some((part) => part?.type === "image")
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    return {
+      provider: request.providerId,
+      model: request.modelId,
+      error: {
+        message: `Model ${request.modelId} does not support image input (message at index ${index})`,
+        type: "validation_error",
+        code: "image_input_not_supported",
+        param: `messages[${index}].content`,
+      },
+      object: "error",
+    };
+  }
+
+  /**
+   * Validates that PDF document parts can be delivered to the provider
+   *
+   * PDFs need native provider support or a configured text extractor. Plain-text
+   * documents can always be delivered as text.
+   *
+   * @param providerInfo - The provider information
+   * @param request - The request whose messages are checked
+   * @param canExtractText - Whether a document text extractor is configured
+   * @returns LLMFailureResponse if validation fails, null if valid
+   */
+  validateDocumentDelivery(
+    providerInfo: ProviderInfo,
+    request: LLMChatRequest,
+    canExtractText: boolean
+  ): LLMFailureResponse | null {
+    if (
+      canExtractText ||
+      providerInfo.nativeDocumentTypes?.includes("application/pdf")
+    ) {
+      return null;
+    }
+
+    const index = request.messages.findIndex(
+      (message) =>
+        Array.isArray(message?.content) &&
+        message.content.some(
+          (part) => part?.type === "document" && part.data !== undefined
+        )
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    return {
+      provider: request.providerId,
+      model: request.modelId,
+      error: {
+        message: `Provider ${providerInfo.name} cannot read PDF documents natively (message at index ${index}); configure documentTextExtractor to send them as text`,
+        type: "validation_error",
+        code: "document_input_not_supported",
+        param: `messages[${index}].content`,
+      },
+      object: "error",
+    };
+  }
+
   /**
    * Validates structured output settings against model capabilities
    *
@@ -244,6 +430,29 @@ export class RequestValidator {
       };
     }
 
+    const repair = structuredOutput.repair;
+    if (
+      repair !== undefined &&
+      typeof repair !== "boolean" &&
+      (typeof repair !== "object" ||
+        repair === null ||
+        (repair.maxRetries !== undefined &&
+          (!Number.isInteger(repair.maxRetries) || repair.maxRetries < 0)))
+    ) {
+      return {
+        provider: request.providerId!,
+        model: request.modelId!,
+        error: {
+          message:
+            "structuredOutput.repair must be a boolean or { maxRetries } with a non-negative integer.",
+          type: "validation_error",
+          code: "structured_output_invalid_repair",
+          param: "settings.structuredOutput.repair",
+        },
+        object: "error",
+      };
+    }
+
     // Explicit prompt delivery is instruction-only and does not require a
     // provider-native structured-output capability.
     if (structuredOutput.delivery === "prompt") {
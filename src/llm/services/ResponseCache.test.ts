@@ -0,0 +1,137 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+import {
+  ResponseCache,
+  InMemoryResponseCacheStore,
+  FileResponseCacheStore,
+  computeResponseCacheKey,
+} from './ResponseCache';
+import type { ResponseCacheKeyInput } from './ResponseCache';
+import type { LLMResponse } from '../types';
+
+const keyInput: ResponseCacheKeyInput = {
+  provider: 'openai',
+  model: 'gpt-4.1',
+  request: {
+    operation: 'openai.chat.completions.create',
+    mode: 'complete',
+    messages: [{ role: 'user', content: 'Hello' }],
+    settings: { temperature: 0, max_tokens: 100 },
+  },
+  bindings: { adapterRevision: 'a1', requestShapeRevision: 'r1' },
+};
+
+function response(content: string): LLMResponse {
+  return {
+    id: `resp-${content}`,
+    provider: 'openai',
+    model: 'gpt-4.1',
+    created: 1,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    object: 'chat.completion',
+  };
+}
+
+function silent() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('ResponseCache', () => {
+  describe('computeResponseCacheKey', () => {
+    it('ignores key order but not values', () => {
+      const reordered: ResponseCacheKeyInput = {
+        ...keyInput,
+        request: { ...keyInput.request, settings: { max_tokens: 100, temperature: 0 } },
+      };
+
+      expect(computeResponseCacheKey(reordered)).toBe(computeResponseCacheKey(keyInput));
+      expect(computeResponseCacheKey(keyInput)).toMatch(/^[0-9a-f]{64}$/);
+      expect(
+        computeResponseCacheKey({
+          ...keyInput,
+          bindings: { ...keyInput.bindings, adapterRevision: 'a2' },
+        })
+      ).not.toBe(computeResponseCacheKey(keyInput));
+    });
+  });
+
+  describe('expiry', () => {
+    it('drops entries older than ttlMs', async () => {
+      let now = 1000;
+      const store = new InMemoryResponseCacheStore();
+      const cache = new ResponseCache({ store, ttlMs: 500, now: () => now });
+
+      await cache.set('abc', response('hi'));
+      now += 499;
+      expect((await cache.get('abc'))?.choices[0].message.content).toBe('hi');
+      now += 1;
+      expect(await cache.get('abc')).toBeUndefined();
+      expect(store.size).toBe(0);
+    });
+
+    it('does not persist the cacheHit marker', async () => {
+      const store = new InMemoryResponseCacheStore();
+      const cache = new ResponseCache({ store });
+
+      await cache.set('abc', { ...response('hi'), cacheHit: true });
+
+      expect(store.get('abc')?.response.cacheHit).toBeUndefined();
+    });
+
+    it('rejects a non-positive ttlMs', () => {
+      expect(() => new ResponseCache({ ttlMs: 0 })).toThrow(TypeError);
+    });
+  });
+
+  describe('InMemoryResponseCacheStore', () => {
+    it('evicts the least recently used entry', () => {
+      const store = new InMemoryResponseCacheStore({ maxEntries: 2 });
+      store.set('a', { response: response('a'), createdAt: 0 });
+      store.set('b', { response: response('b'), createdAt: 0 });
+      store.get('a');
+      store.set('c', { response: response('c'), createdAt: 0 });
+
+      expect(store.get('a')).toBeDefined();
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toBeDefined();
+    });
+  });
+
+  describe('FileResponseCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'genai-lite-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('round-trips entries through JSON files', async () => {
+      const cache = new ResponseCache({ store: new FileResponseCacheStore({ directory }) });
+      const key = computeResponseCacheKey(keyInput);
+
+      await cache.set(key, response('persisted'));
+      const reopened = new ResponseCache({ store: new FileResponseCacheStore({ directory }) });
+
+      expect((await reopened.get(key))?.choices[0].message.content).toBe('persisted');
+      expect(await fs.readdir(directory)).toEqual([`${key}.json`]);
+
+      await reopened.clear();
+      expect(await reopened.get(key)).toBeUndefined();
+    });
+
+    it('treats store failures as misses', async () => {
+      const logger = silent();
+      const cache = new ResponseCache({
+        store: new FileResponseCacheStore({ directory }),
+        logger,
+      });
+
+      expect(await cache.get('../escape')).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type {
+  ApiProviderId,
+  LLMResponse,
+  PreparedProviderRequestView,
+  PreparedRequestBindings,
+} from "../types";
+import type { Logger } from "../../logging/types";
+import { createDefaultLogger } from "../../logging/defaultLogger";
+
+/** A stored response and its lifetime. */
+export interface ResponseCacheEntry {
+  response: LLMResponse;
+  /** Epoch milliseconds when the response was stored. */
+  createdAt: number;
+  /** Epoch milliseconds after which the entry is ignored. Omit for no expiry. */
+  expiresAt?: number;
+}
+
+/**
+ * Persistence for cached responses. Methods may be sync or async; keys are
+ * hex SHA-256 digests.
+ */
+export interface ResponseCacheStore {
+  get(key: string): ResponseCacheEntry | undefined | Promise<ResponseCacheEntry | undefined>;
+  set(key: string, entry: ResponseCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/** The parts of a prepared call that identify a cacheable request. */
+export interface ResponseCacheKeyInput {
+  provider: ApiProviderId;
+  model: string;
+  request: PreparedProviderRequestView;
+  bindings: PreparedRequestBindings;
+}
+
+export interface ResponseCacheOptions {
+  /** Defaults to an InMemoryResponseCacheStore. */
+  store?: ResponseCacheStore;
+  /** Lifetime of new entries in ms. Omit to keep entries until evicted. */
+  ttlMs?: number;
+  logger?: Logger;
+  /** Clock for expiry (testing hook). */
+  now?: () => number;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      result[key] = canonicalize((value as Record<string, unknown>)[key]);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Hashes a prepared request view and its bindings into a cache key. Key
+ * order does not matter; any change to the semantic request, adapter
+ * revision or observed server state produces a different key.
+ */
+export function computeResponseCacheKey(input: ResponseCacheKeyInput): string {
+  const canonical = JSON.stringify(
+    canonicalize({
+      provider: input.provider,
+      model: input.model,
+      request: input.request,
+      bindings: input.bindings,
+    })
+  );
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Default process-local store. Evicts the least recently used entry once
+ * `maxEntries` is reached.
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, ResponseCacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get(key: string): ResponseCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: ResponseCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Stores one JSON file per entry in a directory, so cached responses
+ * survive restarts and can be shared between test and eval runs.
+ */
+export class FileResponseCacheStore implements ResponseCacheStore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<ResponseCacheEntry | undefined> {
+    try {
+      const text = await fs.readFile(this.filePath(key), "utf8");
+      return JSON.parse(text) as ResponseCacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: ResponseCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so concurrent readers never see a partial file
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), "utf8");
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => fs.rm(path.join(this.directory, name), { force: true }))
+    );
+  }
+
+  private filePath(key: string): string {
+    if (!/^[0-9a-f]+$/i.test(key)) {
+      throw new TypeError(`Invalid response cache key: ${key}`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Opt-in cache of successful non-streaming responses, keyed by
+ * {@link computeResponseCacheKey}.
+ *
+ * Store failures are logged and treated as misses, so a broken cache never
+ * fails a request.
+ */
+export class ResponseCache {
+  private store: ResponseCacheStore;
+  private ttlMs?: number;
+  private logger: Logger;
+  private now: () => number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    if (
+      options.ttlMs !== undefined &&
+      (!Number.isFinite(options.ttlMs) || options.ttlMs <= 0)
+    ) {
+      throw new TypeError("Response cache ttlMs must be a positive number.");
+    }
+    this.store = options.store ?? new InMemoryResponseCacheStore();
+    this.ttlMs = options.ttlMs;
+    this.logger = options.logger ?? createDefaultLogger();
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Returns the cached response, or undefined on a miss or expired entry. */
+  async get(key: string): Promise<LLMResponse | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+        await this.store.delete(key);
+        return undefined;
+      }
+      return structuredClone(entry.response);
+    } catch (error) {
+      this.logger.warn(`Response cache read failed for ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async set(key: string, response: LLMResponse): Promise<void> {
+    const createdAt = this.now();
+    const { cacheHit: _cacheHit, ...stored } = response;
+    try {
+      await this.store.set(key, {
+        response: structuredClone(stored),
+        createdAt,
+        ...(this.ttlMs !== undefined && { expiresAt: createdAt + this.ttlMs }),
+      });
+    } catch (error) {
+      this.logger.warn(`Response cache write failed for ${key}:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
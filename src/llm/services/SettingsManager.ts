@@ -58,6 +58,7 @@ export class SettingsManager {
       repeatPenalty:
         requestSettings?.repeatPenalty ?? modelDefaults.repeatPenalty,
       seed: requestSettings?.seed ?? modelDefaults.seed,
+      n: requestSettings?.n ?? modelDefaults.n,
       user: requestSettings?.user ?? modelDefaults.user,
       supportsSystemMessage:
         requestSettings?.supportsSystemMessage ??
@@ -88,6 +89,10 @@ export class SettingsManager {
               ...requestSettings?.llamacpp,
             }
           : (undefined as any),
+      tools: requestSettings?.tools ?? modelDefaults.tools,
+      toolChoice: requestSettings?.toolChoice ?? modelDefaults.toolChoice,
+      promptCache: requestSettings?.promptCache ?? modelDefaults.promptCache,
+      cachedContent: requestSettings?.cachedContent ?? modelDefaults.cachedContent,
     };
 
     if (providerId === "anthropic") {
@@ -216,6 +221,7 @@ export class SettingsManager {
       'minP',
       'repeatPenalty',
       'seed',
+      'n',
       'user',
       'supportsSystemMessage',
       'geminiSafetySettings',
@@ -224,7 +230,11 @@ export class SettingsManager {
       'structuredOutput',
       'logprobs',
       'topLogprobs',
-      'llamacpp'
+      'llamacpp',
+      'tools',
+      'toolChoice',
+      'promptCache',
+      'cachedContent'
     ];
 
     // Check each setting field
@@ -299,6 +309,13 @@ export class SettingsManager {
         }
       }
 
+      if (key === 'n') {
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+          this.logger.warn(`Invalid n value in template: ${value}. Must be a positive integer.`);
+          continue;
+        }
+      }
+
       if (key === 'logprobs' && typeof value !== 'boolean') {
         this.logger.warn(`Invalid logprobs value in template. Must be a boolean.`);
         continue;
@@ -0,0 +1,152 @@
+import { UsageLedger, InMemoryUsageLedgerStore, matchesUsageScope } from './UsageLedger';
+import type { UsageLedgerEntry } from './UsageLedger';
+
+const gptScope = { providerId: 'openai', modelId: 'gpt-4.1' };
+
+function entry(costUsd: number, extra: Partial<UsageLedgerEntry> = {}) {
+  return {
+    ...gptScope,
+    attemptId: `attempt-${costUsd}`,
+    outcome: 'success' as const,
+    costUsd,
+    ...extra,
+  };
+}
+
+describe('UsageLedger', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  describe('matchesUsageScope', () => {
+    it('requires every defined scope field to match', () => {
+      const keys = { ...gptScope, userTag: 'alice' };
+
+      expect(matchesUsageScope(keys, {})).toBe(true);
+      expect(matchesUsageScope(keys, { providerId: 'openai', userTag: 'alice' })).toBe(true);
+      expect(matchesUsageScope(keys, { userTag: 'bob' })).toBe(false);
+      expect(matchesUsageScope(keys, { presetId: 'p' })).toBe(false);
+    });
+  });
+
+  describe('recording and spend', () => {
+    it('sums recorded spend per scope and window', async () => {
+      const ledger = new UsageLedger({ now: clock, logger: silent() });
+      await ledger.record(entry(1, { userTag: 'alice' }));
+      now += 5000;
+      await ledger.record(entry(2, { userTag: 'bob' }));
+      await ledger.record(entry(4, { providerId: 'anthropic', modelId: 'claude' }));
+
+      expect(await ledger.getSpend()).toBe(7);
+      expect(await ledger.getSpend({ providerId: 'openai' })).toBe(3);
+      expect(await ledger.getSpend({ userTag: 'alice' })).toBe(1);
+      expect(await ledger.getSpend({}, now)).toBe(6);
+      expect((await ledger.getEntries({ scope: { userTag: 'bob' } }))[0]).toMatchObject({
+        attemptId: 'attempt-2',
+        timestamp: now,
+      });
+    });
+
+    it('writes through an injected store', async () => {
+      const store = new InMemoryUsageLedgerStore();
+      const append = jest.spyOn(store, 'append');
+      const ledger = new UsageLedger({ store, logger: silent() });
+
+      await ledger.record(entry(1));
+
+      expect(append).toHaveBeenCalledWith(expect.objectContaining({ costUsd: 1 }));
+    });
+  });
+
+  describe('hard budgets', () => {
+    it('rejects reservations that would cross the limit', async () => {
+      const ledger = new UsageLedger({
+        budgets: [{ id: 'openai-cap', scope: { providerId: 'openai' }, limitUsd: 10, kind: 'hard' }],
+        logger: silent(),
+      });
+      await ledger.record(entry(8));
+
+      const ok = await ledger.reserve(gptScope, 1.5);
+      const rejected = await ledger.reserve(gptScope, 1);
+      const otherProvider = await ledger.reserve({ providerId: 'anthropic', modelId: 'claude' }, 100);
+
+      expect('reservation' in ok).toBe(true);
+      expect(rejected).toMatchObject({
+        exceeded: { budget: { id: 'openai-cap' }, spentUsd: 8, reservedUsd: 2.5 },
+      });
+      expect('reservation' in otherProvider).toBe(true);
+    });
+
+    it('frees reserved spend on record and release', async () => {
+      const ledger = new UsageLedger({
+        budgets: [{ id: 'cap', scope: {}, limitUsd: 1, kind: 'hard' }],
+        logger: silent(),
+      });
+
+      const first = await ledger.reserve(gptScope, 0.8);
+      expect('exceeded' in (await ledger.reserve(gptScope, 0.5))).toBe(true);
+
+      if (!('reservation' in first)) throw new Error('expected a reservation');
+      await ledger.record(entry(0.1), first.reservation);
+      const second = await ledger.reserve(gptScope, 0.5);
+      expect('reservation' in second).toBe(true);
+
+      if (!('reservation' in second)) throw new Error('expected a reservation');
+      ledger.release(second.reservation);
+      expect(await ledger.getBudgetStatus()).toEqual([
+        expect.objectContaining({ spentUsd: 0.1, reservedUsd: 0, remainingUsd: 0.9 }),
+      ]);
+    });
+
+    it('only counts spend inside a rolling window', async () => {
+      const ledger = new UsageLedger({
+        budgets: [{ id: 'hourly', scope: {}, limitUsd: 1, kind: 'hard', windowMs: 3_600_000 }],
+        now: clock,
+        logger: silent(),
+      });
+      await ledger.record(entry(1));
+
+      expect('exceeded' in (await ledger.reserve(gptScope, 0.1))).toBe(true);
+      now += 3_600_001;
+      expect('reservation' in (await ledger.reserve(gptScope, 0.1))).toBe(true);
+    });
+
+    it('rejects invalid limits', () => {
+      const ledger = new UsageLedger({ logger: silent() });
+
+      expect(() =>
+        ledger.setBudget({ id: 'bad', scope: {}, limitUsd: -1, kind: 'hard' })
+      ).toThrow("Budget 'bad' limitUsd must be a non-negative number.");
+    });
+  });
+
+  describe('soft budgets', () => {
+    it('reports only the entry that crosses the limit', async () => {
+      const onSoftBudgetExceeded = jest.fn();
+      const ledger = new UsageLedger({
+        budgets: [{ id: 'alice-soft', scope: { userTag: 'alice' }, limitUsd: 1, kind: 'soft' }],
+        onSoftBudgetExceeded,
+        logger: silent(),
+      });
+
+      await ledger.record(entry(0.6, { userTag: 'alice' }));
+      await ledger.record(entry(0.6, { userTag: 'alice' }));
+      await ledger.record(entry(0.6, { userTag: 'alice' }));
+      const reserved = await ledger.reserve({ ...gptScope, userTag: 'alice' }, 5);
+
+      expect(onSoftBudgetExceeded).toHaveBeenCalledTimes(1);
+      expect(onSoftBudgetExceeded.mock.calls[0][0]).toMatchObject({
+        budget: { id: 'alice-soft' },
+        exceeded: true,
+      });
+      expect('reservation' in reserved).toBe(true);
+    });
+  });
+});
+
+function silent() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
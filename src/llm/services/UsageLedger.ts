@@ -0,0 +1,287 @@
+import type {
+  ApiProviderId,
+  LLMCost,
+  LLMUsage,
+} from "../types";
+import type { Logger } from "../../logging/types";
+import { createDefaultLogger } from "../../logging/defaultLogger";
+
+/**
+ * Dimensions a ledger entry is keyed by. As a filter, every defined field
+ * must match; an empty scope matches everything.
+ */
+export interface UsageScope {
+  providerId?: ApiProviderId;
+  modelId?: string;
+  presetId?: string;
+  /** Caller-supplied tag, e.g. an end-user or tenant ID. */
+  userTag?: string;
+}
+
+/** One physical provider attempt recorded by LLMService. */
+export interface UsageLedgerEntry extends UsageScope {
+  providerId: ApiProviderId;
+  modelId: string;
+  attemptId: string;
+  /** Epoch milliseconds when the attempt finished. */
+  timestamp: number;
+  outcome: "success" | "error";
+  errorCode?: string;
+  usage?: LLMUsage;
+  cost?: LLMCost;
+  /** Spend in USD charged against budgets; 0 when cost is unknown. */
+  costUsd: number;
+}
+
+/**
+ * Spend limit for one scope. Hard budgets reject requests before dispatch;
+ * soft budgets only report that they were crossed.
+ */
+export interface UsageBudget {
+  id: string;
+  scope: UsageScope;
+  limitUsd: number;
+  kind: "hard" | "soft";
+  /** Rolling window in ms. Omit to count all recorded spend. */
+  windowMs?: number;
+}
+
+/** Current spend against one budget. */
+export interface UsageBudgetStatus {
+  budget: UsageBudget;
+  spentUsd: number;
+  /** Worst-case spend reserved by in-flight attempts. */
+  reservedUsd: number;
+  remainingUsd: number;
+  exceeded: boolean;
+}
+
+/** Filter for reading ledger entries. */
+export interface UsageLedgerQuery {
+  scope?: UsageScope;
+  /** Only entries with timestamp >= since (epoch ms). */
+  since?: number;
+}
+
+/**
+ * Persistence for ledger entries. Implement this to share spend across
+ * processes; methods may be sync or async.
+ */
+export interface UsageLedgerStore {
+  append(entry: UsageLedgerEntry): void | Promise<void>;
+  list(query: UsageLedgerQuery): UsageLedgerEntry[] | Promise<UsageLedgerEntry[]>;
+}
+
+export interface UsageLedgerOptions {
+  /** Defaults to an InMemoryUsageLedgerStore. */
+  store?: UsageLedgerStore;
+  budgets?: UsageBudget[];
+  /** Called once per recorded entry that leaves a soft budget exceeded. */
+  onSoftBudgetExceeded?: (status: UsageBudgetStatus, entry: UsageLedgerEntry) => void;
+  logger?: Logger;
+  /** Clock for timestamps and windows (testing hook). */
+  now?: () => number;
+}
+
+/** Worst-case spend held for an attempt between dispatch and recording. */
+export interface UsageReservation {
+  id: string;
+  scope: UsageScope & { providerId: ApiProviderId; modelId: string };
+  amountUsd: number;
+}
+
+/** Result of {@link UsageLedger.reserve}. */
+export type UsageReservationResult =
+  | { reservation: UsageReservation }
+  | { exceeded: UsageBudgetStatus };
+
+/**
+ * Returns whether an entry's keys satisfy every field set on the scope
+ */
+export function matchesUsageScope(entry: UsageScope, scope: UsageScope): boolean {
+  return (
+    (scope.providerId === undefined || entry.providerId === scope.providerId) &&
+    (scope.modelId === undefined || entry.modelId === scope.modelId) &&
+    (scope.presetId === undefined || entry.presetId === scope.presetId) &&
+    (scope.userTag === undefined || entry.userTag === scope.userTag)
+  );
+}
+
+/**
+ * Default process-local ledger store
+ */
+export class InMemoryUsageLedgerStore implements UsageLedgerStore {
+  private entries: UsageLedgerEntry[] = [];
+
+  append(entry: UsageLedgerEntry): void {
+    this.entries.push(entry);
+  }
+
+  list(query: UsageLedgerQuery): UsageLedgerEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        (query.since === undefined || entry.timestamp >= query.since) &&
+        (!query.scope || matchesUsageScope(entry, query.scope))
+    );
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/**
+ * Records per-attempt usage and enforces spend budgets.
+ *
+ * Reservations are process-local: they stop concurrent requests in this
+ * process from overshooting a hard budget together. Recorded spend lives in
+ * the store and can be shared.
+ */
+export class UsageLedger {
+  private store: UsageLedgerStore;
+  private budgets = new Map<string, UsageBudget>();
+  private reservations = new Map<string, UsageReservation>();
+  private onSoftBudgetExceeded?: UsageLedgerOptions["onSoftBudgetExceeded"];
+  private logger: Logger;
+  private now: () => number;
+  private nextReservationId = 1;
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.store = options.store ?? new InMemoryUsageLedgerStore();
+    this.onSoftBudgetExceeded = options.onSoftBudgetExceeded;
+    this.logger = options.logger ?? createDefaultLogger();
+    this.now = options.now ?? Date.now;
+    for (const budget of options.budgets ?? []) {
+      this.setBudget(budget);
+    }
+  }
+
+  /** Adds or replaces a budget by ID. */
+  setBudget(budget: UsageBudget): void {
+    if (!Number.isFinite(budget.limitUsd) || budget.limitUsd < 0) {
+      throw new TypeError(`Budget '${budget.id}' limitUsd must be a non-negative number.`);
+    }
+    this.budgets.set(budget.id, { ...budget, scope: { ...budget.scope } });
+  }
+
+  removeBudget(id: string): boolean {
+    return this.budgets.delete(id);
+  }
+
+  getBudgets(): UsageBudget[] {
+    return Array.from(this.budgets.values());
+  }
+
+  /** Lists recorded entries matching the query. */
+  async getEntries(query: UsageLedgerQuery = {}): Promise<UsageLedgerEntry[]> {
+    return this.store.list(query);
+  }
+
+  /** Total recorded spend in USD for a scope, optionally since a timestamp. */
+  async getSpend(scope: UsageScope = {}, since?: number): Promise<number> {
+    const entries = await this.store.list({ scope, ...(since !== undefined && { since }) });
+    return entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+  }
+
+  /** Status of every budget, or only those covering the given keys. */
+  async getBudgetStatus(keys?: UsageScope): Promise<UsageBudgetStatus[]> {
+    const budgets = this.getBudgets().filter(
+      (budget) => !keys || matchesUsageScope(keys, budget.scope)
+    );
+    return Promise.all(budgets.map((budget) => this.computeStatus(budget)));
+  }
+
+  /**
+   * Holds worst-case spend for an attempt, unless that would take a matching
+   * hard budget over its limit.
+   *
+   * The reservation is taken before spend is read, so two concurrent callers
+   * always see each other; at worst both are rejected.
+   */
+  async reserve(
+    scope: UsageReservation["scope"],
+    amountUsd: number
+  ): Promise<UsageReservationResult> {
+    const reservation: UsageReservation = {
+      id: `reservation-${this.nextReservationId++}`,
+      scope: { ...scope },
+      amountUsd: Math.max(0, amountUsd),
+    };
+    this.reservations.set(reservation.id, reservation);
+
+    try {
+      for (const budget of this.budgets.values()) {
+        if (budget.kind !== "hard" || !matchesUsageScope(scope, budget.scope)) {
+          continue;
+        }
+        const status = await this.computeStatus(budget);
+        if (status.spentUsd + status.reservedUsd > budget.limitUsd) {
+          this.reservations.delete(reservation.id);
+          return { exceeded: status };
+        }
+      }
+    } catch (error) {
+      this.reservations.delete(reservation.id);
+      throw error;
+    }
+
+    return { reservation };
+  }
+
+  /** Drops a reservation without recording spend (e.g. the attempt threw). */
+  release(reservation: UsageReservation): void {
+    this.reservations.delete(reservation.id);
+  }
+
+  /**
+   * Appends an entry, releasing its reservation, and reports soft budgets the
+   * entry pushed over their limit.
+   */
+  async record(
+    entry: Omit<UsageLedgerEntry, "timestamp"> & { timestamp?: number },
+    reservation?: UsageReservation
+  ): Promise<UsageLedgerEntry> {
+    const recorded: UsageLedgerEntry = { ...entry, timestamp: entry.timestamp ?? this.now() };
+    try {
+      await this.store.append(recorded);
+    } finally {
+      if (reservation) {
+        this.release(reservation);
+      }
+    }
+
+    for (const budget of this.budgets.values()) {
+      if (budget.kind !== "soft" || !matchesUsageScope(recorded, budget.scope)) {
+        continue;
+      }
+      const status = await this.computeStatus(budget);
+      if (!status.exceeded || status.spentUsd - recorded.costUsd > budget.limitUsd) {
+        continue;
+      }
+      this.logger.warn(
+        `Soft budget '${budget.id}' exceeded: $${status.spentUsd.toFixed(6)} of $${budget.limitUsd}`
+      );
+      this.onSoftBudgetExceeded?.(status, recorded);
+    }
+
+    return recorded;
+  }
+
+  private async computeStatus(budget: UsageBudget): Promise<UsageBudgetStatus> {
+    const since = budget.windowMs !== undefined ? this.now() - budget.windowMs : undefined;
+    const spentUsd = await this.getSpend(budget.scope, since);
+    let reservedUsd = 0;
+    for (const reservation of this.reservations.values()) {
+      if (matchesUsageScope(reservation.scope, budget.scope)) {
+        reservedUsd += reservation.amountUsd;
+      }
+    }
+    return {
+      budget,
+      spentUsd,
+      reservedUsd,
+      remainingUsd: Math.max(0, budget.limitUsd - spentUsd - reservedUsd),
+      exceeded: spentUsd > budget.limitUsd,
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  createRepairPrompt,
+  getRepairMaxRetries,
+  parseJsonLeniently,
+  validateJsonSchema,
+} from './structuredOutput';
+
+const person = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    role: { enum: ['admin', 'user'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateJsonSchema({ name: 'Ann', age: 30, role: 'admin', tags: ['a'] }, person)).toEqual([]);
+  });
+
+  it('reports each failure with a JSON Pointer path', () => {
+    expect(
+      validateJsonSchema({ name: '', age: 1.5, role: 'root', tags: ['a', 2, 'c'], extra: true }, person)
+    ).toEqual([
+      { path: '/name', keyword: 'minLength', message: 'must have at least 1 characters' },
+      { path: '/age', keyword: 'type', message: 'must be integer' },
+      { path: '/role', keyword: 'enum', message: 'must be one of: "admin", "user"' },
+      { path: '/tags', keyword: 'maxItems', message: 'must have at most 2 items' },
+      { path: '/tags/1', keyword: 'type', message: 'must be string' },
+      { path: '/extra', keyword: 'additionalProperties', message: 'is not an allowed property' },
+    ]);
+    expect(validateJsonSchema([], person)).toEqual([{ path: '', keyword: 'type', message: 'must be object' }]);
+    expect(validateJsonSchema({ age: 3 }, person)).toEqual([
+      { path: '', keyword: 'required', message: "must have required property 'name'" },
+    ]);
+  });
+
+  it('follows local $refs and combinators', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        id: { anyOf: [{ type: 'string', pattern: '^[a-z]+$' }, { type: 'integer' }] },
+        point: { $ref: '#/$defs/point' },
+        flag: { type: ['boolean', 'null'], not: { const: false } },
+      },
+      $defs: { point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], minItems: 2 } },
+    };
+
+    expect(validateJsonSchema({ id: 'abc', point: [1, 2], flag: null }, schema)).toEqual([]);
+    expect(validateJsonSchema({ id: 'ABC', point: [1, 'x'], flag: false }, schema)).toEqual([
+      { path: '/id', keyword: 'anyOf', message: 'must match at least one schema in anyOf' },
+      { path: '/point/1', keyword: 'type', message: 'must be number' },
+      { path: '/flag', keyword: 'not', message: 'must not match the schema in not' },
+    ]);
+  });
+
+  it('checks required properties and const objects against own properties only', () => {
+    expect(validateJsonSchema({}, { type: 'object', required: ['toString', 'constructor'] })).toEqual([
+      { path: '', keyword: 'required', message: "must have required property 'toString'" },
+      { path: '', keyword: 'required', message: "must have required property 'constructor'" },
+    ]);
+    expect(validateJsonSchema({}, { const: { toString: 1 } })).toEqual([
+      { path: '', keyword: 'const', message: 'must be {"toString":1}' },
+    ]);
+  });
+
+  it('reports circular references instead of overflowing the stack', () => {
+    expect(validateJsonSchema({}, { $ref: '#' })).toEqual([
+      { path: '', keyword: '$ref', message: 'circular reference #' },
+    ]);
+    const mutual = {
+      $ref: '#/$defs/a',
+      $defs: { a: { $ref: '#/$defs/b' }, b: { anyOf: [{ $ref: '#/$defs/a' }] } },
+    };
+    expect(validateJsonSchema(1, mutual)).toEqual([
+      { path: '', keyword: 'anyOf', message: 'must match at least one schema in anyOf' },
+    ]);
+    // Recursion that descends into the value is not a cycle
+    const tree = {
+      $ref: '#/$defs/node',
+      $defs: { node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } } } },
+    };
+    expect(validateJsonSchema({ children: [{ children: [] }] }, tree)).toEqual([]);
+    expect(validateJsonSchema({ children: [1] }, tree)).toEqual([
+      { path: '/children/0', keyword: 'type', message: 'must be object' },
+    ]);
+  });
+
+  it('skips patterns that cannot be compiled', () => {
+    expect(validateJsonSchema('anything', { type: 'string', pattern: '(' })).toEqual([]);
+    // Valid without the unicode flag only
+    expect(validateJsonSchema('a-b', { type: 'string', pattern: '^a\\-b$' })).toEqual([]);
+    expect(validateJsonSchema('ab', { type: 'string', pattern: '^a\\-b$' })).toEqual([
+      { path: '', keyword: 'pattern', message: 'must match pattern ^a\\-b$' },
+    ]);
+  });
+});
+
+describe('parseJsonLeniently', () => {
+  it('extracts JSON from code fences and surrounding text', () => {
+    expect(parseJsonLeniently('{"a":1}')).toEqual({ value: { a: 1 } });
+    expect(parseJsonLeniently('Here you go:\n```json\n{"a":1}\n```')).toEqual({ value: { a: 1 } });
+    expect(parseJsonLeniently('Result: [1, 2] as requested.')).toEqual({ value: [1, 2] });
+    expect(parseJsonLeniently('no json here')).toBeUndefined();
+  });
+});
+
+describe('structured output repair helpers', () => {
+  it('defaults to two retries', () => {
+    expect(getRepairMaxRetries(undefined)).toBe(0);
+    expect(getRepairMaxRetries(false)).toBe(0);
+    expect(getRepairMaxRetries(true)).toBe(2);
+    expect(getRepairMaxRetries({ maxRetries: 5 })).toBe(5);
+  });
+
+  it('lists the problems in the repair prompt', () => {
+    const prompt = createRepairPrompt({
+      index: 0,
+      message: { role: 'assistant', content: '{}' },
+      finish_reason: 'stop',
+      validationErrors: [{ path: '', keyword: 'required', message: "must have required property 'name'" }],
+    });
+
+    expect(prompt).toBe(
+      'Your previous response does not match the required JSON schema:\n' +
+        "- (root): must have required property 'name'\n" +
+        'Reply with only the corrected JSON, without markdown fences or commentary.'
+    );
+  });
+});
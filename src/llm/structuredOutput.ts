@@ -0,0 +1,381 @@
+// AI Summary: Client-side checks for structured output: JSON Schema and Standard
+// Schema validation of parsed content, lenient JSON extraction (code fences,
+// surrounding text) and the follow-up prompt used by the structured-output repair
+// loop in LLMService.
+
+import type {
+  LLMChoice,
+  LLMResponse,
+  StandardSchemaV1,
+  StructuredOutputAttempt,
+  StructuredOutputValidationError,
+} from "./types";
+
+type JsonSchema = Record<string, unknown>;
+
+const DEFAULT_REPAIR_MAX_RETRIES = 2;
+
+/**
+ * Validates `value` against a JSON Schema.
+ *
+ * Covers the keywords structured-output schemas use: type, enum, const,
+ * properties, required, additionalProperties, items, prefixItems,
+ * minItems/maxItems, minimum/maximum (and exclusive forms),
+ * minLength/maxLength, pattern, anyOf, oneOf, allOf, not and local `$ref`s
+ * (`#/$defs/...`). Other keywords, including `format`, are not checked.
+ *
+ * @returns The validation errors; empty when the value matches
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: unknown
+): StructuredOutputValidationError[] {
+  const errors: StructuredOutputValidationError[] = [];
+  if (isSchema(schema)) {
+    validateNode(value, schema, schema, "", errors);
+  }
+  return errors;
+}
+
+/**
+ * Validates `value` with a Standard Schema validator. On success the
+ * validator's output is returned, which may differ from the input when the
+ * schema applies defaults or transforms.
+ */
+export async function validateStandardSchema(
+  value: unknown,
+  schema: StandardSchemaV1
+): Promise<{ value: unknown } | { errors: StructuredOutputValidationError[] }> {
+  const standard = schema["~standard"];
+  const result = await standard.validate(value);
+  if (!result.issues) {
+    return { value: result.value };
+  }
+  return {
+    errors: result.issues.map((issue) => ({
+      path: (issue.path ?? [])
+        .map((segment) =>
+          `/${escapePointer(String(typeof segment === "object" ? segment.key : segment))}`
+        )
+        .join(""),
+      keyword: standard.vendor,
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Parses JSON that may be wrapped in a Markdown code fence or surrounded by
+ * text. Returns undefined when no JSON value can be extracted.
+ */
+export function parseJsonLeniently(content: string): { value: unknown } | undefined {
+  const candidates = [content];
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(content);
+  if (fenced) {
+    candidates.push(fenced[1]);
+  }
+  const start = content.search(/[[{]/);
+  const end = Math.max(content.lastIndexOf("}"), content.lastIndexOf("]"));
+  if (start !== -1 && end > start) {
+    candidates.push(content.slice(start, end + 1));
+  }
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/** Retries allowed by a `structuredOutput.repair` setting; 0 when repair is off. */
+export function getRepairMaxRetries(
+  repair: boolean | { maxRetries?: number } | undefined
+): number {
+  if (repair === undefined || repair === false) {
+    return 0;
+  }
+  return repair === true
+    ? DEFAULT_REPAIR_MAX_RETRIES
+    : repair.maxRetries ?? DEFAULT_REPAIR_MAX_RETRIES;
+}
+
+/** Follow-up user message asking the model to correct an invalid choice. */
+export function createRepairPrompt(choice: LLMChoice): string {
+  const problems = choice.parseError
+    ? [`- The response is not valid JSON (${choice.parseError}).`]
+    : (choice.validationErrors ?? []).map(
+        (error) => `- ${error.path || "(root)"}: ${error.message}`
+      );
+  return [
+    "Your previous response does not match the required JSON schema:",
+    ...problems,
+    "Reply with only the corrected JSON, without markdown fences or commentary.",
+  ].join("\n");
+}
+
+/** Records the first choice of a response made during structured-output repair. */
+export function createStructuredOutputAttempt(response: LLMResponse): StructuredOutputAttempt {
+  const choice = response.choices[0];
+  return {
+    responseId: response.id,
+    ...(choice && { content: choice.message.content }),
+    ...(choice && "parsedContent" in choice && { parsedContent: choice.parsedContent }),
+    ...(choice?.parseError !== undefined && { parseError: choice.parseError }),
+    ...(choice?.validationErrors && { validationErrors: choice.validationErrors }),
+    ...(response.usage && { usage: response.usage }),
+    ...(response.cost && { cost: response.cost }),
+  };
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  errors: StructuredOutputValidationError[],
+  // $refs followed without descending into the value; a repeat is a cycle
+  refs: readonly string[] = []
+): void {
+  const fail = (keyword: string, message: string) =>
+    errors.push({ path, keyword, message });
+
+  if (typeof schema.$ref === "string") {
+    if (refs.includes(schema.$ref)) {
+      fail("$ref", `circular reference ${schema.$ref}`);
+      return;
+    }
+    const target = resolveRef(root, schema.$ref);
+    if (!target) {
+      fail("$ref", `cannot resolve reference ${schema.$ref}`);
+      return;
+    }
+    validateNode(value, target, root, path, errors, [...refs, schema.$ref]);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail("type", `must be ${types.join(" or ")}`);
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail("enum", `must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    fail("const", `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    const length = Array.from(value).length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      fail("minLength", `must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      fail("maxLength", `must have at most ${schema.maxLength} characters`);
+    }
+    // A pattern that does not compile is skipped rather than failing every string
+    const pattern =
+      typeof schema.pattern === "string" ? safeRegExp(schema.pattern) : undefined;
+    if (pattern && !pattern.test(value)) {
+      fail("pattern", `must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail("minimum", `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail("maximum", `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      fail("minItems", `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      fail("maxItems", `must have at most ${schema.maxItems} items`);
+    }
+    const tuple = Array.isArray(schema.prefixItems)
+      ? schema.prefixItems
+      : Array.isArray(schema.items)
+        ? schema.items
+        : [];
+    value.forEach((item, index) => {
+      const itemSchema =
+        index < tuple.length
+          ? tuple[index]
+          : Array.isArray(schema.items)
+            ? undefined
+            : schema.items;
+      if (isSchema(itemSchema)) {
+        validateNode(item, itemSchema, root, `${path}/${index}`, errors);
+      }
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties)
+      ? (schema.properties as Record<string, unknown>)
+      : {};
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required) {
+        if (typeof name === "string" && !hasOwn(value, name)) {
+          fail("required", `must have required property '${name}'`);
+        }
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}/${escapePointer(name)}`;
+      const propertySchema = properties[name];
+      if (isSchema(propertySchema)) {
+        validateNode(propertyValue, propertySchema, root, propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({
+          path: propertyPath,
+          keyword: "additionalProperties",
+          message: "is not an allowed property",
+        });
+      } else if (isSchema(schema.additionalProperties)) {
+        validateNode(propertyValue, schema.additionalProperties, root, propertyPath, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const branch of schema.allOf) {
+      if (isSchema(branch)) {
+        validateNode(value, branch, root, path, errors, refs);
+      }
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = countMatchingBranches(value, schema.anyOf, root, refs);
+    if (matches === 0) {
+      fail("anyOf", "must match at least one schema in anyOf");
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = countMatchingBranches(value, schema.oneOf, root, refs);
+    if (matches !== 1) {
+      fail("oneOf", `must match exactly one schema in oneOf (matched ${matches})`);
+    }
+  }
+  if (isSchema(schema.not) && validateJsonSchemaWithRoot(value, schema.not, root, refs).length === 0) {
+    fail("not", "must not match the schema in not");
+  }
+}
+
+function countMatchingBranches(
+  value: unknown,
+  branches: unknown[],
+  root: JsonSchema,
+  refs: readonly string[]
+): number {
+  return branches.filter(
+    (branch) => isSchema(branch) && validateJsonSchemaWithRoot(value, branch, root, refs).length === 0
+  ).length;
+}
+
+function validateJsonSchemaWithRoot(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  refs: readonly string[] = []
+): StructuredOutputValidationError[] {
+  const errors: StructuredOutputValidationError[] = [];
+  validateNode(value, schema, root, "", errors, refs);
+  return errors;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) {
+    return undefined;
+  }
+  let node: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+    node = isPlainObject(node) ? node[key] : undefined;
+  }
+  return isSchema(node) ? node : undefined;
+}
+
+/**
+ * Compiles a schema pattern, with the `u` flag when it allows, since many
+ * patterns written for other engines use escapes that unicode mode rejects.
+ */
+function safeRegExp(pattern: string): RegExp | undefined {
+  for (const flags of ["u", ""]) {
+    try {
+      return new RegExp(pattern, flags);
+    } catch {
+      // Try the next flags
+    }
+  }
+  return undefined;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return isPlainObject(value);
+}
+
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => deepEqual(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every((key) => hasOwn(right, key) && deepEqual(left[key], right[key]))
+    );
+  }
+  return false;
+}
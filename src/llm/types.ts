@@ -10,35 +10,83 @@ export type ApiProviderId = string;
 // Structured Output Types
 // ============================================================================
 
+/** JSON type names usable in a schema's `type`. */
+export type StructuredOutputSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null";
+
 /**
  * JSON Schema property definition for structured output
  *
  * Defines the shape and constraints for individual properties within a schema.
- * Supports nested objects, arrays, and primitive types with validation constraints.
+ * Supports nested objects, arrays, primitive types, unions and references.
+ * Keywords a provider does not accept are rewritten or dropped when the
+ * request is prepared; see `droppedKeywords` in the prepared inspection.
  */
 export interface StructuredOutputSchemaProperty {
-  /** The JSON type of this property */
-  type: "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+  /**
+   * The JSON type of this property. An array allows several types, e.g.
+   * `["string", "null"]` for a nullable string. Optional with `anyOf`,
+   * `oneOf`, `const`, `enum` or `$ref`.
+   */
+  type?: StructuredOutputSchemaType | StructuredOutputSchemaType[];
+  /** Short label for this property */
+  title?: string;
   /** Human-readable description of this property */
   description?: string;
-  /** Allowed values for enum types */
-  enum?: (string | number | boolean)[];
+  /** Allowed values */
+  enum?: (string | number | boolean | null)[];
+  /** The only allowed value */
+  const?: string | number | boolean | null;
   /** Nested properties for object types */
   properties?: Record<string, StructuredOutputSchemaProperty>;
   /** Required property names for object types */
   required?: string[];
+  /** Whether (or how) properties not listed in `properties` are allowed */
+  additionalProperties?: boolean | StructuredOutputSchemaProperty;
   /** Schema for array items */
   items?: StructuredOutputSchemaProperty;
+  /** Schemas for the leading items of a tuple-like array */
+  prefixItems?: StructuredOutputSchemaProperty[];
+  /** Minimum number of array items */
+  minItems?: number;
+  /** Maximum number of array items */
+  maxItems?: number;
   /** Minimum value for number/integer types */
   minimum?: number;
   /** Maximum value for number/integer types */
   maximum?: number;
+  /** Exclusive minimum value for number/integer types */
+  exclusiveMinimum?: number;
+  /** Exclusive maximum value for number/integer types */
+  exclusiveMaximum?: number;
   /** Minimum length for string types */
   minLength?: number;
   /** Maximum length for string types */
   maxLength?: number;
   /** Regex pattern for string validation */
   pattern?: string;
+  /** Semantic string format, e.g. "date-time", "email" or "uuid" (not validated client-side) */
+  format?: string;
+  /** The value must match at least one of these schemas */
+  anyOf?: StructuredOutputSchemaProperty[];
+  /** The value must match exactly one of these schemas */
+  oneOf?: StructuredOutputSchemaProperty[];
+  /** The value must match all of these schemas */
+  allOf?: StructuredOutputSchemaProperty[];
+  /** The value must not match this schema */
+  not?: StructuredOutputSchemaProperty;
+  /** Local reference to a definition, e.g. "#/$defs/address" */
+  $ref?: string;
+  /** Reusable definitions referenced with `$ref` */
+  $defs?: Record<string, StructuredOutputSchemaProperty>;
+  /** Default value, as a hint to the model */
+  default?: unknown;
 }
 
 /**
@@ -47,19 +95,63 @@ export interface StructuredOutputSchemaProperty {
  * Defines the top-level schema that the LLM response must conform to.
  * The schema is sent to the provider to constrain the output format.
  */
-export interface StructuredOutputSchema {
+export interface StructuredOutputSchema
+  extends Omit<StructuredOutputSchemaProperty, "type" | "additionalProperties"> {
   /** The JSON type of the root element */
   type: "object" | "array" | "string" | "number" | "boolean";
-  /** Properties for object types */
-  properties?: Record<string, StructuredOutputSchemaProperty>;
-  /** Required property names for object types */
-  required?: string[];
-  /** Schema for array items */
-  items?: StructuredOutputSchemaProperty;
   /** Whether additional properties are allowed (default: false for strict mode) */
   additionalProperties?: boolean;
-  /** Human-readable description of the schema */
-  description?: string;
+}
+
+/** Options passed to a Standard JSON Schema converter. */
+export interface StandardJsonSchemaOptions {
+  /** JSON Schema dialect to produce, e.g. "draft-2020-12" or "draft-07". */
+  target: string;
+  libraryOptions?: Record<string, unknown>;
+}
+
+/** A problem reported by a Standard Schema validator. */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** Result of a Standard Schema validator: the (possibly transformed) value, or issues. */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A validator implementing the Standard Schema interface
+ * (https://standardschema.dev), such as a Zod, Valibot or ArkType schema.
+ *
+ * The JSON Schema sent to providers comes from the Standard JSON Schema
+ * `jsonSchema` converter, or from a `toJsonSchema()`/`toJSONSchema()` method
+ * on the schema object.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+    readonly jsonSchema?: {
+      readonly input: (options: StandardJsonSchemaOptions) => Record<string, unknown>;
+      readonly output: (options: StandardJsonSchemaOptions) => Record<string, unknown>;
+    };
+  };
+}
+
+/**
+ * Part of a chat request that lets `LLMService.sendMessage()` infer `T`
+ * from a Standard Schema in `settings.structuredOutput.schema`.
+ */
+export interface StructuredOutputRequest<T> {
+  settings?: {
+    structuredOutput?: { schema: StructuredOutputSchema | StandardSchemaV1<any, T> };
+  };
 }
 
 /**
@@ -116,8 +208,21 @@ export interface StructuredOutputSettings {
    */
   name: string;
 
-  /** The JSON schema that the response must conform to */
-  schema: StructuredOutputSchema;
+  /**
+   * The JSON schema that the response must conform to, or a Standard Schema
+   * validator (Zod, Valibot, ArkType). A validator is converted to JSON
+   * Schema for the provider, validates `parsedContent`, and types it in
+   * `sendMessage()`.
+   */
+  schema: StructuredOutputSchema | StandardSchemaV1;
+
+  /**
+   * JSON schema sent to the provider when `schema` is a Standard Schema
+   * validator, in place of the validator's own conversion. Needed for
+   * libraries without one (Valibot, Zod 3). Without either, the schema is
+   * delivered as a prompt instruction and the validator still checks the reply.
+   */
+  jsonSchema?: StructuredOutputSchema;
 
   /**
    * Whether to use strict mode (provider enforces exact schema match).
@@ -131,6 +236,43 @@ export interface StructuredOutputSettings {
    * @default true
    */
   autoParse?: boolean;
+
+  /**
+   * Re-prompts the model when the reply is not valid JSON or does not match
+   * the schema. Parsing is lenient in this mode (code fences and surrounding
+   * text are ignored). Each retry appends the invalid reply and the
+   * validation errors to the conversation. `true` allows 2 retries. Every
+   * attempt is recorded in `response.structuredOutputAttempts`. Applies to
+   * sendMessage, not streamMessage.
+   * @default false
+   */
+  repair?: boolean | { maxRetries?: number };
+}
+
+/** A place where parsed structured output does not match its schema. */
+export interface StructuredOutputValidationError {
+  /** JSON Pointer to the failing value; "" for the root. */
+  path: string;
+  /**
+   * Schema keyword that failed, e.g. "required", "enum" or "type". For
+   * issues from a Standard Schema validator, its vendor (e.g. "zod").
+   */
+  keyword: string;
+  message: string;
+}
+
+/** One call made while repairing structured output. */
+export interface StructuredOutputAttempt {
+  /** Absent when the call failed. */
+  responseId?: string;
+  content?: string;
+  parsedContent?: unknown;
+  parseError?: string;
+  validationErrors?: StructuredOutputValidationError[];
+  usage?: LLMUsage;
+  cost?: LLMCost;
+  /** Set when the repair call itself failed. */
+  error?: LLMError;
 }
 
 /**
@@ -243,17 +385,156 @@ export interface ModelCapabilities {
 
 /**
  * Message roles supported by LLM APIs
+ *
+ * `tool` messages carry the result of a tool call requested by a previous
+ * assistant message and must reference it through `toolCallId`.
  */
-export type LLMMessageRole = 'user' | 'assistant' | 'system';
+export type LLMMessageRole = 'user' | 'assistant' | 'system' | 'tool';
 
 /**
  * Individual message in a conversation
  */
 export interface LLMMessage {
   role: LLMMessageRole;
+  /**
+   * Message text, or an array of content parts for multimodal input.
+   * Image and document parts are accepted only in user messages.
+   */
+  content: string | LLMContentPart[];
+  /**
+   * Tool calls requested by an assistant message. Set this when replaying an
+   * assistant turn that returned `choice.toolCalls` so providers can pair the
+   * following `tool` messages with their calls.
+   */
+  toolCalls?: LLMToolCall[];
+  /**
+   * For assistant messages: the `reasoning_details` of the choice being
+   * replayed. OpenRouter needs them to continue reasoning across turns, and
+   * Anthropic needs the signed thinking blocks they hold to accept tool
+   * results after a thinking turn; other providers ignore them.
+   */
+  reasoning_details?: any;
+  /** For `tool` messages: the `LLMToolCall.id` this result answers. */
+  toolCallId?: string;
+  /**
+   * Ends a cacheable prompt prefix after this message. `true` uses the
+   * `promptCache.ttl` setting. Honored by providers with explicit cache
+   * breakpoints (Anthropic) unless `promptCache.enabled` is false.
+   */
+  cacheBreakpoint?: boolean | { ttl?: LLMPromptCacheTtl };
+  /**
+   * For `tool` messages: the name of the tool that produced the result.
+   * Optional; resolved from the matching assistant tool call when omitted.
+   */
+  name?: string;
+}
+
+/**
+ * Message returned in a response choice. Generated content is always text.
+ */
+export interface LLMResponseMessage extends LLMMessage {
   content: string;
 }
 
+/**
+ * Plain text part of a multimodal message.
+ */
+export interface LLMTextContentPart {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Image part of a multimodal message. Set exactly one of `data` or `url`.
+ */
+export interface LLMImageContentPart {
+  type: "image";
+  /** Image bytes as a Buffer/Uint8Array, or a base64 string without a `data:` prefix */
+  data?: string | Uint8Array;
+  /** An `http(s):` URL or a base64 `data:` URL */
+  url?: string;
+  /**
+   * Image media type: `image/png`, `image/jpeg`, `image/gif` or `image/webp`.
+   * Required with `data`; optional for URLs.
+   */
+  mimeType?: string;
+}
+
+/**
+ * Document part of a multimodal message: PDF bytes or a plain-text document.
+ * Set exactly one of `data` or `text`.
+ *
+ * Providers without native support for the document type receive it as text
+ * (see `LLMServiceOptions.documentTextExtractor` for PDFs).
+ */
+export interface LLMDocumentContentPart {
+  type: "document";
+  /** PDF bytes as a Buffer/Uint8Array, or a base64 string without a `data:` prefix */
+  data?: string | Uint8Array;
+  /** Plain-text document body */
+  text?: string;
+  /** Document title, passed to providers that accept one */
+  title?: string;
+}
+
+/**
+ * One part of a multimodal message.
+ */
+export type LLMContentPart =
+  | LLMTextContentPart
+  | LLMImageContentPart
+  | LLMDocumentContentPart;
+
+/** Media types of document content parts. */
+export type LLMDocumentMimeType = "application/pdf" | "text/plain";
+
+/**
+ * Extracts text from a PDF document part for providers that cannot read PDFs
+ * natively. The returned text replaces the part in the prepared request.
+ */
+export type DocumentTextExtractor = (document: {
+  data: Uint8Array;
+  mimeType: "application/pdf";
+  title?: string;
+}) => string | Promise<string>;
+
+/**
+ * A function the model may call, described by a JSON schema for its arguments.
+ */
+export interface LLMToolDefinition {
+  /** Tool name (letters, digits, underscores and dashes; at most 64 characters) */
+  name: string;
+  /** What the tool does and when the model should use it */
+  description?: string;
+  /** JSON schema describing the arguments object. Defaults to an empty object schema. */
+  parameters?: StructuredOutputSchema;
+}
+
+/**
+ * Controls whether and which tools the model may call.
+ *
+ * - `auto`: the model decides (provider default when tools are present)
+ * - `none`: the model must not call tools
+ * - `required`: the model must call at least one tool
+ * - `{ name }`: the model must call the named tool
+ */
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * A tool call requested by the model.
+ */
+export interface LLMToolCall {
+  /**
+   * Provider-assigned call ID. Providers without call IDs (e.g. Gemini) get a
+   * stable library-generated ID so tool results can still be paired.
+   */
+  id: string;
+  /** Name of the tool to call */
+  name: string;
+  /** Arguments as a JSON string, exactly as produced by the model when available */
+  arguments: string;
+}
+
 /**
  * Gemini harm categories for safety settings
  * Only includes categories supported by the API for safety setting rules
@@ -467,6 +748,14 @@ export interface LLMSettings {
    * llama.cpp, OpenRouter. Not supported by Anthropic (stripped automatically).
    */
   seed?: number;
+  /**
+   * Number of choices to generate (integer >= 1), returned on `response.choices`
+   * in index order. Useful for self-consistency sampling.
+   * Native for OpenAI (n), Gemini (candidateCount) and OpenRouter (n).
+   * Anthropic, Mistral and llama.cpp make one call per choice in parallel;
+   * with a `seed`, choice `i` uses `seed + i`. Usage is summed across calls.
+   */
+  n?: number;
   /** A unique identifier representing your end-user, which can help monitor and detect abuse */
   user?: string;
   /** Whether the LLM supports system message (almost all LLMs do nowadays) */
@@ -530,6 +819,49 @@ export interface LLMSettings {
    * @see LlamaCppSettings
    */
   llamacpp?: LlamaCppSettings;
+  /**
+   * Tools the model may call. Calls are returned on `choice.toolCalls`; send
+   * results back as `tool` messages referencing each call's `id`.
+   * Supported by: OpenAI, Anthropic, Gemini, Mistral, OpenRouter, llama.cpp
+   * (llama.cpp requires a tool-capable chat template, e.g. `--jinja`).
+   */
+  tools?: LLMToolDefinition[];
+  /**
+   * Whether and which tool the model may call. Requires `tools`.
+   * @default 'auto' when tools are provided
+   */
+  toolChoice?: LLMToolChoice;
+  /**
+   * Prompt caching. Anthropic receives `cache_control` breakpoints; OpenAI
+   * and Gemini cache long prefixes automatically and only report cached
+   * tokens in usage.
+   */
+  promptCache?: LLMPromptCacheSettings;
+  /**
+   * Gemini: resource name of an explicit context cache (`cachedContents/...`)
+   * created with `LLMService.createContextCache`. Its contents are prepended
+   * to the request; the system instruction and tools must live in the cache.
+   */
+  cachedContent?: string;
+}
+
+/** Lifetime of a prompt-cache entry. */
+export type LLMPromptCacheTtl = "5m" | "1h";
+
+/**
+ * Provider-neutral prompt-cache breakpoints. Combine with per-message
+ * `cacheBreakpoint` markers; Anthropic accepts at most 4 breakpoints per
+ * request, so the last 4 are kept.
+ */
+export interface LLMPromptCacheSettings {
+  /** Set false to drop all breakpoints, including per-message markers. */
+  enabled?: boolean;
+  /** Cache through the system prompt (and tool definitions). @default true */
+  system?: boolean;
+  /** Cache through the first N non-system messages. */
+  messages?: number;
+  /** @default "5m" */
+  ttl?: LLMPromptCacheTtl;
 }
 
 /**
@@ -637,6 +969,21 @@ export type PreparedRequestValue =
   | PreparedRequestValue[]
   | { [key: string]: PreparedRequestValue };
 
+/**
+ * Stand-in for a document part in a prepared request view. Document bodies
+ * are never copied into views.
+ */
+export interface PreparedDocumentPlaceholder {
+  type: "document";
+  redacted: true;
+  mimeType: string;
+  /** Size of the document body in bytes */
+  bytes: number;
+  /** Hex SHA-256 digest of the document body; part of the response cache key */
+  sha256: string;
+  title?: string;
+}
+
 /** A provider-facing message after deterministic role/content conversion. */
 export interface PreparedProviderMessageView {
   role: string;
@@ -644,11 +991,23 @@ export interface PreparedProviderMessageView {
 }
 
 /** Structured-output delivery visible in a prepared request. */
+/** A schema keyword removed because the provider does not accept it. */
+export interface DroppedSchemaKeyword {
+  /** JSON Pointer to the schema node that held the keyword; "" for the root. */
+  path: string;
+  keyword: string;
+}
+
 export interface PreparedStructuredOutputView {
   delivery: "native" | "prompt";
   enforcement: "provider" | "json_only" | "instruction_only";
   name?: string;
   schema?: PreparedRequestValue;
+  /**
+   * Keywords removed from `schema` for this provider. Parsed content is
+   * still validated against the full schema.
+   */
+  droppedKeywords?: DroppedSchemaKeyword[];
   /** Version of the deterministic prompt instruction, when prompt-delivered. */
   promptRevision?: string;
 }
@@ -668,6 +1027,11 @@ export interface PreparedProviderRequestView {
   reasoning?: PreparedRequestValue;
   settings: { [key: string]: PreparedRequestValue };
   extensions?: { [key: string]: PreparedRequestValue };
+  /**
+   * Number of parallel provider calls made to emulate `settings.n` on
+   * providers without a native choice count. Absent for a single call.
+   */
+  fanOut?: number;
 }
 
 /** Evidence-bearing point count for a fully prepared prompt. */
@@ -860,6 +1224,10 @@ export interface LLMAnswerAccountingByScope {
 export interface LLMUsageFieldEvidence {
   source: "provider" | "derived" | "heuristic";
   providerField?: string;
+  /** reasoning_tokens only: whether completion_tokens already includes them. */
+  includedInCompletion?: boolean;
+  /** cache_* fields only: whether prompt_tokens already includes them. */
+  includedInPrompt?: boolean;
 }
 
 /** Field-level provenance for normalized usage values. */
@@ -867,13 +1235,17 @@ export interface LLMUsageEvidence {
   prompt_tokens?: LLMUsageFieldEvidence;
   completion_tokens?: LLMUsageFieldEvidence;
   total_tokens?: LLMUsageFieldEvidence;
+  reasoning_tokens?: LLMUsageFieldEvidence;
+  cache_creation_tokens?: LLMUsageFieldEvidence;
+  cache_read_tokens?: LLMUsageFieldEvidence;
 }
 
 /**
- * Individual choice in an LLM response
+ * Individual choice in an LLM response. `T` is the structured output type
+ * inferred from a Standard Schema in `structuredOutput.schema`.
  */
-export interface LLMChoice {
-  message: LLMMessage;
+export interface LLMChoice<T = unknown> {
+  message: LLMResponseMessage;
   finish_reason: string | null;
   index?: number;
   /** Exact text received before reasoning/tag/whitespace normalization. */
@@ -893,20 +1265,38 @@ export interface LLMChoice {
   termination?: LLMTermination;
   /** Reasoning/thinking content (if available and not excluded) */
   reasoning?: string;
-  /** Provider-specific reasoning details that need to be preserved */
+  /**
+   * Provider-specific reasoning details that need to be preserved: OpenRouter's
+   * `reasoning_details`, or Anthropic's signed thinking blocks. Replay them on
+   * the assistant message of the next turn.
+   */
   reasoning_details?: any;
   /** Per-token log probabilities (when settings.logprobs was requested and supported) */
   logprobs?: TokenLogprob[];
+  /**
+   * Tool calls requested by the model, in provider order. Present only when
+   * the model called at least one tool; `termination.kind` is then usually
+   * "tool_call".
+   */
+  toolCalls?: LLMToolCall[];
   /**
    * Parsed JSON content when structuredOutput is enabled and autoParse is true.
-   * Contains the parsed object/array from the JSON response.
+   * Contains the parsed object/array from the JSON response, or the output of
+   * the Standard Schema validator when one was given and the value is valid.
+   * When `validationErrors` is present it holds the parsed JSON as returned,
+   * which may not match `T`.
    */
-  parsedContent?: unknown;
+  parsedContent?: T;
   /**
    * Error message if JSON parsing failed when structuredOutput was enabled.
    * Only present when autoParse is true and parsing failed.
    */
   parseError?: string;
+  /**
+   * Where `parsedContent` does not match `structuredOutput.schema`. Only
+   * present when parsing succeeded and validation found problems.
+   */
+  validationErrors?: StructuredOutputValidationError[];
 }
 
 /**
@@ -916,20 +1306,78 @@ export interface LLMUsage {
   prompt_tokens?: number;
   completion_tokens?: number;
   total_tokens?: number;
+  /**
+   * Reasoning/thinking tokens, when the provider breaks them out. Whether
+   * they are already counted in completion_tokens is recorded in
+   * usageEvidence.reasoning_tokens.includedInCompletion.
+   */
+  reasoning_tokens?: number;
+  /** Prompt tokens written to the provider's prompt cache. */
+  cache_creation_tokens?: number;
+  /**
+   * Prompt tokens served from the provider's prompt cache. Whether
+   * prompt_tokens already counts cache tokens is recorded in
+   * usageEvidence (includedInPrompt).
+   */
+  cache_read_tokens?: number;
+}
+
+/** Price table entry used to compute an {@link LLMCost}, per 1M tokens. */
+export interface LLMCostPricing {
+  /** Revision of the built-in price table (MODEL_PRICING_REVISION). */
+  revision: string;
+  inputPrice: number;
+  outputPrice: number;
+  reasoningOutputPrice: number;
+  cacheWritesPrice?: number;
+  cacheReadsPrice?: number;
+  /** Factor applied to the prices above, e.g. 0.5 for batch jobs; absent when 1. */
+  priceMultiplier?: number;
 }
 
 /**
- * Successful response from LLM API
+ * Monetary cost of one response, computed from normalized usage and the
+ * resolved model's pricing. Amounts are in USD.
  */
-export interface LLMResponse {
+export interface LLMCost {
+  /** Uncached prompt tokens. */
+  input: number;
+  /** Non-reasoning output tokens. */
+  output: number;
+  reasoning: number;
+  /** Prompt-cache writes and reads; 0 when no cache tokens were reported. */
+  cache: number;
+  total: number;
+  currency: "USD";
+  pricing: LLMCostPricing;
+}
+
+/**
+ * Successful response from LLM API. `T` types `choices[].parsedContent`.
+ */
+export interface LLMResponse<T = unknown> {
   id: string;
   provider: ApiProviderId;
   model: string;
   created: number;
-  choices: LLMChoice[];
+  choices: LLMChoice<T>[];
   usage?: LLMUsage;
   /** Provenance for each normalized usage field. */
   usageEvidence?: LLMUsageEvidence;
+  /** Present when usage and model pricing are both known. */
+  cost?: LLMCost;
+  /**
+   * True when LLMService served this response from its response cache;
+   * usage and cost then describe the original call.
+   */
+  cacheHit?: boolean;
+  /** Present when the call was given `fallbackPresetIds`. */
+  fallback?: LLMFallbackInfo;
+  /**
+   * Every call made for `structuredOutput.repair`, first to last; the
+   * response itself is the last successful one.
+   */
+  structuredOutputAttempts?: StructuredOutputAttempt[];
   object: 'chat.completion';
 }
 
@@ -948,6 +1396,109 @@ export interface LLMError {
   providerError?: any;
 }
 
+/**
+ * Explicit provider-side context cache (Gemini `cachedContents`).
+ */
+export interface LLMContextCache {
+  object: "context_cache";
+  provider: ApiProviderId;
+  model: string;
+  /** Resource name to pass as `settings.cachedContent`. */
+  name: string;
+  displayName?: string;
+  createTime?: string;
+  updateTime?: string;
+  expireTime?: string;
+  /** Prompt tokens held by the cache. */
+  totalTokens?: number;
+}
+
+/**
+ * Request for LLMService.createContextCache(). System messages become the
+ * cached system instruction; the rest become cached contents.
+ */
+export interface LLMContextCacheRequest {
+  providerId: ApiProviderId;
+  modelId: string;
+  messages: LLMMessage[];
+  /** Tool definitions to cache alongside the contents. */
+  tools?: LLMToolDefinition[];
+  displayName?: string;
+  /** Lifetime in seconds. Provider default (1 hour for Gemini) when omitted. */
+  ttlSeconds?: number;
+}
+
+/** Expiry change for LLMService.updateContextCache(). Set one field. */
+export interface LLMContextCacheUpdate {
+  ttlSeconds?: number;
+  /** Absolute expiry as an RFC 3339 timestamp. */
+  expireTime?: string;
+}
+
+/** Result of LLMService.listContextCaches(). */
+export interface LLMContextCacheList {
+  object: "context_cache.list";
+  provider: ApiProviderId;
+  caches: LLMContextCache[];
+}
+
+/** Result of LLMService.deleteContextCache(). */
+export interface LLMContextCacheDeleted {
+  object: "context_cache.deleted";
+  provider: ApiProviderId;
+  name: string;
+}
+
+/**
+ * Lifecycle state of a provider batch job. Anthropic batches report only
+ * in_progress, cancelling, completed and cancelled.
+ */
+export type LLMBatchJobStatus =
+  | "validating"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "failed"
+  | "expired"
+  | "cancelling"
+  | "cancelled";
+
+/** Per-request progress of a batch job. */
+export interface LLMBatchJobRequestCounts {
+  total: number;
+  succeeded: number;
+  /** Errored, cancelled and expired requests. */
+  failed: number;
+  /** Requests not yet processed. */
+  pending: number;
+}
+
+/** A provider-native asynchronous batch job (OpenAI Batch, Anthropic Message Batches). */
+export interface LLMBatchJob {
+  object: "batch_job";
+  provider: ApiProviderId;
+  id: string;
+  status: LLMBatchJobStatus;
+  /** Status exactly as the provider reported it. */
+  providerStatus: string;
+  requestCounts: LLMBatchJobRequestCounts;
+  /** RFC 3339 timestamps. */
+  createdAt?: string;
+  endedAt?: string;
+  expiresAt?: string;
+  /** Job-level validation errors (OpenAI), e.g. a malformed input line. */
+  errors?: Array<{ message: string; code?: string; line?: number }>;
+}
+
+/** Finished results of a batch job, keyed by the custom IDs given at creation. */
+export interface LLMBatchJobResults {
+  object: "batch_job.results";
+  provider: ApiProviderId;
+  id: string;
+  /** Requests still pending are absent. */
+  results: Record<string, LLMResponse | LLMFailureResponse>;
+}
+
 /**
  * Error response from LLM operations
  */
@@ -958,6 +1509,57 @@ export interface LLMFailureResponse {
   object: 'error';
   /** The partial response that was generated before the error occurred (if available) */
   partialResponse?: Omit<LLMResponse, 'object'>;
+  /** Present when the call was given `fallbackPresetIds`. */
+  fallback?: LLMFallbackInfo;
+}
+
+/** An entry in a fallback chain that failed before a later one was tried. */
+export interface LLMFallbackFailure {
+  /** Absent for the original request when it did not use a preset. */
+  presetId?: string;
+  provider: ApiProviderId;
+  model?: string;
+  /** The failure, without `providerError`. */
+  error: Omit<LLMError, 'providerError'>;
+}
+
+/** Which entry of a fallback chain produced a result, and why earlier ones failed. */
+export interface LLMFallbackInfo {
+  /** Preset that produced the result; absent for an original request without one. */
+  presetId?: string;
+  /** Position in the chain: 0 is the original request, 1 the first fallback. */
+  position: number;
+  failures: LLMFallbackFailure[];
+}
+
+/** Progress reported by LLMService.sendBatch after each item finishes. */
+export interface LLMBatchProgress {
+  /** Input position of the item that just finished. */
+  index: number;
+  result: LLMResponse | LLMFailureResponse;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  /** Number of inputs, when known up front (array input). */
+  total?: number;
+}
+
+/** Result of LLMService.sendBatch. */
+export interface LLMBatchResult {
+  object: "batch.result";
+  /**
+   * One result per dispatched input, in input order. Inputs are dispatched
+   * in order, so a stopped batch covers a prefix of the input.
+   */
+  results: Array<LLMResponse | LLMFailureResponse>;
+  succeeded: number;
+  failed: number;
+  /** True when stopOnError or the signal ended dispatch before the input ran out. */
+  stopped: boolean;
+  /** Token usage summed over all results, including partial usage of failures. */
+  usage: LLMUsage;
+  /** Sum of `cost.total` in USD over all results, including partial cost of failures. */
+  costUsd: number;
 }
 
 /**
@@ -1009,11 +1611,48 @@ export type LLMStreamEvent =
       delta: string;
       index: number;
     }
+  | {
+      /**
+       * Emitted by LLMService after a content_delta when structured output
+       * is enabled (and autoParse is not false) and the parsed value changed.
+       */
+      type: "parsed_delta";
+      index: number;
+      /**
+       * Best-effort parse of the choice's JSON content so far. Unfinished
+       * strings are included; unfinished numbers, literals and keys are not.
+       * The final value is `parsedContent` on the complete response.
+       */
+      parsed: unknown;
+    }
   | {
       type: "reasoning_delta";
       delta: string;
       index: number;
     }
+  | {
+      type: "tool_call_start";
+      /** Choice index the tool call belongs to. */
+      index: number;
+      /** Position of the tool call within the choice. */
+      toolCallIndex: number;
+      id: string;
+      name: string;
+    }
+  | {
+      type: "tool_call_arguments_delta";
+      index: number;
+      toolCallIndex: number;
+      /** Next fragment of the JSON-encoded arguments string. */
+      delta: string;
+    }
+  | {
+      type: "tool_call_end";
+      index: number;
+      toolCallIndex: number;
+      /** The completed call with its fully accumulated arguments. */
+      toolCall: LLMToolCall;
+    }
   | {
       type: "usage";
       usage: LLMUsage;
@@ -1047,6 +1686,11 @@ export interface ProviderInfo {
    * Default: false (strict validation)
    */
   allowUnknownModels?: boolean;
+  /**
+   * Document types this provider reads natively. Other document parts are
+   * converted to text before the request reaches the adapter.
+   */
+  nativeDocumentTypes?: LLMDocumentMimeType[];
 }
 
 /**
@@ -35,7 +35,9 @@ export {
   extractInitialTaggedContent,
   extractMarkerDelimitedContent,
   parseRoleTags,
-  parseTemplateWithMetadata
+  parseTemplateWithMetadata,
+  parsePartialJson,
+  PartialJsonParser
 } from "./parser";
 
 // Types
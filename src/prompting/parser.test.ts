@@ -2,7 +2,7 @@
  * Tests for response parsing utilities
  */
 
-import { parseStructuredContent, extractInitialTaggedContent, extractMarkerDelimitedContent, parseRoleTags, parseTemplateWithMetadata } from './parser';
+import { parseStructuredContent, extractInitialTaggedContent, extractMarkerDelimitedContent, parseRoleTags, parseTemplateWithMetadata, parsePartialJson, PartialJsonParser } from './parser';
 
 describe('parseStructuredContent', () => {
   it('should parse properly closed tags', () => {
@@ -646,4 +646,85 @@ describe('extractMarkerDelimitedContent', () => {
     expect(result.content).toBe('Answer');
     expect(result.extracted).toBe('x');
   });
-});
\ No newline at end of file
+});
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON like JSON.parse', () => {
+    const json = '{"a": [1, 2.5e3, -0.5, true, false, null], "b": {"c": "d\\n\\u00e9"}, "e": []}';
+    expect(parsePartialJson(json)).toEqual(JSON.parse(json));
+  });
+
+  it('keeps unfinished strings and drops unfinished numbers, literals and keys', () => {
+    expect(parsePartialJson('{"title": "Hello wo')).toEqual({ title: 'Hello wo' });
+    expect(parsePartialJson('{"title": "Hi", "count": 12')).toEqual({ title: 'Hi' });
+    expect(parsePartialJson('{"title": "Hi", "count": 12.')).toEqual({ title: 'Hi' });
+    expect(parsePartialJson('{"title": "Hi", "done": tr')).toEqual({ title: 'Hi' });
+    expect(parsePartialJson('{"title": "Hi", "sum')).toEqual({ title: 'Hi' });
+    expect(parsePartialJson('{"title": "Hi", "summary":')).toEqual({ title: 'Hi' });
+  });
+
+  it('returns nested partial containers', () => {
+    expect(parsePartialJson('{"items": [{"name": "a"}, {"name": "b')).toEqual({
+      items: [{ name: 'a' }, { name: 'b' }],
+    });
+    expect(parsePartialJson('[1, 2, ')).toEqual([1, 2]);
+    expect(parsePartialJson('{"a": {')).toEqual({ a: {} });
+  });
+
+  it('drops an unfinished escape sequence', () => {
+    expect(parsePartialJson('{"a": "x\\')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "x\\u00')).toEqual({ a: 'x' });
+  });
+
+  it('ignores text around the value such as code fences', () => {
+    expect(parsePartialJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parsePartialJson('```json\n{"a": "b')).toEqual({ a: 'b' });
+  });
+
+  it('returns undefined before a value starts or for invalid JSON', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('Sure, here')).toBeUndefined();
+    expect(parsePartialJson('{"a" 1}')).toBeUndefined();
+    expect(parsePartialJson('{"a": 01}')).toBeUndefined();
+    expect(parsePartialJson('{"a": nope}')).toBeUndefined();
+  });
+});
+
+describe('PartialJsonParser', () => {
+  it('resumes across writes and reports when the value changes', () => {
+    const parser = new PartialJsonParser();
+
+    expect(parser.write('Sure: ')).toBe(false);
+    expect(parser.value).toBeUndefined();
+    expect(parser.write('{"title": "Hel')).toBe(true);
+    expect(parser.value).toEqual({ title: 'Hel' });
+    expect(parser.write('lo", "count": 1')).toBe(true);
+    expect(parser.write('2')).toBe(false);
+    expect(parser.value).toEqual({ title: 'Hello' });
+    expect(parser.write(', "s": "\\u00')).toBe(true);
+    expect(parser.write('e9"')).toBe(true);
+    expect(parser.write(', "tags": ["a"]}')).toBe(true);
+    expect(parser.value).toEqual({ title: 'Hello', count: 12, s: '\u00e9', tags: ['a'] });
+    expect(parser.write(' trailing {')).toBe(false);
+  });
+
+  it('returns values that later writes do not modify', () => {
+    const parser = new PartialJsonParser();
+    parser.write('{"items": [{"name": "a');
+    const before = parser.value;
+
+    parser.write('b"}, {"name": "c"}]}');
+
+    expect(before).toEqual({ items: [{ name: 'a' }] });
+    expect(parser.value).toEqual({ items: [{ name: 'ab' }, { name: 'c' }] });
+  });
+
+  it('stays undefined once the text is invalid', () => {
+    const parser = new PartialJsonParser();
+
+    expect(parser.write('{"a": 01')).toBe(true);
+    expect(parser.write('}')).toBe(false);
+    expect(parser.value).toBeUndefined();
+    expect(parser.write('{"b": 1}')).toBe(false);
+  });
+});
@@ -265,4 +265,324 @@ export function parseTemplateWithMetadata(template: string): {
     logger.warn('Could not parse <META> block in template. Treating it as content.', error);
     return { metadata: { settings: {} }, content: template };
   }
-}
\ No newline at end of file
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+const JSON_LITERALS: Array<[string, unknown]> = [['true', true], ['false', false], ['null', null]];
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const JSON_WHITESPACE = ' \t\n\r';
+const JSON_NUMBER_CHARS = '+-.0123456789eE';
+
+/** What the parser expects next. */
+type PartialJsonMode =
+  | 'before'
+  | 'keyOrClose'
+  | 'key'
+  | 'colon'
+  | 'valueOrClose'
+  | 'value'
+  | 'afterValue'
+  | 'string'
+  | 'number'
+  | 'literal'
+  | 'done'
+  | 'failed';
+
+/** An object or array whose closing token has not been seen yet. */
+interface PartialJsonFrame {
+  container: Record<string, unknown> | unknown[];
+  /** Key of the object entry being parsed; set once its `:` is seen. */
+  key?: string;
+}
+
+/**
+ * Incremental form of {@link parsePartialJson} for text that arrives in
+ * pieces, such as a streamed response. Each character is read once, so
+ * feeding a long response delta by delta stays linear in its length.
+ *
+ * @example
+ * const parser = new PartialJsonParser();
+ * parser.write('{"title": "Hel');  // true
+ * parser.value;                     // { title: 'Hel' }
+ * parser.write('lo", "count": 1');  // true
+ * parser.write('2');                // false: the number may still grow
+ */
+export class PartialJsonParser {
+  private mode: PartialJsonMode = 'before';
+  private root: Record<string, unknown> | unknown[] | undefined;
+  private frames: PartialJsonFrame[] = [];
+  /** Text of the string, number or literal being read. */
+  private token = '';
+  private tokenIsKey = false;
+  /** Escape being read: a backslash, or `u` and the hex digits so far. */
+  private escape: string | undefined;
+  private changed = false;
+
+  /**
+   * Reads the next piece of text.
+   *
+   * @returns Whether `value` changed
+   */
+  write(text: string): boolean {
+    this.changed = false;
+    for (const char of text) {
+      if (this.mode === 'done' || this.mode === 'failed') {
+        break;
+      }
+      this.read(char);
+    }
+    return this.changed;
+  }
+
+  /**
+   * The best-effort value so far, or undefined when no value has started yet
+   * or the text is not valid JSON. Each read returns new objects for the
+   * unfinished parts; finished parts are shared between reads.
+   */
+  get value(): unknown {
+    return this.mode === 'failed' || !this.root ? undefined : this.snapshot(0);
+  }
+
+  private snapshot(depth: number): unknown {
+    const frame = this.frames[depth];
+    if (!frame) {
+      return depth === 0 ? this.root : undefined;
+    }
+    const copy: Record<string, unknown> | unknown[] = Array.isArray(frame.container)
+      ? [...frame.container]
+      : { ...frame.container };
+    const child =
+      depth + 1 < this.frames.length
+        ? this.snapshot(depth + 1)
+        : this.mode === 'string' && !this.tokenIsKey
+          ? this.token
+          : undefined;
+    if (child !== undefined) {
+      if (Array.isArray(copy)) {
+        copy[copy.length - 1] = child;
+      } else {
+        copy[frame.key!] = child;
+      }
+    }
+    return copy;
+  }
+
+  private read(char: string): void {
+    switch (this.mode) {
+      case 'before':
+        if (char === '{' || char === '[') {
+          this.open(char);
+        }
+        return;
+      case 'string':
+        this.readString(char);
+        return;
+      case 'number':
+        if (JSON_NUMBER_CHARS.includes(char)) {
+          this.token += char;
+          return;
+        }
+        if (!JSON_NUMBER.test(this.token)) {
+          this.mode = 'failed';
+          return;
+        }
+        this.insert(Number(this.token));
+        this.mode = 'afterValue';
+        this.read(char);
+        return;
+      case 'literal': {
+        this.token += char;
+        const literal = JSON_LITERALS.find(([name]) => name.startsWith(this.token));
+        if (!literal) {
+          this.mode = 'failed';
+        } else if (literal[0] === this.token) {
+          this.insert(literal[1]);
+          this.mode = 'afterValue';
+        }
+        return;
+      }
+    }
+
+    if (JSON_WHITESPACE.includes(char)) {
+      return;
+    }
+    const frame = this.frames[this.frames.length - 1];
+    const close = Array.isArray(frame.container) ? ']' : '}';
+    switch (this.mode) {
+      case 'keyOrClose':
+      case 'key':
+        if (char === '"') {
+          this.startString(true);
+        } else if (char === '}' && this.mode === 'keyOrClose') {
+          this.close();
+        } else {
+          this.mode = 'failed';
+        }
+        return;
+      case 'colon':
+        if (char === ':') {
+          frame.key = this.token;
+          this.mode = 'value';
+        } else {
+          this.mode = 'failed';
+        }
+        return;
+      case 'valueOrClose':
+      case 'value':
+        if (char === ']' && this.mode === 'valueOrClose') {
+          this.close();
+        } else {
+          this.startValue(char);
+        }
+        return;
+      case 'afterValue':
+        if (char === close) {
+          this.close();
+        } else if (char === ',') {
+          this.mode = Array.isArray(frame.container) ? 'value' : 'key';
+        } else {
+          this.mode = 'failed';
+        }
+        return;
+    }
+  }
+
+  private startValue(char: string): void {
+    if (char === '{' || char === '[') {
+      this.open(char);
+    } else if (char === '"') {
+      this.insert('');
+      this.startString(false);
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      this.token = char;
+      this.mode = 'number';
+    } else if (JSON_LITERALS.some(([name]) => name.startsWith(char))) {
+      this.token = char;
+      this.mode = 'literal';
+    } else {
+      this.mode = 'failed';
+    }
+  }
+
+  private startString(isKey: boolean): void {
+    this.token = '';
+    this.tokenIsKey = isKey;
+    this.escape = undefined;
+    this.mode = 'string';
+  }
+
+  private readString(char: string): void {
+    if (this.escape === '\\') {
+      if (char === 'u') {
+        this.escape = 'u';
+      } else if (char in JSON_ESCAPES) {
+        this.escape = undefined;
+        this.appendToString(JSON_ESCAPES[char]);
+      } else {
+        this.mode = 'failed';
+      }
+      return;
+    }
+    if (this.escape !== undefined) {
+      this.escape += char;
+      if (this.escape.length === 5) {
+        const hex = this.escape.slice(1);
+        this.escape = undefined;
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          this.mode = 'failed';
+          return;
+        }
+        this.appendToString(String.fromCharCode(parseInt(hex, 16)));
+      }
+      return;
+    }
+    if (char === '\\') {
+      this.escape = '\\';
+    } else if (char !== '"') {
+      this.appendToString(char);
+    } else if (this.tokenIsKey) {
+      this.mode = 'colon';
+    } else {
+      this.setLast(this.token);
+      this.mode = 'afterValue';
+    }
+  }
+
+  private appendToString(text: string): void {
+    this.token += text;
+    if (!this.tokenIsKey) {
+      this.changed = true;
+    }
+  }
+
+  private open(char: string): void {
+    const container: Record<string, unknown> | unknown[] = char === '{' ? {} : [];
+    if (this.root) {
+      this.insert(container);
+    } else {
+      this.root = container;
+      this.changed = true;
+    }
+    this.frames.push({ container });
+    this.mode = char === '{' ? 'keyOrClose' : 'valueOrClose';
+  }
+
+  private close(): void {
+    this.frames.pop();
+    this.mode = this.frames.length === 0 ? 'done' : 'afterValue';
+  }
+
+  /** Adds a value to the innermost container. */
+  private insert(value: unknown): void {
+    const frame = this.frames[this.frames.length - 1];
+    if (Array.isArray(frame.container)) {
+      frame.container.push(value);
+    } else {
+      frame.container[frame.key!] = value;
+    }
+    this.changed = true;
+  }
+
+  /** Replaces the value added last, once a string is finished. */
+  private setLast(value: unknown): void {
+    const frame = this.frames[this.frames.length - 1];
+    if (Array.isArray(frame.container)) {
+      frame.container[frame.container.length - 1] = value;
+    } else {
+      frame.container[frame.key!] = value;
+    }
+  }
+}
+
+/**
+ * Parses the JSON value that starts at the first `{` or `[` in the text, even
+ * when the text stops partway through it. Useful for rendering a structured
+ * output response while it is still streaming.
+ *
+ * Unfinished strings are kept as far as they go. Unfinished numbers, literals
+ * and object keys are left out until they are complete. Text before the value
+ * (e.g. a Markdown code fence) and after it is ignored. Use
+ * {@link PartialJsonParser} to parse text that arrives in pieces.
+ *
+ * @param text The JSON text received so far
+ * @returns The best-effort value, or undefined when no value has started yet
+ *   or the text is not valid JSON
+ *
+ * @example
+ * parsePartialJson('{"title": "Hello wo');  // { title: 'Hello wo' }
+ * parsePartialJson('{"tags": ["a", "b"], "count": 1');  // { tags: ['a', 'b'] }
+ */
+export function parsePartialJson(text: string): unknown {
+  const parser = new PartialJsonParser();
+  parser.write(text);
+  return parser.value;
+}
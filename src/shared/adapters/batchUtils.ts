@@ -0,0 +1,53 @@
+// AI Summary: Shared helpers for provider-native batch jobs.
+// Used by the OpenAI and Anthropic adapters to parse result files and to
+// report requests the provider cancelled or let expire.
+
+import type { LLMFailureResponse } from "../../llm/types";
+import { ADAPTER_ERROR_CODES } from "../../llm/clients/types";
+
+/**
+ * Parses a JSON Lines body into records, skipping blank lines.
+ *
+ * @throws SyntaxError when a non-blank line is not valid JSON
+ */
+export function parseJsonLines(text: string): unknown[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line));
+}
+
+/** Converts Unix seconds to an RFC 3339 timestamp; undefined stays undefined. */
+export function unixSecondsToIso(seconds: number | null | undefined): string | undefined {
+  return typeof seconds === "number" ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * Builds the failure for a batch request that was never processed because
+ * the job was cancelled or expired first.
+ */
+export function createUnprocessedBatchItemFailure(
+  request: { providerId: string; modelId: string },
+  reason: "cancelled" | "expired",
+  providerError: unknown
+): LLMFailureResponse {
+  return {
+    provider: request.providerId,
+    model: request.modelId,
+    error:
+      reason === "cancelled"
+        ? {
+            message: "The batch job was cancelled before this request was processed.",
+            code: ADAPTER_ERROR_CODES.REQUEST_ABORTED,
+            type: "abort_error",
+            providerError,
+          }
+        : {
+            message: "The batch job expired before this request was processed.",
+            code: ADAPTER_ERROR_CODES.REQUEST_TIMEOUT,
+            type: "timeout_error",
+            providerError,
+          },
+    object: "error",
+  };
+}
@@ -0,0 +1,369 @@
+import {
+  createImageUrl,
+  createOpenAIChatContent,
+  formatDocumentText,
+  getDocumentMimeType,
+  getMessageText,
+  hasImageParts,
+  normalizeMessageContent,
+  resolveDocumentParts,
+  resolveImageSource,
+  validateMessageContent,
+} from "./contentPartUtils";
+import type { LLMMessage } from "../../llm/types";
+
+describe("contentPartUtils", () => {
+  describe("getMessageText", () => {
+    it("should return string content unchanged", () => {
+      expect(getMessageText("Hello")).toBe("Hello");
+    });
+
+    it("should join text parts and skip images", () => {
+      expect(
+        getMessageText([
+          { type: "text", text: "First" },
+          { type: "image", url: "https://example.com/cat.png" },
+          { type: "text", text: "Second" },
+        ])
+      ).toBe("First\nSecond");
+    });
+  });
+
+  describe("hasImageParts", () => {
+    it("should detect image parts", () => {
+      expect(hasImageParts("text")).toBe(false);
+      expect(hasImageParts([{ type: "text", text: "hi" }])).toBe(false);
+      expect(
+        hasImageParts([{ type: "image", url: "https://example.com/a.png" }])
+      ).toBe(true);
+    });
+  });
+
+  describe("validateMessageContent", () => {
+    const user = (content: LLMMessage["content"]): LLMMessage => ({
+      role: "user",
+      content,
+    });
+
+    it("should accept string content and well-formed parts", () => {
+      expect(validateMessageContent(user("hi"), 0)).toBeNull();
+      expect(
+        validateMessageContent(
+          user([
+            { type: "text", text: "Describe this" },
+            { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+            { type: "image", data: Buffer.from("hello"), mimeType: "image/jpeg" },
+            { type: "image", url: "https://example.com/cat.webp" },
+            { type: "image", url: "data:image/gif;base64,R0lGOD" },
+          ]),
+          0
+        )
+      ).toBeNull();
+    });
+
+    it("should reject unknown part types", () => {
+      expect(
+        validateMessageContent(user([{ type: "audio" } as any]), 2)
+      ).toContain("messages[2].content[0] has unknown content part type 'audio'");
+    });
+
+    it("should reject text parts without string text", () => {
+      expect(
+        validateMessageContent(user([{ type: "text", text: 42 } as any]), 0)
+      ).toContain("text part must have string 'text'");
+    });
+
+    it("should reject images outside user messages", () => {
+      expect(
+        validateMessageContent(
+          {
+            role: "assistant",
+            content: [{ type: "image", url: "https://example.com/a.png" }],
+          },
+          1
+        )
+      ).toContain("image parts are only allowed in user messages");
+    });
+
+    it("should require exactly one of data or url", () => {
+      expect(
+        validateMessageContent(user([{ type: "image", mimeType: "image/png" }]), 0)
+      ).toContain("exactly one of 'data' or 'url'");
+      expect(
+        validateMessageContent(
+          user([
+            {
+              type: "image",
+              data: "aGVsbG8=",
+              url: "https://example.com/a.png",
+              mimeType: "image/png",
+            },
+          ]),
+          0
+        )
+      ).toContain("exactly one of 'data' or 'url'");
+    });
+
+    it("should require a supported mimeType for inline data", () => {
+      expect(
+        validateMessageContent(user([{ type: "image", data: "aGVsbG8=" }]), 0)
+      ).toContain("must set 'mimeType'");
+      expect(
+        validateMessageContent(
+          user([{ type: "image", data: "aGVsbG8=", mimeType: "image/tiff" }]),
+          0
+        )
+      ).toContain("image mimeType 'image/tiff' is not supported");
+    });
+
+    it("should accept PDF and plain-text documents", () => {
+      expect(
+        validateMessageContent(
+          user([
+            { type: "document", data: Buffer.from("%PDF-1.7"), title: "Report" },
+            { type: "document", text: "Meeting notes" },
+          ]),
+          0
+        )
+      ).toBeNull();
+    });
+
+    it("should require exactly one of document data or text", () => {
+      expect(
+        validateMessageContent(user([{ type: "document", title: "Empty" }]), 0)
+      ).toContain("exactly one of 'data' or 'text'");
+      expect(
+        validateMessageContent(
+          user([{ type: "document", data: "JVBERi0=", text: "both" }]),
+          0
+        )
+      ).toContain("exactly one of 'data' or 'text'");
+    });
+
+    it("should reject documents outside user messages", () => {
+      expect(
+        validateMessageContent(
+          { role: "system", content: [{ type: "document", text: "notes" }] },
+          0
+        )
+      ).toContain("document parts are only allowed in user messages");
+    });
+
+    it("should reject non-http URLs", () => {
+      expect(
+        validateMessageContent(
+          user([{ type: "image", url: "file:///tmp/cat.png" }]),
+          0
+        )
+      ).toContain("must be an http(s) URL or a base64 data: URL");
+    });
+  });
+
+  describe("normalizeMessageContent", () => {
+    it("should return the same array when no byte data is present", () => {
+      const messages: LLMMessage[] = [{ role: "user", content: "hi" }];
+      expect(normalizeMessageContent(messages)).toBe(messages);
+    });
+
+    it("should convert Buffer and Uint8Array data to base64", () => {
+      const messages: LLMMessage[] = [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "look" },
+            { type: "image", data: Buffer.from("hello"), mimeType: "image/png" },
+            {
+              type: "image",
+              data: new Uint8Array([104, 105]),
+              mimeType: "image/png",
+            },
+          ],
+        },
+      ];
+
+      const result = normalizeMessageContent(messages);
+
+      expect(result[0].content).toEqual([
+        { type: "text", text: "look" },
+        { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+        { type: "image", data: "aGk=", mimeType: "image/png" },
+      ]);
+      expect((messages[0].content as any)[1].data).toBeInstanceOf(Buffer);
+    });
+
+    it("should convert document bytes to base64", () => {
+      const result = normalizeMessageContent([
+        {
+          role: "user",
+          content: [{ type: "document", data: Buffer.from("%PDF"), title: "A" }],
+        },
+      ]);
+
+      expect(result[0].content).toEqual([
+        { type: "document", data: "JVBERg==", title: "A" },
+      ]);
+    });
+  });
+
+  describe("formatDocumentText", () => {
+    it("should wrap text in a document block with an escaped title", () => {
+      expect(formatDocumentText("body")).toBe("<document>\nbody\n</document>");
+      expect(formatDocumentText("body", 'Q3 "final"')).toBe(
+        '<document title="Q3 &quot;final&quot;">\nbody\n</document>'
+      );
+    });
+
+    it("should report document media types", () => {
+      expect(getDocumentMimeType({ type: "document", data: "JVBERg==" })).toBe(
+        "application/pdf"
+      );
+      expect(getDocumentMimeType({ type: "document", text: "x" })).toBe(
+        "text/plain"
+      );
+    });
+  });
+
+  describe("resolveDocumentParts", () => {
+    const messages: LLMMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Summarize:" },
+          { type: "document", data: "JVBERg==", title: "Report" },
+          { type: "document", text: "Appendix" },
+        ],
+      },
+    ];
+
+    it("should leave natively supported documents unchanged", async () => {
+      const result = await resolveDocumentParts(messages, [
+        "application/pdf",
+        "text/plain",
+      ]);
+
+      expect(result).toEqual({ messages });
+      expect("messages" in result && result.messages).toBe(messages);
+    });
+
+    it("should convert text documents and extract PDFs", async () => {
+      const extractor = jest.fn().mockResolvedValue("Extracted PDF text");
+
+      const result = await resolveDocumentParts(messages, [], extractor);
+
+      expect(extractor).toHaveBeenCalledWith({
+        data: Buffer.from("%PDF"),
+        mimeType: "application/pdf",
+        title: "Report",
+      });
+      expect(result).toEqual({
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "Summarize:" },
+              {
+                type: "text",
+                text: '<document title="Report">\nExtracted PDF text\n</document>',
+              },
+              { type: "text", text: "<document>\nAppendix\n</document>" },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should only convert document types the provider lacks", async () => {
+      const result = await resolveDocumentParts(messages, ["application/pdf"]);
+
+      expect("messages" in result && result.messages[0].content).toEqual([
+        { type: "text", text: "Summarize:" },
+        { type: "document", data: "JVBERg==", title: "Report" },
+        { type: "text", text: "<document>\nAppendix\n</document>" },
+      ]);
+    });
+
+    it("should fail for PDFs without an extractor", async () => {
+      const result = await resolveDocumentParts(messages, []);
+
+      expect(result).toEqual({
+        error: {
+          message: expect.stringContaining("requires a documentTextExtractor"),
+          index: 0,
+        },
+      });
+    });
+
+    it("should report extractor failures", async () => {
+      const result = await resolveDocumentParts(messages, [], () => {
+        throw new Error("corrupt PDF");
+      });
+
+      expect("error" in result && result.error.message).toContain("corrupt PDF");
+    });
+  });
+
+  describe("resolveImageSource", () => {
+    it("should resolve inline data", () => {
+      expect(
+        resolveImageSource({ type: "image", data: "aGVsbG8=", mimeType: "image/png" })
+      ).toEqual({ kind: "base64", data: "aGVsbG8=", mimeType: "image/png" });
+    });
+
+    it("should unpack base64 data URLs", () => {
+      expect(
+        resolveImageSource({ type: "image", url: "data:image/jpeg;base64,/9j/4A" })
+      ).toEqual({ kind: "base64", data: "/9j/4A", mimeType: "image/jpeg" });
+    });
+
+    it("should keep remote URLs", () => {
+      expect(
+        resolveImageSource({
+          type: "image",
+          url: "https://example.com/a.png",
+          mimeType: "image/png",
+        })
+      ).toEqual({
+        kind: "url",
+        url: "https://example.com/a.png",
+        mimeType: "image/png",
+      });
+    });
+  });
+
+  describe("createImageUrl / createOpenAIChatContent", () => {
+    it("should build data URLs for inline bytes", () => {
+      expect(
+        createImageUrl({ type: "image", data: "aGVsbG8=", mimeType: "image/png" })
+      ).toBe("data:image/png;base64,aGVsbG8=");
+    });
+
+    it("should map parts to OpenAI chat content", () => {
+      expect(createOpenAIChatContent("plain")).toBe("plain");
+      expect(
+        createOpenAIChatContent([
+          { type: "text", text: "What is this?" },
+          { type: "image", url: "https://example.com/a.png" },
+        ])
+      ).toEqual([
+        { type: "text", text: "What is this?" },
+        { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+      ]);
+    });
+
+    it("should map PDF documents to file parts", () => {
+      expect(
+        createOpenAIChatContent([
+          { type: "document", data: "JVBERg==", title: "report.pdf" },
+        ])
+      ).toEqual([
+        {
+          type: "file",
+          file: {
+            filename: "report.pdf",
+            file_data: "data:application/pdf;base64,JVBERg==",
+          },
+        },
+      ]);
+    });
+  });
+});
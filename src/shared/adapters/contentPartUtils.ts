@@ -0,0 +1,361 @@
+// AI Summary: Shared helpers for multimodal message content (text, image and document parts).
+// Validates parts, normalizes bytes to base64, resolves image sources, and converts documents to text.
+
+import type {
+  DocumentTextExtractor,
+  LLMContentPart,
+  LLMDocumentContentPart,
+  LLMDocumentMimeType,
+  LLMImageContentPart,
+  LLMMessage,
+} from "../../llm/types";
+
+/** Image media types accepted across the built-in providers. */
+export const SUPPORTED_IMAGE_MIME_TYPES: readonly string[] = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+/** An image resolved to either inline base64 bytes or a remote URL. */
+export type ResolvedImageSource =
+  | { kind: "base64"; data: string; mimeType: string }
+  | { kind: "url"; url: string; mimeType?: string };
+
+/** OpenAI chat-completions content part (also used by OpenRouter and llama.cpp). */
+export type OpenAIChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { filename: string; file_data: string } };
+
+/** Result of converting non-native document parts to text. */
+export type DocumentResolutionResult =
+  | { messages: LLMMessage[] }
+  | { error: { message: string; index: number } };
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+/**
+ * Returns the text of message content, joining text parts with newlines.
+ *
+ * Non-text parts are skipped.
+ */
+export function getMessageText(content: string | readonly LLMContentPart[]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<LLMContentPart, { type: "text" }> =>
+      part.type === "text"
+    )
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Whether message content contains at least one image part.
+ */
+export function hasImageParts(content: string | readonly LLMContentPart[]): boolean {
+  return typeof content !== "string" && content.some((part) => part.type === "image");
+}
+
+/**
+ * Checks the content of one message.
+ *
+ * @returns A validation message, or null when the content is well formed
+ */
+export function validateMessageContent(
+  message: LLMMessage,
+  index: number
+): string | null {
+  if (typeof message.content === "string") {
+    return null;
+  }
+  if (!Array.isArray(message.content)) {
+    return `Message at index ${index} must have string or content-part array 'content'`;
+  }
+
+  for (const [position, part] of message.content.entries()) {
+    const location = `messages[${index}].content[${position}]`;
+    if (!part || typeof part !== "object") {
+      return `${location} must be a content part object`;
+    }
+    if (part.type === "text") {
+      if (typeof part.text !== "string") {
+        return `${location} text part must have string 'text'`;
+      }
+      continue;
+    }
+    if (part.type !== "image" && part.type !== "document") {
+      return `${location} has unknown content part type '${String((part as { type?: unknown }).type)}'`;
+    }
+    if (message.role !== "user") {
+      return `${location} ${part.type} parts are only allowed in user messages`;
+    }
+    const partError =
+      part.type === "image" ? validateImagePart(part) : validateDocumentPart(part);
+    if (partError) {
+      return `${location} ${partError}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the media type of a document part: PDF for `data`, plain text for `text`.
+ */
+export function getDocumentMimeType(part: LLMDocumentContentPart): LLMDocumentMimeType {
+  return part.data !== undefined ? "application/pdf" : "text/plain";
+}
+
+/**
+ * Wraps document text in a `<document>` block, carrying the title when set.
+ */
+export function formatDocumentText(text: string, title?: string): string {
+  const titleAttribute =
+    title !== undefined ? ` title="${title.replace(/"/g, "&quot;")}"` : "";
+  return `<document${titleAttribute}>\n${text}\n</document>`;
+}
+
+/**
+ * Returns messages with image and document bytes converted to base64 strings.
+ *
+ * Buffers and Uint8Arrays cannot be frozen or serialized into prepared
+ * requests, so byte data is normalized before adapters see it. Messages
+ * without byte data are returned unchanged.
+ */
+export function normalizeMessageContent(messages: LLMMessage[]): LLMMessage[] {
+  if (!messages.some((message) => hasByteData(message.content))) {
+    return messages;
+  }
+  return messages.map((message) =>
+    hasByteData(message.content)
+      ? {
+          ...message,
+          content: (message.content as LLMContentPart[]).map((part) =>
+            part.type !== "text" && part.data instanceof Uint8Array
+              ? { ...part, data: Buffer.from(part.data).toString("base64") }
+              : part
+          ),
+        }
+      : message
+  );
+}
+
+/**
+ * Replaces document parts the provider cannot read natively with text parts.
+ *
+ * Plain-text documents are wrapped with `formatDocumentText`; PDFs go through
+ * the extractor first. Expects base64-normalized messages (see
+ * `normalizeMessageContent`). Messages without such parts are returned as-is.
+ */
+export async function resolveDocumentParts(
+  messages: LLMMessage[],
+  nativeTypes: readonly LLMDocumentMimeType[],
+  extractor?: DocumentTextExtractor
+): Promise<DocumentResolutionResult> {
+  const needsFallback = (part: LLMContentPart): part is LLMDocumentContentPart =>
+    part.type === "document" && !nativeTypes.includes(getDocumentMimeType(part));
+  if (
+    !messages.some(
+      (message) =>
+        typeof message.content !== "string" && message.content.some(needsFallback)
+    )
+  ) {
+    return { messages };
+  }
+
+  const resolved: LLMMessage[] = [];
+  for (const [index, message] of messages.entries()) {
+    if (typeof message.content === "string" || !message.content.some(needsFallback)) {
+      resolved.push(message);
+      continue;
+    }
+    const content: LLMContentPart[] = [];
+    for (const part of message.content) {
+      if (!needsFallback(part)) {
+        content.push(part);
+        continue;
+      }
+      if (part.text !== undefined) {
+        content.push({ type: "text", text: formatDocumentText(part.text, part.title) });
+        continue;
+      }
+      if (!extractor) {
+        return {
+          error: {
+            message: `Message at index ${index} contains a PDF document, which requires a documentTextExtractor for this provider`,
+            index,
+          },
+        };
+      }
+      let text: unknown;
+      try {
+        text = await extractor({
+          data: Buffer.from(part.data as string, "base64"),
+          mimeType: "application/pdf",
+          ...(part.title !== undefined && { title: part.title }),
+        });
+      } catch (error) {
+        return {
+          error: {
+            message: `Document text extraction failed for message at index ${index}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            index,
+          },
+        };
+      }
+      if (typeof text !== "string") {
+        return {
+          error: {
+            message: `Document text extractor must return a string (message at index ${index})`,
+            index,
+          },
+        };
+      }
+      content.push({ type: "text", text: formatDocumentText(text, part.title) });
+    }
+    resolved.push({ ...message, content });
+  }
+  return { messages: resolved };
+}
+
+/**
+ * Resolves an image part to inline base64 data or a remote URL.
+ *
+ * Base64 `data:` URLs are unpacked so providers that only accept inline
+ * bytes can use them.
+ */
+export function resolveImageSource(part: LLMImageContentPart): ResolvedImageSource {
+  if (part.url !== undefined) {
+    const match = DATA_URL_PATTERN.exec(part.url);
+    if (match) {
+      return { kind: "base64", data: match[2], mimeType: match[1] };
+    }
+    return {
+      kind: "url",
+      url: part.url,
+      ...(part.mimeType !== undefined && { mimeType: part.mimeType }),
+    };
+  }
+  return {
+    kind: "base64",
+    data: getBase64Data(part.data ?? ""),
+    mimeType: part.mimeType ?? "",
+  };
+}
+
+/**
+ * Returns a URL for an image part, building a `data:` URL for inline bytes.
+ */
+export function createImageUrl(part: LLMImageContentPart): string {
+  const source = resolveImageSource(part);
+  return source.kind === "url"
+    ? source.url
+    : `data:${source.mimeType};base64,${source.data}`;
+}
+
+/**
+ * Maps message content to the OpenAI chat-completions shape.
+ * String content is passed through unchanged.
+ */
+export function createOpenAIChatContent(
+  content: string | readonly LLMContentPart[]
+): string | OpenAIChatContentPart[] {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.map((part): OpenAIChatContentPart => {
+    if (part.type === "text") {
+      return { type: "text", text: part.text };
+    }
+    if (part.type === "image") {
+      return { type: "image_url", image_url: { url: createImageUrl(part) } };
+    }
+    if (part.data !== undefined) {
+      return {
+        type: "file",
+        file: {
+          filename: part.title ?? "document.pdf",
+          file_data: `data:application/pdf;base64,${getBase64Data(part.data)}`,
+        },
+      };
+    }
+    return { type: "text", text: formatDocumentText(part.text ?? "", part.title) };
+  });
+}
+
+/**
+ * Returns byte data as a base64 string.
+ */
+export function getBase64Data(data: string | Uint8Array): string {
+  return data instanceof Uint8Array ? Buffer.from(data).toString("base64") : data;
+}
+
+function validateImagePart(part: LLMImageContentPart): string | null {
+  const hasData = part.data !== undefined;
+  const hasUrl = part.url !== undefined;
+  if (hasData === hasUrl) {
+    return "image part must set exactly one of 'data' or 'url'";
+  }
+  if (
+    part.mimeType !== undefined &&
+    !SUPPORTED_IMAGE_MIME_TYPES.includes(part.mimeType)
+  ) {
+    return `image mimeType '${part.mimeType}' is not supported; use one of ${SUPPORTED_IMAGE_MIME_TYPES.join(", ")}`;
+  }
+  if (hasData) {
+    if (typeof part.data !== "string" && !(part.data instanceof Uint8Array)) {
+      return "image 'data' must be a base64 string or a Buffer/Uint8Array";
+    }
+    if (part.data.length === 0) {
+      return "image 'data' must not be empty";
+    }
+    if (part.mimeType === undefined) {
+      return "image part with 'data' must set 'mimeType'";
+    }
+    return null;
+  }
+  if (typeof part.url !== "string") {
+    return "image 'url' must be a string";
+  }
+  const dataUrl = DATA_URL_PATTERN.exec(part.url);
+  if (dataUrl) {
+    return SUPPORTED_IMAGE_MIME_TYPES.includes(dataUrl[1])
+      ? null
+      : `image mimeType '${dataUrl[1]}' is not supported; use one of ${SUPPORTED_IMAGE_MIME_TYPES.join(", ")}`;
+  }
+  if (!/^https?:\/\//i.test(part.url)) {
+    return "image 'url' must be an http(s) URL or a base64 data: URL";
+  }
+  return null;
+}
+
+function validateDocumentPart(part: LLMDocumentContentPart): string | null {
+  const hasData = part.data !== undefined;
+  const hasText = part.text !== undefined;
+  if (hasData === hasText) {
+    return "document part must set exactly one of 'data' or 'text'";
+  }
+  if (part.title !== undefined && typeof part.title !== "string") {
+    return "document 'title' must be a string";
+  }
+  if (hasText) {
+    return typeof part.text === "string"
+      ? null
+      : "document 'text' must be a string";
+  }
+  if (typeof part.data !== "string" && !(part.data instanceof Uint8Array)) {
+    return "document 'data' must be a base64 string or a Buffer/Uint8Array";
+  }
+  return part.data.length === 0 ? "document 'data' must not be empty" : null;
+}
+
+function hasByteData(content: string | readonly LLMContentPart[]): boolean {
+  return (
+    typeof content !== "string" &&
+    content.some((part) => part.type !== "text" && part.data instanceof Uint8Array)
+  );
+}
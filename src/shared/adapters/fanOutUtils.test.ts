@@ -0,0 +1,119 @@
+import { sendFanOut, streamFanOut, withFanOutSeed } from './fanOutUtils';
+import type { AdapterLLMStreamEvent } from '../../llm/clients/types';
+import type { LLMFailureResponse, LLMResponse } from '../../llm/types';
+
+function response(content: string, completionTokens: number): LLMResponse {
+  return {
+    id: `resp-${content}`,
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5',
+    created: 1,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: completionTokens, total_tokens: 10 + completionTokens },
+    object: 'chat.completion',
+  };
+}
+
+async function* events(...items: AdapterLLMStreamEvent[]): AsyncIterable<AdapterLLMStreamEvent> {
+  for (const item of items) {
+    await Promise.resolve();
+    yield item;
+  }
+}
+
+async function collect(stream: AsyncIterable<AdapterLLMStreamEvent>) {
+  const collected: AdapterLLMStreamEvent[] = [];
+  for await (const event of stream) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+describe('fanOutUtils', () => {
+  it('offsets a set seed per call and leaves random seeds alone', () => {
+    expect(withFanOutSeed({ seed: 7 }, 'seed', 0)).toEqual({ seed: 7 });
+    expect(withFanOutSeed({ randomSeed: 7 }, 'randomSeed', 2)).toEqual({ randomSeed: 9 });
+    expect(withFanOutSeed({ seed: -1 }, 'seed', 2)).toEqual({ seed: -1 });
+    expect(withFanOutSeed({ model: 'm' }, 'seed', 2)).toEqual({ model: 'm' });
+  });
+
+  it('merges parallel calls into indexed choices with summed usage', async () => {
+    const send = jest.fn(async (index: number) => response(`answer ${index}`, index + 1));
+
+    const result = await sendFanOut(3, send);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({
+      object: 'chat.completion',
+      id: 'resp-answer 0',
+      usage: { prompt_tokens: 30, completion_tokens: 6, total_tokens: 36 },
+    });
+    if (result.object === 'chat.completion') {
+      expect(result.choices.map((choice) => [choice.index, choice.message.content])).toEqual([
+        [0, 'answer 0'],
+        [1, 'answer 1'],
+        [2, 'answer 2'],
+      ]);
+    }
+  });
+
+  it('returns a failing call with the other calls as partial response', async () => {
+    const failure: LLMFailureResponse = {
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      error: { message: 'overloaded', code: 'PROVIDER_ERROR', type: 'server_error' },
+      object: 'error',
+    };
+
+    const result = await sendFanOut(2, async (index) => (index === 1 ? failure : response('ok', 2)));
+
+    expect(result).toMatchObject({
+      object: 'error',
+      error: { message: 'overloaded' },
+      partialResponse: { choices: [{ index: 0, message: { content: 'ok' } }], usage: { completion_tokens: 2 } },
+    });
+  });
+
+  it('interleaves streams with per-call choice indexes and running usage totals', async () => {
+    const stream = (index: number) =>
+      events(
+        { type: 'start', provider: 'mistral', model: 'mistral-small-latest', id: `s${index}` },
+        { type: 'content_delta', delta: `text ${index}`, index: 0 },
+        {
+          type: 'adapter_evidence',
+          observedEvidence: { choice: { index: 0, finishReason: 'stop' } },
+        },
+        { type: 'usage', usage: { prompt_tokens: 5, completion_tokens: 2 } },
+        { type: 'complete', response: response(`text ${index}`, 2) }
+      );
+
+    const collected = await collect(streamFanOut(2, stream));
+
+    expect(collected.filter((event) => event.type === 'start')).toHaveLength(1);
+    expect(
+      collected
+        .filter((event) => event.type === 'content_delta')
+        .map((event) => event.type === 'content_delta' && [event.index, event.delta])
+    ).toEqual([
+      [0, 'text 0'],
+      [1, 'text 1'],
+    ]);
+    expect(
+      collected
+        .filter((event) => event.type === 'adapter_evidence')
+        .map((event) => event.observedEvidence.choice?.index)
+    ).toEqual([0, 1]);
+    expect(
+      collected.filter((event) => event.type === 'usage').map((event) => event.type === 'usage' && event.usage)
+    ).toEqual([
+      { prompt_tokens: 5, completion_tokens: 2 },
+      { prompt_tokens: 10, completion_tokens: 4 },
+    ]);
+    const complete = collected[collected.length - 1];
+    expect(complete.type).toBe('complete');
+    if (complete.type === 'complete') {
+      expect(complete.response.choices.map((choice) => choice.index)).toEqual([0, 1]);
+      expect(complete.response.usage).toMatchObject({ prompt_tokens: 20, completion_tokens: 4 });
+    }
+  });
+});
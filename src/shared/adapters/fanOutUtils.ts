@@ -0,0 +1,223 @@
+// AI Summary: Client-side emulation of `settings.n` for providers without a native
+// choice count (Anthropic, Mistral, llama.cpp). Runs one single-choice call per
+// requested choice in parallel and merges the results into one response or one
+// event stream, re-indexing choices by call and summing usage.
+
+import type { AdapterLLMStreamEvent } from "../../llm/clients/types";
+import type { LLMFailureResponse, LLMResponse, LLMUsage } from "../../llm/types";
+import { addUsageTotals, mergeUsageRecords } from "./usageUtils";
+
+type ResponseBody = Omit<LLMResponse, "object">;
+
+/** Number of choices requested by `settings.n`; 1 when unset. */
+export function getChoiceCount(settings: { n?: number }): number {
+  return settings.n ?? 1;
+}
+
+/**
+ * Gives the call at `index` its own seed by offsetting the payload's seed
+ * field. Payloads without a seed, or with llama.cpp's random seed (-1), are
+ * returned unchanged: the provider already samples each call independently.
+ */
+export function withFanOutSeed<T extends object>(
+  payload: T,
+  seedField: string,
+  index: number
+): T {
+  const seed = (payload as Record<string, unknown>)[seedField];
+  if (index === 0 || typeof seed !== "number" || seed === -1) {
+    return payload;
+  }
+  return { ...payload, [seedField]: seed + index };
+}
+
+/**
+ * Sends `count` single-choice calls in parallel and merges them; choice `i`
+ * comes from call `i`. When any call fails, its failure is returned with the
+ * successful calls' choices and usage added to `partialResponse`.
+ */
+export async function sendFanOut(
+  count: number,
+  send: (index: number) => Promise<LLMResponse | LLMFailureResponse>
+): Promise<LLMResponse | LLMFailureResponse> {
+  if (count <= 1) {
+    return send(0);
+  }
+  const results = await Promise.all(
+    Array.from({ length: count }, (_, index) => send(index))
+  );
+  const merged = mergeFanOutResponses(
+    results.map((result) =>
+      result.object === "error" ? result.partialResponse : result
+    )
+  );
+  const failure = results.find(
+    (result): result is LLMFailureResponse => result.object === "error"
+  );
+  if (!failure) {
+    return { ...merged!, object: "chat.completion" };
+  }
+  return merged ? { ...failure, partialResponse: merged } : failure;
+}
+
+/**
+ * Streams `count` single-choice calls at once, interleaving their events.
+ * Choice indexes are rewritten to the call index, usage events report the
+ * running total over all calls, and one `start` and one merged `complete`
+ * event are emitted. The first `error` ends the stream and cancels the other
+ * calls.
+ */
+export async function* streamFanOut(
+  count: number,
+  stream: (index: number) => AsyncIterable<AdapterLLMStreamEvent>
+): AsyncIterable<AdapterLLMStreamEvent> {
+  if (count <= 1) {
+    yield* stream(0);
+    return;
+  }
+
+  const iterators = Array.from({ length: count }, (_, index) =>
+    stream(index)[Symbol.asyncIterator]()
+  );
+  const pending = new Map<
+    number,
+    Promise<{ index: number; result: IteratorResult<AdapterLLMStreamEvent> }>
+  >();
+  const pull = (index: number) => {
+    pending.set(
+      index,
+      iterators[index].next().then((result) => ({ index, result }))
+    );
+  };
+  const usages: Array<Record<string, unknown> | undefined> = [];
+  const responses: Array<ResponseBody | undefined> = [];
+  const totalUsage = (): LLMUsage => {
+    const total: LLMUsage = {};
+    for (const usage of usages) {
+      addUsageTotals(total, usage as LLMUsage | undefined);
+    }
+    return total;
+  };
+  let started = false;
+
+  iterators.forEach((_, index) => pull(index));
+  try {
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values());
+      if (result.done) {
+        pending.delete(index);
+        continue;
+      }
+      pull(index);
+
+      const event = reindexStreamEvent(result.value, index);
+      if (event.type === "start") {
+        if (!started) {
+          started = true;
+          yield event;
+        }
+        continue;
+      }
+      if (event.type === "complete") {
+        responses[index] = event.response;
+        continue;
+      }
+      if (event.type === "error") {
+        const partial = event.error.partialResponse;
+        usages[index] = mergeUsageRecords(
+          usages[index],
+          partial?.usage as Record<string, unknown> | undefined
+        );
+        responses[index] = partial;
+        const merged = mergeFanOutResponses(responses);
+        const usage = totalUsage();
+        yield {
+          type: "error",
+          error: {
+            ...event.error,
+            ...(merged && {
+              partialResponse: {
+                ...merged,
+                ...(Object.keys(usage).length > 0 && { usage }),
+              },
+            }),
+          },
+        };
+        return;
+      }
+
+      if (event.observedEvidence?.usage || event.type === "usage") {
+        usages[index] = mergeUsageRecords(
+          mergeUsageRecords(
+            usages[index],
+            event.observedEvidence?.usage as Record<string, unknown> | undefined
+          ),
+          event.type === "usage"
+            ? (event.usage as Record<string, unknown>)
+            : undefined
+        );
+        const usage = totalUsage();
+        yield {
+          ...event,
+          ...(event.type === "usage" && { usage }),
+          ...(event.observedEvidence?.usage && {
+            observedEvidence: { ...event.observedEvidence, usage },
+          }),
+        } as AdapterLLMStreamEvent;
+        continue;
+      }
+      yield event;
+    }
+
+    const merged = mergeFanOutResponses(responses);
+    if (merged) {
+      yield {
+        type: "complete",
+        response: { ...merged, object: "chat.completion" },
+      };
+    }
+  } finally {
+    for (const [index, next] of pending) {
+      next.catch(() => undefined);
+      void Promise.resolve(iterators[index].return?.()).catch(() => undefined);
+    }
+  }
+}
+
+/** Concatenates the calls' choices, indexed by call, and sums their usage. */
+function mergeFanOutResponses(
+  responses: Array<ResponseBody | undefined>
+): ResponseBody | undefined {
+  const first = responses.find((response) => response !== undefined);
+  if (!first) {
+    return undefined;
+  }
+  const usage: LLMUsage = {};
+  for (const response of responses) {
+    addUsageTotals(usage, response?.usage);
+  }
+  return {
+    ...first,
+    choices: responses.flatMap((response, index) =>
+      (response?.choices ?? []).map((choice) => ({ ...choice, index }))
+    ),
+    ...(Object.keys(usage).length > 0 && { usage }),
+  };
+}
+
+function reindexStreamEvent(
+  event: AdapterLLMStreamEvent,
+  index: number
+): AdapterLLMStreamEvent {
+  const observedChoice = event.observedEvidence?.choice;
+  return {
+    ...event,
+    ...("index" in event && { index }),
+    ...(observedChoice && {
+      observedEvidence: {
+        ...event.observedEvidence,
+        choice: { ...observedChoice, index },
+      },
+    }),
+  } as AdapterLLMStreamEvent;
+}
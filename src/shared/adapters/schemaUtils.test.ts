@@ -1,4 +1,12 @@
-import { applyStrictSchemaConstraints } from './schemaUtils';
+import {
+  ANTHROPIC_SCHEMA_DIALECT,
+  applyStrictSchemaConstraints,
+  downConvertSchema,
+  GEMINI_SCHEMA_DIALECT,
+  isStandardSchema,
+  OPENAI_STRICT_SCHEMA_DIALECT,
+  standardSchemaToJsonSchema,
+} from './schemaUtils';
 
 describe('applyStrictSchemaConstraints', () => {
   it('sets additionalProperties: false on the root object schema', () => {
@@ -206,3 +214,108 @@ describe('applyStrictSchemaConstraints', () => {
     });
   });
 });
+
+describe('standardSchemaToJsonSchema', () => {
+  const validate = (value: unknown) => ({ value });
+  const jsonSchema = { type: 'object', properties: { name: { type: 'string' } } };
+
+  it('uses the Standard JSON Schema converter and drops $schema', () => {
+    const output = jest.fn(() => ({ $schema: 'https://json-schema.org/draft/2020-12/schema', ...jsonSchema }));
+    const schema = {
+      '~standard': { version: 1 as const, vendor: 'zod', validate, jsonSchema: { input: output, output } },
+    };
+
+    expect(isStandardSchema(schema)).toBe(true);
+    expect(standardSchemaToJsonSchema(schema)).toEqual(jsonSchema);
+    expect(output).toHaveBeenCalledWith({ target: 'draft-2020-12' });
+  });
+
+  it('falls back to a toJsonSchema method, including on callable schemas', () => {
+    const schema = Object.assign(() => undefined, {
+      '~standard': { version: 1 as const, vendor: 'arktype', validate },
+      toJsonSchema: () => jsonSchema,
+    });
+
+    expect(isStandardSchema(schema)).toBe(true);
+    expect(standardSchemaToJsonSchema(schema)).toEqual(jsonSchema);
+  });
+
+  it('returns undefined when the library offers no conversion', () => {
+    expect(standardSchemaToJsonSchema({ '~standard': { version: 1, vendor: 'valibot', validate } })).toBeUndefined();
+    expect(isStandardSchema({ type: 'object' })).toBe(false);
+  });
+});
+
+describe('downConvertSchema', () => {
+  it('rewrites unions, const and refs for Gemini and drops what has no equivalent', () => {
+    const input: any = {
+      type: 'object',
+      properties: {
+        // A property named like a keyword is still a property
+        not: { type: ['integer', 'null'] },
+        shape: { oneOf: [{ $ref: '#/$defs/circle' }, { type: 'string', const: 'none' }] },
+        node: { $ref: '#/$defs/node' },
+      },
+      $defs: {
+        circle: { type: 'object', properties: { r: { type: 'number', multipleOf: 0.5 } } },
+        node: { type: 'object', properties: { next: { $ref: '#/$defs/node' } } },
+      },
+    };
+
+    const { schema, droppedKeywords } = downConvertSchema(input, GEMINI_SCHEMA_DIALECT);
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        not: { type: 'integer', nullable: true },
+        shape: {
+          anyOf: [
+            { type: 'object', properties: { r: { type: 'number' } } },
+            { type: 'string', enum: ['none'] },
+          ],
+        },
+        node: { type: 'object', properties: { next: {} } },
+      },
+    });
+    expect(droppedKeywords).toEqual([
+      { path: '/properties/shape/oneOf/0/properties/r', keyword: 'multipleOf' },
+      { path: '/properties/node/properties/next', keyword: '$ref' },
+    ]);
+    expect(input.properties.shape.oneOf[0]).toEqual({ $ref: '#/$defs/circle' });
+  });
+
+  it('drops limits Anthropic does not accept', () => {
+    const { schema, droppedKeywords } = downConvertSchema(
+      {
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string', maxLength: 10 }, minItems: 2 },
+          one: { type: 'array', minItems: 1 },
+        },
+      },
+      ANTHROPIC_SCHEMA_DIALECT
+    );
+
+    expect(schema.properties).toEqual({
+      tags: { type: 'array', items: { type: 'string' } },
+      one: { type: 'array', minItems: 1 },
+    });
+    expect(droppedKeywords).toEqual([
+      { path: '/properties/tags/items', keyword: 'maxLength' },
+      { path: '/properties/tags', keyword: 'minItems' },
+    ]);
+  });
+
+  it('keeps refs and numeric limits for OpenAI strict mode', () => {
+    const input = {
+      type: 'object',
+      properties: { n: { $ref: '#/$defs/n' }, both: { allOf: [{ type: 'string' }] } },
+      $defs: { n: { type: 'number', minimum: 1 } },
+    };
+
+    const { schema, droppedKeywords } = downConvertSchema(input, OPENAI_STRICT_SCHEMA_DIALECT);
+
+    expect(schema).toEqual({ ...input, properties: { n: { $ref: '#/$defs/n' }, both: {} } });
+    expect(droppedKeywords).toEqual([{ path: '/properties/both', keyword: 'allOf' }]);
+  });
+});
@@ -2,6 +2,10 @@
 // structured-output mode requires additionalProperties: false on every object
 // schema. Traverses properties, items (incl. tuple form), $defs/definitions,
 // anyOf/oneOf/allOf, prefixItems and not, and is safe against cyclic input.
+// Also converts Standard Schema validators (Zod, Valibot, ArkType) to JSON Schema
+// and down-converts schemas to the keyword subsets individual providers accept.
+
+import type { DroppedSchemaKeyword, StandardSchemaV1 } from "../../llm/types";
 
 /** Keywords whose value is a map of name -> subschema. */
 const SUBSCHEMA_MAPS = ["properties", "$defs", "definitions"] as const;
@@ -9,6 +13,90 @@ const SUBSCHEMA_MAPS = ["properties", "$defs", "definitions"] as const;
 /** Keywords whose value is an array of subschemas. */
 const SUBSCHEMA_ARRAYS = ["anyOf", "oneOf", "allOf", "prefixItems"] as const;
 
+/**
+ * The part of JSON Schema a provider's structured-output mode accepts.
+ * Keywords outside it are rewritten where an equivalent exists and dropped
+ * otherwise.
+ */
+export interface SchemaDialect {
+  /** Keywords removed wherever they appear. */
+  unsupportedKeywords: readonly string[];
+  /** Rewrite `type: [T, "null"]` as `type: T, nullable: true` (OpenAPI 3.0). */
+  nullableTypes?: boolean;
+  /** Rewrite `const: x` as `enum: [x]`. */
+  constAsEnum?: boolean;
+  /** Rewrite `oneOf` as `anyOf`; exclusivity is then checked client-side only. */
+  oneOfAsAnyOf?: boolean;
+  /** Inline local `$ref`s and remove `$defs`; recursive references are dropped. */
+  inlineRefs?: boolean;
+  /** Largest `minItems` accepted; larger values are dropped. */
+  maxMinItems?: number;
+}
+
+/** Gemini `responseSchema`: the OpenAPI 3.0 schema subset. */
+export const GEMINI_SCHEMA_DIALECT: SchemaDialect = {
+  unsupportedKeywords: [
+    "additionalProperties",
+    "allOf",
+    "not",
+    "prefixItems",
+    "exclusiveMinimum",
+    "exclusiveMaximum",
+    "multipleOf",
+    "uniqueItems",
+    "patternProperties",
+    "if",
+    "then",
+    "else",
+    "$id",
+    "$schema",
+    "$comment",
+  ],
+  nullableTypes: true,
+  constAsEnum: true,
+  oneOfAsAnyOf: true,
+  inlineRefs: true,
+};
+
+/** Anthropic `output_config.format`: no numeric, string-length or item-count limits. */
+export const ANTHROPIC_SCHEMA_DIALECT: SchemaDialect = {
+  unsupportedKeywords: [
+    "minimum",
+    "maximum",
+    "exclusiveMinimum",
+    "exclusiveMaximum",
+    "multipleOf",
+    "minLength",
+    "maxLength",
+    "maxItems",
+    "uniqueItems",
+    "patternProperties",
+    "not",
+    "if",
+    "then",
+    "else",
+  ],
+  maxMinItems: 1,
+};
+
+/** OpenAI strict `json_schema`: no allOf, not or conditionals. */
+export const OPENAI_STRICT_SCHEMA_DIALECT: SchemaDialect = {
+  unsupportedKeywords: [
+    "allOf",
+    "not",
+    "if",
+    "then",
+    "else",
+    "dependentRequired",
+    "dependentSchemas",
+    "patternProperties",
+  ],
+  oneOfAsAnyOf: true,
+};
+
+/** JSON Schema dialect requested from Standard JSON Schema converters. */
+const STANDARD_JSON_SCHEMA_TARGET = "draft-2020-12";
+
 export interface StrictSchemaOptions {
   /**
    * When true, every object schema's `required` is rewritten to list all of its
@@ -48,6 +136,170 @@ export function applyStrictSchemaConstraints<T>(
   return walk(schema, options, new Map<object, unknown>()) as T;
 }
 
+/**
+ * Returns a copy of `schema` using only the keywords `dialect` accepts,
+ * plus the keywords that had to be dropped. The input is never mutated.
+ *
+ * Property names are never treated as keywords: only schema positions
+ * (`properties` values, `items`, combinator branches and so on) are
+ * rewritten.
+ *
+ * @param schema - The JSON schema to convert
+ * @param dialect - What the target provider accepts
+ * @returns The converted schema and the dropped keywords with their JSON Pointer paths
+ */
+export function downConvertSchema<T>(
+  schema: T,
+  dialect: SchemaDialect
+): { schema: T; droppedKeywords: DroppedSchemaKeyword[] } {
+  const droppedKeywords: DroppedSchemaKeyword[] = [];
+  const unsupported = new Set(dialect.unsupportedKeywords);
+  const root = schema as unknown;
+
+  const convert = (node: unknown, path: string, refStack: readonly string[]): unknown => {
+    if (!node || typeof node !== "object" || Array.isArray(node)) {
+      return node;
+    }
+    const drop = (keyword: string) => droppedKeywords.push({ path, keyword });
+    let source = node as Record<string, unknown>;
+
+    if (dialect.inlineRefs && typeof source.$ref === "string") {
+      const { $ref: ref, ...siblings } = source;
+      const target = resolveLocalRef(root, ref as string);
+      if (!target || refStack.includes(ref as string)) {
+        drop("$ref");
+        source = siblings;
+      } else {
+        return convert({ ...target, ...siblings }, path, [...refStack, ref as string]);
+      }
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [keyword, value] of Object.entries(source)) {
+      if (unsupported.has(keyword)) {
+        drop(keyword);
+      } else if (dialect.inlineRefs && (keyword === "$defs" || keyword === "definitions")) {
+        // Inlined where referenced
+      } else if (keyword === "properties" && value && typeof value === "object") {
+        const properties: Record<string, unknown> = {};
+        for (const [name, subschema] of Object.entries(value as Record<string, unknown>)) {
+          properties[name] = convert(subschema, `${path}/properties/${escapePointer(name)}`, refStack);
+        }
+        out.properties = properties;
+      } else if ((keyword === "$defs" || keyword === "definitions") && value && typeof value === "object") {
+        const definitions: Record<string, unknown> = {};
+        for (const [name, subschema] of Object.entries(value as Record<string, unknown>)) {
+          definitions[name] = convert(subschema, `${path}/${keyword}/${escapePointer(name)}`, refStack);
+        }
+        out[keyword] = definitions;
+      } else if (keyword === "oneOf" && dialect.oneOfAsAnyOf && source.anyOf !== undefined) {
+        drop(keyword);
+      } else if ((SUBSCHEMA_ARRAYS as readonly string[]).includes(keyword) && Array.isArray(value)) {
+        const target = keyword === "oneOf" && dialect.oneOfAsAnyOf ? "anyOf" : keyword;
+        out[target] = value.map((subschema, index) =>
+          convert(subschema, `${path}/${keyword}/${index}`, refStack)
+        );
+      } else if (keyword === "items" && Array.isArray(value)) {
+        out.items = value.map((subschema, index) => convert(subschema, `${path}/items/${index}`, refStack));
+      } else if (keyword === "items" || keyword === "not" || keyword === "additionalProperties") {
+        out[keyword] = convert(value, `${path}/${keyword}`, refStack);
+      } else if (keyword === "const" && dialect.constAsEnum) {
+        if (source.enum === undefined) {
+          out.enum = [value];
+        } else {
+          drop(keyword);
+        }
+      } else if (keyword === "type" && dialect.nullableTypes && Array.isArray(value)) {
+        const types = value.filter((type) => type !== "null");
+        if (types.length === 1) {
+          out.type = types[0];
+        } else {
+          drop("type");
+        }
+        if (types.length < value.length) {
+          out.nullable = true;
+        }
+      } else if (
+        keyword === "minItems" &&
+        dialect.maxMinItems !== undefined &&
+        typeof value === "number" &&
+        value > dialect.maxMinItems
+      ) {
+        drop(keyword);
+      } else {
+        out[keyword] = value;
+      }
+    }
+    return out;
+  };
+
+  return { schema: convert(schema, "", []) as T, droppedKeywords };
+}
+
+function resolveLocalRef(root: unknown, ref: string): Record<string, unknown> | undefined {
+  if (!ref.startsWith("#")) {
+    return undefined;
+  }
+  let node = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+    node = node && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined;
+  }
+  return node && typeof node === "object" && !Array.isArray(node)
+    ? (node as Record<string, unknown>)
+    : undefined;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** True when `value` implements the Standard Schema interface (`~standard`). */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  if (!value || (typeof value !== "object" && typeof value !== "function")) {
+    return false;
+  }
+  const standard = (value as Partial<StandardSchemaV1>)["~standard"];
+  return (
+    typeof standard === "object" &&
+    standard !== null &&
+    standard.version === 1 &&
+    typeof standard.validate === "function"
+  );
+}
+
+/**
+ * Derives the JSON Schema of a Standard Schema validator's output.
+ *
+ * Uses the Standard JSON Schema converter (`~standard.jsonSchema`, e.g. Zod
+ * 4.2+) when present, else a `toJsonSchema()` or `toJSONSchema()` method on
+ * the schema (e.g. ArkType). The top-level `$schema` keyword is removed since
+ * providers do not expect it.
+ *
+ * @returns The JSON schema, or undefined when the library offers no conversion
+ * @throws Whatever the library's converter throws for unrepresentable schemas
+ */
+export function standardSchemaToJsonSchema(
+  schema: StandardSchemaV1
+): Record<string, unknown> | undefined {
+  const withMethods = schema as StandardSchemaV1 & {
+    toJsonSchema?: () => unknown;
+    toJSONSchema?: () => unknown;
+  };
+  const converted = schema["~standard"].jsonSchema
+    ? schema["~standard"].jsonSchema.output({ target: STANDARD_JSON_SCHEMA_TARGET })
+    : typeof withMethods.toJsonSchema === "function"
+      ? withMethods.toJsonSchema()
+      : typeof withMethods.toJSONSchema === "function"
+        ? withMethods.toJSONSchema()
+        : undefined;
+  if (!converted || typeof converted !== "object" || Array.isArray(converted)) {
+    return undefined;
+  }
+  const { $schema: _dialect, ...jsonSchema } = converted as Record<string, unknown>;
+  return jsonSchema;
+}
+
 function walk(
   node: unknown,
   options: StrictSchemaOptions,
@@ -47,12 +47,20 @@ export interface SystemContentResult {
   useNativeSystemMessage: boolean;
 }
 
+/**
+ * Generic content part for multimodal messages. Only `text` parts are read or written.
+ */
+export interface GenericContentPart {
+  type: string;
+  text?: string;
+}
+
 /**
  * Generic message interface for system message handling
  */
 export interface GenericMessage {
   role: string;
-  content: string;
+  content: string | GenericContentPart[];
 }
 
 /**
@@ -204,11 +212,33 @@ export function prependSystemToFirstUserMessage<T extends GenericMessage>(
   const firstUserIndex = messages.findIndex((m) => m.role === "user");
 
   if (firstUserIndex !== -1) {
-    messages[firstUserIndex].content = formatSystemContentForPrepend(
-      systemContent,
-      messages[firstUserIndex].content,
-      options
-    );
+    const content = messages[firstUserIndex].content;
+    if (typeof content === "string") {
+      messages[firstUserIndex].content = formatSystemContentForPrepend(
+        systemContent,
+        content,
+        options
+      );
+    } else {
+      // Multimodal content: merge into a leading text part, or add one
+      const [first, ...rest] = content;
+      messages[firstUserIndex].content =
+        first?.type === "text" && typeof first.text === "string"
+          ? [
+              {
+                ...first,
+                text: formatSystemContentForPrepend(systemContent, first.text, options),
+              },
+              ...rest,
+            ]
+          : [
+              {
+                type: "text",
+                text: formatSystemContentForPrepend(systemContent, "", options),
+              },
+              ...content,
+            ];
+    }
     return firstUserIndex;
   }
 
@@ -251,7 +281,14 @@ export function processMessagesForSystemSupport<T extends GenericMessage>(
 
   for (const message of messages) {
     if (message.role === "system") {
-      inlineSystemMessages.push(message.content);
+      inlineSystemMessages.push(
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              .filter((part) => part.type === "text")
+              .map((part) => part.text ?? "")
+              .join("\n")
+      );
     } else {
       nonSystemMessages.push(message);
     }
@@ -0,0 +1,135 @@
+import {
+  createOpenAIChatToolChoice,
+  createOpenAIChatTools,
+  endStreamedToolCalls,
+  getCompletedStreamedToolCalls,
+  mapOpenAIChatToolCalls,
+  observeOpenAIChatToolCallDeltas,
+  parseToolArguments,
+  resolveToolResultName,
+  stringifyToolArguments,
+  type StreamedToolCalls,
+} from './toolCallUtils';
+import type { LLMMessage } from '../../llm/types';
+
+describe('toolCallUtils', () => {
+  describe('createOpenAIChatTools', () => {
+    it('defaults missing parameters to an empty object schema', () => {
+      expect(createOpenAIChatTools([{ name: 'ping' }])).toEqual([{
+        type: 'function',
+        function: {
+          name: 'ping',
+          parameters: { type: 'object', properties: {} },
+        },
+      }]);
+    });
+  });
+
+  describe('createOpenAIChatToolChoice', () => {
+    it('passes string choices through and wraps named choices', () => {
+      expect(createOpenAIChatToolChoice('required')).toBe('required');
+      expect(createOpenAIChatToolChoice({ name: 'ping' })).toEqual({
+        type: 'function',
+        function: { name: 'ping' },
+      });
+    });
+  });
+
+  describe('mapOpenAIChatToolCalls', () => {
+    it('returns undefined when there are no tool calls', () => {
+      expect(mapOpenAIChatToolCalls(undefined)).toBeUndefined();
+      expect(mapOpenAIChatToolCalls([])).toBeUndefined();
+    });
+
+    it('maps calls, serializes object arguments, and fills missing IDs', () => {
+      expect(mapOpenAIChatToolCalls([
+        { id: 'call_a', type: 'function', function: { name: 'a', arguments: '{"x":1}' } },
+        { type: 'function', function: { name: 'b', arguments: { y: 2 } } },
+        { type: 'function', function: {} },
+      ])).toEqual([
+        { id: 'call_a', name: 'a', arguments: '{"x":1}' },
+        { id: 'call_1', name: 'b', arguments: '{"y":2}' },
+      ]);
+    });
+  });
+
+  describe('stringifyToolArguments', () => {
+    it('keeps strings and serializes everything else', () => {
+      expect(stringifyToolArguments('{"a":1}')).toBe('{"a":1}');
+      expect(stringifyToolArguments({ a: 1 })).toBe('{"a":1}');
+      expect(stringifyToolArguments(undefined)).toBe('{}');
+    });
+  });
+
+  describe('parseToolArguments', () => {
+    it('parses JSON objects', () => {
+      expect(parseToolArguments('{"city":"Paris"}')).toEqual({ city: 'Paris' });
+      expect(parseToolArguments('  ')).toEqual({});
+    });
+
+    it('wraps non-object and invalid argument text', () => {
+      expect(parseToolArguments('[1,2]')).toEqual({ value: [1, 2] });
+      expect(parseToolArguments('not json')).toEqual({ arguments: 'not json' });
+    });
+  });
+
+  describe('resolveToolResultName', () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: 'Hi' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{}' }],
+      },
+      { role: 'tool', toolCallId: 'call_1', content: 'found' },
+      { role: 'tool', toolCallId: 'call_1', name: 'explicit', content: 'found' },
+      { role: 'tool', toolCallId: 'missing', content: 'found' },
+    ];
+
+    it('resolves the name from the matching assistant tool call', () => {
+      expect(resolveToolResultName(messages, 2)).toBe('lookup');
+    });
+
+    it('prefers an explicit name and returns undefined when unmatched', () => {
+      expect(resolveToolResultName(messages, 3)).toBe('explicit');
+      expect(resolveToolResultName(messages, 4)).toBeUndefined();
+    });
+  });
+
+  describe('observeOpenAIChatToolCallDeltas', () => {
+    it('replays arguments received before the name once the call starts', () => {
+      const calls: StreamedToolCalls = new Map();
+
+      expect(observeOpenAIChatToolCallDeltas(calls, 0, [
+        { index: 0, id: 'call_x', function: { arguments: '{"a":' } },
+      ])).toEqual([]);
+      expect(observeOpenAIChatToolCallDeltas(calls, 0, [
+        { index: 0, function: { name: 'lookup', arguments: '1}' } },
+      ])).toEqual([
+        { type: 'tool_call_start', index: 0, toolCallIndex: 0, id: 'call_x', name: 'lookup' },
+        { type: 'tool_call_arguments_delta', index: 0, toolCallIndex: 0, delta: '{"a":1}' },
+      ]);
+    });
+
+    it('ends earlier calls when a later call starts and reports only completed calls', () => {
+      const calls: StreamedToolCalls = new Map();
+      observeOpenAIChatToolCallDeltas(calls, 1, [
+        { index: 0, function: { name: 'first', arguments: '{}' } },
+      ]);
+
+      expect(observeOpenAIChatToolCallDeltas(calls, 1, [
+        { index: 1, id: 'call_y', function: { name: 'second', arguments: '' } },
+      ])).toEqual([
+        { type: 'tool_call_end', index: 1, toolCallIndex: 0 },
+        { type: 'tool_call_start', index: 1, toolCallIndex: 1, id: 'call_y', name: 'second' },
+      ]);
+      expect(getCompletedStreamedToolCalls(calls)).toEqual([
+        { id: 'call_0', name: 'first', arguments: '{}' },
+      ]);
+      expect(endStreamedToolCalls(calls, 1)).toEqual([
+        { type: 'tool_call_end', index: 1, toolCallIndex: 1 },
+      ]);
+      expect(endStreamedToolCalls(calls, 1)).toEqual([]);
+    });
+  });
+});
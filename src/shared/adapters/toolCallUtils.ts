@@ -0,0 +1,378 @@
+// AI Summary: Shared helpers for translating tool definitions, tool choices and tool calls.
+// Covers the OpenAI chat-completions wire shape (OpenAI, OpenRouter, llama.cpp) plus helpers used by all adapters.
+
+import type { AdapterLLMStreamEvent } from "../../llm/clients/types";
+import type {
+  LLMMessage,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition,
+  StructuredOutputSchema,
+} from "../../llm/types";
+
+interface UnknownRecord {
+  [key: string]: unknown;
+}
+
+/** Parameter schema used when a tool definition omits `parameters`. */
+export const EMPTY_TOOL_PARAMETERS: StructuredOutputSchema = {
+  type: "object",
+  properties: {},
+};
+
+/** OpenAI chat-completions tool definition. */
+export interface OpenAIChatTool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: StructuredOutputSchema;
+  };
+}
+
+/** OpenAI chat-completions tool choice. */
+export type OpenAIChatToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+/** OpenAI chat-completions assistant tool call. */
+export interface OpenAIChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** Adapter-side accumulation of one streamed tool call. */
+export interface StreamedToolCallState {
+  id: string;
+  name: string;
+  arguments: string;
+  started: boolean;
+  ended: boolean;
+}
+
+/** Streamed tool calls of one choice, keyed by their position. */
+export type StreamedToolCalls = Map<number, StreamedToolCallState>;
+
+/**
+ * Maps library tool definitions to OpenAI chat-completions `tools`.
+ */
+export function createOpenAIChatTools(
+  tools: readonly LLMToolDefinition[]
+): OpenAIChatTool[] {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      ...(tool.description !== undefined && { description: tool.description }),
+      parameters: tool.parameters ?? EMPTY_TOOL_PARAMETERS,
+    },
+  }));
+}
+
+/**
+ * Maps a library tool choice to OpenAI chat-completions `tool_choice`.
+ */
+export function createOpenAIChatToolChoice(
+  choice: LLMToolChoice
+): OpenAIChatToolChoice {
+  if (typeof choice === "string") {
+    return choice;
+  }
+  return { type: "function", function: { name: choice.name } };
+}
+
+/**
+ * Maps replayed assistant tool calls to the OpenAI chat-completions shape.
+ */
+export function createOpenAIChatToolCalls(
+  toolCalls: readonly LLMToolCall[]
+): OpenAIChatToolCall[] {
+  return toolCalls.map((call) => ({
+    id: call.id,
+    type: "function",
+    function: { name: call.name, arguments: call.arguments },
+  }));
+}
+
+/**
+ * Maps an OpenAI-shaped `message.tool_calls` array to library tool calls.
+ *
+ * Non-function entries are skipped. Object arguments (emitted by some
+ * OpenAI-compatible servers) are serialized so `arguments` is always a string.
+ *
+ * @returns Tool calls, or undefined when none are present
+ */
+export function mapOpenAIChatToolCalls(
+  toolCalls: unknown
+): LLMToolCall[] | undefined {
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+    return undefined;
+  }
+
+  const mapped = toolCalls.flatMap((entry, position): LLMToolCall[] => {
+    if (!isRecord(entry) || !isRecord(entry.function)) {
+      return [];
+    }
+    const name = entry.function.name;
+    if (typeof name !== "string" || name.length === 0) {
+      return [];
+    }
+    return [
+      {
+        id:
+          typeof entry.id === "string" && entry.id.length > 0
+            ? entry.id
+            : createToolCallId(position),
+        name,
+        arguments: stringifyToolArguments(entry.function.arguments),
+      },
+    ];
+  });
+  return mapped.length > 0 ? mapped : undefined;
+}
+
+/**
+ * Starts a streamed tool call and returns its `tool_call_start` event.
+ */
+export function startStreamedToolCall(
+  calls: StreamedToolCalls,
+  choiceIndex: number,
+  toolCallIndex: number,
+  id: string | undefined,
+  name: string
+): AdapterLLMStreamEvent {
+  const call = getStreamedToolCall(calls, toolCallIndex);
+  call.id = id && id.length > 0 ? id : createToolCallId(toolCallIndex);
+  call.name = name;
+  call.started = true;
+  return {
+    type: "tool_call_start",
+    index: choiceIndex,
+    toolCallIndex,
+    id: call.id,
+    name: call.name,
+  };
+}
+
+/**
+ * Appends an argument fragment to a started tool call.
+ *
+ * @returns The `tool_call_arguments_delta` event, or undefined for empty fragments
+ */
+export function appendStreamedToolCallArguments(
+  calls: StreamedToolCalls,
+  choiceIndex: number,
+  toolCallIndex: number,
+  delta: string
+): AdapterLLMStreamEvent | undefined {
+  if (delta.length === 0) {
+    return undefined;
+  }
+  getStreamedToolCall(calls, toolCallIndex).arguments += delta;
+  return {
+    type: "tool_call_arguments_delta",
+    index: choiceIndex,
+    toolCallIndex,
+    delta,
+  };
+}
+
+/**
+ * Ends started tool calls that are still open.
+ *
+ * @param beforeToolCallIndex - When set, only calls positioned before it end
+ * @returns One `tool_call_end` event per call, in position order
+ */
+export function endStreamedToolCalls(
+  calls: StreamedToolCalls,
+  choiceIndex: number,
+  beforeToolCallIndex?: number
+): AdapterLLMStreamEvent[] {
+  return Array.from(calls.entries())
+    .sort(([left], [right]) => left - right)
+    .filter(
+      ([position, call]) =>
+        call.started &&
+        !call.ended &&
+        (beforeToolCallIndex === undefined || position < beforeToolCallIndex)
+    )
+    .map(([position, call]) => {
+      call.ended = true;
+      return {
+        type: "tool_call_end" as const,
+        index: choiceIndex,
+        toolCallIndex: position,
+      };
+    });
+}
+
+/**
+ * Returns the tool calls whose arguments finished streaming.
+ */
+export function getCompletedStreamedToolCalls(
+  calls: StreamedToolCalls
+): LLMToolCall[] {
+  return Array.from(calls.entries())
+    .sort(([left], [right]) => left - right)
+    .filter(([, call]) => call.ended)
+    .map(([, call]) => ({
+      id: call.id,
+      name: call.name,
+      arguments: call.arguments,
+    }));
+}
+
+/**
+ * Accumulates an OpenAI-shaped `delta.tool_calls` chunk.
+ *
+ * A call starts once its name is known; argument fragments received earlier
+ * are replayed as one delta. Starting a call ends every open call before it,
+ * since providers stream calls one after another.
+ *
+ * @returns Tool-call stream events produced by this chunk
+ */
+export function observeOpenAIChatToolCallDeltas(
+  calls: StreamedToolCalls,
+  choiceIndex: number,
+  deltas: unknown
+): AdapterLLMStreamEvent[] {
+  if (!Array.isArray(deltas)) {
+    return [];
+  }
+
+  const events: AdapterLLMStreamEvent[] = [];
+  for (const [position, entry] of deltas.entries()) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+    const toolCallIndex =
+      typeof entry.index === "number" ? entry.index : position;
+    const call = getStreamedToolCall(calls, toolCallIndex);
+    const fn = isRecord(entry.function) ? entry.function : {};
+    if (typeof entry.id === "string" && entry.id.length > 0 && !call.started) {
+      call.id = entry.id;
+    }
+    const fragment =
+      fn.arguments === undefined || fn.arguments === null
+        ? ""
+        : stringifyToolArguments(fn.arguments);
+
+    if (call.started) {
+      const delta = appendStreamedToolCallArguments(
+        calls,
+        choiceIndex,
+        toolCallIndex,
+        fragment
+      );
+      if (delta) {
+        events.push(delta);
+      }
+      continue;
+    }
+
+    call.arguments += fragment;
+    if (typeof fn.name !== "string" || fn.name.length === 0) {
+      continue;
+    }
+    const buffered = call.arguments;
+    call.arguments = "";
+    events.push(
+      ...endStreamedToolCalls(calls, choiceIndex, toolCallIndex),
+      startStreamedToolCall(calls, choiceIndex, toolCallIndex, call.id, fn.name)
+    );
+    const delta = appendStreamedToolCallArguments(
+      calls,
+      choiceIndex,
+      toolCallIndex,
+      buffered
+    );
+    if (delta) {
+      events.push(delta);
+    }
+  }
+  return events;
+}
+
+/**
+ * Serializes provider-supplied arguments to the library's string form.
+ */
+export function stringifyToolArguments(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value === undefined || value === null) {
+    return "{}";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Parses tool-call argument text for providers that require an object
+ * (Anthropic `tool_use.input`, Gemini `functionCall.args`).
+ *
+ * Text that is not a JSON object is wrapped so it is never silently lost.
+ */
+export function parseToolArguments(text: string): Record<string, unknown> {
+  if (text.trim().length === 0) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isRecord(parsed) && !Array.isArray(parsed)
+      ? parsed
+      : { value: parsed };
+  } catch {
+    return { arguments: text };
+  }
+}
+
+/**
+ * Generates a deterministic call ID for providers that do not assign one.
+ */
+export function createToolCallId(position: number, prefix = "call"): string {
+  return `${prefix}_${position}`;
+}
+
+/**
+ * Resolves the tool name for a `tool` result message.
+ *
+ * Uses the message's own `name` when set, otherwise the most recent preceding
+ * assistant tool call with the same ID.
+ */
+export function resolveToolResultName(
+  messages: readonly LLMMessage[],
+  index: number
+): string | undefined {
+  const message = messages[index];
+  if (message?.name) {
+    return message.name;
+  }
+  for (let i = index - 1; i >= 0; i--) {
+    const match = messages[i].toolCalls?.find(
+      (call) => call.id === message?.toolCallId
+    );
+    if (match) {
+      return match.name;
+    }
+  }
+  return undefined;
+}
+
+function getStreamedToolCall(
+  calls: StreamedToolCalls,
+  toolCallIndex: number
+): StreamedToolCallState {
+  let call = calls.get(toolCallIndex);
+  if (!call) {
+    call = { id: "", name: "", arguments: "", started: false, ended: false };
+    calls.set(toolCallIndex, call);
+  }
+  return call;
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null;
+}
@@ -1,8 +1,11 @@
+import type { ModelInfo } from "../../llm/types";
 import {
+  computeUsageCost,
   createProviderOutputAccounting,
   mergeUsageRecords,
   normalizeTermination,
   normalizeUsage,
+  OPENAI_COMPATIBLE_USAGE_ALIASES,
 } from "./usageUtils";
 
 const aliases = {
@@ -193,4 +196,186 @@ describe("usageUtils", () => {
       kind: "tool_call",
     });
   });
+
+  it("reads nested reasoning aliases and records completion inclusion", () => {
+    expect(
+      normalizeUsage(
+        {
+          prompt_tokens: 10,
+          completion_tokens: 40,
+          total_tokens: 50,
+          completion_tokens_details: { reasoning_tokens: 30 },
+        },
+        OPENAI_COMPATIBLE_USAGE_ALIASES
+      )
+    ).toMatchObject({
+      usage: { completion_tokens: 40, reasoning_tokens: 30 },
+      usageEvidence: {
+        reasoning_tokens: {
+          source: "provider",
+          providerField: "completion_tokens_details.reasoning_tokens",
+          includedInCompletion: true,
+        },
+      },
+    });
+    expect(
+      normalizeUsage(
+        { prompt_tokens: 10, completion_tokens: 40 },
+        OPENAI_COMPATIBLE_USAGE_ALIASES
+      ).usage
+    ).not.toHaveProperty("reasoning_tokens");
+  });
+
+  describe("computeUsageCost", () => {
+    const model: ModelInfo = {
+      id: "priced",
+      name: "Priced",
+      providerId: "openai",
+      inputPrice: 2,
+      outputPrice: 8,
+      supportsImages: false,
+      supportsPromptCache: false,
+      reasoning: { supported: true, outputPrice: 10 },
+    };
+
+    it("returns undefined without complete usage or prices", () => {
+      expect(computeUsageCost(undefined, undefined, model, "r1")).toBeUndefined();
+      expect(
+        computeUsageCost({ prompt_tokens: 10 }, undefined, model, "r1")
+      ).toBeUndefined();
+      expect(
+        computeUsageCost(
+          { prompt_tokens: 10, completion_tokens: 5 },
+          undefined,
+          { ...model, outputPrice: undefined },
+          "r1"
+        )
+      ).toBeUndefined();
+    });
+
+    it("subtracts reasoning from output when completion already counts it", () => {
+      const cost = computeUsageCost(
+        { prompt_tokens: 1_000_000, completion_tokens: 400_000, reasoning_tokens: 100_000 },
+        {
+          reasoning_tokens: { source: "provider", includedInCompletion: true },
+        },
+        model,
+        "r1"
+      );
+
+      expect(cost).toEqual({
+        input: 2,
+        output: 2.4,
+        reasoning: 1,
+        cache: 0,
+        total: 5.4,
+        currency: "USD",
+        pricing: {
+          revision: "r1",
+          inputPrice: 2,
+          outputPrice: 8,
+          reasoningOutputPrice: 10,
+        },
+      });
+    });
+
+    it("bills separately reported reasoning in addition to output", () => {
+      const cost = computeUsageCost(
+        { prompt_tokens: 0, completion_tokens: 100_000, reasoning_tokens: 100_000 },
+        {
+          reasoning_tokens: { source: "provider", includedInCompletion: false },
+        },
+        { ...model, reasoning: undefined },
+        "r1"
+      );
+
+      expect(cost).toMatchObject({
+        output: 0.8,
+        reasoning: 0.8,
+        total: 1.6,
+        pricing: { reasoningOutputPrice: 8 },
+      });
+    });
+
+    it("scales every price by priceMultiplier", () => {
+      const cost = computeUsageCost(
+        { prompt_tokens: 1_000_000, completion_tokens: 100_000 },
+        undefined,
+        model,
+        "r1",
+        0.5
+      );
+
+      expect(cost).toMatchObject({
+        input: 1,
+        output: 0.4,
+        total: 1.4,
+        pricing: { inputPrice: 2, outputPrice: 8, priceMultiplier: 0.5 },
+      });
+    });
+  });
+
+  it("normalizes implicit cached prompt tokens as included in the prompt", () => {
+    const normalized = normalizeUsage(
+      {
+        prompt_tokens: 3000,
+        completion_tokens: 10,
+        prompt_tokens_details: { cached_tokens: 2048 },
+      },
+      OPENAI_COMPATIBLE_USAGE_ALIASES
+    );
+
+    expect(normalized.usage).toMatchObject({ cache_read_tokens: 2048 });
+    expect(normalized.usageEvidence?.cache_read_tokens).toEqual({
+      source: "provider",
+      providerField: "prompt_tokens_details.cached_tokens",
+      includedInPrompt: true,
+    });
+  });
+
+  describe("computeUsageCost with prompt caching", () => {
+    const cachedModel: ModelInfo = {
+      id: "cached",
+      name: "Cached",
+      providerId: "anthropic",
+      inputPrice: 3,
+      outputPrice: 15,
+      cacheWritesPrice: 3.75,
+      cacheReadsPrice: 0.3,
+      supportsImages: false,
+      supportsPromptCache: true,
+    };
+
+    it("bills cache tokens reported separately from the prompt", () => {
+      const cost = computeUsageCost(
+        {
+          prompt_tokens: 1_000_000,
+          completion_tokens: 0,
+          cache_creation_tokens: 1_000_000,
+          cache_read_tokens: 1_000_000,
+        },
+        {
+          cache_creation_tokens: { source: "provider", includedInPrompt: false },
+          cache_read_tokens: { source: "provider", includedInPrompt: false },
+        },
+        cachedModel,
+        "r1"
+      );
+
+      expect(cost).toMatchObject({ input: 3, cache: 4.05, total: 7.05 });
+      expect(cost?.pricing).toMatchObject({ cacheWritesPrice: 3.75, cacheReadsPrice: 0.3 });
+    });
+
+    it("subtracts cached reads already counted in the prompt", () => {
+      const cost = computeUsageCost(
+        { prompt_tokens: 1_000_000, completion_tokens: 0, cache_read_tokens: 600_000 },
+        { cache_read_tokens: { source: "provider", includedInPrompt: true } },
+        { ...cachedModel, cacheReadsPrice: undefined },
+        "r1"
+      );
+
+      // Without a cache read price, reads fall back to the input price
+      expect(cost).toMatchObject({ input: 1.2, cache: 1.8, total: 3 });
+    });
+  });
 });
@@ -1,17 +1,40 @@
 import type {
   LLMAnswerAccounting,
+  LLMCost,
   LLMTermination,
   LLMUsage,
   LLMUsageEvidence,
   LLMUsageFieldEvidence,
+  ModelInfo,
 } from "../../llm/types";
 
 export interface UsageAliases {
   prompt: readonly string[];
   completion: readonly string[];
   total: readonly string[];
+  /** Reasoning-token aliases; dotted paths read nested provider objects. */
+  reasoning?: readonly string[];
+  /** Whether the provider's completion count already includes reasoning. */
+  reasoningIncludedInCompletion?: boolean;
+  /** Prompt-cache write aliases. */
+  cacheCreation?: readonly string[];
+  /** Prompt-cache read aliases. */
+  cacheRead?: readonly string[];
+  /** Whether the provider's prompt count already includes cache tokens. */
+  cacheIncludedInPrompt?: boolean;
 }
 
+/** Usage aliases shared by OpenAI-compatible chat completion payloads. */
+export const OPENAI_COMPATIBLE_USAGE_ALIASES: UsageAliases = {
+  prompt: ["prompt_tokens"],
+  completion: ["completion_tokens"],
+  total: ["total_tokens"],
+  reasoning: ["completion_tokens_details.reasoning_tokens"],
+  reasoningIncludedInCompletion: true,
+  cacheRead: ["prompt_tokens_details.cached_tokens"],
+  cacheIncludedInPrompt: true,
+};
+
 export interface NormalizedUsage {
   usage?: LLMUsage;
   usageEvidence?: LLMUsageEvidence;
@@ -37,7 +60,13 @@ function readFiniteNumber(
   aliases: readonly string[]
 ): { value: number; field: string } | undefined {
   for (const field of aliases) {
-    const value = source[field];
+    let value: unknown = source;
+    for (const key of field.split(".")) {
+      value =
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
     if (typeof value === "number" && Number.isFinite(value)) {
       return { value, field };
     }
@@ -130,6 +159,15 @@ export function normalizeUsage(
   const prompt = readFiniteNumber(source, aliases.prompt);
   const completion = readFiniteNumber(source, aliases.completion);
   const providerTotal = readFiniteNumber(source, aliases.total);
+  const reasoning = aliases.reasoning
+    ? readFiniteNumber(source, aliases.reasoning)
+    : undefined;
+  const cacheCreation = aliases.cacheCreation
+    ? readFiniteNumber(source, aliases.cacheCreation)
+    : undefined;
+  const cacheRead = aliases.cacheRead
+    ? readFiniteNumber(source, aliases.cacheRead)
+    : undefined;
   const derivedTotal =
     providerTotal === undefined && prompt !== undefined && completion !== undefined
       ? prompt.value + completion.value
@@ -140,6 +178,9 @@ export function normalizeUsage(
     ...(completion && { completion_tokens: completion.value }),
     ...(providerTotal && { total_tokens: providerTotal.value }),
     ...(derivedTotal !== undefined && { total_tokens: derivedTotal }),
+    ...(reasoning && { reasoning_tokens: reasoning.value }),
+    ...(cacheCreation && { cache_creation_tokens: cacheCreation.value }),
+    ...(cacheRead && { cache_read_tokens: cacheRead.value }),
   };
 
   if (Object.keys(usage).length === 0) {
@@ -163,11 +204,126 @@ export function normalizeUsage(
     ...(derivedTotal !== undefined && {
       total_tokens: { source: "derived" as const },
     }),
+    ...(reasoning && {
+      reasoning_tokens: {
+        ...providerEvidence(reasoning.field),
+        includedInCompletion: aliases.reasoningIncludedInCompletion ?? false,
+      },
+    }),
+    ...(cacheCreation && {
+      cache_creation_tokens: {
+        ...providerEvidence(cacheCreation.field),
+        includedInPrompt: aliases.cacheIncludedInPrompt ?? false,
+      },
+    }),
+    ...(cacheRead && {
+      cache_read_tokens: {
+        ...providerEvidence(cacheRead.field),
+        includedInPrompt: aliases.cacheIncludedInPrompt ?? false,
+      },
+    }),
   };
 
   return { usage, usageEvidence };
 }
 
+/**
+ * Computes the monetary cost of one response from normalized usage.
+ *
+ * Returns undefined unless prompt and completion counts and the model's
+ * input/output prices are all known; partial costs would understate spend.
+ * Reasoning tokens are billed at reasoning.outputPrice (falling back to
+ * outputPrice) and subtracted from output when completion already counts them.
+ * Cache writes and reads are billed at the cache prices (falling back to
+ * inputPrice) and likewise subtracted from input when prompt counts them.
+ * `priceMultiplier` scales every price, e.g. 0.5 for discounted batch jobs.
+ */
+export function computeUsageCost(
+  usage: LLMUsage | undefined,
+  usageEvidence: LLMUsageEvidence | undefined,
+  modelInfo: ModelInfo | undefined,
+  revision: string,
+  priceMultiplier = 1
+): LLMCost | undefined {
+  const inputPrice = modelInfo?.inputPrice;
+  const outputPrice = modelInfo?.outputPrice;
+  if (
+    usage?.prompt_tokens === undefined ||
+    usage.completion_tokens === undefined ||
+    inputPrice === undefined ||
+    outputPrice === undefined
+  ) {
+    return undefined;
+  }
+
+  const reasoningOutputPrice =
+    modelInfo?.reasoning?.outputPrice ??
+    modelInfo?.thinkingConfig?.outputPrice ??
+    outputPrice;
+  const reasoningTokens = usage.reasoning_tokens ?? 0;
+  const outputTokens = usageEvidence?.reasoning_tokens?.includedInCompletion
+    ? Math.max(0, usage.completion_tokens - reasoningTokens)
+    : usage.completion_tokens;
+
+  const cacheWrites = usage.cache_creation_tokens ?? 0;
+  const cacheReads = usage.cache_read_tokens ?? 0;
+  const includedCacheTokens =
+    (usageEvidence?.cache_creation_tokens?.includedInPrompt ? cacheWrites : 0) +
+    (usageEvidence?.cache_read_tokens?.includedInPrompt ? cacheReads : 0);
+  const inputTokens = Math.max(0, usage.prompt_tokens - includedCacheTokens);
+
+  const input = (inputTokens * inputPrice * priceMultiplier) / 1_000_000;
+  const output = (outputTokens * outputPrice * priceMultiplier) / 1_000_000;
+  const reasoning =
+    (reasoningTokens * reasoningOutputPrice * priceMultiplier) / 1_000_000;
+  const cache =
+    ((cacheWrites * (modelInfo?.cacheWritesPrice ?? inputPrice) +
+      cacheReads * (modelInfo?.cacheReadsPrice ?? inputPrice)) *
+      priceMultiplier) /
+    1_000_000;
+
+  return {
+    input,
+    output,
+    reasoning,
+    cache,
+    total: input + output + reasoning + cache,
+    currency: "USD",
+    pricing: {
+      revision,
+      inputPrice,
+      outputPrice,
+      reasoningOutputPrice,
+      ...(modelInfo?.cacheWritesPrice !== undefined && {
+        cacheWritesPrice: modelInfo.cacheWritesPrice,
+      }),
+      ...(modelInfo?.cacheReadsPrice !== undefined && {
+        cacheReadsPrice: modelInfo.cacheReadsPrice,
+      }),
+      ...(priceMultiplier !== 1 && { priceMultiplier }),
+    },
+  };
+}
+
+const SUMMED_USAGE_FIELDS = [
+  "prompt_tokens",
+  "completion_tokens",
+  "total_tokens",
+  "reasoning_tokens",
+  "cache_creation_tokens",
+  "cache_read_tokens",
+] as const;
+
+/** Adds each reported usage field into a running total, in place. */
+export function addUsageTotals(total: LLMUsage, usage: LLMUsage | undefined): void {
+  for (const field of SUMMED_USAGE_FIELDS) {
+    const value = usage?.[field];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      total[field] = (total[field] ?? 0) + value;
+    }
+  }
+}
+
 /** Presence-aware merge for usage fragments received during streaming. */
 export function mergeUsageRecords(
   current: Record<string, unknown> | undefined,
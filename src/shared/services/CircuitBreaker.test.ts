@@ -0,0 +1,159 @@
+import {
+  CircuitBreaker,
+  type CircuitAcquireResult,
+  type CircuitPermit,
+  type CircuitStateChange,
+} from './CircuitBreaker';
+import { silentLogger } from '../../logging/defaultLogger';
+
+function permitOf(result: CircuitAcquireResult): CircuitPermit {
+  if (!('permit' in result)) {
+    throw new Error('expected a permit');
+  }
+  return result.permit;
+}
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let changes: CircuitStateChange[];
+  let breaker: CircuitBreaker;
+
+  const fail = (modelId = 'gpt-4.1') => permitOf(breaker.acquire('openai', modelId)).record('failure');
+
+  beforeEach(() => {
+    now = 1_000_000;
+    changes = [];
+    breaker = new CircuitBreaker({
+      failureThreshold: 3,
+      cooldownMs: 10_000,
+      now: () => now,
+      logger: silentLogger,
+      onStateChange: (change) => changes.push(change),
+    });
+  });
+
+  it('opens after consecutive failures and fails fast while open', () => {
+    fail();
+    fail();
+    expect(breaker.getState('openai', 'gpt-4.1')).toEqual({
+      key: 'openai/gpt-4.1',
+      state: 'closed',
+      consecutiveFailures: 2,
+    });
+
+    fail();
+
+    const result = breaker.acquire('openai', 'gpt-4.1');
+    expect(result).toEqual({
+      open: {
+        key: 'openai/gpt-4.1',
+        state: 'open',
+        consecutiveFailures: 3,
+        openedAt: 1_000_000,
+        retryAt: 1_010_000,
+      },
+    });
+    expect(changes).toEqual([
+      { key: 'openai/gpt-4.1', from: 'closed', to: 'open', consecutiveFailures: 3 },
+    ]);
+    // Other models are unaffected
+    expect(breaker.acquire('openai', 'gpt-4.1-mini')).toHaveProperty('permit');
+  });
+
+  it('resets the failure count on success', () => {
+    fail();
+    fail();
+    permitOf(breaker.acquire('openai', 'gpt-4.1')).record('success');
+    fail();
+
+    expect(breaker.getState('openai', 'gpt-4.1').state).toBe('closed');
+    expect(breaker.getState('openai', 'gpt-4.1').consecutiveFailures).toBe(1);
+  });
+
+  it('lets one probe through after the cool-down and closes on success', () => {
+    fail();
+    fail();
+    fail();
+    now += 10_000;
+
+    expect(breaker.getState('openai', 'gpt-4.1').state).toBe('half_open');
+    const probe = permitOf(breaker.acquire('openai', 'gpt-4.1'));
+    expect(probe.probe).toBe(true);
+    // Only one probe at a time
+    expect(breaker.acquire('openai', 'gpt-4.1')).toHaveProperty('open');
+
+    probe.record('success');
+
+    expect(breaker.getState('openai', 'gpt-4.1')).toEqual({
+      key: 'openai/gpt-4.1',
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+    expect(changes.map((change) => change.to)).toEqual(['open', 'half_open', 'closed']);
+  });
+
+  it('reopens when the probe fails', () => {
+    fail();
+    fail();
+    fail();
+    now += 10_000;
+
+    permitOf(breaker.acquire('openai', 'gpt-4.1')).record('failure');
+
+    expect(breaker.getState('openai', 'gpt-4.1')).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 4,
+      retryAt: 1_020_000,
+    });
+  });
+
+  it('frees the probe slot when its outcome is ignored', () => {
+    fail();
+    fail();
+    fail();
+    now += 10_000;
+
+    const probe = permitOf(breaker.acquire('openai', 'gpt-4.1'));
+    probe.record('ignored');
+    probe.record('failure');
+
+    expect(permitOf(breaker.acquire('openai', 'gpt-4.1')).probe).toBe(true);
+  });
+
+  it('does not let a call that started before opening close the circuit', () => {
+    const early = permitOf(breaker.acquire('openai', 'gpt-4.1'));
+    fail();
+    fail();
+    fail();
+    now += 10_000;
+
+    early.record('success');
+
+    expect(breaker.getState('openai', 'gpt-4.1').state).toBe('half_open');
+  });
+
+  it('resets circuits by provider, model or all', () => {
+    fail('a');
+    fail('b');
+    permitOf(breaker.acquire('anthropic', 'claude')).record('failure');
+
+    breaker.reset('openai', 'a');
+    expect(breaker.getStates().map((status) => status.key)).toEqual([
+      'openai/b',
+      'anthropic/claude',
+    ]);
+    breaker.reset('openai');
+    expect(breaker.getStates().map((status) => status.key)).toEqual(['anthropic/claude']);
+    breaker.reset();
+    expect(breaker.getStates()).toEqual([]);
+  });
+
+  it('validates options', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow(
+      'Circuit breaker failureThreshold must be a positive integer.'
+    );
+    expect(() => new CircuitBreaker({ cooldownMs: -1 })).toThrow(
+      'Circuit breaker cooldownMs must be a non-negative number.'
+    );
+  });
+});
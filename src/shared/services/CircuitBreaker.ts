@@ -0,0 +1,242 @@
+// AI Summary: Per provider/model circuit breaker. Opens after consecutive
+// retryable failures, fails fast while open, and lets one probe through once
+// the cool-down has passed. Used by LLMService around its retry layer.
+
+import type { Logger } from "../../logging/types";
+import { createDefaultLogger } from "../../logging/defaultLogger";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive retryable failures that open a circuit (default 5) */
+  failureThreshold?: number;
+  /** Time an open circuit waits before letting a probe through, in ms (default 30000) */
+  cooldownMs?: number;
+  /** Called after every state change, after it is logged. */
+  onStateChange?: (change: CircuitStateChange) => void;
+  logger?: Logger;
+  /** Clock for cool-downs (testing hook). */
+  now?: () => number;
+}
+
+/** Snapshot of one circuit. */
+export interface CircuitStatus {
+  /** "provider/model" */
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Epoch ms when the circuit last opened. */
+  openedAt?: number;
+  /** Epoch ms when an open circuit lets a probe through. */
+  retryAt?: number;
+}
+
+export interface CircuitStateChange {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  consecutiveFailures: number;
+}
+
+/**
+ * Outcome of a call made under a permit. Use "ignored" for calls that say
+ * nothing about provider health, such as aborts.
+ */
+export type CircuitOutcome = "success" | "failure" | "ignored";
+
+/**
+ * Permission to make one call. Call `record` exactly once when the call
+ * finishes; later calls are ignored.
+ */
+export interface CircuitPermit {
+  /** Whether this call is the half-open probe. */
+  probe: boolean;
+  record(outcome: CircuitOutcome): void;
+}
+
+/** Result of {@link CircuitBreaker.acquire}. */
+export type CircuitAcquireResult =
+  | { permit: CircuitPermit }
+  | { open: CircuitStatus };
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeInFlight: boolean;
+}
+
+/**
+ * Tracks provider health per "provider/model" key.
+ *
+ * A circuit opens after `failureThreshold` consecutive failures. While open,
+ * calls are refused until `cooldownMs` has passed; the next call is then let
+ * through as a probe (half-open) while others keep being refused. A
+ * successful probe closes the circuit, a failed one reopens it.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private onStateChange?: (change: CircuitStateChange) => void;
+  private logger: Logger;
+  private now: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    const failureThreshold = options.failureThreshold ?? 5;
+    const cooldownMs = options.cooldownMs ?? 30_000;
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+      throw new TypeError("Circuit breaker failureThreshold must be a positive integer.");
+    }
+    if (!Number.isFinite(cooldownMs) || cooldownMs < 0) {
+      throw new TypeError("Circuit breaker cooldownMs must be a non-negative number.");
+    }
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.onStateChange = options.onStateChange;
+    this.logger = options.logger ?? createDefaultLogger();
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns the circuit's current state. An open circuit whose cool-down has
+   * passed reports "half_open", since the next call would be let through.
+   */
+  getState(providerId: string, modelId: string): CircuitStatus {
+    const key = `${providerId}/${modelId}`;
+    return this.toStatus(key, this.circuits.get(key));
+  }
+
+  /** Returns every circuit that has recorded a failure since it last closed. */
+  getStates(): CircuitStatus[] {
+    return [...this.circuits.entries()].map(([key, circuit]) => this.toStatus(key, circuit));
+  }
+
+  /**
+   * Asks to make a call. Returns `{ open }` with the circuit's status when
+   * the call should fail fast.
+   */
+  acquire(providerId: string, modelId: string): CircuitAcquireResult {
+    const key = `${providerId}/${modelId}`;
+    const circuit = this.circuits.get(key);
+    let probe = false;
+
+    if (circuit?.state === "open") {
+      if (this.now() < circuit.openedAt! + this.cooldownMs) {
+        return { open: this.toStatus(key, circuit) };
+      }
+      this.transition(key, circuit, "half_open");
+    }
+    if (circuit?.state === "half_open") {
+      if (circuit.probeInFlight) {
+        return { open: this.toStatus(key, circuit) };
+      }
+      circuit.probeInFlight = true;
+      probe = true;
+    }
+
+    let recorded = false;
+    return {
+      permit: {
+        probe,
+        record: (outcome) => {
+          if (recorded) {
+            return;
+          }
+          recorded = true;
+          this.record(key, probe, outcome);
+        },
+      },
+    };
+  }
+
+  /** Closes one circuit, or all of them when no key is given. */
+  reset(providerId?: string, modelId?: string): void {
+    const keys =
+      providerId === undefined
+        ? [...this.circuits.keys()]
+        : [...this.circuits.keys()].filter(
+            (key) =>
+              key === `${providerId}/${modelId}` ||
+              (modelId === undefined && key.startsWith(`${providerId}/`))
+          );
+    for (const key of keys) {
+      const circuit = this.circuits.get(key)!;
+      this.circuits.delete(key);
+      if (circuit.state !== "closed") {
+        this.notify(key, circuit.state, "closed", 0);
+      }
+    }
+  }
+
+  private record(key: string, probe: boolean, outcome: CircuitOutcome): void {
+    const circuit = this.circuits.get(key);
+    if (probe && circuit) {
+      circuit.probeInFlight = false;
+    }
+
+    if (outcome === "success") {
+      if (circuit) {
+        // Only the probe may close a half-open circuit; a call that started
+        // before the circuit opened says nothing about recovery
+        if (circuit.state === "closed" || probe) {
+          this.circuits.delete(key);
+          if (circuit.state !== "closed") {
+            this.notify(key, circuit.state, "closed", 0);
+          }
+        }
+      }
+      return;
+    }
+    if (outcome === "ignored") {
+      return;
+    }
+
+    const current = circuit ?? { state: "closed" as const, consecutiveFailures: 0, probeInFlight: false };
+    this.circuits.set(key, current);
+    current.consecutiveFailures++;
+    if (
+      (current.state === "closed" && current.consecutiveFailures >= this.failureThreshold) ||
+      (current.state === "half_open" && probe)
+    ) {
+      current.openedAt = this.now();
+      this.transition(key, current, "open");
+    }
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    circuit.state = to;
+    this.notify(key, from, to, circuit.consecutiveFailures);
+  }
+
+  private notify(key: string, from: CircuitState, to: CircuitState, consecutiveFailures: number): void {
+    if (to === "open") {
+      this.logger.warn(
+        `Circuit for ${key} opened after ${consecutiveFailures} consecutive failures; ` +
+          `failing fast for ${this.cooldownMs}ms`
+      );
+    } else {
+      this.logger.info(`Circuit for ${key} is now ${to.replace("_", "-")} (was ${from.replace("_", "-")})`);
+    }
+    try {
+      this.onStateChange?.({ key, from, to, consecutiveFailures });
+    } catch (error) {
+      this.logger.warn(`Circuit breaker onStateChange callback failed for ${key}:`, error);
+    }
+  }
+
+  private toStatus(key: string, circuit: Circuit | undefined): CircuitStatus {
+    if (!circuit) {
+      return { key, state: "closed", consecutiveFailures: 0 };
+    }
+    const retryAt = circuit.state === "open" ? circuit.openedAt! + this.cooldownMs : undefined;
+    return {
+      key,
+      state: retryAt !== undefined && this.now() >= retryAt ? "half_open" : circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      ...(circuit.openedAt !== undefined && { openedAt: circuit.openedAt }),
+      ...(retryAt !== undefined && { retryAt }),
+    };
+  }
+}
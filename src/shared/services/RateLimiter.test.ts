@@ -0,0 +1,176 @@
+import { RateLimiter, type RateLimitAcquireResult, type RateLimitPermit } from './RateLimiter';
+
+function permitOf(result: RateLimitAcquireResult): RateLimitPermit {
+  if (!('permit' in result)) {
+    throw new Error('expected a permit');
+  }
+  return result.permit;
+}
+
+/** Resolves to whether the promise settled within the current tick */
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+  let settled = false;
+  void promise.then(() => {
+    settled = true;
+  });
+  await Promise.resolve();
+  await Promise.resolve();
+  return settled;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('grants calls without a matching limit immediately', async () => {
+    const limiter = new RateLimiter({ limits: { anthropic: { requestsPerMinute: 1 } } });
+
+    const result = await limiter.acquire('openai', 'gpt-4.1', { tokens: 1000 });
+
+    expect(permitOf(result).keys).toEqual([]);
+  });
+
+  it('queues requests beyond requestsPerMinute until the bucket refills', async () => {
+    const limiter = new RateLimiter({ limits: { openai: { requestsPerMinute: 2 } } });
+
+    await limiter.acquire('openai');
+    await limiter.acquire('openai');
+    const third = limiter.acquire('openai');
+
+    expect(await isSettled(third)).toBe(false);
+    expect(limiter.pending).toBe(1);
+
+    // One request refills every 30 s at 2 RPM
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(await isSettled(third)).toBe(false);
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(permitOf(await third).keys).toEqual(['openai']);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('charges estimated tokens and settles them against actual usage on release', async () => {
+    const limiter = new RateLimiter({ limits: { openai: { tokensPerMinute: 1000 } } });
+
+    const first = permitOf(await limiter.acquire('openai', 'gpt-4.1', { tokens: 800 }));
+    const second = limiter.acquire('openai', 'gpt-4.1', { tokens: 500 });
+    expect(await isSettled(second)).toBe(false);
+
+    // Only 100 tokens were really used, so 700 are refunded
+    first.release(100);
+    expect(permitOf(await second).tokens).toBe(500);
+  });
+
+  it('caps a request larger than the token bucket at its capacity', async () => {
+    const limiter = new RateLimiter({ limits: { openai: { tokensPerMinute: 100 } } });
+
+    const result = await limiter.acquire('openai', undefined, { tokens: 5000 });
+
+    expect(permitOf(result).tokens).toBe(5000);
+  });
+
+  it('enforces maxConcurrency and wakes waiters on release', async () => {
+    const limiter = new RateLimiter({ limits: { 'openai/gpt-4.1': { maxConcurrency: 1 } } });
+
+    const first = permitOf(await limiter.acquire('openai', 'gpt-4.1'));
+    const second = limiter.acquire('openai', 'gpt-4.1');
+    const otherModel = limiter.acquire('openai', 'gpt-4.1-mini');
+
+    expect(await isSettled(second)).toBe(false);
+    // A different model is not held up behind the saturated one
+    expect(await isSettled(otherModel)).toBe(true);
+
+    first.release();
+    first.release();
+    expect(permitOf(await second).keys).toEqual(['openai/gpt-4.1']);
+  });
+
+  it('requires both the provider and the model limit to have room', async () => {
+    const limiter = new RateLimiter({
+      limits: {
+        openai: { maxConcurrency: 1 },
+        'openai/gpt-4.1': { requestsPerMinute: 10 },
+      },
+    });
+
+    const first = permitOf(await limiter.acquire('openai', 'gpt-4.1'));
+    const second = limiter.acquire('openai', 'gpt-4.1-mini');
+
+    expect(first.keys).toEqual(['openai', 'openai/gpt-4.1']);
+    expect(await isSettled(second)).toBe(false);
+    first.release();
+    expect(permitOf(await second).keys).toEqual(['openai']);
+  });
+
+  it('serves waiters sharing a key in arrival order', async () => {
+    const limiter = new RateLimiter({ limits: { openai: { maxConcurrency: 1 } } });
+    const order: string[] = [];
+
+    const first = permitOf(await limiter.acquire('openai'));
+    const a = limiter.acquire('openai', undefined, { tokens: 10 }).then((r) => {
+      order.push('a');
+      return permitOf(r);
+    });
+    const b = limiter.acquire('openai').then((r) => {
+      order.push('b');
+      return permitOf(r);
+    });
+
+    first.release();
+    (await a).release();
+    await b;
+    expect(order).toEqual(['a', 'b']);
+  });
+
+  it('returns aborted when the signal fires while waiting and unblocks later waiters', async () => {
+    const limiter = new RateLimiter({ limits: { openai: { tokensPerMinute: 100 } } });
+    const controller = new AbortController();
+
+    await limiter.acquire('openai', undefined, { tokens: 100 });
+    const big = limiter.acquire('openai', undefined, {
+      tokens: 100,
+      signal: controller.signal,
+    });
+    const small = limiter.acquire('openai', undefined, { tokens: 10 });
+
+    // The small request waits behind the big one to keep the queue fair
+    await jest.advanceTimersByTimeAsync(6_000);
+    expect(await isSettled(small)).toBe(false);
+
+    controller.abort();
+    expect(await big).toEqual({ aborted: true });
+    expect(permitOf(await small).tokens).toBe(10);
+  });
+
+  it('returns aborted immediately for an already-aborted signal', async () => {
+    const limiter = new RateLimiter({ limits: { openai: { requestsPerMinute: 1 } } });
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await limiter.acquire('openai', undefined, { signal: controller.signal })).toEqual({
+      aborted: true,
+    });
+  });
+
+  it('validates limits and reports configured ones', () => {
+    const limiter = new RateLimiter();
+
+    expect(() => limiter.setLimit('openai', { requestsPerMinute: 0 })).toThrow(
+      "Rate limit 'openai' requestsPerMinute must be a positive number."
+    );
+    expect(() => limiter.setLimit('openai', { maxConcurrency: 1.5 })).toThrow(
+      "Rate limit 'openai' maxConcurrency must be an integer."
+    );
+
+    limiter.setLimit('openai', { requestsPerMinute: 60, maxConcurrency: 4 });
+    expect(limiter.getLimits()).toEqual({
+      openai: { requestsPerMinute: 60, maxConcurrency: 4 },
+    });
+    expect(limiter.removeLimit('openai')).toBe(true);
+    expect(limiter.getLimits()).toEqual({});
+  });
+});
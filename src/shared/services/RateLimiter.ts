@@ -0,0 +1,311 @@
+// AI Summary: Client-side rate limiter with per-key request/token buckets and
+// concurrency caps. Waiters queue FIFO and can be cancelled with an AbortSignal.
+// Shared by LLMService and ImageService.
+
+import type { Logger } from "../../logging/types";
+import { createDefaultLogger } from "../../logging/defaultLogger";
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Limits for one key. Omitted fields are unlimited.
+ */
+export interface RateLimit {
+  /** Requests started per minute */
+  requestsPerMinute?: number;
+  /** Estimated tokens (prompt + max output) started per minute */
+  tokensPerMinute?: number;
+  /** Requests in flight at once */
+  maxConcurrency?: number;
+}
+
+export interface RateLimiterOptions {
+  /**
+   * Limits keyed by provider ID (e.g. "openai") or "provider/model"
+   * (e.g. "openai/gpt-4.1"). A call must satisfy both its provider and its
+   * model limit.
+   */
+  limits?: Record<string, RateLimit>;
+  logger?: Logger;
+  /** Clock for bucket refills (testing hook). */
+  now?: () => number;
+}
+
+export interface RateLimitAcquireOptions {
+  /** Estimated token cost charged against tokensPerMinute. */
+  tokens?: number;
+  /** Stops waiting once aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A granted slot. Call `release` exactly once when the request finishes;
+ * later calls are ignored.
+ */
+export interface RateLimitPermit {
+  /** Limit keys this permit was charged against. */
+  keys: string[];
+  /** Tokens charged at acquisition. */
+  tokens: number;
+  /**
+   * Frees the concurrency slot. When `actualTokens` is given, the token
+   * buckets are refunded or charged the difference from the estimate.
+   */
+  release(actualTokens?: number): void;
+}
+
+/** Result of {@link RateLimiter.acquire}. */
+export type RateLimitAcquireResult =
+  | { permit: RateLimitPermit }
+  | { aborted: true };
+
+interface TokenBucket {
+  capacity: number;
+  level: number;
+  updatedAt: number;
+}
+
+interface LimitState {
+  limit: RateLimit;
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+  active: number;
+}
+
+interface Waiter {
+  keys: string[];
+  tokens: number;
+  grant: (permit: RateLimitPermit) => void;
+}
+
+/**
+ * Token-bucket rate limiter keyed by provider and model.
+ *
+ * Buckets refill continuously at their per-minute rate and start full. A
+ * single request never costs more tokens than a bucket holds, so oversized
+ * requests wait for a full bucket instead of forever.
+ *
+ * Waiters are served in arrival order. A waiter is only passed over when an
+ * earlier one is still blocked on a key it does not share, so a saturated
+ * model does not hold up calls to other models.
+ */
+export class RateLimiter {
+  private states = new Map<string, LimitState>();
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private logger: Logger;
+  private now: () => number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.logger = options.logger ?? createDefaultLogger();
+    this.now = options.now ?? Date.now;
+    for (const [key, limit] of Object.entries(options.limits ?? {})) {
+      this.setLimit(key, limit);
+    }
+  }
+
+  /** Adds or replaces the limit for a key. Replaced buckets start full. */
+  setLimit(key: string, limit: RateLimit): void {
+    for (const field of ["requestsPerMinute", "tokensPerMinute", "maxConcurrency"] as const) {
+      const value = limit[field];
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new TypeError(`Rate limit '${key}' ${field} must be a positive number.`);
+      }
+    }
+    if (limit.maxConcurrency !== undefined && !Number.isInteger(limit.maxConcurrency)) {
+      throw new TypeError(`Rate limit '${key}' maxConcurrency must be an integer.`);
+    }
+
+    const now = this.now();
+    const bucket = (capacity?: number): TokenBucket | undefined =>
+      capacity === undefined ? undefined : { capacity, level: capacity, updatedAt: now };
+    this.states.set(key, {
+      limit: { ...limit },
+      requests: bucket(limit.requestsPerMinute),
+      tokens: bucket(limit.tokensPerMinute),
+      active: this.states.get(key)?.active ?? 0,
+    });
+    this.drain();
+  }
+
+  removeLimit(key: string): boolean {
+    const removed = this.states.delete(key);
+    this.drain();
+    return removed;
+  }
+
+  getLimits(): Record<string, RateLimit> {
+    const limits: Record<string, RateLimit> = {};
+    for (const [key, state] of this.states) {
+      limits[key] = { ...state.limit };
+    }
+    return limits;
+  }
+
+  /** Number of calls waiting for a slot. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits until every limit covering the provider (and model, when given)
+   * has room, then charges one request and `tokens` against them.
+   *
+   * Returns `{ aborted: true }` instead of throwing when the signal fires
+   * while waiting. Calls with no matching limits are granted immediately.
+   */
+  acquire(
+    providerId: string,
+    modelId?: string,
+    options: RateLimitAcquireOptions = {}
+  ): Promise<RateLimitAcquireResult> {
+    const keys = [providerId, ...(modelId ? [`${providerId}/${modelId}`] : [])].filter((key) =>
+      this.states.has(key)
+    );
+    const tokens = Math.max(0, Math.ceil(options.tokens ?? 0));
+    const signal = options.signal;
+
+    if (signal?.aborted) {
+      return Promise.resolve({ aborted: true });
+    }
+
+    return new Promise<RateLimitAcquireResult>((resolve) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index === -1) {
+          return;
+        }
+        this.queue.splice(index, 1);
+        resolve({ aborted: true });
+        // The removed waiter may have been holding up later ones
+        this.drain();
+      };
+      const waiter: Waiter = {
+        keys,
+        tokens,
+        grant: (permit) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve({ permit });
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+      if (this.queue.includes(waiter)) {
+        this.logger.debug(`Rate limit reached for ${keys.join(", ")}; request queued`);
+      }
+    });
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const blocked = new Set<string>();
+    let nextWakeMs = Infinity;
+
+    for (const waiter of [...this.queue]) {
+      if (waiter.keys.some((key) => blocked.has(key))) {
+        waiter.keys.forEach((key) => blocked.add(key));
+        continue;
+      }
+      const waitMs = this.waitTime(waiter);
+      if (waitMs > 0) {
+        waiter.keys.forEach((key) => blocked.add(key));
+        nextWakeMs = Math.min(nextWakeMs, waitMs);
+        continue;
+      }
+      this.queue.splice(this.queue.indexOf(waiter), 1);
+      waiter.grant(this.charge(waiter));
+    }
+
+    // Concurrency waits are woken by release(); only refills need a timer
+    if (Number.isFinite(nextWakeMs)) {
+      this.timer = setTimeout(() => this.drain(), Math.ceil(nextWakeMs));
+      this.timer.unref?.();
+    }
+  }
+
+  /** Milliseconds until the waiter fits; Infinity when capped by concurrency. */
+  private waitTime(waiter: Waiter): number {
+    let waitMs = 0;
+    for (const key of waiter.keys) {
+      const state = this.states.get(key);
+      if (!state) {
+        continue;
+      }
+      if (state.limit.maxConcurrency !== undefined && state.active >= state.limit.maxConcurrency) {
+        return Infinity;
+      }
+      if (state.requests) {
+        waitMs = Math.max(waitMs, this.bucketWait(state.requests, 1));
+      }
+      if (state.tokens) {
+        waitMs = Math.max(waitMs, this.bucketWait(state.tokens, waiter.tokens));
+      }
+    }
+    return waitMs;
+  }
+
+  private bucketWait(bucket: TokenBucket, cost: number): number {
+    this.refill(bucket);
+    const needed = Math.min(cost, bucket.capacity) - bucket.level;
+    return needed <= 0 ? 0 : (needed * MINUTE_MS) / bucket.capacity;
+  }
+
+  private refill(bucket: TokenBucket): void {
+    const now = this.now();
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.level = Math.min(bucket.capacity, bucket.level + (elapsed * bucket.capacity) / MINUTE_MS);
+    bucket.updatedAt = now;
+  }
+
+  private charge(waiter: Waiter): RateLimitPermit {
+    const charged = new Map<LimitState, number>();
+    for (const key of waiter.keys) {
+      const state = this.states.get(key);
+      if (!state) {
+        continue;
+      }
+      state.active++;
+      if (state.requests) {
+        state.requests.level -= 1;
+      }
+      if (state.tokens) {
+        const cost = Math.min(waiter.tokens, state.tokens.capacity);
+        state.tokens.level -= cost;
+        charged.set(state, cost);
+      }
+    }
+
+    let released = false;
+    return {
+      keys: waiter.keys,
+      tokens: waiter.tokens,
+      release: (actualTokens?: number) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        for (const key of waiter.keys) {
+          const state = this.states.get(key);
+          if (!state) {
+            continue;
+          }
+          state.active = Math.max(0, state.active - 1);
+          const cost = charged.get(state);
+          if (state.tokens && cost !== undefined && actualTokens !== undefined) {
+            this.refill(state.tokens);
+            // Overshoot leaves the bucket in debt until it refills
+            const actual = Math.min(Math.max(0, actualTokens), state.tokens.capacity);
+            state.tokens.level = Math.min(state.tokens.capacity, state.tokens.level + cost - actual);
+          }
+        }
+        this.drain();
+      },
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { TypedEventEmitter } from './TypedEventEmitter';
+import type { Logger } from '../../logging/types';
+
+interface TestEvents {
+  tick: { count: number };
+  done: { ok: boolean };
+}
+
+describe('TypedEventEmitter', () => {
+  it('calls listeners in order until they unsubscribe', () => {
+    const emitter = new TypedEventEmitter<TestEvents>();
+    const calls: string[] = [];
+    const unsubscribe = emitter.on('tick', ({ count }) => calls.push(`a${count}`));
+    const second = ({ count }: { count: number }) => calls.push(`b${count}`);
+    emitter.on('tick', second);
+
+    emitter.emit('tick', { count: 1 });
+    unsubscribe();
+    emitter.emit('tick', { count: 2 });
+    emitter.off('tick', second);
+    emitter.emit('tick', { count: 3 });
+    emitter.emit('done', { ok: true });
+
+    expect(calls).toEqual(['a1', 'b1', 'b2']);
+  });
+
+  it('logs a throwing listener and still calls the others', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as Logger;
+    const emitter = new TypedEventEmitter<TestEvents>(logger);
+    const received: boolean[] = [];
+    emitter.on('done', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('done', ({ ok }) => received.push(ok));
+
+    expect(() => emitter.emit('done', { ok: true })).not.toThrow();
+    expect(received).toEqual([true]);
+    expect(logger.warn).toHaveBeenCalledWith("Listener for 'done' threw:", expect.any(Error));
+  });
+});
@@ -0,0 +1,53 @@
+// AI Summary: Minimal synchronous event emitter keyed by an event map, so each event name
+// carries its payload type. A throwing listener is logged and does not affect the caller
+// or the other listeners. Used by LLMService for its lifecycle events.
+
+import type { Logger } from "../../logging/types";
+
+export type EventListener<TPayload> = (payload: TPayload) => void;
+
+export class TypedEventEmitter<TEvents extends object> {
+  private listeners = new Map<keyof TEvents, Set<EventListener<never>>>();
+
+  constructor(private readonly logger?: Logger) {}
+
+  /** Subscribes to an event and returns a function that unsubscribes. */
+  on<K extends keyof TEvents>(
+    event: K,
+    listener: EventListener<TEvents[K]>
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof TEvents>(
+    event: K,
+    listener: EventListener<TEvents[K]>
+  ): void {
+    const listeners = this.listeners.get(event);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /** Calls the event's listeners in subscription order. */
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners] as EventListener<TEvents[K]>[]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger?.warn(`Listener for '${String(event)}' threw:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { CallTrace, traceAttempt, type Span, type SpanAttributeValue, type Tracer } from './tracing';
+
+interface RecordedSpan extends Span {
+  name: string;
+  parent?: RecordedSpan;
+  kind?: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+function createRecordingTracer() {
+  const spans: RecordedSpan[] = [];
+  const tracer: Tracer = {
+    startSpan(name, options, context) {
+      const span: RecordedSpan = {
+        name,
+        parent: context as RecordedSpan | undefined,
+        kind: options?.kind,
+        attributes: { ...options?.attributes },
+        ended: false,
+        setAttributes(attributes) {
+          Object.assign(span.attributes, attributes);
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        end() {
+          span.ended = true;
+        },
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+describe('tracing', () => {
+  it('is off without tracing options', async () => {
+    expect(CallTrace.start(undefined, 'chat', 'gpt-4.1')).toBeUndefined();
+    await expect(traceAttempt(undefined, 0, async (attemptId) => attemptId, () => ({ attributes: {} }))).resolves.toEqual(
+      expect.any(String)
+    );
+  });
+
+  it('parents attempt spans on the call span and counts retries', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const trace = CallTrace.start({ tracer, contextWithSpan: (span) => span }, 'chat', 'gpt-4.1', {
+      'gen_ai.provider.name': 'openai',
+      'gen_ai.request.seed': undefined,
+    })!;
+
+    for (const attempt of [0, 1]) {
+      await traceAttempt(trace, attempt, async () => 'ok', (result) => ({
+        attributes: { 'gen_ai.response.id': result },
+      }));
+    }
+    trace.end({ attributes: { 'gen_ai.usage.output_tokens': 5 } });
+    trace.end({ attributes: {}, error: { message: 'ignored' } });
+
+    const [call, first, second] = spans;
+    expect(call).toMatchObject({
+      name: 'chat gpt-4.1',
+      kind: 2,
+      ended: true,
+      attributes: {
+        'gen_ai.operation.name': 'chat',
+        'gen_ai.request.model': 'gpt-4.1',
+        'gen_ai.provider.name': 'openai',
+        'gen_ai.usage.output_tokens': 5,
+        'genai_lite.retry_count': 1,
+      },
+    });
+    expect(call.attributes).not.toHaveProperty('gen_ai.request.seed');
+    expect(call.status).toBeUndefined();
+    expect(first).toMatchObject({
+      name: 'chat gpt-4.1 attempt',
+      parent: call,
+      ended: true,
+      attributes: { 'genai_lite.attempt.index': 0, 'gen_ai.response.id': 'ok' },
+    });
+    expect(second.attributes['genai_lite.attempt.index']).toBe(1);
+    expect(first.attributes['genai_lite.attempt.id']).not.toBe(second.attributes['genai_lite.attempt.id']);
+  });
+
+  it('ends attempt spans as failures when the attempt throws', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const trace = CallTrace.start({ tracer }, 'chat', undefined)!;
+
+    await expect(
+      traceAttempt(trace, 0, async () => {
+        throw new TypeError('boom');
+      }, () => ({ attributes: {} }))
+    ).rejects.toThrow('boom');
+
+    expect(spans[0].name).toBe('chat');
+    expect(spans[1]).toMatchObject({
+      parent: undefined,
+      ended: true,
+      status: { code: 2, message: 'boom' },
+      attributes: { 'error.type': 'TypeError' },
+    });
+  });
+});
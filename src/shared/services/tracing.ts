@@ -0,0 +1,199 @@
+// AI Summary: OpenTelemetry-compatible tracing shared by LLMService and ImageService, without
+// depending on @opentelemetry/api. Declares the structural Tracer/Span subset genai-lite calls,
+// and CallTrace, which owns a logical call's span and starts one child span per physical attempt.
+
+import { randomUUID } from "node:crypto";
+
+/** Attribute value accepted by OpenTelemetry spans. */
+export type SpanAttributeValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | number[]
+  | boolean[];
+
+/** Span attributes; undefined values are left out. */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** The part of an `@opentelemetry/api` Span that genai-lite calls. */
+export interface Span {
+  setAttributes(attributes: Record<string, SpanAttributeValue>): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/** The part of an `@opentelemetry/api` Tracer that genai-lite calls. */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, SpanAttributeValue> },
+    context?: unknown
+  ): Span;
+}
+
+export interface TracingOptions {
+  /** An `@opentelemetry/api` Tracer, or any object with the same `startSpan`. */
+  tracer: Tracer;
+  /**
+   * Returns a context in which `span` is active, so attempt spans become its
+   * children. With @opentelemetry/api:
+   * `(span) => trace.setSpan(context.active(), span)`. Without it, attempt
+   * spans start in the tracer's active context.
+   */
+  contextWithSpan?: (span: Span) => unknown;
+  /**
+   * Record prompts and completions on spans as `gen_ai.input.messages` and
+   * `gen_ai.output.messages`. Off by default because they may hold personal data.
+   * @default false
+   */
+  captureContent?: boolean;
+}
+
+/** How a span finished: its result attributes and, for failures, the error. */
+export interface SpanOutcome {
+  attributes: SpanAttributes;
+  error?: { code?: string | number; message: string };
+}
+
+// Numeric values of @opentelemetry/api's SpanKind.CLIENT and SpanStatusCode.ERROR
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Spans of one logical call: the call span, named after the GenAI semantic
+ * conventions (`{operation} {model}`), and a child span per physical attempt.
+ */
+export class CallTrace {
+  private retries = 0;
+  private ended = false;
+
+  private constructor(
+    private readonly options: TracingOptions,
+    private readonly span: Span,
+    private readonly name: string
+  ) {}
+
+  /** Starts the call span, or returns undefined when tracing is off. */
+  static start(
+    options: TracingOptions | undefined,
+    operation: string,
+    model: string | undefined,
+    attributes: SpanAttributes = {}
+  ): CallTrace | undefined {
+    if (!options) {
+      return undefined;
+    }
+    const name = model ? `${operation} ${model}` : operation;
+    const span = options.tracer.startSpan(name, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: definedAttributes({
+        "gen_ai.operation.name": operation,
+        "gen_ai.request.model": model,
+        ...attributes,
+      }),
+    });
+    return new CallTrace(options, span, name);
+  }
+
+  get captureContent(): boolean {
+    return this.options.captureContent === true;
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    this.span.setAttributes(definedAttributes(attributes));
+  }
+
+  /** Starts the child span of a physical attempt; attempts after the first count as retries. */
+  startAttempt(attemptId: string, attempt: number): Span {
+    if (attempt > 0) {
+      this.retries++;
+    }
+    return this.options.tracer.startSpan(
+      `${this.name} attempt`,
+      {
+        kind: SPAN_KIND_CLIENT,
+        attributes: {
+          "genai_lite.attempt.id": attemptId,
+          "genai_lite.attempt.index": attempt,
+        },
+      },
+      this.options.contextWithSpan?.(this.span)
+    );
+  }
+
+  /** Ends the call span with the retry count. Later calls are ignored. */
+  end(outcome?: SpanOutcome): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.span.setAttributes({ "genai_lite.retry_count": this.retries });
+    endSpan(this.span, outcome);
+  }
+}
+
+/** Sets the outcome's attributes, marks failures with `error.type` and an error status, and ends the span. */
+export function endSpan(span: Span, outcome?: SpanOutcome): void {
+  if (outcome) {
+    span.setAttributes(
+      definedAttributes({
+        ...outcome.attributes,
+        ...(outcome.error && {
+          "error.type": String(outcome.error.code ?? "_OTHER"),
+        }),
+      })
+    );
+    if (outcome.error) {
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: outcome.error.message,
+      });
+    }
+  }
+  span.end();
+}
+
+/**
+ * Runs one physical attempt with a fresh attempt ID, inside a child span of
+ * `trace` when tracing is on. A thrown error ends the span as a failure and
+ * is rethrown.
+ */
+export async function traceAttempt<T>(
+  trace: CallTrace | undefined,
+  attempt: number,
+  run: (attemptId: string) => Promise<T>,
+  describe: (result: T) => SpanOutcome
+): Promise<T> {
+  const attemptId = randomUUID();
+  if (!trace) {
+    return run(attemptId);
+  }
+  const span = trace.startAttempt(attemptId, attempt);
+  try {
+    const result = await run(attemptId);
+    endSpan(span, describe(result));
+    return result;
+  } catch (error) {
+    endSpan(span, {
+      attributes: {},
+      error: {
+        code: error instanceof Error ? error.name : undefined,
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+}
+
+function definedAttributes(
+  attributes: SpanAttributes
+): Record<string, SpanAttributeValue> {
+  const defined: Record<string, SpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  }
+  return defined;
+}
@@ -165,6 +165,30 @@ describe('withRetry', () => {
     expect(attempts).toEqual([0, 1, 2]);
   });
 
+  it('reports each scheduled retry to onRetry', async () => {
+    const op = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: false, retryAfterMs: 300 })
+      .mockResolvedValueOnce({ ok: false })
+      .mockResolvedValueOnce({ ok: true });
+    const onRetry = jest.fn();
+
+    const promise = withRetry<Result>(op, retryOnFailure, {
+      maxRetries: 2,
+      initialDelayMs: 100,
+      onRetry,
+    });
+
+    await jest.advanceTimersByTimeAsync(300);
+    await jest.advanceTimersByTimeAsync(200);
+    await promise;
+
+    expect(onRetry.mock.calls).toEqual([
+      [{ attempt: 0, delayMs: 300, verdict: { retry: true, retryAfterMs: 300 }, result: { ok: false, retryAfterMs: 300 } }],
+      [{ attempt: 1, delayMs: 200, verdict: { retry: true, retryAfterMs: undefined }, result: { ok: false } }],
+    ]);
+  });
+
   it('uses sensible defaults', () => {
     expect(DEFAULT_RETRY_POLICY).toEqual({
       maxRetries: 2,
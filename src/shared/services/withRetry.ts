@@ -35,13 +35,28 @@ export interface RetryVerdict {
   retryAfterMs?: number;
 }
 
-export interface WithRetryOptions extends Partial<RetryPolicy> {
+/**
+ * A scheduled retry, as passed to WithRetryOptions.onRetry.
+ */
+export interface RetryInfo<T = unknown> {
+  /** 0-based index of the attempt that failed */
+  attempt: number;
+  /** Wait before the next attempt, in ms */
+  delayMs: number;
+  verdict: RetryVerdict;
+  /** Result of the failed attempt */
+  result: T;
+}
+
+export interface WithRetryOptions<T = unknown> extends Partial<RetryPolicy> {
   /** Abort signal — no further retries (or waits) once aborted */
   signal?: AbortSignal;
   /** Logger for retry warnings */
   logger?: Logger;
   /** Label used in log messages (e.g. "openai/gpt-4.1") */
   label?: string;
+  /** Called before waiting for each retry, after the warning is logged */
+  onRetry?: (retry: RetryInfo<T>) => void;
 }
 
 /**
@@ -58,13 +73,13 @@ export interface WithRetryOptions extends Partial<RetryPolicy> {
  *
  * @param operation - The operation to run; receives the 0-based attempt index
  * @param shouldRetry - Inspects a result and decides whether to retry
- * @param options - Policy overrides, abort signal, logger
+ * @param options - Policy overrides, abort signal, logger, retry hook
  * @returns The final result (successful, non-retryable, or last exhausted attempt)
  */
 export async function withRetry<T>(
   operation: (attempt: number) => Promise<T>,
   shouldRetry: (result: T) => RetryVerdict,
-  options?: WithRetryOptions
+  options?: WithRetryOptions<T>
 ): Promise<T> {
   const policy: RetryPolicy = {
     maxRetries: options?.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
@@ -96,6 +111,7 @@ export async function withRetry<T>(
       `Retrying${options.label ? ` ${options.label}` : ''} after failure ` +
         `(attempt ${attempt + 2}/${policy.maxRetries + 1}, waiting ${Math.round(delayMs)}ms)`
     );
+    options?.onRetry?.({ attempt, delayMs, verdict, result });
 
     const aborted = await sleepUnlessAborted(delayMs, options?.signal);
     if (aborted) {
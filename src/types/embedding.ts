@@ -0,0 +1,281 @@
+/**
+ * Type definitions for the embedding API
+ *
+ * This module contains all types for the EmbeddingService and embedding adapters.
+ */
+
+import type { Logger, LogLevel } from '../logging/types';
+import type { RetryPolicy } from '../shared/services/withRetry';
+import type { PresetMode } from '../types';
+
+/**
+ * Embedding provider ID type - represents a unique identifier for an embedding provider
+ */
+export type EmbeddingProviderId = string;
+
+/**
+ * Settings that control the returned vectors
+ */
+export interface EmbeddingSettings {
+  /**
+   * Requested output dimensionality. Only honored by models with
+   * `supportsDimensions`; must not exceed the model's native dimensions.
+   */
+  dimensions?: number;
+  /**
+   * L2-normalize every vector to unit length before returning it. Applied
+   * client-side, so it behaves the same for every provider (useful for Gemini
+   * and Matryoshka-truncated vectors, which are not normalized by the API).
+   */
+  normalize?: boolean;
+}
+
+/**
+ * Base embedding request shared by direct and preset-based requests
+ */
+export interface EmbeddingRequestBase {
+  /** Text to embed; an array embeds each entry as its own vector */
+  input: string | string[];
+  /** Optional settings (merged over preset settings) */
+  settings?: EmbeddingSettings;
+}
+
+/**
+ * Embedding request with explicit provider and model
+ */
+export interface EmbeddingRequest extends EmbeddingRequestBase {
+  /** Provider to use */
+  providerId: EmbeddingProviderId;
+  /** Model to use */
+  modelId: string;
+}
+
+/**
+ * Embedding request that resolves provider and model from a preset
+ */
+export interface EmbeddingRequestWithPreset extends EmbeddingRequestBase {
+  /** Preset ID to use */
+  presetId: string;
+  /** Optional provider override (ignored when presetId is set) */
+  providerId?: EmbeddingProviderId;
+  /** Optional model override (ignored when presetId is set) */
+  modelId?: string;
+}
+
+/**
+ * A single embedding vector
+ */
+export interface EmbeddingVector {
+  /** Position of the corresponding entry in the request input */
+  index: number;
+  /** The embedding values */
+  embedding: number[];
+}
+
+/**
+ * Token usage for an embedding request
+ */
+export interface EmbeddingUsage {
+  /** Input tokens consumed (absent when the provider does not report usage) */
+  inputTokens?: number;
+}
+
+/**
+ * Successful embedding response
+ */
+export interface EmbeddingResponse {
+  /** Response type discriminator */
+  object: 'embedding.result';
+  /** Unix timestamp (seconds) when the response was created */
+  created: number;
+  /** Provider that produced the embeddings */
+  providerId: EmbeddingProviderId;
+  /** Model that produced the embeddings */
+  modelId: string;
+  /** One vector per input entry, in input order */
+  data: EmbeddingVector[];
+  /** Token usage, summed across all provider calls for this request */
+  usage?: EmbeddingUsage;
+}
+
+/**
+ * Error response from the embedding service
+ */
+export interface EmbeddingFailureResponse {
+  /** Response type discriminator */
+  object: 'error';
+  /** Provider ID that attempted the request */
+  providerId: EmbeddingProviderId;
+  /** Model ID that was requested (if available) */
+  modelId?: string;
+  /** Error details */
+  error: {
+    /** Error message */
+    message: string;
+    /** Error code */
+    code?: string | number;
+    /** Error type (authentication_error, rate_limit_error, etc.) */
+    type?: string;
+    /** HTTP status code reported by the provider, when available */
+    status?: number;
+    /** Provider-suggested wait before retrying, in ms (from a Retry-After header) */
+    retryAfterMs?: number;
+    /** Parameter that caused the error (if applicable) */
+    param?: string;
+    /** Original provider error (for debugging) */
+    providerError?: any;
+  };
+}
+
+/**
+ * Information about an embedding model
+ */
+export interface EmbeddingModelInfo {
+  /** Unique identifier for the model */
+  id: string;
+  /** Provider that offers this model */
+  providerId: EmbeddingProviderId;
+  /** Human-readable display name */
+  displayName: string;
+  /** Optional description of the model */
+  description?: string;
+  /**
+   * Native vector length. Undefined when it depends on the model loaded by
+   * the server (llama.cpp).
+   */
+  dimensions?: number;
+  /** Maximum tokens accepted per input entry (undefined when server-defined) */
+  maxInputTokens?: number;
+  /** Maximum input entries per provider call; larger batches are split */
+  maxBatchSize?: number;
+  /** Whether the model accepts a reduced output dimensionality */
+  supportsDimensions: boolean;
+}
+
+/**
+ * Information about an embedding provider
+ */
+export interface EmbeddingProviderInfo {
+  /** Unique identifier for the provider */
+  id: EmbeddingProviderId;
+  /** Human-readable display name */
+  displayName: string;
+  /** Optional description of the provider */
+  description?: string;
+  /** Available models from this provider */
+  models?: EmbeddingModelInfo[];
+  /**
+   * Accept model IDs that are not listed in `models` (e.g. llama.cpp, where
+   * the server decides which model is loaded)
+   */
+  allowUnknownModels?: boolean;
+}
+
+/**
+ * Preset configuration for embeddings
+ */
+export interface EmbeddingPreset {
+  /** Unique identifier for the preset */
+  id: string;
+  /** Human-readable display name */
+  displayName: string;
+  /** Optional description of the preset's intended use case */
+  description?: string;
+  /** Provider to use */
+  providerId: EmbeddingProviderId;
+  /** Model to use */
+  modelId: string;
+  /** Default settings for this preset */
+  settings?: EmbeddingSettings;
+}
+
+/**
+ * Configuration for an embedding provider adapter
+ */
+export interface EmbeddingProviderAdapterConfig {
+  /** Base URL for the provider API */
+  baseURL?: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Logger instance for adapter logging */
+  logger?: Logger;
+}
+
+/**
+ * Interface that all embedding provider adapters must implement
+ */
+export interface EmbeddingProviderAdapter {
+  /** Unique identifier for this adapter */
+  readonly id: EmbeddingProviderId;
+
+  /**
+   * Embeds one batch of inputs. The service splits requests larger than the
+   * model's maxBatchSize and normalizes vectors itself, so adapters only
+   * translate a single provider call.
+   *
+   * @param config - Embedding configuration
+   * @returns Promise resolving to the vectors (in input order) or throwing an error
+   */
+  embed(config: {
+    modelId: string;
+    input: string[];
+    /** Requested output dimensionality, only set for models that support it */
+    dimensions?: number;
+    apiKey: string | null;
+    /** Abort signal for request-side cancellation (optional) */
+    signal?: AbortSignal;
+    /** Per-request timeout override in ms; adapters fall back to their construction-time default when undefined */
+    timeoutMs?: number;
+  }): Promise<{ embeddings: number[][]; usage?: EmbeddingUsage }>;
+
+  /**
+   * Optional API key validation
+   *
+   * @param apiKey - The API key to validate
+   * @returns true if valid format
+   */
+  validateApiKey?(apiKey: string): boolean;
+}
+
+/**
+ * Options for EmbeddingService constructor
+ */
+export interface EmbeddingServiceOptions {
+  /** Custom presets to use */
+  presets?: EmbeddingPreset[];
+  /** How to handle custom presets (extend defaults or replace them) */
+  presetMode?: PresetMode;
+  /** Custom provider adapters to register */
+  adapters?: Record<EmbeddingProviderId, EmbeddingProviderAdapter>;
+  /** Override default base URLs per provider */
+  baseUrls?: Record<EmbeddingProviderId, string>;
+  /** Log level for filtering messages. Defaults to GENAI_LITE_LOG_LEVEL env var or 'warn'. */
+  logLevel?: LogLevel;
+  /** Custom logger implementation. If provided, logLevel is ignored. */
+  logger?: Logger;
+  /**
+   * Retry policy for transient failures (rate limits, 5xx, network, timeouts).
+   * Embedding calls are idempotent, so every provider is retried. Defaults:
+   * maxRetries 2, initialDelayMs 500, maxDelayMs 10000, backoffFactor 2,
+   * retryOnTimeout true. Set maxRetries: 0 to disable.
+   */
+  retry?: Partial<RetryPolicy> & { retryOnTimeout?: boolean };
+}
+
+/**
+ * Per-call options for EmbeddingService.embed
+ */
+export interface EmbedOptions {
+  /**
+   * Abort signal to cancel the request. Aborted requests surface as
+   * REQUEST_ABORTED / abort_error failures.
+   */
+  signal?: AbortSignal;
+  /**
+   * Per-request timeout in ms, applied to each provider call. Timeouts
+   * surface as REQUEST_TIMEOUT / timeout_error failures.
+   */
+  timeoutMs?: number;
+  /** Per-request retry cap (overrides the service-level retry.maxRetries) */
+  maxRetries?: number;
+}
@@ -7,6 +7,8 @@
 
 import type { Logger, LogLevel } from '../logging/types';
 import type { RetryPolicy } from '../shared/services/withRetry';
+import type { RateLimiter } from '../shared/services/RateLimiter';
+import type { TracingOptions } from '../shared/services/tracing';
 
 /**
  * Image provider ID type - represents a unique identifier for an image generation provider
@@ -462,6 +464,18 @@ export interface ImageServiceOptions {
    * blind retry would start a second GPU generation) are never retried.
    */
   retry?: Partial<RetryPolicy> & { retryOnTimeout?: boolean };
+  /**
+   * Client-side limiter keyed by image provider ID (e.g. 'openai-images') or
+   * 'provider/model'. Pass the same instance as LLMService to share limits.
+   * Each attempt, including retries, waits for a slot before dispatch.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * OpenTelemetry-compatible tracer. Each generateImage call gets a span with
+   * GenAI semantic-convention attributes, and each attempt a child span.
+   * Pass the same options as LLMService to trace both.
+   */
+  tracing?: TracingOptions;
 }
 
 /**